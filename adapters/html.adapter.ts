@@ -9,6 +9,7 @@
  */
 
 import type { GEOPipelineOutput } from '../core/pipeline/geoPipeline';
+import { explainProvenance } from '../core/rules/provenance';
 
 /**
  * Converts GEO pipeline output to HTML fragment format.
@@ -91,6 +92,15 @@ export function toHTML(output: GEOPipelineOutput): string {
   sections.push('</section>');
   sections.push('');
 
+  // Per-location sections (multi-location businesses only)
+  sections.push(...renderLocations(output));
+
+  // Service area landing pages
+  sections.push(...renderServiceAreaPages(output));
+
+  // Industry-specific sections (only present when enabled for the detected industry)
+  sections.push(...renderIndustrySections(output));
+
   // Schema.org JSON-LD section
   sections.push('<!-- Schema.org JSON-LD -->');
   sections.push('<script type="application/ld+json">');
@@ -98,9 +108,236 @@ export function toHTML(output: GEOPipelineOutput): string {
   sections.push('</script>');
   sections.push('');
 
+  // Provenance section (editorial review only, not for publishing)
+  sections.push(...renderProvenance(output));
+
   return sections.join('\n');
 }
 
+/**
+ * Renders per-branch content as HTML fragments, one article per location.
+ * Each article carries its own title/meta as comments for the branch page head.
+ */
+function renderLocations(output: GEOPipelineOutput): string[] {
+  if (!output.locationContent) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push('<!-- Locations -->');
+  lines.push('<section class="geo-locations">');
+  lines.push('  <h2>Locations</h2>');
+
+  for (const location of output.locationContent.locations) {
+    lines.push(`  <article class="geo-location" data-location-id="${escapeHtml(location.locationId)}">`);
+    lines.push(`    <!-- title: ${escapeHtml(location.titleMeta.title)} -->`);
+    lines.push(`    <!-- meta description: ${escapeHtml(location.titleMeta.metaDescription)} -->`);
+    lines.push(`    <h3>${escapeHtml(location.locationName)}</h3>`);
+    lines.push(`    <p class="geo-answer-capsule">${escapeHtml(location.answerCapsule.capsule)}</p>`);
+
+    if (location.faq.schemaReady.length > 0) {
+      lines.push('    <dl class="geo-faq">');
+      for (const faq of location.faq.schemaReady) {
+        lines.push(`      <dt>${escapeHtml(faq.question)}</dt>`);
+        lines.push(`      <dd>${escapeHtml(faq.answer)}</dd>`);
+      }
+      lines.push('    </dl>');
+    }
+
+    lines.push('  </article>');
+  }
+
+  lines.push('</section>');
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Renders each service-area landing page as an article with its own
+ * Service/FAQPage JSON-LD, ready to be split out into separate pages.
+ */
+function renderServiceAreaPages(output: GEOPipelineOutput): string[] {
+  if (!output.serviceAreaPages) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push('<!-- Service Area Pages -->');
+  lines.push('<section class="geo-service-area-pages">');
+
+  for (const page of output.serviceAreaPages.pages) {
+    lines.push(`  <article class="geo-service-area-page" data-slug="${escapeHtml(page.slug)}">`);
+    lines.push(`    <!-- title: ${escapeHtml(page.title)} -->`);
+    lines.push(`    <!-- meta description: ${escapeHtml(page.metaDescription)} -->`);
+    lines.push(`    <h2>${escapeHtml(page.service)} in ${escapeHtml(page.area)}</h2>`);
+    lines.push(`    <p class="geo-answer-capsule">${escapeHtml(page.answerCapsule)}</p>`);
+    lines.push(`    <p>${escapeHtml(page.description)}</p>`);
+
+    if (page.faqs.length > 0) {
+      lines.push('    <dl class="geo-faq">');
+      for (const faq of page.faqs) {
+        lines.push(`      <dt>${escapeHtml(faq.question)}</dt>`);
+        lines.push(`      <dd>${escapeHtml(faq.answer)}</dd>`);
+      }
+      lines.push('    </dl>');
+    }
+
+    lines.push('    <script type="application/ld+json">');
+    lines.push(page.jsonLd);
+    lines.push('    </script>');
+    lines.push('  </article>');
+  }
+
+  lines.push('</section>');
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Renders industry-specific sections as HTML fragments.
+ * Returns an empty list when no industry generators ran.
+ */
+function renderIndustrySections(output: GEOPipelineOutput): string[] {
+  const lines: string[] = [];
+
+  if (output.propertyMarketData) {
+    const data = output.propertyMarketData;
+    lines.push('<!-- Property Market Data -->');
+    lines.push('<section class="geo-industry geo-property-market-data">');
+    lines.push(`  <h2>Property Market Data: ${escapeHtml(data.location)}</h2>`);
+    lines.push('  <dl>');
+    lines.push(`    <dt>Median Home Price</dt><dd>$${data.marketOverview.medianHomePrice.toLocaleString('en-US')}</dd>`);
+    lines.push(`    <dt>Year-over-Year Change</dt><dd>${data.marketOverview.yearOverYearChange}%</dd>`);
+    lines.push(`    <dt>Average Days on Market</dt><dd>${data.marketOverview.averageDaysOnMarket}</dd>`);
+    lines.push(`    <dt>Active Listings</dt><dd>${data.marketOverview.activeListings}</dd>`);
+    lines.push(`    <dt>Market Type</dt><dd>${escapeHtml(data.marketOverview.marketType)}</dd>`);
+    lines.push('  </dl>');
+    if (data.hotAreas.length > 0) {
+      lines.push('  <h3>Hot Areas</h3>');
+      lines.push('  <ul>');
+      for (const area of data.hotAreas) {
+        lines.push(`    <li data-demand="${escapeHtml(area.demandLevel)}">${escapeHtml(area.name)}</li>`);
+      }
+      lines.push('  </ul>');
+    }
+    lines.push(`  <p class="geo-disclaimer">${escapeHtml(data.disclaimer)}</p>`);
+    lines.push('</section>');
+    lines.push('');
+  }
+
+  if (output.permitsAndCodes) {
+    const data = output.permitsAndCodes;
+    lines.push('<!-- Permits & Building Codes -->');
+    lines.push('<section class="geo-industry geo-permits-and-codes">');
+    lines.push(`  <h2>Permits &amp; Building Codes: ${escapeHtml(data.jurisdiction)}</h2>`);
+    for (const permit of data.permits) {
+      lines.push('  <article class="geo-permit">');
+      lines.push(`    <h3>${escapeHtml(permit.permitType)}</h3>`);
+      lines.push(`    <p>${escapeHtml(permit.description)}</p>`);
+      lines.push(`    <p>Processing time: ${escapeHtml(permit.processingTime)}. Issued by ${escapeHtml(permit.issuingAuthority)}.</p>`);
+      lines.push('  </article>');
+    }
+    lines.push(`  <p class="geo-disclaimer">${escapeHtml(data.disclaimer)}</p>`);
+    lines.push('</section>');
+    lines.push('');
+  }
+
+  if (output.localCourtProcess) {
+    const data = output.localCourtProcess;
+    lines.push('<!-- Local Court Process -->');
+    lines.push('<section class="geo-industry geo-local-court-process">');
+    lines.push(`  <h2>Local Court Process: ${escapeHtml(data.jurisdiction)}</h2>`);
+    for (const practice of data.practiceAreas) {
+      lines.push(`  <h3>${escapeHtml(practice.area)}</h3>`);
+      lines.push('  <ol>');
+      for (const step of practice.procedures) {
+        lines.push(`    <li><strong>${escapeHtml(step.name)}</strong>: ${escapeHtml(step.description)}</li>`);
+      }
+      lines.push('  </ol>');
+    }
+    lines.push(`  <p class="geo-disclaimer">${escapeHtml(data.disclaimer)}</p>`);
+    lines.push('</section>');
+    lines.push('');
+  }
+
+  if (output.firstTimeBuyerPrograms) {
+    const data = output.firstTimeBuyerPrograms;
+    const programs = [...data.federalPrograms, ...data.statePrograms, ...data.localPrograms];
+    lines.push('<!-- First-Time Buyer Programs -->');
+    lines.push('<section class="geo-industry geo-first-time-buyer-programs">');
+    lines.push(`  <h2>First-Time Buyer Programs: ${escapeHtml(data.location)}</h2>`);
+    lines.push('  <ul>');
+    for (const program of programs) {
+      lines.push(`    <li data-level="${escapeHtml(program.level)}"><strong>${escapeHtml(program.name)}</strong>: ${escapeHtml(program.benefits.join('; '))}</li>`);
+    }
+    lines.push('  </ul>');
+    lines.push(`  <p class="geo-disclaimer">${escapeHtml(data.disclaimer)}</p>`);
+    lines.push('</section>');
+    lines.push('');
+  }
+
+  if (output.seasonalClimate) {
+    const data = output.seasonalClimate;
+    lines.push('<!-- Seasonal & Climate Guide -->');
+    lines.push('<section class="geo-industry geo-seasonal-climate">');
+    lines.push(`  <h2>Seasonal &amp; Climate Guide: ${escapeHtml(data.location)}</h2>`);
+    for (const timing of data.seasonalTimings) {
+      lines.push(`  <h3 data-season="${escapeHtml(timing.season)}">${escapeHtml(timing.months.join(', '))}</h3>`);
+      lines.push('  <ul>');
+      for (const service of timing.services) {
+        lines.push(`    <li data-priority="${escapeHtml(service.priority)}">${escapeHtml(service.name)}: ${escapeHtml(service.reason)}</li>`);
+      }
+      lines.push('  </ul>');
+    }
+    lines.push(`  <p class="geo-disclaimer">${escapeHtml(data.disclaimer)}</p>`);
+    lines.push('</section>');
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Renders the provenance ledger as a review table.
+ * Marked with data-geo-review so it can be stripped before publishing.
+ */
+function renderProvenance(output: GEOPipelineOutput): string[] {
+  const explanations = explainProvenance(output);
+  if (explanations.length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push('<!-- Provenance (review only) -->');
+  lines.push('<section class="geo-provenance" data-geo-review="true">');
+  lines.push('  <h2>Provenance</h2>');
+  lines.push('  <table>');
+  lines.push('    <thead><tr><th>Output</th><th>Text</th><th>Backed By</th></tr></thead>');
+  lines.push('    <tbody>');
+
+  for (const explanation of explanations) {
+    const backedBy = explanation.traced
+      ? explanation.backedBy
+        .map(field => `<code title="${escapeHtml(field.value)}">${escapeHtml(field.pointer)}</code>`)
+        .join(', ')
+      : '<strong>Not traced</strong>';
+    const status = explanation.traced ? 'traced' : 'untraced';
+    lines.push(
+      `      <tr data-provenance="${status}"><td><code>${escapeHtml(explanation.location)}</code></td>` +
+      `<td>${escapeHtml(explanation.text)}</td><td>${backedBy}</td></tr>`
+    );
+  }
+
+  lines.push('    </tbody>');
+  lines.push('  </table>');
+  lines.push('</section>');
+  lines.push('');
+
+  return lines;
+}
+
 /**
  * Escapes HTML special characters to prevent XSS.
  */
@@ -9,6 +9,7 @@
  */
 
 import type { GEOPipelineOutput } from '../core/pipeline/geoPipeline';
+import { explainProvenance } from '../core/rules/provenance';
 
 /**
  * Converts GEO pipeline output to Markdown format.
@@ -119,6 +120,12 @@ export function toMarkdown(output: GEOPipelineOutput): string {
     sections.push('');
   }
 
+  // Per-location sections (multi-location businesses only)
+  sections.push(...renderLocations(output));
+
+  // Service area landing pages
+  sections.push(...renderServiceAreaPages(output));
+
   // Schema section
   sections.push('---');
   sections.push('');
@@ -138,6 +145,9 @@ export function toMarkdown(output: GEOPipelineOutput): string {
     sections.push('');
   }
 
+  // Industry-specific sections (only present when enabled for the detected industry)
+  sections.push(...renderIndustrySections(output));
+
   // Sources section
   sections.push('---');
   sections.push('');
@@ -148,9 +158,264 @@ export function toMarkdown(output: GEOPipelineOutput): string {
   }
   sections.push('');
 
+  // Claim verification section
+  sections.push(...renderClaimVerification(output));
+
+  // Provenance section
+  sections.push(...renderProvenance(output));
+
   return sections.join('\n');
 }
 
+/**
+ * Renders per-branch title/meta, answer capsule and FAQs.
+ * Returns an empty list for single-location businesses.
+ */
+function renderLocations(output: GEOPipelineOutput): string[] {
+  if (!output.locationContent) {
+    return [];
+  }
+
+  const lines: string[] = ['---', '', '## Locations', ''];
+
+  for (const location of output.locationContent.locations) {
+    lines.push(`### ${location.locationName}`, '');
+    lines.push(`**Title:** ${location.titleMeta.title}`, '');
+    lines.push(`**Meta Description:** ${location.titleMeta.metaDescription}`, '');
+    lines.push(location.answerCapsule.capsule, '');
+
+    if (location.faq.schemaReady.length > 0) {
+      lines.push('**FAQs:**', '');
+      for (const faq of location.faq.schemaReady) {
+        lines.push(`- **${faq.question}** ${faq.answer}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Renders one block per service-area landing page, followed by any
+ * near-duplicate pages the generator reported.
+ */
+function renderServiceAreaPages(output: GEOPipelineOutput): string[] {
+  if (!output.serviceAreaPages) {
+    return [];
+  }
+
+  const lines: string[] = ['---', '', '## Service Area Pages', ''];
+
+  for (const page of output.serviceAreaPages.pages) {
+    lines.push(`### ${page.service} in ${page.area}`, '');
+    lines.push(`**Slug:** \`${page.slug}\``, '');
+    lines.push(`**Title:** ${page.title}`, '');
+    lines.push(`**Meta Description:** ${page.metaDescription}`, '');
+    lines.push(page.answerCapsule, '');
+    lines.push(page.description, '');
+
+    if (page.faqs.length > 0) {
+      lines.push('**FAQs:**', '');
+      for (const faq of page.faqs) {
+        lines.push(`- **${faq.question}** ${faq.answer}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (output.serviceAreaPages.nearDuplicates.length > 0) {
+    lines.push('### Near-Duplicate Pages', '');
+    lines.push('These pages differ only by area or service name. Add area-specific input (case studies, branch details, testimonials) before publishing:', '');
+    for (const duplicate of output.serviceAreaPages.nearDuplicates) {
+      lines.push(`- \`${duplicate.slugs[0]}\` / \`${duplicate.slugs[1]}\` (${Math.round(duplicate.similarity * 100)}% similar)`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Renders industry-specific sections as Markdown.
+ * Returns an empty list when no industry generators ran.
+ */
+function renderIndustrySections(output: GEOPipelineOutput): string[] {
+  const lines: string[] = [];
+
+  if (output.propertyMarketData) {
+    const data = output.propertyMarketData;
+    lines.push('---', '', `## Property Market Data: ${data.location}`, '');
+    lines.push(`- **Median Home Price:** ${formatCurrency(data.marketOverview.medianHomePrice)}`);
+    lines.push(`- **Year-over-Year Change:** ${data.marketOverview.yearOverYearChange}%`);
+    lines.push(`- **Average Days on Market:** ${data.marketOverview.averageDaysOnMarket}`);
+    lines.push(`- **Active Listings:** ${data.marketOverview.activeListings}`);
+    lines.push(`- **Market Type:** ${data.marketOverview.marketType}`);
+    lines.push('');
+    if (data.hotAreas.length > 0) {
+      lines.push('### Hot Areas', '');
+      for (const area of data.hotAreas) {
+        lines.push(`- **${area.name}** (${area.demandLevel} demand): ${formatCurrency(area.medianPrice)} median, ${area.priceGrowth}% growth`);
+      }
+      lines.push('');
+    }
+    lines.push(`*${data.disclaimer}*`, '');
+  }
+
+  if (output.permitsAndCodes) {
+    const data = output.permitsAndCodes;
+    lines.push('---', '', `## Permits & Building Codes: ${data.jurisdiction}`, '');
+    for (const permit of data.permits) {
+      lines.push(`### ${permit.permitType}`, '');
+      lines.push(permit.description, '');
+      lines.push(`- **Required For:** ${permit.requiredFor.join(', ')}`);
+      lines.push(`- **Estimated Cost:** ${permit.estimatedCost}`);
+      lines.push(`- **Processing Time:** ${permit.processingTime}`);
+      lines.push(`- **Issuing Authority:** ${permit.issuingAuthority}`);
+      lines.push('');
+    }
+    if (data.buildingCodes.length > 0) {
+      lines.push('### Building Codes', '');
+      for (const code of data.buildingCodes) {
+        lines.push(`- **${code.codeType}** (${code.version})`);
+      }
+      lines.push('');
+    }
+    lines.push(`*${data.disclaimer}*`, '');
+  }
+
+  if (output.localCourtProcess) {
+    const data = output.localCourtProcess;
+    lines.push('---', '', `## Local Court Process: ${data.jurisdiction}`, '');
+    lines.push(`**Court System:** ${data.courtSystem}`, '');
+    for (const practice of data.practiceAreas) {
+      lines.push(`### ${practice.area}`, '');
+      lines.push(`Typical duration: ${practice.typicalDuration}`, '');
+      for (const step of practice.procedures) {
+        lines.push(`${step.stepNumber}. **${step.name}** (${step.typicalTimeline}): ${step.description}`);
+      }
+      lines.push('');
+    }
+    if (data.importantDeadlines.length > 0) {
+      lines.push('### Important Deadlines', '');
+      for (const deadline of data.importantDeadlines) {
+        lines.push(`- **${deadline.name}:** ${deadline.description}`);
+      }
+      lines.push('');
+    }
+    lines.push(`*${data.disclaimer}*`, '');
+  }
+
+  if (output.firstTimeBuyerPrograms) {
+    const data = output.firstTimeBuyerPrograms;
+    lines.push('---', '', `## First-Time Buyer Programs: ${data.location}`, '');
+    const programGroups = [
+      { heading: 'Federal Programs', programs: data.federalPrograms },
+      { heading: 'State Programs', programs: data.statePrograms },
+      { heading: 'Local Programs', programs: data.localPrograms },
+    ];
+    for (const group of programGroups) {
+      if (group.programs.length === 0) continue;
+      lines.push(`### ${group.heading}`, '');
+      for (const program of group.programs) {
+        const maxAmount = program.maxAmount ? ` (up to ${program.maxAmount})` : '';
+        lines.push(`- **${program.name}** [${program.type}]${maxAmount}: ${program.benefits.join('; ')}`);
+      }
+      lines.push('');
+    }
+    lines.push(`*${data.disclaimer}*`, '');
+  }
+
+  if (output.seasonalClimate) {
+    const data = output.seasonalClimate;
+    lines.push('---', '', `## Seasonal & Climate Guide: ${data.location}`, '');
+    lines.push(`**Climate Zone:** ${data.climateZone.zone}`, '');
+    for (const timing of data.seasonalTimings) {
+      lines.push(`### ${capitalize(timing.season)} (${timing.months.join(', ')})`, '');
+      for (const service of timing.services) {
+        lines.push(`- **${service.name}** [${service.priority}]: ${service.reason}`);
+      }
+      lines.push('');
+    }
+    lines.push(`*${data.disclaimer}*`, '');
+  }
+
+  return lines;
+}
+
+/**
+ * Renders claims that could not be traced back to BusinessInput.
+ * Omitted when every claim was traced.
+ */
+function renderClaimVerification(output: GEOPipelineOutput): string[] {
+  const verification = output.claimVerification;
+  if (!verification || verification.valid) {
+    return [];
+  }
+
+  const lines: string[] = ['---', '', '## Untraceable Claims', ''];
+  lines.push('The following claims could not be traced back to the input data. Verify or remove them before publishing:');
+  lines.push('');
+  for (const violation of verification.violations) {
+    const rule = violation.rule ? ` (${violation.rule})` : '';
+    lines.push(`- **${violation.token}**${rule} in \`${violation.path}\`: ${violation.text}`);
+  }
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Renders the provenance ledger as a review table.
+ * Untraced text is listed first so editors can audit it before publishing.
+ */
+function renderProvenance(output: GEOPipelineOutput): string[] {
+  const explanations = explainProvenance(output);
+  if (explanations.length === 0) {
+    return [];
+  }
+
+  const untracedCount = explanations.filter(e => !e.traced).length;
+  const lines: string[] = ['---', '', '## Provenance', ''];
+  lines.push(`${explanations.length} generated strings, ${untracedCount} not traced to a BusinessInput field.`);
+  lines.push('');
+  lines.push('| Output | Text | Backed By |');
+  lines.push('| --- | --- | --- |');
+
+  for (const explanation of explanations) {
+    const backedBy = explanation.traced
+      ? explanation.backedBy.map(field => `\`${field.pointer}\``).join(', ')
+      : '**Not traced**';
+    lines.push(
+      `| \`${explanation.location}\` | ${escapeTableCell(explanation.text)} | ${backedBy} |`
+    );
+  }
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Escapes pipe characters and newlines so text fits in a table cell.
+ */
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Formats a whole-dollar amount for display.
+ */
+function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString('en-US')}`;
+}
+
+/**
+ * Capitalizes the first letter of a word.
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
 /**
  * Validates that required content blocks are present.
  * Fails loudly if any are missing.
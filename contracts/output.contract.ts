@@ -124,16 +124,117 @@ export interface LocalBusinessSchemaContract {
   openingHours?: string;
 }
 
+/**
+ * Parent Organization for multi-location businesses.
+ */
+export interface OrganizationSchemaContract {
+  '@type': 'Organization';
+  '@id': string;
+  name: string;
+  legalName?: string;
+  url?: string;
+  subOrganization: Array<{ '@id': string }>;
+}
+
+/**
+ * Branch LocalBusiness linked to its parent Organization.
+ */
+export interface BranchLocalBusinessSchemaContract {
+  '@type': 'LocalBusiness';
+  '@id': string;
+  name: string;
+  url?: string;
+  telephone?: string;
+  email?: string;
+  address: {
+    '@type': 'PostalAddress';
+    streetAddress?: string;
+    addressLocality: string;
+    addressRegion?: string;
+    postalCode?: string;
+    addressCountry: string;
+  };
+  areaServed?: Array<{
+    '@type': 'City';
+    name: string;
+  }>;
+  hasOfferCatalog?: LocalBusinessSchemaContract['hasOfferCatalog'];
+  openingHours?: string;
+  parentOrganization: { '@id': string };
+}
+
 /**
  * Schema output including JSON-LD string.
  */
 export interface SchemaContract {
   localBusiness: LocalBusinessSchemaContract;
+  organization?: OrganizationSchemaContract;
+  branches?: BranchLocalBusinessSchemaContract[];
   jsonLd: string;
   validationNotes: string[];
   sources: string[];
 }
 
+/**
+ * Per-branch content for one location of a multi-location business.
+ */
+export interface LocationContentItemContract {
+  locationId: string;
+  locationName: string;
+  titleMeta: TitleMetaContract;
+  answerCapsule: AnswerCapsuleContract;
+  faq: FAQContract;
+}
+
+/**
+ * Location content output (multi-location businesses only).
+ */
+export interface LocationContentContract {
+  locations: LocationContentItemContract[];
+  sources: string[];
+}
+
+/**
+ * Landing page package for one service area × primary service.
+ */
+export interface ServiceAreaPageContract {
+  slug: string;
+  area: string;
+  service: string;
+  servedFrom: string;
+  title: string;
+  metaDescription: string;
+  answerCapsule: string;
+  description: string;
+  faqs: FAQItem[];
+  schema: {
+    '@type': 'Service';
+    name: string;
+    serviceType: string;
+    provider: {
+      '@type': 'LocalBusiness';
+      name: string;
+      url?: string;
+      telephone?: string;
+    };
+    areaServed: {
+      '@type': 'City';
+      name: string;
+    };
+  };
+  jsonLd: string;
+  uniqueness: number;
+}
+
+/**
+ * Service-area landing pages output.
+ */
+export interface ServiceAreaPagesContract {
+  pages: ServiceAreaPageContract[];
+  nearDuplicates: Array<{ slugs: [string, string]; similarity: number }>;
+  sources: string[];
+}
+
 // ============================================================
 // NEW GENERATOR OUTPUT CONTRACTS (5 Generic Content Generators)
 // ============================================================
@@ -506,6 +607,50 @@ export interface SeasonalClimateContract {
   sources: string[];
 }
 
+/**
+ * Provenance for a single generated string (or one sentence of it).
+ */
+export interface ProvenanceEntryContract {
+  /** JSON pointer to the string within the pipeline output */
+  path: string;
+  /** Zero-based sentence index, present only for multi-sentence strings */
+  sentence?: number;
+  text: string;
+  /** JSON pointers into BusinessInput that back this text */
+  fields: string[];
+}
+
+/**
+ * Field-level provenance ledger for a pipeline output.
+ */
+export interface ProvenanceContract {
+  entries: ProvenanceEntryContract[];
+  /** BusinessInput values referenced by entries, keyed by JSON pointer */
+  inputValues: Record<string, string>;
+}
+
+/**
+ * A generated claim that could not be traced back to BusinessInput.
+ */
+export interface ClaimViolationContract {
+  kind: string;
+  /** Forbidden inference the claim breaks (null for bare numbers) */
+  rule: string | null;
+  token: string;
+  /** JSON pointer to the string within the pipeline output */
+  path: string;
+  text: string;
+}
+
+/**
+ * Result of the post-generation claim check.
+ */
+export interface ClaimVerificationContract {
+  valid: boolean;
+  violations: ClaimViolationContract[];
+  stringsChecked: number;
+}
+
 /**
  * Complete GEO pipeline output contract.
  * This is the canonical shape that all adapters must consume.
@@ -522,6 +667,8 @@ export interface GEOOutputContract {
   testimonials?: TestimonialContract;
   faq: FAQContract;
   schema: SchemaContract;
+  locationContent?: LocationContentContract;
+  serviceAreaPages?: ServiceAreaPagesContract;
   // Industry-specific generators (conditional based on detected industry)
   propertyMarketData?: PropertyMarketDataContract;
   permitsAndCodes?: PermitsAndCodesContract;
@@ -529,6 +676,8 @@ export interface GEOOutputContract {
   firstTimeBuyerPrograms?: FirstTimeBuyerProgramsContract;
   seasonalClimate?: SeasonalClimateContract;
   allSources: string[];
+  provenance?: ProvenanceContract;
+  claimVerification?: ClaimVerificationContract;
 }
 
 /**
@@ -552,6 +701,262 @@ export function isValidGEOOutput(output: unknown): output is GEOOutputContract {
   );
 }
 
+/**
+ * Validates a single output section, returning errors if invalid.
+ * Each generator in the registry names the validator for its section.
+ */
+export type SectionValidator = (section: unknown) => string[];
+
+/**
+ * Narrows a section to a record, or returns null if it is not an object.
+ */
+function asRecord(section: unknown): Record<string, unknown> | null {
+  return section && typeof section === 'object'
+    ? (section as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Checks the fields shared by every industry-specific section.
+ */
+function validateIndustrySection(
+  key: string,
+  section: unknown,
+  locationField: 'location' | 'jurisdiction'
+): string[] {
+  const s = asRecord(section);
+  if (!s) return [`${key} must be an object`];
+
+  const errors: string[] = [];
+  if (typeof s[locationField] !== 'string') errors.push(`${key}.${locationField} must be a string`);
+  if (typeof s.disclaimer !== 'string') errors.push(`${key}.disclaimer must be a string`);
+  if (!Array.isArray(s.sources)) errors.push(`${key}.sources must be an array`);
+  return errors;
+}
+
+export const validateTitleMetaSection: SectionValidator = section => {
+  const t = asRecord(section);
+  if (!t) return ['titleMeta must be an object'];
+
+  const errors: string[] = [];
+  if (typeof t.title !== 'string') errors.push('titleMeta.title must be a string');
+  if (typeof t.metaDescription !== 'string') errors.push('titleMeta.metaDescription must be a string');
+  return errors;
+};
+
+export const validateAnswerCapsuleSection: SectionValidator = section => {
+  const a = asRecord(section);
+  if (!a) return ['answerCapsule must be an object'];
+
+  const errors: string[] = [];
+  if (typeof a.capsule !== 'string') errors.push('answerCapsule.capsule must be a string');
+  if (!a.structuredAnswer || typeof a.structuredAnswer !== 'object') {
+    errors.push('answerCapsule.structuredAnswer must be an object');
+  }
+  return errors;
+};
+
+export const validateServiceDescriptionsSection: SectionValidator = section => {
+  const s = asRecord(section);
+  if (!s) return ['serviceDescriptions must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(s.services)) errors.push('serviceDescriptions.services must be an array');
+  if (!s.summary || typeof s.summary !== 'object') {
+    errors.push('serviceDescriptions.summary must be an object');
+  }
+  return errors;
+};
+
+export const validateWhyChooseUsSection: SectionValidator = section => {
+  const w = asRecord(section);
+  if (!w) return ['whyChooseUs must be an object'];
+
+  const errors: string[] = [];
+  if (typeof w.summary !== 'string') errors.push('whyChooseUs.summary must be a string');
+  if (!Array.isArray(w.differentiators)) errors.push('whyChooseUs.differentiators must be an array');
+  return errors;
+};
+
+export const validateTeamBiosSection: SectionValidator = section => {
+  const t = asRecord(section);
+  if (!t) return ['teamBios must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(t.team)) errors.push('teamBios.team must be an array');
+  if (typeof t.teamSummary !== 'string') errors.push('teamBios.teamSummary must be a string');
+  return errors;
+};
+
+export const validateHowWeWorkSection: SectionValidator = section => {
+  const h = asRecord(section);
+  if (!h) return ['howWeWork must be an object'];
+
+  const errors: string[] = [];
+  if (typeof h.intro !== 'string') errors.push('howWeWork.intro must be a string');
+  if (!Array.isArray(h.steps)) errors.push('howWeWork.steps must be an array');
+  return errors;
+};
+
+export const validateCaseStudiesSection: SectionValidator = section => {
+  const c = asRecord(section);
+  if (!c) return ['caseStudies must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(c.caseStudies)) errors.push('caseStudies.caseStudies must be an array');
+  if (typeof c.summary !== 'string') errors.push('caseStudies.summary must be a string');
+  return errors;
+};
+
+export const validateTestimonialsSection: SectionValidator = section => {
+  const t = asRecord(section);
+  if (!t) return ['testimonials must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(t.testimonials)) errors.push('testimonials.testimonials must be an array');
+  if (typeof t.summary !== 'string') errors.push('testimonials.summary must be a string');
+  return errors;
+};
+
+export const validateFAQSection: SectionValidator = section => {
+  const f = asRecord(section);
+  if (!f) return ['faq must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(f.schemaReady)) errors.push('faq.schemaReady must be an array');
+  return errors;
+};
+
+export const validateSchemaSection: SectionValidator = section => {
+  const s = asRecord(section);
+  if (!s) return ['schema must be an object'];
+
+  const errors: string[] = [];
+  if (typeof s.jsonLd !== 'string') errors.push('schema.jsonLd must be a string');
+  if (!s.localBusiness || typeof s.localBusiness !== 'object') {
+    errors.push('schema.localBusiness must be an object');
+  }
+  return errors;
+};
+
+export const validateLocationContentSection: SectionValidator = section => {
+  const l = asRecord(section);
+  if (!l) return ['locationContent must be an object'];
+  if (!Array.isArray(l.locations)) return ['locationContent.locations must be an array'];
+
+  const errors: string[] = [];
+  l.locations.forEach((item, index) => {
+    const prefix = `locationContent.locations[${index}]`;
+    const entry = asRecord(item);
+    if (!entry) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    if (typeof entry.locationId !== 'string') errors.push(`${prefix}.locationId must be a string`);
+    errors.push(...validateTitleMetaSection(entry.titleMeta).map(e => `${prefix}.${e}`));
+    errors.push(...validateAnswerCapsuleSection(entry.answerCapsule).map(e => `${prefix}.${e}`));
+    errors.push(...validateFAQSection(entry.faq).map(e => `${prefix}.${e}`));
+  });
+  return errors;
+};
+
+export const validateServiceAreaPagesSection: SectionValidator = section => {
+  const s = asRecord(section);
+  if (!s) return ['serviceAreaPages must be an object'];
+  if (!Array.isArray(s.pages)) return ['serviceAreaPages.pages must be an array'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(s.nearDuplicates)) errors.push('serviceAreaPages.nearDuplicates must be an array');
+  s.pages.forEach((item, index) => {
+    const prefix = `serviceAreaPages.pages[${index}]`;
+    const page = asRecord(item);
+    if (!page) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    for (const key of ['slug', 'area', 'service', 'title', 'metaDescription', 'answerCapsule', 'description', 'jsonLd']) {
+      if (typeof page[key] !== 'string') errors.push(`${prefix}.${key} must be a string`);
+    }
+    if (!Array.isArray(page.faqs)) errors.push(`${prefix}.faqs must be an array`);
+    const schema = asRecord(page.schema);
+    if (!schema || !asRecord(schema.areaServed)) errors.push(`${prefix}.schema.areaServed must be an object`);
+  });
+  return errors;
+};
+
+export const validatePropertyMarketDataSection: SectionValidator = section => {
+  const errors = validateIndustrySection('propertyMarketData', section, 'location');
+  const p = asRecord(section);
+  if (p && (!p.marketOverview || typeof p.marketOverview !== 'object')) {
+    errors.push('propertyMarketData.marketOverview must be an object');
+  }
+  if (p && !Array.isArray(p.hotAreas)) errors.push('propertyMarketData.hotAreas must be an array');
+  return errors;
+};
+
+export const validatePermitsAndCodesSection: SectionValidator = section => {
+  const errors = validateIndustrySection('permitsAndCodes', section, 'jurisdiction');
+  const p = asRecord(section);
+  if (p && !Array.isArray(p.permits)) errors.push('permitsAndCodes.permits must be an array');
+  if (p && !Array.isArray(p.buildingCodes)) errors.push('permitsAndCodes.buildingCodes must be an array');
+  return errors;
+};
+
+export const validateLocalCourtProcessSection: SectionValidator = section => {
+  const errors = validateIndustrySection('localCourtProcess', section, 'jurisdiction');
+  const l = asRecord(section);
+  if (l && !Array.isArray(l.practiceAreas)) errors.push('localCourtProcess.practiceAreas must be an array');
+  if (l && !Array.isArray(l.filingInformation)) {
+    errors.push('localCourtProcess.filingInformation must be an array');
+  }
+  return errors;
+};
+
+export const validateFirstTimeBuyerProgramsSection: SectionValidator = section => {
+  const errors = validateIndustrySection('firstTimeBuyerPrograms', section, 'location');
+  const f = asRecord(section);
+  if (f && !Array.isArray(f.federalPrograms)) {
+    errors.push('firstTimeBuyerPrograms.federalPrograms must be an array');
+  }
+  if (f && !Array.isArray(f.statePrograms)) errors.push('firstTimeBuyerPrograms.statePrograms must be an array');
+  if (f && !Array.isArray(f.localPrograms)) errors.push('firstTimeBuyerPrograms.localPrograms must be an array');
+  return errors;
+};
+
+export const validateSeasonalClimateSection: SectionValidator = section => {
+  const errors = validateIndustrySection('seasonalClimate', section, 'location');
+  const s = asRecord(section);
+  if (s && (!s.climateZone || typeof s.climateZone !== 'object')) {
+    errors.push('seasonalClimate.climateZone must be an object');
+  }
+  if (s && !Array.isArray(s.seasonalTimings)) errors.push('seasonalClimate.seasonalTimings must be an array');
+  return errors;
+};
+
+/**
+ * Section validators keyed by output section.
+ * Optional sections are only validated when present.
+ */
+const SECTION_VALIDATORS: Record<string, SectionValidator> = {
+  titleMeta: validateTitleMetaSection,
+  answerCapsule: validateAnswerCapsuleSection,
+  serviceDescriptions: validateServiceDescriptionsSection,
+  whyChooseUs: validateWhyChooseUsSection,
+  teamBios: validateTeamBiosSection,
+  howWeWork: validateHowWeWorkSection,
+  caseStudies: validateCaseStudiesSection,
+  testimonials: validateTestimonialsSection,
+  faq: validateFAQSection,
+  schema: validateSchemaSection,
+  locationContent: validateLocationContentSection,
+  serviceAreaPages: validateServiceAreaPagesSection,
+  propertyMarketData: validatePropertyMarketDataSection,
+  permitsAndCodes: validatePermitsAndCodesSection,
+  localCourtProcess: validateLocalCourtProcessSection,
+  firstTimeBuyerPrograms: validateFirstTimeBuyerProgramsSection,
+  seasonalClimate: validateSeasonalClimateSection,
+};
+
 /**
  * Validates output against the contract, returning errors if invalid.
  */
@@ -582,44 +987,12 @@ export function validateGEOOutput(output: unknown): string[] {
     if (typeof m.pipelineVersion !== 'string') errors.push('metadata.pipelineVersion must be a string');
   }
 
-  // Validate titleMeta structure
-  if (o.titleMeta && typeof o.titleMeta === 'object') {
-    const t = o.titleMeta as Record<string, unknown>;
-    if (typeof t.title !== 'string') errors.push('titleMeta.title must be a string');
-    if (typeof t.metaDescription !== 'string') errors.push('titleMeta.metaDescription must be a string');
-  }
-
-  // Validate answerCapsule structure
-  if (o.answerCapsule && typeof o.answerCapsule === 'object') {
-    const a = o.answerCapsule as Record<string, unknown>;
-    if (typeof a.capsule !== 'string') errors.push('answerCapsule.capsule must be a string');
-    if (!a.structuredAnswer || typeof a.structuredAnswer !== 'object') {
-      errors.push('answerCapsule.structuredAnswer must be an object');
-    }
-  }
-
-  // Validate serviceDescriptions structure
-  if (o.serviceDescriptions && typeof o.serviceDescriptions === 'object') {
-    const s = o.serviceDescriptions as Record<string, unknown>;
-    if (!Array.isArray(s.services)) errors.push('serviceDescriptions.services must be an array');
-    if (!s.summary || typeof s.summary !== 'object') {
-      errors.push('serviceDescriptions.summary must be an object');
-    }
-  }
-
-  // Validate faq structure
-  if (o.faq && typeof o.faq === 'object') {
-    const f = o.faq as Record<string, unknown>;
-    if (!Array.isArray(f.schemaReady)) errors.push('faq.schemaReady must be an array');
-  }
-
-  // Validate schema structure
-  if (o.schema && typeof o.schema === 'object') {
-    const s = o.schema as Record<string, unknown>;
-    if (typeof s.jsonLd !== 'string') errors.push('schema.jsonLd must be a string');
-    if (!s.localBusiness || typeof s.localBusiness !== 'object') {
-      errors.push('schema.localBusiness must be an object');
-    }
+  // Validate each present section, skipping placeholders for skipped generators
+  for (const [key, validate] of Object.entries(SECTION_VALIDATORS)) {
+    const section = o[key];
+    if (!section || typeof section !== 'object') continue;
+    if ((section as Record<string, unknown>).skipped === true) continue;
+    errors.push(...validate(section));
   }
 
   return errors;
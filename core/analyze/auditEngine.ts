@@ -0,0 +1,277 @@
+/**
+ * Audit Engine
+ *
+ * Runs the rules in AUDIT_RULES over a set of pages and scores the
+ * result. This is the only place audit scores are computed, so the
+ * /run audit mode, /ui/audit and the standalone audit worker agree on
+ * the score for the same page.
+ *
+ * SCORING:
+ * - Each scored finding deducts its severity weight from 100
+ * - A page's score covers its own findings (floored at 0)
+ * - The site score is the average page score less site-wide findings,
+ *   so a single-page audit scores exactly like that page
+ * - Unreachable pages only report http_error; their other rules are skipped
+ *
+ * BATCHES:
+ * Large sites can be audited a batch of pages at a time by passing the
+ * whole site as a compact context (buildSiteContext). Page rules then
+ * see every page (e.g. for orphan detection) and site rules run once.
+ *
+ * PROFILES:
+ * The audit profile (auditProfiles.ts) decides which rules run, their
+ * severities and the thresholds they read. Without one the registry
+ * defaults apply.
+ */
+
+import type { PageData } from '../ingest/siteCrawler';
+import { AuditPage, buildAuditPage } from './auditSignals';
+import {
+  AUDIT_RULES,
+  AuditRule,
+  AuditEvidence,
+  AuditSite,
+  AuditCategory,
+  AuditSeverity,
+  AuditApplicability,
+  AuditThresholds,
+  PageAuditRule,
+} from './auditRules';
+import {
+  AuditProfile,
+  AUDIT_PROFILES,
+  DEFAULT_AUDIT_PROFILE_ID,
+  resolveAuditThresholds,
+} from './auditProfiles';
+
+/**
+ * Score deducted per finding, by severity.
+ */
+export const SEVERITY_WEIGHTS: Record<AuditSeverity, number> = {
+  critical: 20,
+  high: 12,
+  medium: 6,
+  low: 2,
+};
+
+/**
+ * A failed rule on a page (or across the site).
+ */
+export interface AuditFinding {
+  ruleId: string;
+  title: string;
+  category: AuditCategory;
+  severity: AuditSeverity;
+  /** Score deduction for this finding (0 for unscored opportunities) */
+  weight: number;
+  message: string;
+  currentValue?: string | number | null;
+  impact: string;
+  recommendation: string;
+  /** Page the finding belongs to; null for site-wide findings */
+  url: string | null;
+}
+
+/**
+ * Audit result for one page.
+ */
+export interface PageAuditResult {
+  url: string;
+  httpStatus: number;
+  isHomepage: boolean;
+  isServicePage: boolean;
+  isLocationPage: boolean;
+  findings: AuditFinding[];
+  /** IDs of applicable rules the page passed */
+  passedRuleIds: string[];
+  score: number;
+}
+
+/**
+ * Audit result for a set of pages.
+ */
+export interface AuditReport {
+  pages: PageAuditResult[];
+  siteFindings: AuditFinding[];
+  averagePageScore: number;
+  score: number;
+  /** Profile the audit ran with */
+  profileId: string;
+}
+
+/**
+ * Options for an audit run.
+ */
+export interface AuditOptions {
+  /** URL the audit started from; treated as the homepage. Defaults to the site root. */
+  entryUrl?: string;
+  /** Rule selection, severities and thresholds. Defaults to the 'default' profile. */
+  profile?: AuditProfile;
+  /** Pages visible to cross-page rules. Defaults to the audited pages. */
+  site?: AuditSite;
+  /** Run site-wide rules (default true). Batches skip them and run them once at the end. */
+  siteRules?: boolean;
+}
+
+/**
+ * Sums severity weights into a 0-100 score.
+ */
+export function scoreFindings(findings: AuditFinding[]): number {
+  const deductions = findings.reduce((sum, finding) => sum + finding.weight, 0);
+  return Math.max(0, Math.min(100, 100 - deductions));
+}
+
+/**
+ * Combines page scores and site-wide findings into the site score.
+ */
+export function scoreSite(pageScores: number[], siteFindings: AuditFinding[]): number {
+  if (pageScores.length === 0) return 0;
+  const averagePageScore = Math.round(pageScores.reduce((sum, score) => sum + score, 0) / pageScores.length);
+  return Math.max(0, averagePageScore - siteFindings.reduce((sum, finding) => sum + finding.weight, 0));
+}
+
+/**
+ * Builds the audit pages cross-page rules read, without the body text
+ * and anchors only page rules need, so a large site fits in memory.
+ * Unreachable pages are left out, as in a normal run.
+ */
+export function buildSiteContext(pages: PageData[], entryUrl?: string): AuditPage[] {
+  return pages
+    .map(page => buildAuditPage(page, isEntryPage(page.url, entryUrl)))
+    .filter(isReachable)
+    .map(page => ({ ...page, bodyText: '', anchorTexts: [] }));
+}
+
+/**
+ * Wraps context pages as an AuditSite.
+ */
+export function toAuditSite(pages: AuditPage[]): AuditSite {
+  return {
+    pages,
+    homepage: pages.find(page => page.isHomepage) ?? null,
+  };
+}
+
+/**
+ * Runs every registered rule over the given pages.
+ */
+export function runAuditRules(pages: PageData[], options: AuditOptions = {}): AuditReport {
+  const profile = options.profile ?? AUDIT_PROFILES[DEFAULT_AUDIT_PROFILE_ID];
+  const thresholds = resolveAuditThresholds(profile);
+  const auditPages = pages.map(page => buildAuditPage(page, isEntryPage(page.url, options.entryUrl)));
+  const site = options.site ?? toAuditSite(auditPages.filter(isReachable));
+
+  const rules = Object.values(AUDIT_RULES).filter(rule => isRuleEnabled(rule, profile));
+  const pageRules = rules.filter((rule): rule is PageAuditRule => rule.scope === 'page');
+
+  const pageResults = auditPages.map(page => {
+    const findings: AuditFinding[] = [];
+    const passedRuleIds: string[] = [];
+
+    // An unreachable page has no content to audit beyond the fetch failure
+    const applicable = isReachable(page)
+      ? pageRules.filter(rule => appliesTo(rule.appliesTo, page))
+      : pageRules.filter(rule => rule.id === 'http_error');
+
+    for (const rule of applicable) {
+      const evidence = rule.buildEvidence(page, site, thresholds);
+      if (evidence) {
+        findings.push(toFinding(rule, evidence, page.url, profile, thresholds));
+      } else {
+        passedRuleIds.push(rule.id);
+      }
+    }
+
+    return {
+      url: page.url,
+      httpStatus: page.httpStatus,
+      isHomepage: page.isHomepage,
+      isServicePage: page.isServicePage,
+      isLocationPage: page.isLocationPage,
+      findings,
+      passedRuleIds,
+      score: scoreFindings(findings),
+    };
+  });
+
+  const siteFindings: AuditFinding[] = [];
+  for (const rule of rules) {
+    if (rule.scope !== 'site' || options.siteRules === false) continue;
+    const evidence = rule.buildEvidence(site, thresholds);
+    if (evidence) siteFindings.push(toFinding(rule, evidence, null, profile, thresholds));
+  }
+
+  const averagePageScore = pageResults.length > 0
+    ? Math.round(pageResults.reduce((sum, page) => sum + page.score, 0) / pageResults.length)
+    : 0;
+
+  return {
+    pages: pageResults,
+    siteFindings,
+    averagePageScore,
+    score: scoreSite(pageResults.map(page => page.score), siteFindings),
+    profileId: profile.id,
+  };
+}
+
+/**
+ * Default-on rules run unless the profile disables them; default-off
+ * rules only run when the profile enables them.
+ */
+export function isRuleEnabled(rule: AuditRule, profile: AuditProfile): boolean {
+  if (profile.disabledRules?.includes(rule.id)) return false;
+  return rule.defaultEnabled !== false || (profile.enabledRules?.includes(rule.id) ?? false);
+}
+
+function isReachable(page: AuditPage): boolean {
+  return page.httpStatus >= 200 && page.httpStatus < 300 && !page.fetchError;
+}
+
+function appliesTo(applicability: AuditApplicability[], page: AuditPage): boolean {
+  return applicability.some(scope =>
+    scope === 'page' ||
+    (scope === 'homepage' && page.isHomepage) ||
+    (scope === 'service' && page.isServicePage) ||
+    (scope === 'location' && page.isLocationPage)
+  );
+}
+
+/**
+ * The entry page is the explicit entry URL if given, otherwise the site root.
+ */
+function isEntryPage(url: string, entryUrl?: string): boolean {
+  if (entryUrl) return stripTrailingSlash(url) === stripTrailingSlash(entryUrl);
+  try {
+    return new URL(url).pathname === '/';
+  } catch {
+    return false;
+  }
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/#.*$/, '').replace(/\/+$/, '');
+}
+
+function toFinding(
+  rule: AuditRule,
+  evidence: AuditEvidence,
+  url: string | null,
+  profile: AuditProfile,
+  thresholds: AuditThresholds
+): AuditFinding {
+  const severity = profile.severityOverrides?.[rule.id] ?? evidence.severity ?? rule.severity;
+  return {
+    ruleId: rule.id,
+    title: rule.title,
+    category: rule.category,
+    severity,
+    weight: rule.scored === false ? 0 : SEVERITY_WEIGHTS[severity],
+    message: evidence.message,
+    ...(evidence.currentValue !== undefined ? { currentValue: evidence.currentValue } : {}),
+    impact: rule.impact,
+    recommendation: typeof rule.recommendation === 'function'
+      ? rule.recommendation(thresholds)
+      : rule.recommendation,
+    url,
+  };
+}
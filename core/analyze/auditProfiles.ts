@@ -0,0 +1,161 @@
+/**
+ * Audit Profiles
+ *
+ * Named rule sets for different kinds of site. A profile starts from the
+ * rule registry defaults and adjusts them; it never adds rules of its own.
+ *
+ * A PROFILE CAN:
+ * - enable rules that are off by default (defaultEnabled: false)
+ * - disable rules that do not fit the vertical
+ * - override a rule's severity (this wins over severities set by evidence)
+ * - tune the numeric thresholds rules compare against
+ *
+ * Profiles are selected per request (auditProfile in RunRequest) or
+ * fall back to the API key's default, then to 'default'.
+ */
+
+import { AuditSeverity, AuditThresholds, DEFAULT_AUDIT_THRESHOLDS } from './auditRules';
+
+/**
+ * Adjustments applied on top of the rule registry.
+ */
+export interface AuditProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Rules to run even though they are off by default */
+  enabledRules?: string[];
+  /** Rules to skip */
+  disabledRules?: string[];
+  severityOverrides?: Record<string, AuditSeverity>;
+  thresholds?: Partial<AuditThresholds>;
+}
+
+export const DEFAULT_AUDIT_PROFILE_ID = 'default';
+
+/**
+ * Central registry of audit profiles.
+ */
+export const AUDIT_PROFILES: Record<string, AuditProfile> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    description: 'Every default rule at its registry severity and thresholds.',
+  },
+
+  'local-service': {
+    id: 'local-service',
+    name: 'Local Service Business',
+    description: 'Trades and home services that win work from local search and calls.',
+    severityOverrides: {
+      no_geo_targeting: 'critical',
+      title_missing_location: 'critical',
+      no_phone: 'critical',
+      no_address: 'high',
+      schema_missing_service_area: 'high',
+      inconsistent_nap: 'high',
+    },
+  },
+
+  legal: {
+    id: 'legal',
+    name: 'Legal Practice',
+    description: 'Law firms: longer expertise content, no pricing or trade-keyword expectations.',
+    disabledRules: [
+      'no_pricing_info',
+      'no_service_keywords',
+      'title_missing_service',
+      'high_image_count',
+    ],
+    severityOverrides: {
+      // Bar rules restrict testimonials in many jurisdictions
+      missing_review_schema: 'low',
+      no_social_proof: 'low',
+      low_content_depth: 'high',
+      no_faq_detected: 'high',
+    },
+    thresholds: {
+      minContentLength: 600,
+      recommendedContentLength: 1000,
+      competitiveContentLength: 1500,
+    },
+  },
+
+  ecommerce: {
+    id: 'ecommerce',
+    name: 'E-commerce',
+    description: 'Online stores: product schema matters, a service area does not.',
+    enabledRules: ['missing_product_schema'],
+    disabledRules: [
+      'missing_service_schema',
+      'schema_missing_service_area',
+      'no_geo_targeting',
+      'no_service_area_mentioned',
+      'limited_service_area',
+      'title_missing_location',
+      'subheadings_missing_location',
+      'no_service_keywords',
+      'title_missing_service',
+      'no_address',
+      'answer_capsule_opportunity',
+    ],
+    severityOverrides: {
+      missing_business_schema: 'high',
+      images_missing_alt: 'high',
+      no_phone: 'low',
+    },
+    thresholds: {
+      minContentLength: 150,
+      recommendedContentLength: 300,
+      competitiveContentLength: 600,
+      maxImageCount: 60,
+    },
+  },
+
+  strict: {
+    id: 'strict',
+    name: 'Strict',
+    description: 'Tighter limits and raised severities for sites already in good shape.',
+    severityOverrides: {
+      missing_meta_description: 'critical',
+      missing_canonical: 'high',
+      images_missing_alt: 'high',
+      no_faq_detected: 'high',
+      weak_internal_linking: 'high',
+      duplicate_titles: 'high',
+    },
+    thresholds: {
+      minTitleLength: 30,
+      minOptimalTitleLength: 40,
+      maxTitleLength: 60,
+      minMetaDescriptionLength: 120,
+      minOptimalMetaDescriptionLength: 150,
+      minContentLength: 500,
+      recommendedContentLength: 800,
+      competitiveContentLength: 1500,
+      minInternalLinksOut: 3,
+    },
+  },
+};
+
+/**
+ * Validates that an audit profile ID exists in the registry.
+ */
+export function isValidAuditProfile(id: string): boolean {
+  // Own keys only: IDs come from request bodies, so 'toString' must not match
+  return Object.prototype.hasOwnProperty.call(AUDIT_PROFILES, id);
+}
+
+/**
+ * Gets a profile from the registry.
+ */
+export function getAuditProfile(id: string): AuditProfile | undefined {
+  return isValidAuditProfile(id) ? AUDIT_PROFILES[id] : undefined;
+}
+
+/**
+ * Registry thresholds with the profile's overrides applied.
+ */
+export function resolveAuditThresholds(profile: AuditProfile): AuditThresholds {
+  return { ...DEFAULT_AUDIT_THRESHOLDS, ...profile.thresholds };
+}
@@ -0,0 +1,1270 @@
+/**
+ * Audit Rule Registry
+ *
+ * Single source of audit rules for every audit entry point: /run audit
+ * mode (via geoGapAnalyzer), the /ui/audit endpoint and the standalone
+ * audit worker (src/index.ts). Each rule has a stable ID that downstream
+ * consumers (improvement planner, opportunity scorer) key on.
+ *
+ * SCOPES:
+ * - 'page': evaluated once per reachable page whose type matches appliesTo
+ * - 'site': evaluated once across all reachable pages
+ *
+ * APPLICABILITY:
+ * - 'page' applies to every page
+ * - 'homepage' applies to the audited entry page only
+ * - 'service' / 'location' apply to pages detected as that type
+ *
+ * EVIDENCE:
+ * buildEvidence returns null when the page (or site) passes, otherwise
+ * the evidence explaining the finding. Evidence may raise or lower the
+ * rule's default severity (e.g. many images missing alt text).
+ *
+ * THRESHOLDS:
+ * Numeric limits are read from the thresholds passed to buildEvidence,
+ * so audit profiles (auditProfiles.ts) can tune them per run.
+ */
+
+import type { AuditPage } from './auditSignals';
+import { GEO_CITY_TERMS, SERVICE_INDUSTRY_TERMS, containsAnyTerm } from './auditSignals';
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type AuditCategory = 'technical' | 'content' | 'trust';
+
+export type AuditApplicability = 'page' | 'homepage' | 'service' | 'location';
+
+/**
+ * What a failing rule reports.
+ */
+export interface AuditEvidence {
+  message: string;
+  currentValue?: string | number | null;
+  /** Overrides the rule's default severity for this finding */
+  severity?: AuditSeverity;
+}
+
+/**
+ * Pages visible to site-scoped rules.
+ */
+export interface AuditSite {
+  pages: AuditPage[];
+  homepage: AuditPage | null;
+}
+
+interface AuditRuleBase {
+  /** Stable identifier (also the GapFlag type) */
+  id: string;
+  /** Human-readable finding title */
+  title: string;
+  /** Shown instead of the finding when the rule passes; rules without one are not listed as passes */
+  passTitle?: string;
+  category: AuditCategory;
+  /** Default severity, used for scoring */
+  severity: AuditSeverity;
+  impact: string;
+  /** Static text, or built from the thresholds in effect for the run */
+  recommendation: string | ((thresholds: AuditThresholds) => string);
+  /** Opportunities are reported but do not lower the score (default true) */
+  scored?: boolean;
+  /** Rules that are off unless a profile enables them set this to false (default true) */
+  defaultEnabled?: boolean;
+}
+
+export interface PageAuditRule extends AuditRuleBase {
+  scope: 'page';
+  appliesTo: AuditApplicability[];
+  buildEvidence(page: AuditPage, site: AuditSite, thresholds: AuditThresholds): AuditEvidence | null;
+}
+
+export interface SiteAuditRule extends AuditRuleBase {
+  scope: 'site';
+  buildEvidence(site: AuditSite, thresholds: AuditThresholds): AuditEvidence | null;
+}
+
+export type AuditRule = PageAuditRule | SiteAuditRule;
+
+/**
+ * Numeric limits rules compare against. Lengths are in characters,
+ * content lengths in words.
+ */
+export interface AuditThresholds {
+  minTitleLength: number;
+  minOptimalTitleLength: number;
+  maxTitleLength: number;
+  minMetaDescriptionLength: number;
+  minOptimalMetaDescriptionLength: number;
+  maxMetaDescriptionLength: number;
+  minContentLength: number;
+  recommendedContentLength: number;
+  competitiveContentLength: number;
+  minHomepageInternalLinks: number;
+  minInternalLinksOut: number;
+  maxImageCount: number;
+}
+
+/**
+ * Thresholds used when a profile does not override them.
+ */
+export const DEFAULT_AUDIT_THRESHOLDS: AuditThresholds = {
+  minTitleLength: 20,
+  minOptimalTitleLength: 30,
+  maxTitleLength: 65,
+  minMetaDescriptionLength: 50,
+  minOptimalMetaDescriptionLength: 140,
+  maxMetaDescriptionLength: 160,
+  minContentLength: 300,
+  recommendedContentLength: 500,
+  competitiveContentLength: 1000,
+  minHomepageInternalLinks: 10,
+  minInternalLinksOut: 2,
+  maxImageCount: 20,
+};
+
+const GENERIC_ANCHORS = ['learn more', 'read more', 'click here', 'here', 'more', 'view', 'see more'];
+
+const SOCIAL_PROOF_TERMS = ['review', 'testimonial', 'rating', 'customer', 'client'];
+
+const PRICING_TERMS = ['price', 'cost', 'quote', 'estimate', '£', '$', 'free', 'rate'];
+
+const CTA_TERMS = ['call us', 'contact us', 'get a quote', 'book', 'schedule', 'request'];
+
+const TEAM_TERMS = ['our team', 'meet the team', 'founder', 'owner', 'our staff', 'technicians', 'about us'];
+
+const TRUST_TERMS = ['guarantee', 'warranty', 'satisfaction', 'money back', 'years experience', 'established'];
+
+function list(values: string[], max: number = 3): string {
+  return values.slice(0, max).join(', ') + (values.length > max ? '...' : '');
+}
+
+function hasTitleDelimiter(title: string): boolean {
+  return title.includes('|') || title.includes('-') || title.includes('–');
+}
+
+/**
+ * Central registry of audit rules, in reporting order.
+ */
+export const AUDIT_RULES: Record<string, AuditRule> = {
+  // ============================================================
+  // TECHNICAL
+  // ============================================================
+  http_error: {
+    id: 'http_error',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Page Not Reachable',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'Pages that do not load cannot be indexed or cited.',
+    recommendation: 'Fix server response to return 200 OK with an HTML page',
+    buildEvidence: page => {
+      const ok = page.httpStatus >= 200 && page.httpStatus < 300;
+      if (ok && !page.fetchError) return null;
+      return {
+        message: ok || page.httpStatus === 0
+          ? `Page could not be read (${page.fetchError ?? 'no response'})`
+          : `Page returned HTTP ${page.httpStatus}`,
+        currentValue: page.httpStatus,
+      };
+    },
+  },
+
+  noindex: {
+    id: 'noindex',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Page Blocked from Indexing',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'A noindex page is invisible to search engines and AI.',
+    recommendation: 'Remove the noindex directive unless it is intentional.',
+    buildEvidence: page =>
+      page.noindex
+        ? { message: 'Found <meta name="robots" content="noindex">', currentValue: 'noindex' }
+        : null,
+  },
+
+  missing_title: {
+    id: 'missing_title',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Missing Page Title',
+    passTitle: 'Title Tag Present',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'Title is the #1 ranking factor. Without it, search engines cannot rank your page.',
+    recommendation: 'Add a descriptive title tag (20-60 characters): "[Service] in [City] | [Brand]"',
+    buildEvidence: page =>
+      page.title ? null : { message: 'Page is missing a title tag', currentValue: null },
+  },
+
+  weak_title: {
+    id: 'weak_title',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Title Too Short',
+    category: 'technical',
+    severity: 'high',
+    impact: 'Short titles give search engines and AI too little to rank or cite.',
+    recommendation: t => `Expand title to at least ${t.minTitleLength} characters with relevant keywords`,
+    buildEvidence: (page, _site, t) =>
+      page.title && page.title.length < t.minTitleLength
+        ? {
+            message: `Title is too short (${page.title.length} chars)`,
+            currentValue: page.title,
+            severity: page.title.length < 10 ? 'critical' : undefined,
+          }
+        : null,
+  },
+
+  missing_meta_description: {
+    id: 'missing_meta_description',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Missing Meta Description',
+    category: 'technical',
+    severity: 'high',
+    impact: 'Meta description is your search result pitch. AI uses it to understand intent.',
+    recommendation: t =>
+      `Add a compelling meta description (${t.minMetaDescriptionLength}-${t.maxMetaDescriptionLength} characters): "[Service] in [City]. [Value prop]. Call [phone]."`,
+    buildEvidence: page =>
+      page.metaDescription ? null : { message: 'Page is missing a meta description', currentValue: null },
+  },
+
+  short_meta_description: {
+    id: 'short_meta_description',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Meta Description Too Short',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Short descriptions waste SERP real estate and miss keyword opportunities.',
+    recommendation: t => `Expand to at least ${t.minMetaDescriptionLength} characters`,
+    buildEvidence: (page, _site, t) =>
+      page.metaDescription && page.metaDescription.length < t.minMetaDescriptionLength
+        ? {
+            message: `Meta description is too short (${page.metaDescription.length} chars)`,
+            currentValue: page.metaDescription,
+          }
+        : null,
+  },
+
+  missing_h1: {
+    id: 'missing_h1',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Missing H1 Heading',
+    passTitle: 'H1 Heading Present',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'H1 tells AI what your page is about. Without it, AI cannot categorize or recommend you.',
+    recommendation: 'Add a clear H1 heading that matches page intent: "Professional [Service] in [City]"',
+    buildEvidence: page =>
+      page.h1Count === 0 ? { message: 'Page is missing an H1 heading', currentValue: null } : null,
+  },
+
+  multiple_h1: {
+    id: 'multiple_h1',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Multiple H1 Headings',
+    category: 'technical',
+    severity: 'high',
+    impact: 'Multiple H1s dilute focus and confuse search engines about the primary topic.',
+    recommendation: 'Keep only one H1 for the main topic. Convert others to H2s.',
+    buildEvidence: page =>
+      page.h1Count > 1
+        ? { message: `Found ${page.h1Count} H1 tags - should only have one`, currentValue: page.h1Count }
+        : null,
+  },
+
+  broken_heading_hierarchy: {
+    id: 'broken_heading_hierarchy',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Broken Heading Hierarchy',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Headings must follow H1→H2→H3 order for AI to parse content correctly.',
+    recommendation: 'Add an H1 before your H2 headings.',
+    buildEvidence: page =>
+      page.h1Count === 0 && page.h2s.length > 0
+        ? { message: `Found ${page.h2s.length} H2s but no H1 - heading structure is broken`, currentValue: page.h2s.length }
+        : null,
+  },
+
+  missing_canonical: {
+    id: 'missing_canonical',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Canonical Tag',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Canonical tags prevent duplicate content issues and consolidate ranking signals.',
+    recommendation: 'Add <link rel="canonical" href="https://yourdomain.com/"> to <head>.',
+    buildEvidence: page =>
+      page.canonical ? null : { message: 'No <link rel="canonical"> found', currentValue: null },
+  },
+
+  long_meta_description: {
+    id: 'long_meta_description',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Meta Description Too Long',
+    category: 'technical',
+    severity: 'low',
+    impact: 'Truncated descriptions may cut off your call-to-action.',
+    recommendation: t => `Trim to ${t.minOptimalMetaDescriptionLength}-${t.maxMetaDescriptionLength} characters, ending with CTA.`,
+    buildEvidence: (page, _site, t) =>
+      page.metaDescription.length > t.maxMetaDescriptionLength
+        ? {
+            message: `Meta description is ${page.metaDescription.length} chars (will be truncated at ~${t.maxMetaDescriptionLength})`,
+            currentValue: page.metaDescription.length,
+          }
+        : null,
+  },
+
+  title_length: {
+    id: 'title_length',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Suboptimal Title Length',
+    category: 'technical',
+    severity: 'low',
+    impact: 'Short titles underuse space. Long titles get truncated in search results.',
+    recommendation: t => `Adjust to ${t.minOptimalTitleLength}-${t.maxTitleLength} characters for full display.`,
+    buildEvidence: (page, _site, t) => {
+      const length = page.title.length;
+      return (length >= t.minTitleLength && length < t.minOptimalTitleLength) || length > t.maxTitleLength
+        ? { message: `Title is ${length} chars (optimal: ${t.minOptimalTitleLength}-${t.maxTitleLength})`, currentValue: length }
+        : null;
+    },
+  },
+
+  images_missing_alt: {
+    id: 'images_missing_alt',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Images Missing Alt Text',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Alt text helps AI understand images and improves accessibility. Missing alts hurt rankings.',
+    recommendation: 'Add descriptive alt text to all images: alt="[Service] technician in [City]"',
+    buildEvidence: page => {
+      const missing = page.imagesMissingAlt.length;
+      if (missing === 0) return null;
+      const coverage = Math.round((page.imagesWithAlt / page.imageCount) * 100);
+      return {
+        message: `${missing} of ${page.imageCount} images lack alt text (${coverage}% coverage). Missing: ${list(page.imagesMissingAlt)}`,
+        currentValue: missing,
+        severity: missing > 5 ? 'high' : undefined,
+      };
+    },
+  },
+
+  high_image_count: {
+    id: 'high_image_count',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'High Image Count',
+    category: 'technical',
+    severity: 'low',
+    impact: 'Too many images slow page load, hurting rankings and user experience.',
+    recommendation: 'Optimize images, use lazy loading, and consider removing non-essential images.',
+    buildEvidence: (page, _site, t) =>
+      page.imageCount > t.maxImageCount
+        ? { message: `${page.imageCount} images on the page may impact load speed`, currentValue: page.imageCount }
+        : null,
+  },
+
+  // ============================================================
+  // SCHEMA
+  // ============================================================
+  no_schema_detected: {
+    id: 'no_schema_detected',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'No Structured Data',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Structured data tells search engines and AI what the page describes.',
+    recommendation: 'Add LocalBusiness, Service, or FAQPage schema as appropriate',
+    buildEvidence: page =>
+      page.schemaTypes.length === 0
+        ? { message: 'No schema.org structured data detected', currentValue: null }
+        : null,
+  },
+
+  missing_business_schema: {
+    id: 'missing_business_schema',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Business Schema Markup',
+    passTitle: 'Business Schema Present',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'Schema tells AI exactly what your business does and where. Critical for local visibility.',
+    recommendation: 'Add LocalBusiness JSON-LD with: name, address, phone, areaServed, openingHours.',
+    buildEvidence: page =>
+      page.hasLocalBusinessSchema || page.hasOrganizationSchema
+        ? null
+        : {
+            message: page.schemaTypes.length > 0
+              ? `Found: ${page.schemaTypes.join(', ')} - but no LocalBusiness/Organization`
+              : 'No JSON-LD structured data found',
+            currentValue: page.schemaTypes.join(', ') || null,
+          },
+  },
+
+  missing_service_schema: {
+    id: 'missing_service_schema',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Service Schema',
+    category: 'technical',
+    severity: 'high',
+    impact: 'Service schema helps AI understand exactly what services you provide.',
+    recommendation: 'Add Service schema for each main service with name, description, areaServed.',
+    buildEvidence: page =>
+      page.hasLocalBusinessSchema && !page.hasServiceSchema
+        ? { message: 'LocalBusiness found but no Service/Offer schema' }
+        : null,
+  },
+
+  missing_product_schema: {
+    id: 'missing_product_schema',
+    scope: 'page',
+    appliesTo: ['homepage', 'service'],
+    title: 'Missing Product Schema',
+    category: 'technical',
+    severity: 'high',
+    defaultEnabled: false,
+    impact: 'Product schema lets search engines and AI show price, availability and ratings for what you sell.',
+    recommendation: 'Add Product JSON-LD with name, image, description and an Offer (price, priceCurrency, availability).',
+    buildEvidence: page =>
+      page.schemaTypes.includes('product')
+        ? null
+        : { message: `No Product schema found. Schema types present: ${page.schemaTypes.join(', ') || 'none'}` },
+  },
+
+  schema_missing_service_area: {
+    id: 'schema_missing_service_area',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Schema Missing Service Area',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Adding areaServed helps AI understand your geographic coverage.',
+    recommendation: 'Add areaServed property to your LocalBusiness schema with cities/regions you serve.',
+    buildEvidence: page => {
+      if (!page.hasLocalBusinessSchema && !page.hasOrganizationSchema) return null;
+      const hasArea = ['areaserved', 'servicearea', 'geo'].some(prop => page.schemaProperties.includes(prop));
+      return hasArea ? null : { message: 'Business schema found but no areaServed/serviceArea property detected' };
+    },
+  },
+
+  missing_faq_schema: {
+    id: 'missing_faq_schema',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing FAQ Schema',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'FAQ schema helps AI extract and cite your answers directly in search results.',
+    recommendation: 'Add FAQPage schema for common questions about your services.',
+    buildEvidence: page =>
+      page.hasFAQSchema
+        ? null
+        : { message: `No FAQPage schema found. Schema types present: ${page.schemaTypes.join(', ') || 'none'}` },
+  },
+
+  missing_breadcrumb_schema: {
+    id: 'missing_breadcrumb_schema',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Breadcrumb Schema',
+    category: 'technical',
+    severity: 'low',
+    impact: 'Breadcrumb schema improves site structure understanding and search appearance.',
+    recommendation: 'Add BreadcrumbList schema to all pages showing navigation hierarchy.',
+    buildEvidence: page =>
+      page.hasBreadcrumbSchema ? null : { message: 'No BreadcrumbList schema detected' },
+  },
+
+  breadcrumb_opportunity: {
+    id: 'breadcrumb_opportunity',
+    scope: 'page',
+    appliesTo: ['service', 'location'],
+    title: 'Breadcrumb Opportunity',
+    category: 'technical',
+    severity: 'low',
+    scored: false,
+    impact: 'Breadcrumbs show where a page sits in the site, in search results and to AI.',
+    recommendation: 'Add breadcrumb navigation with BreadcrumbList schema',
+    buildEvidence: page =>
+      page.hasBreadcrumbSchema ? null : { message: 'No breadcrumb trail detected on this page' },
+  },
+
+  // ============================================================
+  // CONTENT
+  // ============================================================
+  low_content_depth: {
+    id: 'low_content_depth',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Thin Content',
+    passTitle: 'Good Content Length',
+    category: 'content',
+    severity: 'medium',
+    impact: 'AI needs substantial content to understand your expertise. Thin pages rarely get cited.',
+    recommendation: t =>
+      `Expand to ${t.recommendedContentLength}+ words: service details, process, pricing, FAQs, service areas.`,
+    buildEvidence: (page, _site, t) =>
+      page.wordCount < t.minContentLength
+        ? {
+            message: `Page has thin content (${page.wordCount} words, minimum ${t.minContentLength})`,
+            currentValue: page.wordCount,
+            severity: page.isHomepage ? 'critical' : undefined,
+          }
+        : null,
+  },
+
+  limited_content: {
+    id: 'limited_content',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Limited Content Depth',
+    category: 'content',
+    severity: 'high',
+    impact: 'Comprehensive content outperforms thin pages in both search and AI citations.',
+    recommendation: 'Add: detailed service breakdowns, FAQs, testimonials context, expertise proof.',
+    buildEvidence: (page, _site, t) =>
+      page.wordCount >= t.minContentLength && page.wordCount < t.recommendedContentLength
+        ? {
+            message: `${page.wordCount} words on the page (recommended: ${t.recommendedContentLength}+)`,
+            currentValue: page.wordCount,
+          }
+        : null,
+  },
+
+  content_depth_opportunity: {
+    id: 'content_depth_opportunity',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Content Depth Opportunity',
+    category: 'content',
+    severity: 'low',
+    impact: 'Top-ranking pages often have 1000+ words of quality content.',
+    recommendation: 'Consider adding: detailed FAQs, service process explanation, or case studies.',
+    buildEvidence: (page, _site, t) =>
+      page.wordCount >= t.recommendedContentLength && page.wordCount < t.competitiveContentLength
+        ? {
+            message: `Page has ${page.wordCount} words - adequate but below the ${t.competitiveContentLength}-word competitive threshold`,
+            currentValue: page.wordCount,
+          }
+        : null,
+  },
+
+  no_service_keywords: {
+    id: 'no_service_keywords',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Service Keywords',
+    passTitle: 'Service Keywords Present',
+    category: 'content',
+    severity: 'high',
+    impact: 'AI needs to understand what services you offer to recommend you.',
+    recommendation: 'Include specific services in headings: "Emergency Plumbing", "Drain Cleaning", etc.',
+    buildEvidence: page =>
+      page.hasServiceKeywords ? null : { message: 'No clear service terms found in title, H1, H2s, or meta' },
+  },
+
+  no_geo_targeting: {
+    id: 'no_geo_targeting',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Geographic Targeting',
+    category: 'content',
+    severity: 'high',
+    impact: 'Local businesses must signal service area. AI cannot recommend without location context.',
+    recommendation: 'Add city/area to title, H1, and throughout content. Create location pages.',
+    buildEvidence: page =>
+      page.hasGeoKeywords ? null : { message: 'No location terms found in title, H1, meta, or H2s' },
+  },
+
+  no_service_area_mentioned: {
+    id: 'no_service_area_mentioned',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Service Area Mentioned',
+    category: 'content',
+    severity: 'high',
+    impact: 'Without any location mentions, AI cannot determine where you operate.',
+    recommendation: 'Add your primary city to title, H1, meta description, and body content.',
+    buildEvidence: page =>
+      page.geoTermsFound.length === 0
+        ? { message: 'No city names, neighborhoods, or location phrases found anywhere on page' }
+        : null,
+  },
+
+  limited_service_area: {
+    id: 'limited_service_area',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Limited Service Area Coverage',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Mentioning more specific areas helps AI recommend you for hyper-local queries.',
+    recommendation: 'Add neighborhoods, districts, and nearby towns you serve.',
+    buildEvidence: page =>
+      page.geoTermsFound.length > 0 && page.geoTermsFound.length < 3
+        ? {
+            message: `Only ${page.geoTermsFound.length} location terms found: ${page.geoTermsFound.join(', ')}`,
+            currentValue: page.geoTermsFound.length,
+          }
+        : null,
+  },
+
+  title_missing_location: {
+    id: 'title_missing_location',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Title Missing City/Location Modifier',
+    category: 'content',
+    severity: 'high',
+    impact: 'Local businesses must signal service area in title. AI cannot recommend for local queries.',
+    recommendation: 'Add city to title: "Emergency Plumber in [City] | Company Name"',
+    buildEvidence: page =>
+      page.title && !containsAnyTerm(page.title, GEO_CITY_TERMS)
+        ? { message: `Title "${page.title}" has no location keywords`, currentValue: page.title }
+        : null,
+  },
+
+  title_missing_service: {
+    id: 'title_missing_service',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Title Could Include Service Type',
+    category: 'content',
+    severity: 'low',
+    impact: 'Including service type in title improves relevance for service queries.',
+    recommendation: 'Add your primary service to the title before the location.',
+    buildEvidence: page =>
+      hasTitleDelimiter(page.title) &&
+      containsAnyTerm(page.title, GEO_CITY_TERMS) &&
+      !containsAnyTerm(page.title, SERVICE_INDUSTRY_TERMS)
+        ? { message: 'Title has location but no specific service keyword', currentValue: page.title }
+        : null,
+  },
+
+  title_too_simple: {
+    id: 'title_too_simple',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Title Too Simple',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Titles should include service, location, and brand for maximum SEO impact.',
+    recommendation: 'Use format: "[Primary Service] in [City] | [Brand Name]"',
+    buildEvidence: page => {
+      if (!page.title) return null;
+      const words = page.title.split(/[\s|–\-:]+/).filter(w => w.length > 2);
+      return words.length < 3
+        ? { message: `Title "${page.title}" has only ${words.length} meaningful words`, currentValue: page.title }
+        : null;
+    },
+  },
+
+  title_structure: {
+    id: 'title_structure',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Title Structure Could Be Improved',
+    category: 'content',
+    severity: 'low',
+    impact: 'Well-structured titles perform better in search results.',
+    recommendation: 'Use format: "Primary Service in City | Brand Name" with pipe or dash separator.',
+    buildEvidence: page =>
+      page.title.length >= 10 && page.title.length < 50 && !hasTitleDelimiter(page.title)
+        ? { message: `Title "${page.title}" lacks standard SEO structure (service | location | brand)`, currentValue: page.title }
+        : null,
+  },
+
+  title_h1_mismatch: {
+    id: 'title_h1_mismatch',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Title and H1 Mismatch',
+    category: 'content',
+    severity: 'low',
+    impact: 'Mismatched title and H1 can confuse search engines about page focus.',
+    recommendation: 'Align your H1 with your title tag for consistent messaging.',
+    buildEvidence: page => {
+      if (!page.title || !page.h1Text) return null;
+      const titleCore = page.title.toLowerCase().split('|')[0].trim();
+      const h1Core = page.h1Text.toLowerCase().trim();
+      const similar = titleCore.includes(h1Core.slice(0, 20)) || h1Core.includes(titleCore.slice(0, 20));
+      return !similar && titleCore.length > 10 && h1Core.length > 10
+        ? { message: `Title: "${page.title.slice(0, 50)}" vs H1: "${page.h1Text.slice(0, 50)}"` }
+        : null;
+    },
+  },
+
+  h1_missing_keywords: {
+    id: 'h1_missing_keywords',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'H1 Missing Geo & Service Keywords',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Limits geo relevance for AI and local search.',
+    recommendation: 'Include primary service + city in the H1: "Professional [Service] in [City]"',
+    buildEvidence: page => {
+      if (!page.h1Text) return null;
+      const hasGeo = containsAnyTerm(page.h1Text, GEO_CITY_TERMS);
+      const hasService = containsAnyTerm(page.h1Text, SERVICE_INDUSTRY_TERMS);
+      if (hasGeo && hasService) return null;
+      if (!hasGeo && !hasService) {
+        return { message: `H1 text: "${page.h1Text}" - lacks both location and service terms`, currentValue: page.h1Text };
+      }
+      return {
+        message: `H1 text: "${page.h1Text}" - consider adding ${hasGeo ? 'a service keyword' : 'location'}`,
+        currentValue: page.h1Text,
+        severity: 'low',
+      };
+    },
+  },
+
+  meta_missing_key_terms: {
+    id: 'meta_missing_key_terms',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Meta Description Missing Key Terms',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Meta descriptions should include your service and location for local SEO.',
+    recommendation: 'Rewrite: "[Service] in [City]. [Unique value]. Call [phone]."',
+    buildEvidence: page => {
+      if (!page.metaDescription) return null;
+      const missing = [
+        containsAnyTerm(page.metaDescription, SERVICE_INDUSTRY_TERMS) ? null : 'service keywords',
+        containsAnyTerm(page.metaDescription, GEO_CITY_TERMS) ? null : 'location terms',
+      ].filter((term): term is string => term !== null);
+      return missing.length > 0
+        ? { message: `Meta description lacks ${missing.join(' and ')}`, currentValue: page.metaDescription }
+        : null;
+    },
+  },
+
+  meta_description_could_be_longer: {
+    id: 'meta_description_could_be_longer',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Meta Description Could Be Longer',
+    category: 'content',
+    severity: 'low',
+    impact: 'Longer descriptions provide more context and keyword opportunities.',
+    recommendation: t =>
+      `Expand to ${t.minOptimalMetaDescriptionLength}-${t.maxMetaDescriptionLength} chars to maximize SERP real estate.`,
+    buildEvidence: (page, _site, t) => {
+      const length = page.metaDescription.length;
+      if (length < t.minMetaDescriptionLength || length >= t.minOptimalMetaDescriptionLength) return null;
+      return {
+        message: `Meta description is ${length} chars (optimal: ${t.minOptimalMetaDescriptionLength}-${t.maxMetaDescriptionLength})`,
+        currentValue: length,
+        severity: length < 100 ? 'medium' : undefined,
+      };
+    },
+  },
+
+  flat_heading_structure: {
+    id: 'flat_heading_structure',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Flat Heading Structure',
+    category: 'content',
+    severity: 'medium',
+    impact: 'H1→H2→H3 hierarchy helps AI parse sections and extract answers.',
+    recommendation: 'Add H2s for: Services, About Us, Service Areas, FAQs, Contact.',
+    buildEvidence: page =>
+      page.h1Count > 0 && page.h2s.length === 0
+        ? { message: `Found H1 but no H2 subheadings (${page.h3s.length} H3s found)` }
+        : null,
+  },
+
+  limited_subheadings: {
+    id: 'limited_subheadings',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Limited Subheadings',
+    category: 'content',
+    severity: 'low',
+    impact: 'More subheadings improve scannability and help AI extract sections.',
+    recommendation: 'Add H2 every 200-300 words for major sections.',
+    buildEvidence: page =>
+      page.h2s.length > 0 && page.h2s.length < 4 && page.wordCount > 500
+        ? { message: `Only ${page.h2s.length} H2s for ${page.wordCount} words of content`, currentValue: page.h2s.length }
+        : null,
+  },
+
+  weak_subheadings: {
+    id: 'weak_subheadings',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Weak Subheading Content',
+    category: 'content',
+    severity: 'low',
+    impact: 'Descriptive H2s help AI understand page sections and improve featured snippet chances.',
+    recommendation: 'Make H2s descriptive: "Why Choose Our [Service] in [City]" instead of just "Services".',
+    buildEvidence: page => {
+      const short = page.h2s.filter(h => h.length < 20);
+      return page.h2s.length > 0 && short.length > page.h2s.length / 2
+        ? { message: `${short.length} of ${page.h2s.length} H2s are very short: "${short.slice(0, 2).join('", "')}"` }
+        : null;
+    },
+  },
+
+  subheadings_missing_location: {
+    id: 'subheadings_missing_location',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Subheadings Could Include Location',
+    category: 'content',
+    severity: 'low',
+    impact: 'Location in subheadings reinforces local relevance.',
+    recommendation: 'Add location to at least one H2: "Our Services in [City]" or "Why [City] Trusts Us".',
+    buildEvidence: page =>
+      page.h2s.length >= 2 && !page.h2s.some(h2 => containsAnyTerm(h2, GEO_CITY_TERMS))
+        ? { message: `${page.h2s.length} H2 subheadings found, but none mention your service area` }
+        : null,
+  },
+
+  no_faq_detected: {
+    id: 'no_faq_detected',
+    scope: 'page',
+    appliesTo: ['homepage', 'service', 'location'],
+    title: 'No FAQ Content',
+    passTitle: 'FAQ Content Present',
+    category: 'content',
+    severity: 'medium',
+    impact: 'FAQs directly answer the queries AI engines look for.',
+    recommendation: 'Add an FAQ section with FAQPage schema markup',
+    buildEvidence: page =>
+      page.hasFAQContent ? null : { message: 'No FAQ section detected on this page', currentValue: null },
+  },
+
+  answer_capsule_opportunity: {
+    id: 'answer_capsule_opportunity',
+    scope: 'page',
+    appliesTo: ['service', 'location'],
+    title: 'Answer Capsule Opportunity',
+    category: 'content',
+    severity: 'low',
+    scored: false,
+    impact: 'A short, direct answer near the top of the page is what AI overviews quote.',
+    recommendation: 'Add a 2-3 sentence answer capsule near the top of the page',
+    buildEvidence: () => ({
+      message: 'This page could benefit from an answer capsule for AI overview optimization',
+      currentValue: null,
+    }),
+  },
+
+  no_images: {
+    id: 'no_images',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Images',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Visual content increases engagement and helps users understand your services.',
+    recommendation: 'Add relevant images: team photos, service examples, before/after shots, trust badges.',
+    buildEvidence: page =>
+      page.imageCount === 0 && page.wordCount > 200 ? { message: 'Page has no <img> tags' } : null,
+  },
+
+  image_alt_optimization: {
+    id: 'image_alt_optimization',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Image Alt Text Optimization',
+    category: 'content',
+    severity: 'low',
+    impact: 'Geo-optimized alt text helps with image search and reinforces local relevance.',
+    recommendation: 'Use descriptive alts like "plumber fixing sink in [City]" instead of generic "plumber at work".',
+    buildEvidence: page =>
+      page.imagesWithAlt > 0
+        ? { message: `${page.imagesWithAlt} images have alt text - verify they include service/location keywords` }
+        : null,
+  },
+
+  no_pricing_info: {
+    id: 'no_pricing_info',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Pricing Information',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Users and AI want to understand pricing. Missing info reduces conversion.',
+    recommendation: 'Add pricing ranges, "free estimate" messaging, or "call for quote" CTAs.',
+    buildEvidence: page =>
+      page.wordCount > 200 && !containsAnyTerm(page.bodyText, PRICING_TERMS)
+        ? { message: 'No pricing, cost, quote, or rate-related terms found' }
+        : null,
+  },
+
+  weak_cta: {
+    id: 'weak_cta',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Weak Call-to-Action',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Without CTAs, visitors don\'t know what action to take next.',
+    recommendation: 'Add prominent CTAs: "Call Now", "Get Free Quote", "Book Online".',
+    buildEvidence: page =>
+      containsAnyTerm(page.bodyText, CTA_TERMS) ? null : { message: 'No clear call-to-action phrases detected' },
+  },
+
+  lacks_structured_content: {
+    id: 'lacks_structured_content',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Lacks Structured Content',
+    category: 'content',
+    severity: 'low',
+    impact: 'Structured content is easier to scan and more likely to be featured in AI responses.',
+    recommendation: 'Add bulleted service lists, numbered process steps, or comparison tables.',
+    buildEvidence: page => {
+      const structured = ['•', '✓', '1.', 'Step'].some(marker => page.bodyText.includes(marker));
+      return !structured && page.wordCount > 400
+        ? { message: 'No bullet points, numbered lists, or step-by-step content detected' }
+        : null;
+    },
+  },
+
+  no_freshness_signals: {
+    id: 'no_freshness_signals',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Freshness Signals',
+    category: 'content',
+    severity: 'low',
+    impact: 'Date references signal content freshness to search engines and AI.',
+    recommendation: 'Add a current date reference: "Serving [City] since 2010" or "Updated for [year]"',
+    buildEvidence: page => {
+      const year = new Date().getFullYear();
+      const fresh = page.bodyText.includes(String(year)) || page.bodyText.includes(String(year - 1));
+      return !fresh && page.wordCount > 300
+        ? { message: `No mention of ${year} or ${year - 1} found in content` }
+        : null;
+    },
+  },
+
+  // ============================================================
+  // LINKING
+  // ============================================================
+  weak_internal_linking: {
+    id: 'weak_internal_linking',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Weak Internal Linking',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Internal links help search engines discover content and distribute authority.',
+    recommendation: 'Add relevant internal links to services, location pages, about, contact and FAQs.',
+    buildEvidence: (page, _site, t) => {
+      const minimum = page.isHomepage ? t.minHomepageInternalLinks : t.minInternalLinksOut;
+      return page.internalLinks.length < minimum
+        ? {
+            message: `Page has few outbound internal links (${page.internalLinks.length}, recommended: ${minimum}+)`,
+            currentValue: page.internalLinks.length,
+            severity: page.isHomepage ? 'high' : undefined,
+          }
+        : null;
+    },
+  },
+
+  orphan_candidate: {
+    id: 'orphan_candidate',
+    scope: 'page',
+    appliesTo: ['page'],
+    title: 'Possible Orphan Page',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Pages with no incoming links are hard for crawlers and users to discover.',
+    recommendation: 'Add internal links from other pages to improve discoverability',
+    buildEvidence: (page, site) => {
+      if (site.pages.length < 2) return null;
+      const incoming = site.pages.some(other => other.url !== page.url && other.internalLinks.includes(page.url));
+      return incoming
+        ? null
+        : { message: 'Page may be orphaned (no incoming links detected from crawled pages)', currentValue: 0 };
+    },
+  },
+
+  no_external_links: {
+    id: 'no_external_links',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No External Links',
+    category: 'content',
+    severity: 'low',
+    impact: 'Linking to relevant authorities shows AI you connect to the broader web.',
+    recommendation: 'Add 2-5 links to industry associations, certifications, or trusted resources.',
+    buildEvidence: page =>
+      page.externalLinkCount === 0 ? { message: 'Page has 0 external links to authoritative sources', currentValue: 0 } : null,
+  },
+
+  repetitive_anchor_text: {
+    id: 'repetitive_anchor_text',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Repetitive Anchor Text',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Repetitive anchors look spammy and waste descriptive link opportunities.',
+    recommendation: 'Vary anchor text: "plumbing services", "our drain cleaning", "emergency repairs".',
+    buildEvidence: page => {
+      const counts = new Map<string, number>();
+      for (const text of page.anchorTexts) {
+        const lower = text.toLowerCase().trim();
+        if (lower.length > 2) counts.set(lower, (counts.get(lower) || 0) + 1);
+      }
+      const overused = [...counts.entries()].filter(([, count]) => count > 3);
+      return overused.length > 0
+        ? { message: `Overused: ${overused.slice(0, 3).map(([t, c]) => `"${t}" (${c}x)`).join(', ')}` }
+        : null;
+    },
+  },
+
+  generic_anchor_text: {
+    id: 'generic_anchor_text',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Generic Anchor Text',
+    category: 'content',
+    severity: 'medium',
+    impact: 'Descriptive anchor text helps search engines understand linked content.',
+    recommendation: 'Replace generic anchors with descriptive text: "our plumbing services" instead of "click here".',
+    buildEvidence: page => {
+      const generic = page.anchorTexts.filter(text => GENERIC_ANCHORS.includes(text.toLowerCase().trim()));
+      const ratio = page.anchorTexts.length > 0 ? generic.length / page.anchorTexts.length : 0;
+      return generic.length > 3 || (generic.length > 2 && ratio > 0.2)
+        ? {
+            message: `${generic.length} of ${page.anchorTexts.length} link anchors are generic ("learn more", "click here", etc.)`,
+            currentValue: generic.length,
+          }
+        : null;
+    },
+  },
+
+  // ============================================================
+  // TRUST
+  // ============================================================
+  no_phone: {
+    id: 'no_phone',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Phone Number Visible',
+    passTitle: 'Phone Number Visible',
+    category: 'trust',
+    severity: 'high',
+    impact: 'Phone numbers are critical for local SEO and immediate customer contact.',
+    recommendation: 'Display a clickable phone number prominently in the header and footer.',
+    buildEvidence: page =>
+      page.phoneNumbers.length > 0
+        ? null
+        : { message: page.emails.length > 0 ? `Email found (${page.emails[0]}) but no phone number detected` : 'No phone number detected' },
+  },
+
+  no_email: {
+    id: 'no_email',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Email Address Visible',
+    category: 'trust',
+    severity: 'low',
+    impact: 'Some customers prefer email contact. Offering multiple options increases leads.',
+    recommendation: 'Add a professional email address to your contact section.',
+    buildEvidence: page =>
+      page.emails.length > 0 ? null : { message: 'No email address detected' },
+  },
+
+  phone_not_clickable: {
+    id: 'phone_not_clickable',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Phone Number Not Clickable',
+    category: 'trust',
+    severity: 'low',
+    impact: 'Mobile users expect tap-to-call functionality.',
+    recommendation: 'Wrap phone numbers in clickable tel: links: <a href="tel:+1234567890">',
+    buildEvidence: page =>
+      page.phoneNumbers.length > 0 && page.telLinkCount === 0
+        ? { message: `Phone number found (${page.phoneNumbers[0]}) but no tel: link detected` }
+        : null,
+  },
+
+  no_address: {
+    id: 'no_address',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Physical Address Displayed',
+    passTitle: 'Address Present',
+    category: 'trust',
+    severity: 'medium',
+    impact: 'Physical address reinforces local relevance for both users and search engines.',
+    recommendation: 'Display your full address or service areas in the footer and contact section.',
+    buildEvidence: page =>
+      page.addressSignals.length > 0 ? null : { message: 'No street address or postcode detected' },
+  },
+
+  missing_review_schema: {
+    id: 'missing_review_schema',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Review Schema',
+    passTitle: 'Review Schema Present',
+    category: 'trust',
+    severity: 'medium',
+    impact: 'Review schema enables star ratings in search results, increasing click-through rates.',
+    recommendation: 'Add AggregateRating schema with your Google/Yelp review data.',
+    buildEvidence: page =>
+      page.hasReviewSchema
+        ? null
+        : { message: `No Review or AggregateRating schema found. Current schemas: ${page.schemaTypes.join(', ') || 'none'}` },
+  },
+
+  no_social_proof: {
+    id: 'no_social_proof',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'No Social Proof Detected',
+    category: 'trust',
+    severity: 'medium',
+    impact: 'Social proof signals trust. AI assistants favor businesses with visible reviews.',
+    recommendation: 'Add a testimonials section or link to Google/Yelp reviews.',
+    buildEvidence: page =>
+      page.wordCount > 200 && !containsAnyTerm(page.bodyText, SOCIAL_PROOF_TERMS)
+        ? { message: 'No mentions of reviews, testimonials, ratings, or customer feedback found' }
+        : null,
+  },
+
+  team_info_opportunity: {
+    id: 'team_info_opportunity',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Team Information Opportunity',
+    category: 'trust',
+    severity: 'low',
+    scored: false,
+    impact: 'Named people with real credentials make a business easier to trust and to cite.',
+    recommendation: 'Introduce the team: names, roles, experience and qualifications.',
+    buildEvidence: page =>
+      page.wordCount > 200 && !containsAnyTerm(page.bodyText, TEAM_TERMS)
+        ? { message: 'No team members, owners or staff introduced on the page' }
+        : null,
+  },
+
+  missing_trust_signals: {
+    id: 'missing_trust_signals',
+    scope: 'page',
+    appliesTo: ['homepage'],
+    title: 'Missing Trust Signals',
+    category: 'trust',
+    severity: 'medium',
+    impact: 'Trust signals influence both user decisions and AI recommendations.',
+    recommendation: 'Add trust elements: years in business, satisfaction guarantee, certifications.',
+    buildEvidence: page =>
+      page.wordCount > 200 && !containsAnyTerm(page.bodyText, TRUST_TERMS)
+        ? { message: 'No guarantee, warranty, or experience claims found in content' }
+        : null,
+  },
+
+  // ============================================================
+  // SITE-WIDE
+  // ============================================================
+  duplicate_titles: {
+    id: 'duplicate_titles',
+    scope: 'site',
+    title: 'Duplicate Titles',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Duplicate titles make pages compete with each other and blur their topics.',
+    recommendation: 'Ensure each page has a unique, descriptive title',
+    buildEvidence: site => {
+      const titles = site.pages.filter(p => p.title).map(p => p.title);
+      const duplicates = titles.filter((t, i) => titles.indexOf(t) !== i);
+      return duplicates.length > 0
+        ? { message: `${new Set(duplicates).size} pages have duplicate titles`, currentValue: duplicates.length }
+        : null;
+    },
+  },
+
+  missing_canonicals: {
+    id: 'missing_canonicals',
+    scope: 'site',
+    title: 'Missing Canonical Tags',
+    category: 'technical',
+    severity: 'low',
+    impact: 'Canonical tags prevent duplicate content issues and consolidate ranking signals.',
+    recommendation: 'Add canonical tags to prevent duplicate content issues',
+    buildEvidence: site => {
+      const missing = site.pages.filter(p => !p.canonical);
+      return site.pages.length > 1 && missing.length > site.pages.length / 2
+        ? { message: `${missing.length} pages are missing canonical tags`, currentValue: missing.length }
+        : null;
+    },
+  },
+
+  low_schema_adoption: {
+    id: 'low_schema_adoption',
+    scope: 'site',
+    title: 'Low Schema Adoption',
+    category: 'technical',
+    severity: 'medium',
+    impact: 'Pages without structured data are harder for AI to interpret and cite.',
+    recommendation: 'Implement schema.org markup site-wide for better search visibility',
+    buildEvidence: site => {
+      const withSchema = site.pages.filter(p => p.schemaTypes.length > 0);
+      return site.pages.length > 1 && withSchema.length < site.pages.length / 3
+        ? { message: `Only ${withSchema.length} of ${site.pages.length} pages have schema markup`, currentValue: withSchema.length }
+        : null;
+    },
+  },
+
+  inconsistent_nap: {
+    id: 'inconsistent_nap',
+    scope: 'site',
+    title: 'Inconsistent NAP Information',
+    category: 'trust',
+    severity: 'medium',
+    impact: 'Inconsistent Name, Address, Phone confuses search engines and hurts local rankings.',
+    recommendation: 'Ensure identical NAP on every page. Use schema markup consistently.',
+    buildEvidence: site => {
+      const reference = site.homepage?.phoneNumbers[0] ?? site.pages.find(p => p.phoneNumbers.length > 0)?.phoneNumbers[0];
+      if (!reference) return null;
+      const mismatched = site.pages.filter(p => p.phoneNumbers.length > 0 && p.phoneNumbers[0] !== reference);
+      return mismatched.length > 0
+        ? {
+            message: `Different phone numbers found across pages (${list(mismatched.map(p => p.phoneNumbers[0]))} vs ${reference})`,
+            currentValue: mismatched.length,
+          }
+        : null;
+    },
+  },
+};
+
+/**
+ * Validates that an audit rule ID exists in the registry.
+ */
+export function isValidAuditRule(id: string): boolean {
+  return id in AUDIT_RULES;
+}
+
+/**
+ * Gets a rule from the registry.
+ */
+export function getAuditRule(id: string): AuditRule | undefined {
+  return AUDIT_RULES[id];
+}
@@ -0,0 +1,298 @@
+/**
+ * Audit Signals
+ *
+ * Derives the page signals audit rules read (keyword hits, NAP details,
+ * schema flags, page type) from crawler PageData. Every audit entry point
+ * builds its pages here, so a page produces the same signals whether it
+ * was crawled for /run or fetched by one of the audit UIs.
+ *
+ * DESIGN:
+ * - Pure functions over PageData; no fetching
+ * - Keyword lists are matched case-insensitively as substrings
+ * - Page type is a heuristic over URL, title and H1
+ */
+
+import type { PageData } from '../ingest/siteCrawler';
+
+// Specific city/location names (not generic words)
+export const GEO_CITY_TERMS = [
+  'london', 'manchester', 'birmingham', 'leeds', 'glasgow', 'liverpool', 'bristol',
+  'sheffield', 'edinburgh', 'cardiff', 'belfast', 'newcastle', 'nottingham',
+  'southampton', 'portsmouth', 'york', 'cambridge', 'oxford', 'brighton', 'bath',
+  'new york', 'los angeles', 'chicago', 'houston', 'phoenix', 'philadelphia',
+  'san antonio', 'san diego', 'dallas', 'san jose', 'austin', 'jacksonville',
+  'fort worth', 'columbus', 'charlotte', 'seattle', 'denver', 'boston', 'portland',
+  'miami', 'atlanta', 'detroit', 'minneapolis', 'tampa', 'brooklyn', 'queens',
+];
+
+// Local intent phrases (more specific than just "local")
+export const GEO_INTENT_TERMS = [
+  'near me', 'nearby', 'service area', 'located in', 'based in', 'serving',
+  'in your area', 'locations', 'find us',
+];
+
+// Specific service industry terms (not generic business words)
+export const SERVICE_INDUSTRY_TERMS = [
+  'plumber', 'plumbing', 'electrician', 'electrical', 'hvac', 'heating', 'cooling',
+  'roofing', 'roofer', 'contractor', 'construction', 'landscaping', 'landscaper',
+  'cleaning', 'cleaner', 'painting', 'painter', 'carpentry', 'carpenter',
+  'locksmith', 'pest control', 'moving', 'mover', 'handyman', 'remodeling',
+  'renovation', 'repair', 'installation', 'maintenance',
+];
+
+// Local service intent signals
+export const SERVICE_INTENT_TERMS = [
+  'emergency', '24/7', 'same day', 'free estimate', 'free quote',
+  'licensed', 'insured', 'certified', 'bonded',
+  'residential', 'commercial', 'call now', 'book online',
+];
+
+// LocalBusiness and its common subtypes (lower-cased)
+export const LOCAL_BUSINESS_SCHEMA_TYPES = [
+  'localbusiness', 'plumber', 'electrician', 'hvacbusiness', 'roofingcontractor',
+  'homeandconstructionbusiness', 'professionalservice', 'generalcontractor',
+  'locksmith', 'movingcompany', 'housepainter', 'legalservice', 'attorney',
+  'dentist', 'medicalbusiness', 'realestateagent', 'autorepair', 'store',
+  'restaurant', 'financialservice', 'accountingservice', 'insuranceagency',
+];
+
+// Matched against URL, title and H1
+const SERVICE_PAGE_INDICATORS = [
+  'service', 'what-we-do', 'solutions', 'offerings', 'products',
+];
+
+// Matched against the URL path only (too generic for titles)
+const SERVICE_PATH_INDICATORS = [
+  '/plumbing', '/electrical', '/hvac', '/roofing', '/cleaning', '/repair',
+];
+
+// Matched against URL and title
+const LOCATION_PAGE_INDICATORS = [
+  'location', 'areas', 'service-area', 'coverage', 'near-me', 'city', 'region',
+];
+
+// Matched against the URL path only
+const LOCATION_PATH_INDICATORS = [
+  '/near-', '/in-', '/serving-',
+];
+
+const PHONE_PATTERN = /(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}|(?:\+44|0)[\s]?[0-9]{2,5}[\s]?[0-9]{3,4}[\s]?[0-9]{3,4}/g;
+
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+
+const ADDRESS_PATTERNS = [
+  /\d+\s+[A-Za-z]+\s+(Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Place|Pl)\b/gi,
+  /[A-Z]{1,2}[0-9][0-9A-Z]?\s*[0-9][A-Z]{2}/g, // UK postcode
+  /\b\d{5}(-\d{4})?\b/g, // US ZIP
+];
+
+const FAQ_TEXT_PATTERN = /frequently\s+asked|\bfaqs?\b|common\s+questions/i;
+
+/**
+ * Signals for one page, as read by audit rules.
+ */
+export interface AuditPage {
+  url: string;
+  httpStatus: number;
+  fetchError: string | null;
+  /** The audited entry page (the URL the audit was started from, or the site root) */
+  isHomepage: boolean;
+  isServicePage: boolean;
+  isLocationPage: boolean;
+
+  title: string;
+  metaDescription: string;
+  noindex: boolean;
+  canonical: string | null;
+
+  h1Count: number;
+  h1Text: string;
+  h2s: string[];
+  h3s: string[];
+
+  bodyText: string;
+  /** Words longer than two characters */
+  wordCount: number;
+
+  /** Unique same-origin links, resolved */
+  internalLinks: string[];
+  externalLinkCount: number;
+  telLinkCount: number;
+  anchorTexts: string[];
+
+  imageCount: number;
+  imagesWithAlt: number;
+  /** File names of images without alt text */
+  imagesMissingAlt: string[];
+
+  /** Lower-cased JSON-LD @type values */
+  schemaTypes: string[];
+  /** Lower-cased JSON-LD property names */
+  schemaProperties: string[];
+  hasLocalBusinessSchema: boolean;
+  hasOrganizationSchema: boolean;
+  hasServiceSchema: boolean;
+  hasFAQSchema: boolean;
+  hasReviewSchema: boolean;
+  hasBreadcrumbSchema: boolean;
+  /** FAQ schema, an FAQ URL, or FAQ wording in headings or body */
+  hasFAQContent: boolean;
+
+  /** City names and local intent phrases found anywhere on the page */
+  geoTermsFound: string[];
+  /** A city name appears in title, H1, meta description or H2s */
+  hasGeoKeywords: boolean;
+  /** Industry terms in key content plus intent terms anywhere */
+  serviceTermsFound: string[];
+  /** An industry term appears in title, H1, meta description or H2s */
+  hasServiceKeywords: boolean;
+
+  phoneNumbers: string[];
+  emails: string[];
+  addressSignals: string[];
+}
+
+/**
+ * True if the text contains any of the terms (case-insensitive).
+ */
+export function containsAnyTerm(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.some(term => lower.includes(term));
+}
+
+/**
+ * Heuristically detects a service page from its URL, title and H1.
+ */
+export function isServicePage(url: string, title: string | null = null, h1Text: string | null = null): boolean {
+  const urlLower = url.toLowerCase();
+  return (
+    SERVICE_PATH_INDICATORS.some(ind => urlLower.includes(ind)) ||
+    [urlLower, (title || '').toLowerCase(), (h1Text || '').toLowerCase()].some(text =>
+      SERVICE_PAGE_INDICATORS.some(ind => text.includes(ind))
+    )
+  );
+}
+
+/**
+ * Heuristically detects a location page from its URL and title.
+ */
+export function isLocationPage(url: string, title: string | null = null): boolean {
+  const urlLower = url.toLowerCase();
+  return (
+    LOCATION_PATH_INDICATORS.some(ind => urlLower.includes(ind)) ||
+    [urlLower, (title || '').toLowerCase()].some(text =>
+      LOCATION_PAGE_INDICATORS.some(ind => text.includes(ind))
+    )
+  );
+}
+
+/**
+ * Derives audit signals from crawled page data.
+ */
+export function buildAuditPage(page: PageData, isHomepage: boolean): AuditPage {
+  const title = page.title ?? '';
+  const metaDescription = page.metaDescription ?? '';
+  const h1s = page.headings.filter(h => h.level === 1);
+  const h2s = page.headings.filter(h => h.level === 2).map(h => h.text);
+  const h3s = page.headings.filter(h => h.level === 3).map(h => h.text);
+  const h1Text = page.h1Text ?? '';
+
+  const keyContent = [title, h1Text, metaDescription, ...h2s].join(' ').toLowerCase();
+  const bodyLower = page.bodyText.toLowerCase();
+
+  const geoTermsFound = [...GEO_CITY_TERMS, ...GEO_INTENT_TERMS].filter(term =>
+    keyContent.includes(term) || bodyLower.includes(term)
+  );
+  const serviceTermsFound = [
+    ...SERVICE_INDUSTRY_TERMS.filter(term => keyContent.includes(term)),
+    ...SERVICE_INTENT_TERMS.filter(term => keyContent.includes(term) || bodyLower.includes(term)),
+  ];
+
+  const schemaTypes = unique(page.detectedSchemaTypes.map(type => type.toLowerCase()));
+  const hasFAQSchema = schemaTypes.some(type => type.includes('faq'));
+  const urlLower = page.url.toLowerCase();
+
+  let host = '';
+  try {
+    host = new URL(page.url).hostname;
+  } catch {
+    // Invalid URL; every absolute link counts as external
+  }
+
+  const externalLinkCount = page.links.filter(link => {
+    if (!/^https?:\/\//i.test(link.href)) return false;
+    try {
+      return new URL(link.href).hostname !== host;
+    } catch {
+      return false;
+    }
+  }).length;
+
+  const imagesMissingAlt = page.images
+    .filter(image => !image.alt || !image.alt.trim())
+    .map(image => {
+      const src = image.src || 'unknown';
+      return src.split('/').pop() || src;
+    });
+
+  return {
+    url: page.url,
+    httpStatus: page.httpStatus,
+    fetchError: page.fetchError,
+    isHomepage,
+    isServicePage: isServicePage(page.url, page.title, page.h1Text),
+    isLocationPage: isLocationPage(page.url, page.title),
+
+    title,
+    metaDescription,
+    noindex: (page.metaRobots ?? '').toLowerCase().includes('noindex'),
+    canonical: page.canonical,
+
+    h1Count: h1s.length,
+    h1Text,
+    h2s,
+    h3s,
+
+    bodyText: page.bodyText,
+    wordCount: page.bodyText.split(/\s+/).filter(w => w.length > 2).length,
+
+    internalLinks: page.internalLinks,
+    externalLinkCount,
+    telLinkCount: page.links.filter(link => /^tel:/i.test(link.href)).length,
+    anchorTexts: page.links.map(link => link.text).filter(text => text.length > 1 && text.length < 100),
+
+    imageCount: page.images.length,
+    imagesWithAlt: page.images.length - imagesMissingAlt.length,
+    imagesMissingAlt,
+
+    schemaTypes,
+    schemaProperties: unique(page.detectedSchemaProperties.map(prop => prop.toLowerCase())),
+    hasLocalBusinessSchema: schemaTypes.some(type => LOCAL_BUSINESS_SCHEMA_TYPES.includes(type)),
+    hasOrganizationSchema: schemaTypes.includes('organization'),
+    hasServiceSchema: schemaTypes.some(type => type === 'service' || type === 'offer' || type === 'product'),
+    hasFAQSchema,
+    hasReviewSchema: schemaTypes.some(type => type.includes('review') || type === 'aggregaterating'),
+    hasBreadcrumbSchema: schemaTypes.some(type => type.includes('breadcrumb')),
+    hasFAQContent:
+      hasFAQSchema ||
+      urlLower.includes('faq') ||
+      urlLower.includes('frequently-asked') ||
+      page.headings.some(h => FAQ_TEXT_PATTERN.test(h.text)) ||
+      FAQ_TEXT_PATTERN.test(page.bodyText),
+
+    geoTermsFound,
+    hasGeoKeywords: GEO_CITY_TERMS.some(term => keyContent.includes(term)),
+    serviceTermsFound,
+    hasServiceKeywords: SERVICE_INDUSTRY_TERMS.some(term => keyContent.includes(term)),
+
+    phoneNumbers: unique(page.bodyText.match(PHONE_PATTERN) || []).slice(0, 5),
+    emails: unique(page.bodyText.match(EMAIL_PATTERN) || [])
+      .filter(e => !e.includes('example.') && !e.includes('test.'))
+      .slice(0, 5),
+    addressSignals: ADDRESS_PATTERNS.flatMap(pattern => (page.bodyText.match(pattern) || []).slice(0, 3)),
+  };
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
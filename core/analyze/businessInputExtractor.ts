@@ -0,0 +1,700 @@
+/**
+ * Business Input Extractor
+ *
+ * Drafts a BusinessInput from a crawled site, for clients who have a
+ * website but no structured data yet. The draft is a starting point for
+ * a human to confirm, never an input to use as-is.
+ *
+ * SOURCES (strongest first):
+ * - LocalBusiness / Organization JSON-LD the site already publishes; each
+ *   distinct LocalBusiness with an address also becomes a locations[] branch
+ * - tel: and mailto: links
+ * - Page text: phone numbers, emails, "City, ST 12345" addresses, hours
+ * - Service pages (H1 or URL) for services, location pages for areas
+ * - Page titles for the business name
+ *
+ * DESIGN:
+ * - Every value carries its confidence, the page it came from and how
+ *   it was found (DraftField)
+ * - Anything not read from structured data or an explicit link, and any
+ *   field where the site disagrees with itself, needs confirmation
+ * - Nothing is guessed: required fields with no evidence stay empty and
+ *   are listed in missingFields, so the draft fails validation until
+ *   they are filled in
+ */
+
+import type { BusinessInput, BusinessLocation } from '../../inputs/business.schema';
+import { crawlSite } from '../ingest/siteCrawler';
+import type { CrawlResult, CrawlerConfig, PageData } from '../ingest/siteCrawler';
+import { validateBusinessInput } from '../rules/businessInput.validator';
+import {
+  buildAuditPage,
+  isLocationPage,
+  isServicePage,
+  GEO_CITY_TERMS,
+  LOCAL_BUSINESS_SCHEMA_TYPES,
+} from './auditSignals';
+
+/**
+ * How far an extracted value can be trusted.
+ * - high: declared in JSON-LD or an explicit tel:/mailto: link
+ * - medium: a clear pattern in page text, headings or several titles
+ * - low: inferred from a URL slug, a single title or a loose match
+ */
+export type ExtractionConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * One extracted BusinessInput value and its evidence.
+ */
+export interface DraftField {
+  /** BusinessInput path, e.g. "contact.phone" or "services.primary[0]" */
+  path: string;
+  value: string | number;
+  confidence: ExtractionConfidence;
+  /** Page the value was read from */
+  sourceUrl: string;
+  /** Where on the page, e.g. "Plumber JSON-LD" or "tel: link" */
+  source: string;
+  /** A human must confirm the value before the input is used */
+  needsConfirmation: boolean;
+  /** Other values the site gives for the same field */
+  alternatives?: Array<string | number>;
+}
+
+/**
+ * A draft BusinessInput with the evidence for each value.
+ */
+export interface BusinessInputDraft {
+  siteUrl: string;
+  generatedAt: string;
+  pagesAnalyzed: number;
+  businessInput: BusinessInput;
+  fields: DraftField[];
+  /** Paths of values that need confirmation */
+  needsConfirmation: string[];
+  /** Required paths no value was found for */
+  missingFields: string[];
+  /** validateBusinessInput errors for the draft as it stands */
+  validationErrors: string[];
+  crawlErrors: string[];
+}
+
+/**
+ * A value found on one page, before candidates are compared.
+ */
+interface Candidate {
+  value: string | number;
+  confidence: ExtractionConfidence;
+  sourceUrl: string;
+  source: string;
+}
+
+const CONFIDENCE_RANK: Record<ExtractionConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+const MAX_SERVICES = 20;
+const MAX_SERVICE_AREAS = 30;
+const MAX_LOCATIONS = 50;
+
+/**
+ * Branch fields read from LocalBusiness JSON-LD, as paths under locations[i].
+ */
+const LOCATION_FIELDS = [
+  'name',
+  'address.streetAddress',
+  'address.city',
+  'address.region',
+  'address.postalCode',
+  'address.country',
+  'phone',
+  'email',
+  'operatingHours',
+  'url',
+] as const;
+
+type LocationField = typeof LOCATION_FIELDS[number];
+
+/**
+ * Candidates for one branch, gathered from every page that describes it.
+ */
+type BranchCandidates = Map<LocationField, Candidate[]>;
+
+/**
+ * Last URL segments of index pages that list services or areas rather
+ * than being one.
+ */
+const HUB_SEGMENTS = [
+  'services', 'service', 'what-we-do', 'solutions', 'offerings', 'products',
+  'areas', 'service-areas', 'areas-we-serve', 'locations', 'location', 'coverage',
+];
+
+const DAY = '(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\\.?';
+const TIME = '\\d{1,2}(?::\\d{2})?\\s*(?:am|pm|a\\.m\\.|p\\.m\\.)?';
+
+/** "Mon-Fri 8am-6pm", "Monday to Friday: 8:00 AM - 5:00 PM" */
+const HOURS_PATTERN = new RegExp(
+  `\\b${DAY}(?:\\s*(?:-|–|to|through|&|,)\\s*${DAY})*:?\\s*${TIME}\\s*(?:-|–|to)\\s*${TIME}`,
+  'gi'
+);
+
+const ALWAYS_OPEN_PATTERN = /\b24\/7\b|\b24 hours a day\b/i;
+
+/** "Austin, TX 78701" */
+const US_CITY_STATE_ZIP_PATTERN = /\b([A-Z][a-zA-Z.'-]+(?:\s+[A-Z][a-zA-Z.'-]+){0,2}),\s*([A-Z]{2})\s+\d{5}(?:-\d{4})?\b/g;
+
+/** "Plumbers in Round Rock" */
+const PLACE_IN_HEADING_PATTERN = /\b(?:in|near|serving)\s+([A-Z][\w'.-]*(?:\s+[A-Z][\w'.-]*)*)/;
+
+/**
+ * Lowercases and collapses a value for comparing candidates. Phone
+ * numbers compare by digits, ignoring a leading US country code.
+ */
+function normalizeValue(value: string | number): string {
+  const text = String(value).trim().toLowerCase();
+  const digits = text.replace(/\D/g, '');
+  if (/^[\d\s()+.-]+$/.test(text) && digits.length >= 7) {
+    return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  }
+  return text.replace(/[^a-z0-9@.]+/g, ' ').trim();
+}
+
+/**
+ * Decodes a percent-encoded link target, leaving malformed ones as written.
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Title-cases a URL slug ("round-rock" -> "Round Rock").
+ */
+function slugToName(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Last non-empty path segment of a URL, or null for the root.
+ */
+function lastSegment(url: string): string | null {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return segments.length > 0 ? segments[segments.length - 1].toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Text of a JSON-LD value: a string, or the name of an object.
+ */
+function asText(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    return asText(record.name ?? record['@value']);
+  }
+  return null;
+}
+
+/**
+ * Texts of a JSON-LD value that may be a single value or an array.
+ */
+function asTextList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(asText).filter((text): text is string => text !== null);
+}
+
+/**
+ * Lower-cased @type values of a JSON-LD entity.
+ */
+function typesOf(entity: Record<string, unknown>): string[] {
+  const type = entity['@type'];
+  return (Array.isArray(type) ? type : [type])
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.toLowerCase());
+}
+
+/**
+ * Every typed object in parsed JSON-LD, walking arrays, @graph and
+ * nested properties.
+ */
+function collectEntities(blocks: unknown[]): Array<Record<string, unknown>> {
+  const entities: Array<Record<string, unknown>> = [];
+
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const record = value as Record<string, unknown>;
+    if (typesOf(record).length > 0) entities.push(record);
+    Object.values(record).forEach(walk);
+  };
+
+  blocks.forEach(walk);
+  return entities;
+}
+
+/**
+ * Formats openingHoursSpecification entries as "Monday, Tuesday 08:00-17:00".
+ */
+function formatHoursSpecification(value: unknown): string | null {
+  const specs = (Array.isArray(value) ? value : [value])
+    .filter((spec): spec is Record<string, unknown> => Boolean(spec) && typeof spec === 'object');
+  const parts = specs.flatMap(spec => {
+    const days = asTextList(spec.dayOfWeek).map(day => day.split('/').pop() as string);
+    const opens = asText(spec.opens);
+    const closes = asText(spec.closes);
+    return days.length > 0 && opens && closes ? [`${days.join(', ')} ${opens}-${closes}`] : [];
+  });
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+/**
+ * Source label of a JSON-LD entity, e.g. "Plumber JSON-LD".
+ */
+function schemaSource(entity: Record<string, unknown>): string {
+  return `${String(Array.isArray(entity['@type']) ? entity['@type'][0] : entity['@type'])} JSON-LD`;
+}
+
+/**
+ * Opening hours of a JSON-LD entity, from openingHours or
+ * openingHoursSpecification.
+ */
+function schemaHours(entity: Record<string, unknown>): string | null {
+  const hours = asTextList(entity.openingHours);
+  return hours.length > 0 ? hours.join(', ') : formatHoursSpecification(entity.openingHoursSpecification);
+}
+
+/**
+ * Lowercase, hyphenated form of a value for branch ids ("Round Rock" -> "round-rock").
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Picks a single value: the highest confidence, then the value most
+ * pages agree on. Competing values are kept as alternatives; one found
+ * with at least medium confidence means the site disagrees with itself.
+ */
+function pickField(path: string, candidates: Candidate[]): DraftField | null {
+  const groups = new Map<string, { candidates: Candidate[]; pages: Set<string>; order: number }>();
+  candidates.forEach((candidate, order) => {
+    const key = normalizeValue(candidate.value);
+    if (!key) return;
+    const group = groups.get(key) ?? { candidates: [], pages: new Set<string>(), order };
+    group.candidates.push(candidate);
+    group.pages.add(candidate.sourceUrl);
+    groups.set(key, group);
+  });
+  if (groups.size === 0) return null;
+
+  const rank = (group: { candidates: Candidate[] }) =>
+    Math.max(...group.candidates.map(c => CONFIDENCE_RANK[c.confidence]));
+  const [best, ...others] = Array.from(groups.values()).sort((a, b) =>
+    rank(b) - rank(a) || b.pages.size - a.pages.size || a.order - b.order
+  );
+  const top = [...best.candidates].sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence])[0];
+
+  return {
+    path,
+    value: top.value,
+    confidence: top.confidence,
+    sourceUrl: top.sourceUrl,
+    source: top.source,
+    needsConfirmation: top.confidence !== 'high' || others.some(group => rank(group) >= CONFIDENCE_RANK.medium),
+    ...(others.length > 0 && { alternatives: others.map(group => group.candidates[0].value) }),
+  };
+}
+
+/**
+ * Picks the distinct values of a list, strongest evidence first, one
+ * field per item.
+ */
+function pickListFields(path: string, candidates: Candidate[], max: number): DraftField[] {
+  const best = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const key = normalizeValue(candidate.value);
+    const current = best.get(key);
+    if (key && (!current || CONFIDENCE_RANK[candidate.confidence] > CONFIDENCE_RANK[current.confidence])) {
+      best.set(key, candidate);
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence])
+    .slice(0, max)
+    .map((candidate, index) => ({
+      path: `${path}[${index}]`,
+      value: candidate.value,
+      confidence: candidate.confidence,
+      sourceUrl: candidate.sourceUrl,
+      source: candidate.source,
+      needsConfirmation: candidate.confidence !== 'high',
+    }));
+}
+
+/**
+ * Collects candidates from a page's LocalBusiness/Organization and
+ * Service JSON-LD.
+ */
+function collectSchemaCandidates(page: PageData, add: (path: string, candidate: Candidate) => void): void {
+  for (const entity of collectEntities(page.jsonLd)) {
+    const types = typesOf(entity);
+    const source = schemaSource(entity);
+    const found = (path: string, value: string | number | null | undefined) => {
+      if (value !== null && value !== undefined && value !== '') {
+        add(path, { value, confidence: 'high', sourceUrl: page.url, source });
+      }
+    };
+
+    if (types.includes('service')) {
+      found('services.primary', asText(entity.name));
+      continue;
+    }
+    if (!types.some(type => LOCAL_BUSINESS_SCHEMA_TYPES.includes(type) || type === 'organization')) continue;
+
+    found('business.name', asText(entity.name));
+    found('business.legalName', asText(entity.legalName));
+    found('business.website', asText(entity.url));
+    found('contact.phone', asText(entity.telephone));
+    found('contact.email', asText(entity.email)?.replace(/^mailto:/i, ''));
+
+    const address = entity.address;
+    if (address && typeof address === 'object') {
+      const postal = address as Record<string, unknown>;
+      found('location.primaryCity', asText(postal.addressLocality));
+      found('location.region', asText(postal.addressRegion));
+      found('location.country', asText(postal.addressCountry));
+    }
+
+    asTextList(entity.areaServed).forEach(area => found('location.serviceAreas', area));
+
+    found('operations.operatingHours', schemaHours(entity));
+
+    const rating = entity.aggregateRating as Record<string, unknown> | undefined;
+    if (rating && typeof rating === 'object') {
+      const ratingValue = Number(rating.ratingValue);
+      const reviewCount = Number(rating.reviewCount ?? rating.ratingCount);
+      if (ratingValue > 0 && reviewCount > 0) {
+        found('proof.averageRating', ratingValue);
+        found('proof.reviewCount', reviewCount);
+      }
+    }
+  }
+}
+
+/**
+ * Collects branch candidates from a page's LocalBusiness JSON-LD. Every
+ * entity with an addressLocality is a branch; the same branch on several
+ * pages (same street, or same @id or name when there is no street, in the
+ * same city) is merged.
+ */
+function collectBranchCandidates(page: PageData, branches: Map<string, BranchCandidates>): void {
+  for (const entity of collectEntities(page.jsonLd)) {
+    if (!typesOf(entity).some(type => LOCAL_BUSINESS_SCHEMA_TYPES.includes(type))) continue;
+
+    const address = Array.isArray(entity.address) ? entity.address[0] : entity.address;
+    if (!address || typeof address !== 'object') continue;
+    const postal = address as Record<string, unknown>;
+    const city = asText(postal.addressLocality);
+    if (!city) continue;
+
+    const street = asText(postal.streetAddress);
+    const key = `${normalizeValue(street ?? asText(entity['@id']) ?? asText(entity.name) ?? '')}|${normalizeValue(city)}`;
+    const branch = branches.get(key) ?? new Map<LocationField, Candidate[]>();
+    branches.set(key, branch);
+
+    const source = schemaSource(entity);
+    const found = (field: LocationField, value: string | null | undefined) => {
+      if (value) branch.set(field, [...(branch.get(field) ?? []), { value, confidence: 'high', sourceUrl: page.url, source }]);
+    };
+
+    found('name', asText(entity.name));
+    found('address.streetAddress', street);
+    found('address.city', city);
+    found('address.region', asText(postal.addressRegion));
+    found('address.postalCode', asText(postal.postalCode));
+    found('address.country', asText(postal.addressCountry));
+    found('phone', asText(entity.telephone));
+    found('email', asText(entity.email)?.replace(/^mailto:/i, ''));
+    found('operatingHours', schemaHours(entity));
+    found('url', asText(entity.url));
+  }
+}
+
+/**
+ * Builds locations[] from the collected branches, one field per value.
+ * Ids are slugs of the branch city, suffixed when a city has several
+ * branches. A branch with no country is listed in missingFields.
+ */
+function pickLocations(branches: Map<string, BranchCandidates>): {
+  locations: BusinessLocation[];
+  fields: DraftField[];
+  missingFields: string[];
+} {
+  const locations: BusinessLocation[] = [];
+  const fields: DraftField[] = [];
+  const missingFields: string[] = [];
+  const usedIds = new Set<string>();
+
+  Array.from(branches.values()).slice(0, MAX_LOCATIONS).forEach((candidates, index) => {
+    const prefix = `locations[${index}]`;
+    const picked = new Map(LOCATION_FIELDS.map(field =>
+      [field, pickField(`${prefix}.${field}`, candidates.get(field) ?? [])] as const
+    ));
+    const value = (field: LocationField) => {
+      const draft = picked.get(field);
+      return draft ? String(draft.value) : undefined;
+    };
+    const optional = <K extends string>(key: K, field: LocationField) => {
+      const text = value(field);
+      return text === undefined ? {} : ({ [key]: text } as Record<K, string>);
+    };
+
+    const city = picked.get('address.city') as DraftField;
+    const baseId = slugify(String(city.value)) || 'branch';
+    let id = baseId;
+    for (let n = 2; usedIds.has(id); n++) id = `${baseId}-${n}`;
+    usedIds.add(id);
+
+    fields.push(
+      { path: `${prefix}.id`, value: id, confidence: 'high', sourceUrl: city.sourceUrl, source: 'branch city', needsConfirmation: false },
+      ...Array.from(picked.values()).filter((field): field is DraftField => field !== null)
+    );
+    if (!picked.get('address.country')) missingFields.push(`${prefix}.address.country`);
+
+    locations.push({
+      id,
+      ...optional('name', 'name'),
+      address: {
+        ...optional('streetAddress', 'address.streetAddress'),
+        city: String(city.value),
+        ...optional('region', 'address.region'),
+        ...optional('postalCode', 'address.postalCode'),
+        country: value('address.country') ?? '',
+      },
+      ...optional('phone', 'phone'),
+      ...optional('email', 'email'),
+      ...optional('operatingHours', 'operatingHours'),
+      ...optional('url', 'url'),
+    });
+  });
+
+  return { locations, fields, missingFields };
+}
+
+/**
+ * Collects candidates from links, page text, headings and URLs.
+ */
+function collectPageCandidates(
+  page: PageData,
+  isHomepage: boolean,
+  add: (path: string, candidate: Candidate) => void
+): void {
+  const found = (path: string, value: string, confidence: ExtractionConfidence, source: string) =>
+    add(path, { value, confidence, sourceUrl: page.url, source });
+
+  for (const link of page.links) {
+    const tel = link.href.match(/^tel:(.+)$/i);
+    if (tel) found('contact.phone', safeDecode(tel[1]).trim(), 'high', 'tel: link');
+    const mailto = link.href.match(/^mailto:([^?]+)/i);
+    if (mailto) found('contact.email', safeDecode(mailto[1]).trim(), 'high', 'mailto: link');
+  }
+
+  const signals = buildAuditPage(page, isHomepage);
+  signals.phoneNumbers.forEach(phone => found('contact.phone', phone.trim(), 'medium', 'page text'));
+  signals.emails.forEach(email => found('contact.email', email, 'medium', 'page text'));
+
+  for (const match of page.bodyText.matchAll(US_CITY_STATE_ZIP_PATTERN)) {
+    found('location.primaryCity', match[1], 'medium', 'city, state and ZIP in page text');
+    found('location.region', match[2], 'medium', 'city, state and ZIP in page text');
+    found('location.country', 'USA', 'low', 'US state and ZIP code in page text');
+  }
+
+  const hours = Array.from(new Set((page.bodyText.match(HOURS_PATTERN) ?? []).map(h => h.trim())));
+  if (hours.length > 0) {
+    found('operations.operatingHours', hours.join('; '), 'medium', 'page text');
+  } else if (ALWAYS_OPEN_PATTERN.test(page.bodyText)) {
+    found('operations.operatingHours', 'Open 24/7', 'low', '"24/7" in page text');
+  }
+
+  if (isHomepage) {
+    const keyContent = `${page.title ?? ''} ${page.h1Text ?? ''}`.toLowerCase();
+    GEO_CITY_TERMS
+      .filter(city => new RegExp(`\\b${city}\\b`).test(keyContent))
+      .forEach(city => found('location.primaryCity', slugToName(city.replace(/\s+/g, '-')), 'low', 'city named in homepage title or H1'));
+    return;
+  }
+
+  const segment = lastSegment(page.url);
+  if (!segment || HUB_SEGMENTS.includes(segment)) return;
+
+  if (isLocationPage(page.url, page.title)) {
+    const place = page.h1Text?.match(PLACE_IN_HEADING_PATTERN);
+    if (place) {
+      found('location.serviceAreas', place[1], 'medium', 'location page H1');
+    } else {
+      found('location.serviceAreas', slugToName(segment.replace(/^(?:near|in|serving)-/, '')), 'low', 'location page URL');
+    }
+  } else if (isServicePage(page.url, page.title, page.h1Text)) {
+    const name = page.h1Text?.replace(/\s+(?:in|near)\s+[A-Z].*$/, '').trim();
+    if (name) {
+      found('services.primary', name, 'medium', 'service page H1');
+    } else {
+      found('services.primary', slugToName(segment), 'low', 'service page URL');
+    }
+  }
+}
+
+/**
+ * Business name candidates from page titles: a title segment repeated
+ * across pages is likely the name; otherwise the homepage's first segment.
+ */
+function collectTitleCandidates(pages: PageData[], homepage: PageData | undefined): Candidate[] {
+  const counts = new Map<string, { value: string; pages: PageData[] }>();
+  for (const page of pages) {
+    const segments = (page.title ?? '').split(/\s+[|\-–—·:]\s+/).map(s => s.trim()).filter(s => s.length >= 3);
+    for (const segment of new Set(segments)) {
+      const key = normalizeValue(segment);
+      const entry = counts.get(key) ?? { value: segment, pages: [] };
+      entry.pages.push(page);
+      counts.set(key, entry);
+    }
+  }
+
+  const repeated = Array.from(counts.values())
+    .filter(entry => entry.pages.length >= 2 && entry.pages.length >= pages.length / 2)
+    .sort((a, b) => b.pages.length - a.pages.length);
+  if (repeated.length > 0) {
+    return [{ value: repeated[0].value, confidence: 'medium', sourceUrl: repeated[0].pages[0].url, source: 'repeated in page titles' }];
+  }
+
+  const first = homepage?.title?.split(/\s+[|\-–—·:]\s+/)[0].trim();
+  return first && !/^home$/i.test(first)
+    ? [{ value: first, confidence: 'low', sourceUrl: (homepage as PageData).url, source: 'homepage title' }]
+    : [];
+}
+
+/**
+ * Drafts a BusinessInput from an already crawled site.
+ */
+export function extractBusinessInputDraft(crawlResult: CrawlResult): BusinessInputDraft {
+  const pages = crawlResult.pages.filter(page => !page.fetchError);
+  const homepage = pages.find(page => lastSegment(page.url) === null);
+
+  const candidates = new Map<string, Candidate[]>();
+  const add = (path: string, candidate: Candidate) => {
+    candidates.set(path, [...(candidates.get(path) ?? []), candidate]);
+  };
+
+  const branches = new Map<string, BranchCandidates>();
+
+  for (const page of pages) {
+    collectSchemaCandidates(page, add);
+    collectBranchCandidates(page, branches);
+    collectPageCandidates(page, page === homepage, add);
+  }
+  collectTitleCandidates(pages, homepage).forEach(candidate => add('business.name', candidate));
+
+  let siteOrigin = crawlResult.baseUrl;
+  try {
+    siteOrigin = new URL(crawlResult.baseUrl).origin;
+  } catch {
+    // Keep the URL as given
+  }
+  add('business.website', { value: siteOrigin, confidence: 'high', sourceUrl: crawlResult.baseUrl, source: 'crawled site URL' });
+
+  const single = (path: string) => pickField(path, candidates.get(path) ?? []);
+  const list = (path: string, max: number) => pickListFields(path, candidates.get(path) ?? [], max);
+
+  const name = single('business.name');
+  const legalName = single('business.legalName');
+  const website = single('business.website');
+  const city = single('location.primaryCity');
+  const region = single('location.region');
+  const country = single('location.country');
+  const phone = single('contact.phone');
+  const email = single('contact.email');
+  const hours = single('operations.operatingHours');
+  const averageRating = single('proof.averageRating');
+  const reviewCount = single('proof.reviewCount');
+  const services = list('services.primary', MAX_SERVICES);
+  const serviceAreas = list('location.serviceAreas', MAX_SERVICE_AREAS);
+  const branchDrafts = pickLocations(branches);
+
+  const text = (field: DraftField | null) => (field ? String(field.value) : undefined);
+  const businessInput: BusinessInput = {
+    business: {
+      name: text(name) ?? '',
+      ...(legalName && { legalName: String(legalName.value) }),
+      ...(website && { website: String(website.value) }),
+    },
+    location: {
+      primaryCity: text(city) ?? '',
+      ...(region && { region: String(region.value) }),
+      country: text(country) ?? '',
+      serviceAreas: serviceAreas.map(field => String(field.value)),
+    },
+    ...(branchDrafts.locations.length > 0 && { locations: branchDrafts.locations }),
+    contact: {
+      ...(phone && { phone: String(phone.value) }),
+      ...(email && { email: String(email.value) }),
+    },
+    services: { primary: services.map(field => String(field.value)) },
+    ...(hours && { operations: { operatingHours: String(hours.value) } }),
+    ...(averageRating && reviewCount && {
+      proof: { averageRating: Number(averageRating.value), reviewCount: Number(reviewCount.value) },
+    }),
+    constraints: { noHallucinations: true },
+  };
+
+  const fields = [name, legalName, website, city, region, country, ...serviceAreas, phone, email, ...services, hours]
+    .concat(averageRating && reviewCount ? [averageRating, reviewCount] : [])
+    .filter((field): field is DraftField => field !== null)
+    .concat(branchDrafts.fields);
+
+  const missingFields = [
+    ['business.name', name],
+    ['location.primaryCity', city],
+    ['location.country', country],
+    ['location.serviceAreas', serviceAreas[0] ?? null],
+    ['services.primary', services[0] ?? null],
+  ].filter(([, field]) => field === null).map(([path]) => path as string)
+    .concat(branchDrafts.missingFields);
+
+  return {
+    siteUrl: crawlResult.baseUrl,
+    generatedAt: new Date().toISOString(),
+    pagesAnalyzed: crawlResult.pagesAnalyzed,
+    businessInput,
+    fields,
+    needsConfirmation: fields.filter(field => field.needsConfirmation).map(field => field.path),
+    missingFields,
+    validationErrors: validateBusinessInput(businessInput).errors,
+    crawlErrors: crawlResult.errors,
+  };
+}
+
+/**
+ * Crawls a site and drafts a BusinessInput from it.
+ */
+export async function draftBusinessInputFromSite(
+  siteUrl: string,
+  config: Partial<CrawlerConfig> = {}
+): Promise<BusinessInputDraft> {
+  return extractBusinessInputDraft(await crawlSite(siteUrl, config));
+}
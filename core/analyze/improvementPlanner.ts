@@ -5,6 +5,11 @@
  * All improvements are based only on existing page content plus
  * generic GEO patterns - no fabricated business facts.
  *
+ * When a validated BusinessInput is supplied, its facts are narrowed to
+ * what each page is about (the listed service, service area or branch
+ * the page names) and the core generators build the blocks from them,
+ * as in generate mode. Gaps still decide which blocks are planned.
+ *
  * DESIGN CONSTRAINTS:
  * - No invented claims (licenses, years, ratings, etc.)
  * - Use "[ADD FACT]" placeholders where data is needed
@@ -12,9 +17,19 @@
  * - Output is structured for easy integration
  */
 
+import type { BusinessInput } from '../../inputs/business.schema';
 import type { PageData, CrawlResult } from '../ingest/siteCrawler';
 import type { PageGapAnalysis, SiteGapAnalysis, GapFlag } from './geoGapAnalyzer';
 import { analyzeGeoGaps } from './geoGapAnalyzer';
+import type { AuditProfile } from './auditProfiles';
+import { isServicePage } from './auditSignals';
+import { DEFAULT_PROCESS_STEPS, generateHowWeWork } from '../generators/howWeWork.generator';
+import { generateAnswerCapsule as generateBusinessAnswerCapsule } from '../generators/answerCapsule.generator';
+import { generateFAQ } from '../generators/faq.generator';
+import { generateSchema } from '../generators/schema.generator';
+import { generateTestimonial } from '../generators/testimonial.generator';
+import { generateTeamBio } from '../generators/teamBio.generator';
+import { getBranches, toBranchInput } from '../generators/locations';
 
 /**
  * Suggested FAQ item.
@@ -34,6 +49,61 @@ export interface SuggestedSchema {
   [key: string]: unknown;
 }
 
+/**
+ * One step of a breadcrumb trail, from the homepage to the page.
+ */
+export interface SuggestedBreadcrumb {
+  name: string;
+  url: string;
+}
+
+/**
+ * A service in a suggested service list. URL is set when the service
+ * was found as a link on the page.
+ */
+export interface SuggestedService {
+  name: string;
+  url: string | null;
+  description: string;
+  isPlaceholder: boolean;
+}
+
+/**
+ * A suggested testimonial. Testimonials are never invented, so these
+ * are always placeholders for the business's real reviews.
+ */
+export interface SuggestedTestimonial {
+  quote: string;
+  author: string;
+  isPlaceholder: boolean;
+}
+
+/**
+ * A suggested team member bio.
+ */
+export interface SuggestedTeamMember {
+  name: string;
+  role: string;
+  bio: string;
+  isPlaceholder: boolean;
+}
+
+/**
+ * A step in a suggested "how we work" process.
+ */
+export interface SuggestedProcessStep {
+  title: string;
+  description: string;
+}
+
+/**
+ * A suggested page section with the JSON-LD that describes it.
+ */
+export interface SuggestedSection<T> {
+  items: T[];
+  schemaJsonLd: SuggestedSchema;
+}
+
 /**
  * Suggested additions for a page.
  */
@@ -41,6 +111,16 @@ export interface SuggestedAdditions {
   answerCapsule?: string;
   faq?: SuggestedFAQ[];
   schemaJsonLd?: SuggestedSchema;
+  /** Breadcrumb trail with BreadcrumbList schema */
+  breadcrumbs?: SuggestedSection<SuggestedBreadcrumb>;
+  /** Service list with OfferCatalog schema */
+  serviceList?: SuggestedSection<SuggestedService>;
+  /** Testimonials with Review schema */
+  testimonials?: SuggestedSection<SuggestedTestimonial>;
+  /** Team bios with Person schema */
+  team?: SuggestedSection<SuggestedTeamMember>;
+  /** Service process with HowTo schema */
+  howWeWork?: SuggestedSection<SuggestedProcessStep>;
 }
 
 /**
@@ -74,15 +154,85 @@ export interface SiteImprovementPlan {
   siteWideSuggestions: string[];
 }
 
+/**
+ * BusinessInput narrowed to one page.
+ */
+interface PageBusinessScope {
+  /** Page-scoped input: only the page's service, area or branch */
+  input: BusinessInput;
+  /** Listed city or service area the page is about */
+  area: string | null;
+}
+
+/**
+ * Lowercases and reduces a name to space-separated words for matching
+ * ("Drain-Cleaning" and "drain cleaning" match).
+ */
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Narrows BusinessInput to the page: a branch whose URL or city the
+ * page matches, a listed service and a listed service area named in the
+ * page's URL path or H1. The homepage keeps the whole input. Only listed
+ * values are ever selected, so the scoped input stays fact-bound.
+ */
+function scopeBusinessInput(page: PageData, input: BusinessInput): PageBusinessScope {
+  let pathname: string;
+  try {
+    pathname = new URL(page.url).pathname.replace(/\/+$/, '');
+  } catch {
+    return { input, area: null };
+  }
+  if (pathname === '') return { input, area: null };
+
+  const text = ` ${normalizeName(`${pathname} ${page.h1Text ?? ''}`)} `;
+  const mentions = (name: string) => normalizeName(name) !== '' && text.includes(` ${normalizeName(name)} `);
+
+  const branch = getBranches(input).find(b => {
+    if (b.url) {
+      try {
+        if (new URL(b.url, page.url).pathname.replace(/\/+$/, '') === pathname) return true;
+      } catch {
+        // Unparseable branch URL; match by city only
+      }
+    }
+    return mentions(b.address.city);
+  });
+  const scoped = branch ? toBranchInput(input, branch) : input;
+
+  const service = [...scoped.services.primary, ...(scoped.services.secondary ?? [])].find(mentions) ?? null;
+  const area = branch ? branch.address.city : scoped.location.serviceAreas.find(mentions) ?? null;
+
+  return {
+    input: {
+      ...scoped,
+      services: service ? { primary: [service] } : scoped.services,
+      location: area && !branch ? { ...scoped.location, serviceAreas: [area] } : scoped.location,
+    },
+    area,
+  };
+}
+
 /**
  * Extracts key facts from page content for use in improvements.
- * Only uses what's actually present - never fabricates.
+ * Only uses what's actually present - never fabricates. With a business
+ * scope, the listed facts replace what the page suggests.
  */
-function extractPageFacts(page: PageData): {
+function extractPageFacts(page: PageData, scope?: PageBusinessScope): {
   businessName: string | null;
   location: string | null;
   services: string[];
 } {
+  if (scope) {
+    return {
+      businessName: scope.input.business.name,
+      location: scope.area ?? scope.input.location.primaryCity,
+      services: scope.input.services.primary,
+    };
+  }
+
   // Try to extract business name from title or H1
   let businessName: string | null = null;
   if (page.title) {
@@ -125,11 +275,15 @@ function extractPageFacts(page: PageData): {
 /**
  * Generates a recommended title based on existing page data.
  */
-function generateRecommendedTitle(page: PageData, gaps: GapFlag[]): string | null {
+function generateRecommendedTitle(page: PageData, gaps: GapFlag[], scope?: PageBusinessScope): string | null {
   const hasGap = gaps.some(g => g.type === 'missing_title' || g.type === 'weak_title');
   if (!hasGap) return null;
 
-  const facts = extractPageFacts(page);
+  const facts = extractPageFacts(page, scope);
+
+  if (scope) {
+    return `${facts.services[0]} in ${facts.location} | ${facts.businessName}`;
+  }
 
   if (page.h1Text && page.h1Text.length >= 20) {
     // H1 is good enough to use as title base
@@ -152,13 +306,23 @@ function generateRecommendedTitle(page: PageData, gaps: GapFlag[]): string | nul
 /**
  * Generates a recommended meta description based on existing page data.
  */
-function generateRecommendedMetaDescription(page: PageData, gaps: GapFlag[]): string | null {
+function generateRecommendedMetaDescription(
+  page: PageData,
+  gaps: GapFlag[],
+  scope?: PageBusinessScope
+): string | null {
   const hasGap = gaps.some(
     g => g.type === 'missing_meta_description' || g.type === 'short_meta_description'
   );
   if (!hasGap) return null;
 
-  const facts = extractPageFacts(page);
+  const facts = extractPageFacts(page, scope);
+
+  if (scope) {
+    const areas = scope.input.location.serviceAreas.filter(area => area !== facts.location);
+    return `${facts.businessName} provides ${facts.services.join(', ')} in ${facts.location}.` +
+      (areas.length > 0 ? ` Serving ${areas.join(', ')}.` : '');
+  }
 
   if (facts.businessName && facts.location) {
     return `${facts.businessName} provides [ADD SERVICES] in ${facts.location}. [ADD UNIQUE VALUE PROPOSITION]. Contact us for [ADD CALL TO ACTION].`;
@@ -177,10 +341,13 @@ function generateRecommendedMetaDescription(page: PageData, gaps: GapFlag[]): st
 function generateAnswerCapsule(
   page: PageData,
   isServicePage: boolean,
-  isLocationPage: boolean
+  isLocationPage: boolean,
+  scope?: PageBusinessScope
 ): string | null {
   if (!isServicePage && !isLocationPage) return null;
 
+  if (scope) return generateBusinessAnswerCapsule(scope.input).capsule;
+
   const facts = extractPageFacts(page);
 
   if (facts.businessName && facts.location) {
@@ -200,12 +367,21 @@ function generateAnswerCapsule(
 function generateSuggestedFAQs(
   page: PageData,
   isServicePage: boolean,
-  isLocationPage: boolean
+  isLocationPage: boolean,
+  scope?: PageBusinessScope
 ): SuggestedFAQ[] | undefined {
   // Only suggest FAQs for service or location pages
   if (!isServicePage && !isLocationPage) return undefined;
 
-  const facts = extractPageFacts(page);
+  // Business facts answer the questions they can; placeholders otherwise
+  if (scope) {
+    const answered = generateFAQ(scope.input).schemaReady;
+    if (answered.length > 0) {
+      return answered.map(faq => ({ question: faq.question, answer: faq.answer, isPlaceholder: false }));
+    }
+  }
+
+  const facts = extractPageFacts(page, scope);
   const faqs: SuggestedFAQ[] = [];
 
   if (isServicePage) {
@@ -243,11 +419,17 @@ function generateSuggestedFAQs(
 function generateSuggestedSchema(
   page: PageData,
   isServicePage: boolean,
-  isLocationPage: boolean
+  isLocationPage: boolean,
+  scope?: PageBusinessScope
 ): SuggestedSchema | undefined {
   // Don't suggest if schema already exists
   if (page.detectedSchemaTypes.length > 0) return undefined;
 
+  if ((isServicePage || isLocationPage) && scope) {
+    // Branch pages are scoped to the branch, so this is its LocalBusiness
+    return { ...generateSchema(scope.input).localBusiness };
+  }
+
   const facts = extractPageFacts(page);
 
   if (isServicePage || isLocationPage) {
@@ -272,6 +454,236 @@ function generateSuggestedSchema(
   return undefined;
 }
 
+/**
+ * Title-cases a URL slug ("drain-cleaning" -> "Drain Cleaning").
+ */
+function slugToName(slug: string): string {
+  return decodeURIComponent(slug)
+    .replace(/\.[a-z]+$/i, '')
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Generates a breadcrumb trail from the page's URL path. The last step
+ * is named after the page's H1 when it has one. None for the homepage.
+ */
+function generateSuggestedBreadcrumbs(page: PageData): SuggestedSection<SuggestedBreadcrumb> | undefined {
+  let url: URL;
+  try {
+    url = new URL(page.url);
+  } catch {
+    return undefined;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  if (segments.length === 0) return undefined;
+
+  const items: SuggestedBreadcrumb[] = [{ name: 'Home', url: `${url.origin}/` }];
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    items.push({
+      name: (isLast && page.h1Text) || slugToName(segment),
+      url: `${url.origin}/${segments.slice(0, index + 1).join('/')}${isLast && !url.pathname.endsWith('/') ? '' : '/'}`,
+    });
+  });
+
+  return {
+    items,
+    schemaJsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: items.map((item, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: item.name,
+        item: item.url,
+      })),
+    },
+  };
+}
+
+/**
+ * Generates a service list from the service pages the page links to,
+ * or placeholders when it links to none. With a business scope the
+ * listed services are used instead, linked to the page that covers each.
+ */
+function generateSuggestedServiceList(page: PageData, scope?: PageBusinessScope): SuggestedSection<SuggestedService> {
+  const facts = extractPageFacts(page, scope);
+  let services: SuggestedService[] = [];
+  const seen = new Set<string>([page.url.replace(/\/$/, '')]);
+  let origin: string | null = null;
+  try {
+    origin = new URL(page.url).origin;
+  } catch {
+    // Invalid page URL; no link can be matched to it
+  }
+
+  for (const link of page.links) {
+    let href: URL;
+    try {
+      href = new URL(link.href, page.url);
+    } catch {
+      continue;
+    }
+    const url = href.origin + href.pathname;
+    const key = url.replace(/\/$/, '');
+    if (href.origin !== origin || seen.has(key) || !link.text.trim() || !isServicePage(url, null, link.text)) continue;
+
+    seen.add(key);
+    services.push({
+      name: link.text.trim(),
+      url,
+      description: '[ADD ONE-SENTENCE SERVICE DESCRIPTION]',
+      isPlaceholder: true,
+    });
+    if (services.length === 10) break;
+  }
+
+  if (scope) {
+    const linked = services;
+    services = [...scope.input.services.primary, ...(scope.input.services.secondary ?? [])].map(name => {
+      const link = linked.find(s =>
+        normalizeName(s.name) === normalizeName(name) || ` ${normalizeName(s.url ?? '')} `.includes(` ${normalizeName(name)} `)
+      );
+      return {
+        name,
+        url: link?.url ?? null,
+        description: '[ADD ONE-SENTENCE SERVICE DESCRIPTION]',
+        isPlaceholder: true,
+      };
+    });
+  }
+
+  if (services.length === 0) {
+    for (let i = 0; i < 3; i++) {
+      services.push({
+        name: '[ADD SERVICE NAME]',
+        url: null,
+        description: '[ADD ONE-SENTENCE SERVICE DESCRIPTION]',
+        isPlaceholder: true,
+      });
+    }
+  }
+
+  return {
+    items: services,
+    schemaJsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'OfferCatalog',
+      name: `${facts.businessName || '[ADD BUSINESS NAME]'} Services`,
+      itemListElement: services.map(service => ({
+        '@type': 'Offer',
+        itemOffered: {
+          '@type': 'Service',
+          name: service.name,
+          description: service.description,
+          ...(service.url && { url: service.url }),
+        },
+      })),
+    },
+  };
+}
+
+/**
+ * Generates testimonials from the business's own, in their words, or
+ * placeholders to be replaced with real reviews.
+ */
+function generateSuggestedTestimonials(page: PageData, scope?: PageBusinessScope): SuggestedSection<SuggestedTestimonial> {
+  const facts = extractPageFacts(page, scope);
+  const provided = scope ? generateTestimonial(scope.input).testimonials : [];
+  const testimonials: SuggestedTestimonial[] = provided.length > 0
+    ? provided.map(testimonial => ({
+      quote: testimonial.original,
+      author: testimonial.attribution.customerName,
+      isPlaceholder: false,
+    }))
+    : [1, 2, 3].map(() => ({
+      quote: '[ADD REAL CUSTOMER TESTIMONIAL]',
+      author: '[ADD CUSTOMER NAME]',
+      isPlaceholder: true,
+    }));
+
+  return {
+    items: testimonials,
+    schemaJsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'LocalBusiness',
+      name: facts.businessName || '[ADD BUSINESS NAME]',
+      review: testimonials.map(testimonial => ({
+        '@type': 'Review',
+        reviewBody: testimonial.quote,
+        author: { '@type': 'Person', name: testimonial.author },
+      })),
+    },
+  };
+}
+
+/**
+ * Generates bios for the business's listed team, or a placeholder bio.
+ */
+function generateSuggestedTeam(page: PageData, scope?: PageBusinessScope): SuggestedSection<SuggestedTeamMember> {
+  const facts = extractPageFacts(page, scope);
+  const provided = scope ? generateTeamBio(scope.input).team : [];
+  const members: SuggestedTeamMember[] = provided.length > 0
+    ? provided.map(member => ({ name: member.name, role: member.role, bio: member.bio, isPlaceholder: false }))
+    : [{
+      name: '[ADD TEAM MEMBER NAME]',
+      role: '[ADD ROLE]',
+      bio: '[ADD BIO: YEARS OF EXPERIENCE, QUALIFICATIONS, SPECIALTIES]',
+      isPlaceholder: true,
+    }];
+
+  return {
+    items: members,
+    schemaJsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'ItemList',
+      itemListElement: members.map((member, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        item: {
+          '@type': 'Person',
+          name: member.name,
+          jobTitle: member.role,
+          description: member.bio,
+          worksFor: { '@type': 'Organization', name: facts.businessName || '[ADD BUSINESS NAME]' },
+        },
+      })),
+    },
+  };
+}
+
+/**
+ * Generates a "how we work" process: the business's own steps when it
+ * lists them, otherwise the generic steps the How We Work generator
+ * falls back to.
+ */
+function generateSuggestedHowWeWork(page: PageData, scope?: PageBusinessScope): SuggestedSection<SuggestedProcessStep> {
+  const facts = extractPageFacts(page, scope);
+  const steps: SuggestedProcessStep[] = (scope ? generateHowWeWork(scope.input).steps : DEFAULT_PROCESS_STEPS).map(step => ({
+    title: step.title,
+    description: step.description,
+  }));
+
+  return {
+    items: steps,
+    schemaJsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'HowTo',
+      name: `How ${facts.businessName || '[ADD BUSINESS NAME]'} Works`,
+      step: steps.map((step, index) => ({
+        '@type': 'HowToStep',
+        position: index + 1,
+        name: step.title,
+        text: step.description,
+      })),
+    },
+  };
+}
+
 /**
  * Determines priority actions based on gaps.
  */
@@ -307,12 +719,14 @@ function estimateImpact(page: PageData, gaps: GapFlag[]): 'high' | 'medium' | 'l
 /**
  * Generates an improvement plan for a single page.
  */
-function planPageImprovements(
+export function planPageImprovements(
   page: PageData,
-  gapAnalysis: PageGapAnalysis
+  gapAnalysis: PageGapAnalysis,
+  businessInput?: BusinessInput
 ): PageImprovementPlan {
-  const recommendedTitle = generateRecommendedTitle(page, gapAnalysis.gaps);
-  const recommendedMetaDescription = generateRecommendedMetaDescription(page, gapAnalysis.gaps);
+  const scope = businessInput ? scopeBusinessInput(page, businessInput) : undefined;
+  const recommendedTitle = generateRecommendedTitle(page, gapAnalysis.gaps, scope);
+  const recommendedMetaDescription = generateRecommendedMetaDescription(page, gapAnalysis.gaps, scope);
 
   const suggestedAdditions: SuggestedAdditions = {};
 
@@ -322,7 +736,8 @@ function planPageImprovements(
     const capsule = generateAnswerCapsule(
       page,
       gapAnalysis.isServicePage,
-      gapAnalysis.isLocationPage
+      gapAnalysis.isLocationPage,
+      scope
     );
     if (capsule) {
       suggestedAdditions.answerCapsule = capsule;
@@ -335,7 +750,8 @@ function planPageImprovements(
     const faqs = generateSuggestedFAQs(
       page,
       gapAnalysis.isServicePage,
-      gapAnalysis.isLocationPage
+      gapAnalysis.isLocationPage,
+      scope
     );
     if (faqs) {
       suggestedAdditions.faq = faqs;
@@ -348,13 +764,40 @@ function planPageImprovements(
     const schema = generateSuggestedSchema(
       page,
       gapAnalysis.isServicePage,
-      gapAnalysis.isLocationPage
+      gapAnalysis.isLocationPage,
+      scope
     );
     if (schema) {
       suggestedAdditions.schemaJsonLd = schema;
     }
   }
 
+  const hasGap = (...types: string[]) => gapAnalysis.gaps.some(g => types.includes(g.type));
+
+  // Add sections for the content gaps they fill
+  if (hasGap('breadcrumb_opportunity', 'missing_breadcrumb_schema')) {
+    const breadcrumbs = generateSuggestedBreadcrumbs(page);
+    if (breadcrumbs) {
+      suggestedAdditions.breadcrumbs = breadcrumbs;
+    }
+  }
+
+  if (hasGap('missing_service_schema', 'no_service_keywords')) {
+    suggestedAdditions.serviceList = generateSuggestedServiceList(page, scope);
+  }
+
+  if (hasGap('lacks_structured_content')) {
+    suggestedAdditions.howWeWork = generateSuggestedHowWeWork(page, scope);
+  }
+
+  if (hasGap('no_social_proof', 'missing_review_schema')) {
+    suggestedAdditions.testimonials = generateSuggestedTestimonials(page, scope);
+  }
+
+  if (hasGap('team_info_opportunity')) {
+    suggestedAdditions.team = generateSuggestedTeam(page, scope);
+  }
+
   return {
     url: page.url,
     currentState: {
@@ -372,10 +815,23 @@ function planPageImprovements(
   };
 }
 
+/**
+ * True if the plan recommends any change to the page.
+ */
+export function hasImprovements(plan: PageImprovementPlan): boolean {
+  return Boolean(
+    plan.recommendedTitle ||
+    plan.recommendedMetaDescription ||
+    Object.keys(plan.suggestedAdditions).length > 0
+  );
+}
+
 /**
  * Generates site-wide suggestions based on gap analysis.
  */
-function generateSiteWideSuggestions(gapAnalysis: SiteGapAnalysis): string[] {
+export function generateSiteWideSuggestions(
+  gapAnalysis: Pick<SiteGapAnalysis, 'siteWideIssues' | 'averageGeoScore' | 'criticalIssues' | 'totalPages'>
+): string[] {
   const suggestions: string[] = [];
 
   for (const issue of gapAnalysis.siteWideIssues) {
@@ -399,11 +855,17 @@ function generateSiteWideSuggestions(gapAnalysis: SiteGapAnalysis): string[] {
 }
 
 /**
- * Generates a complete improvement plan for a site.
+ * Generates a complete improvement plan for a site. The audit profile
+ * decides which gaps are found and therefore what gets planned; a
+ * validated BusinessInput, when given, supplies the facts.
  */
-export function planSiteImprovements(crawlResult: CrawlResult): SiteImprovementPlan {
+export function planSiteImprovements(
+  crawlResult: CrawlResult,
+  profile?: AuditProfile,
+  businessInput?: BusinessInput
+): SiteImprovementPlan {
   // First, run gap analysis
-  const gapAnalysis = analyzeGeoGaps(crawlResult);
+  const gapAnalysis = analyzeGeoGaps(crawlResult, profile);
 
   // Generate improvement plans for each page
   const pageImprovements: PageImprovementPlan[] = [];
@@ -413,17 +875,12 @@ export function planSiteImprovements(crawlResult: CrawlResult): SiteImprovementP
     const pageGaps = gapAnalysis.pages.find(p => p.url === page.url);
 
     if (pageGaps) {
-      pageImprovements.push(planPageImprovements(page, pageGaps));
+      pageImprovements.push(planPageImprovements(page, pageGaps, businessInput));
     }
   }
 
   // Filter to only pages that actually have improvements
-  const pagesWithImprovements = pageImprovements.filter(
-    p =>
-      p.recommendedTitle ||
-      p.recommendedMetaDescription ||
-      Object.keys(p.suggestedAdditions).length > 0
-  );
+  const pagesWithImprovements = pageImprovements.filter(hasImprovements);
 
   return {
     siteUrl: crawlResult.baseUrl,
@@ -43,7 +43,7 @@ export interface HowWeWorkOutput {
  * Default process steps when no specific process is provided.
  * These are generic enough to apply to most service businesses.
  */
-const DEFAULT_PROCESS_STEPS = [
+export const DEFAULT_PROCESS_STEPS = [
   {
     title: 'Initial Contact',
     description: 'Reach out to discuss your needs and schedule a consultation.',
@@ -232,7 +232,7 @@ function buildEmergencyOption(
 
   const emergencyTimeline = hasValue(operations?.serviceProcess?.emergencyTimeline)
     ? operations.serviceProcess.emergencyTimeline
-    : '24/7 availability';
+    : 'Contact for emergency availability';
 
   return {
     available: true,
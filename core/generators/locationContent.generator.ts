@@ -0,0 +1,60 @@
+/**
+ * Location Content Generator
+ *
+ * Generates per-branch title/meta, answer capsule and FAQ content
+ * for multi-location businesses (BusinessInput.locations[]).
+ *
+ * PROMPT LOGIC:
+ * - One content set per branch, keyed by the branch id
+ * - Reuse the core title/meta, answer capsule and FAQ generators on a
+ *   single-location projection of the input
+ * - Only branch-level contact, hours and service areas are used
+ * - Single-location inputs produce no location content
+ */
+
+import type { BusinessInput } from '../../inputs/business.schema';
+import { enforceNoHallucinations } from '../rules/antiHallucination';
+import { getBranches, getBranchLabel, toBranchInput } from './locations';
+import { generateTitleMeta, TitleMetaOutput } from './titleMeta.generator';
+import { generateAnswerCapsule, AnswerCapsuleOutput } from './answerCapsule.generator';
+import { generateFAQ, FAQOutput } from './faq.generator';
+
+export interface LocationContentItem {
+  locationId: string;
+  locationName: string;
+  titleMeta: TitleMetaOutput;
+  answerCapsule: AnswerCapsuleOutput;
+  faq: FAQOutput;
+}
+
+export interface LocationContentOutput {
+  locations: LocationContentItem[];
+  sources: string[];
+}
+
+/**
+ * Generates per-location content from BusinessInput.
+ * Returns an empty list when the business has no branches.
+ */
+export function generateLocationContent(input: BusinessInput): LocationContentOutput {
+  // Enforce anti-hallucination rules
+  enforceNoHallucinations(input);
+
+  // PROMPT LOGIC: Each branch gets its own title, capsule and FAQs
+  const locations = getBranches(input).map(branch => {
+    const branchInput = toBranchInput(input, branch);
+
+    return {
+      locationId: branch.id,
+      locationName: getBranchLabel(branch),
+      titleMeta: generateTitleMeta(branchInput),
+      answerCapsule: generateAnswerCapsule(branchInput),
+      faq: generateFAQ(branchInput),
+    };
+  });
+
+  return {
+    locations,
+    sources: ['BusinessInput'],
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Multi-Location Helpers
+ *
+ * Supports businesses with several branches listed in `locations[]`.
+ * Each branch is projected into a single-location BusinessInput so the
+ * existing generators can produce per-branch content unchanged.
+ *
+ * DESIGN:
+ * - Inputs without `locations[]` behave exactly as before
+ * - Branch projections only use branch-level contact, hours and areas;
+ *   head-office values are never copied onto a branch
+ * - Business-wide facts (name, credentials, proof) are shared
+ */
+
+import type { BusinessInput, BusinessLocation } from '../../inputs/business.schema';
+import { hasItems, hasValue } from '../rules/antiHallucination';
+
+/**
+ * Returns the branches of a multi-location business (empty for single-location input).
+ */
+export function getBranches(input: BusinessInput): BusinessLocation[] {
+  return hasItems(input.locations) ? input.locations : [];
+}
+
+/**
+ * Display label for a branch: its own name if provided, otherwise its city.
+ */
+export function getBranchLabel(branch: BusinessLocation): string {
+  return hasValue(branch.name) ? branch.name : branch.address.city;
+}
+
+/**
+ * Projects a branch into a single-location BusinessInput.
+ *
+ * The result uses the branch's address, service areas, contact details,
+ * hours and (if listed) services, keeping business-wide data such as
+ * credentials and proof. Branch-level fields that are missing stay missing.
+ */
+export function toBranchInput(input: BusinessInput, branch: BusinessLocation): BusinessInput {
+  return {
+    ...input,
+    location: {
+      primaryCity: branch.address.city,
+      region: branch.address.region,
+      country: branch.address.country,
+      serviceAreas: branch.serviceAreas ?? [],
+    },
+    locations: undefined,
+    contact: {
+      phone: branch.phone,
+      email: branch.email,
+    },
+    services: hasItems(branch.services)
+      ? { primary: branch.services }
+      : input.services,
+    operations: {
+      ...input.operations,
+      operatingHours: branch.operatingHours,
+    },
+  };
+}
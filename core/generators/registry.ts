@@ -11,7 +11,96 @@
  * APPLICABILITY:
  * - '*' means generator applies to all industries
  * - Specific industry strings limit generator availability
+ *
+ * EXECUTION:
+ * Each entry names its generator function, the output section it fills
+ * and the contract validator for that section. The GEO pipeline walks
+ * this registry in declaration order, so the order below is the
+ * pipeline's fixed execution order.
+ */
+
+import type { BusinessInput } from '../../inputs/business.schema';
+import type { GEOOutputContract, SectionValidator } from '../../contracts/output.contract';
+import {
+  validateTitleMetaSection,
+  validateAnswerCapsuleSection,
+  validateServiceDescriptionsSection,
+  validateWhyChooseUsSection,
+  validateTeamBiosSection,
+  validateHowWeWorkSection,
+  validateCaseStudiesSection,
+  validateTestimonialsSection,
+  validateFAQSection,
+  validateSchemaSection,
+  validateLocationContentSection,
+  validateServiceAreaPagesSection,
+  validatePropertyMarketDataSection,
+  validatePermitsAndCodesSection,
+  validateLocalCourtProcessSection,
+  validateFirstTimeBuyerProgramsSection,
+  validateSeasonalClimateSection,
+} from '../../contracts/output.contract';
+
+import { generateTitleMeta } from './titleMeta.generator';
+import { generateAnswerCapsule } from './answerCapsule.generator';
+import { generateServiceDescription } from './serviceDescription.generator';
+import { generateWhyChooseUs, WhyChooseUsOutput } from './whyChooseUs.generator';
+import { generateTeamBio, TeamBioOutput } from './teamBio.generator';
+import { generateHowWeWork, HowWeWorkOutput } from './howWeWork.generator';
+import { generateCaseStudy, CaseStudyOutput } from './caseStudy.generator';
+import { generateTestimonial, TestimonialOutput } from './testimonial.generator';
+import { generateFAQ } from './faq.generator';
+import { generateSchema } from './schema.generator';
+import { generateLocationContent, LocationContentOutput } from './locationContent.generator';
+import { generateServiceAreaPages, ServiceAreaPagesOutput } from './serviceArea.generator';
+import {
+  generatePropertyMarketData,
+  generatePermitsAndCodes,
+  generateLocalCourtProcess,
+  generateFirstTimeBuyerPrograms,
+  generateSeasonalClimate,
+} from './industry';
+
+/**
+ * IDs of universal generators, in pipeline order.
+ */
+export type CoreGeneratorId =
+  | 'titleMeta'
+  | 'answerCapsule'
+  | 'serviceDescription'
+  | 'whyChooseUs'
+  | 'teamBio'
+  | 'howWeWork'
+  | 'caseStudy'
+  | 'testimonial'
+  | 'faq'
+  | 'schema'
+  | 'locationContent'
+  | 'serviceAreaPages';
+
+/**
+ * IDs of industry-specific generators.
+ */
+export type IndustryGeneratorId =
+  | 'propertyMarketData'
+  | 'permitsAndCodes'
+  | 'localCourtProcess'
+  | 'firstTimeBuyerPrograms'
+  | 'seasonalClimate';
+
+export type GeneratorId = CoreGeneratorId | IndustryGeneratorId;
+
+/**
+ * Output sections a generator can fill (everything except pipeline bookkeeping).
  */
+export type GeneratorOutputKey = Exclude<keyof GEOOutputContract, 'metadata' | 'allSources'>;
+
+/**
+ * Minimal shape shared by every generator output.
+ */
+export interface GeneratorResult {
+  sources: string[];
+}
 
 /**
  * Configuration for a single generator.
@@ -27,6 +116,16 @@ export interface GeneratorConfig {
   applicableIndustries: string[];
   /** Estimated execution time in milliseconds */
   estimatedTime: number;
+  /** Generator function invoked by the pipeline */
+  generate: (input: BusinessInput) => GeneratorResult;
+  /** Section of the pipeline output this generator fills */
+  outputKey: GeneratorOutputKey;
+  /** Required sections are always present (as a placeholder when skipped) */
+  required: boolean;
+  /** Contract validator for this generator's section */
+  validate: SectionValidator;
+  /** Optional sections are only included when this returns true */
+  hasContent?(output: GeneratorResult): boolean;
 }
 
 /**
@@ -43,6 +142,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2000,
+    generate: generateTitleMeta,
+    outputKey: 'titleMeta',
+    required: true,
+    validate: validateTitleMetaSection,
   },
   answerCapsule: {
     id: 'answerCapsule',
@@ -50,6 +153,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2000,
+    generate: generateAnswerCapsule,
+    outputKey: 'answerCapsule',
+    required: true,
+    validate: validateAnswerCapsuleSection,
   },
   serviceDescription: {
     id: 'serviceDescription',
@@ -57,6 +164,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 3000,
+    generate: generateServiceDescription,
+    outputKey: 'serviceDescriptions',
+    required: true,
+    validate: validateServiceDescriptionsSection,
   },
   whyChooseUs: {
     id: 'whyChooseUs',
@@ -64,6 +175,11 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2500,
+    generate: generateWhyChooseUs,
+    outputKey: 'whyChooseUs',
+    required: false,
+    validate: validateWhyChooseUsSection,
+    hasContent: (output: WhyChooseUsOutput) => output.differentiators.length > 0,
   },
   teamBio: {
     id: 'teamBio',
@@ -71,6 +187,11 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 3000,
+    generate: generateTeamBio,
+    outputKey: 'teamBios',
+    required: false,
+    validate: validateTeamBiosSection,
+    hasContent: (output: TeamBioOutput) => output.team.length > 0,
   },
   howWeWork: {
     id: 'howWeWork',
@@ -78,6 +199,11 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2500,
+    generate: generateHowWeWork,
+    outputKey: 'howWeWork',
+    required: false,
+    validate: validateHowWeWorkSection,
+    hasContent: (output: HowWeWorkOutput) => output.steps.length > 0,
   },
   caseStudy: {
     id: 'caseStudy',
@@ -85,6 +211,11 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 3500,
+    generate: generateCaseStudy,
+    outputKey: 'caseStudies',
+    required: false,
+    validate: validateCaseStudiesSection,
+    hasContent: (output: CaseStudyOutput) => output.caseStudies.length > 0,
   },
   testimonial: {
     id: 'testimonial',
@@ -92,6 +223,11 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2500,
+    generate: generateTestimonial,
+    outputKey: 'testimonials',
+    required: false,
+    validate: validateTestimonialsSection,
+    hasContent: (output: TestimonialOutput) => output.testimonials.length > 0,
   },
   faq: {
     id: 'faq',
@@ -99,6 +235,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 3000,
+    generate: generateFAQ,
+    outputKey: 'faq',
+    required: true,
+    validate: validateFAQSection,
   },
   schema: {
     id: 'schema',
@@ -106,6 +246,34 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'core',
     applicableIndustries: ['*'],
     estimatedTime: 2000,
+    generate: generateSchema,
+    outputKey: 'schema',
+    required: true,
+    validate: validateSchemaSection,
+  },
+  locationContent: {
+    id: 'locationContent',
+    name: 'Location Content',
+    category: 'core',
+    applicableIndustries: ['*'],
+    estimatedTime: 3000,
+    generate: generateLocationContent,
+    outputKey: 'locationContent',
+    required: false,
+    validate: validateLocationContentSection,
+    hasContent: (output: LocationContentOutput) => output.locations.length > 0,
+  },
+  serviceAreaPages: {
+    id: 'serviceAreaPages',
+    name: 'Service Area Pages',
+    category: 'core',
+    applicableIndustries: ['*'],
+    estimatedTime: 3000,
+    generate: generateServiceAreaPages,
+    outputKey: 'serviceAreaPages',
+    required: false,
+    validate: validateServiceAreaPagesSection,
+    hasContent: (output: ServiceAreaPagesOutput) => output.pages.length > 0,
   },
 
   // ============================================================
@@ -123,6 +291,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'industry',
     applicableIndustries: ['realEstate', 'mortgage'],
     estimatedTime: 8000,
+    generate: generatePropertyMarketData,
+    outputKey: 'propertyMarketData',
+    required: false,
+    validate: validatePropertyMarketDataSection,
   },
 
   /**
@@ -136,6 +308,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'industry',
     applicableIndustries: ['plumbing', 'hvac', 'electrical', 'roofing', 'contractor'],
     estimatedTime: 10000,
+    generate: generatePermitsAndCodes,
+    outputKey: 'permitsAndCodes',
+    required: false,
+    validate: validatePermitsAndCodesSection,
   },
 
   /**
@@ -149,6 +325,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'industry',
     applicableIndustries: ['lawyer', 'attorney'],
     estimatedTime: 10000,
+    generate: generateLocalCourtProcess,
+    outputKey: 'localCourtProcess',
+    required: false,
+    validate: validateLocalCourtProcessSection,
   },
 
   /**
@@ -162,6 +342,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'industry',
     applicableIndustries: ['mortgage', 'realEstate'],
     estimatedTime: 8000,
+    generate: generateFirstTimeBuyerPrograms,
+    outputKey: 'firstTimeBuyerPrograms',
+    required: false,
+    validate: validateFirstTimeBuyerProgramsSection,
   },
 
   /**
@@ -175,6 +359,10 @@ export const GENERATOR_REGISTRY: Record<string, GeneratorConfig> = {
     category: 'industry',
     applicableIndustries: ['hvac', 'roofing', 'landscaping', 'pools'],
     estimatedTime: 6000,
+    generate: generateSeasonalClimate,
+    outputKey: 'seasonalClimate',
+    required: false,
+    validate: validateSeasonalClimateSection,
   },
 };
 
@@ -10,15 +10,18 @@
  * - Omit optional schema fields when data is missing
  * - Never fabricate required schema properties
  * - Format for direct embedding in HTML head
+ * - Multi-location businesses: one LocalBusiness per branch, each linked
+ *   to a parent Organization via @id references in a single @graph
  */
 
-import type { BusinessInput } from '../../inputs/business.schema';
+import type { BusinessInput, BusinessLocation } from '../../inputs/business.schema';
 import {
   enforceNoHallucinations,
   hasValue,
   hasItems,
   hasPositiveNumber,
 } from '../rules/antiHallucination';
+import { getBranches } from './locations';
 
 export interface LocalBusinessSchema {
   '@context': 'https://schema.org';
@@ -56,8 +59,53 @@ export interface LocalBusinessSchema {
   openingHours?: string;
 }
 
+/**
+ * Parent Organization for multi-location businesses.
+ */
+export interface OrganizationSchema {
+  '@type': 'Organization';
+  '@id': string;
+  name: string;
+  legalName?: string;
+  url?: string;
+  subOrganization: Array<{ '@id': string }>;
+}
+
+/**
+ * LocalBusiness for a single branch, linked to its parent Organization.
+ */
+export interface BranchLocalBusinessSchema {
+  '@type': 'LocalBusiness';
+  '@id': string;
+  name: string;
+  url?: string;
+  telephone?: string;
+  email?: string;
+  address: {
+    '@type': 'PostalAddress';
+    streetAddress?: string;
+    addressLocality: string;
+    addressRegion?: string;
+    postalCode?: string;
+    addressCountry: string;
+  };
+  areaServed?: Array<{
+    '@type': 'City';
+    name: string;
+  }>;
+  hasOfferCatalog?: LocalBusinessSchema['hasOfferCatalog'];
+  openingHours?: string;
+  parentOrganization: { '@id': string };
+}
+
 export interface SchemaOutput {
+  /** Business-level LocalBusiness built from the primary location */
   localBusiness: LocalBusinessSchema;
+  /** Parent Organization (multi-location businesses only) */
+  organization?: OrganizationSchema;
+  /** One LocalBusiness per branch (multi-location businesses only) */
+  branches?: BranchLocalBusinessSchema[];
+  /** JSON-LD to embed; an @graph of organization + branches when branches exist */
   jsonLd: string;
   validationNotes: string[];
   sources: string[];
@@ -169,6 +217,46 @@ export function generateSchema(input: BusinessInput): SchemaOutput {
     schema.openingHours = operations.operatingHours;
   }
 
+  // Multi-location: parent Organization with one LocalBusiness per branch
+  // PROMPT LOGIC: Branches only carry their own verified contact details
+  const branchInputs = getBranches(input);
+  if (branchInputs.length > 0) {
+    const baseUrl = schema.url ? schema.url.replace(/\/$/, '') : '';
+    const organizationId = `${baseUrl}#organization`;
+
+    const branches = branchInputs.map(branch =>
+      buildBranchSchema(input, branch, baseUrl, organizationId)
+    );
+
+    const organization: OrganizationSchema = {
+      '@type': 'Organization',
+      '@id': organizationId,
+      name: schema.name,
+      subOrganization: branches.map(b => ({ '@id': b['@id'] })),
+    };
+    if (hasValue(business.legalName)) {
+      organization.legalName = business.legalName;
+    }
+    if (schema.url) {
+      organization.url = schema.url;
+    }
+
+    const jsonLd = JSON.stringify(
+      { '@context': 'https://schema.org', '@graph': [organization, ...branches] },
+      null,
+      2
+    );
+
+    return {
+      localBusiness: schema,
+      organization,
+      branches,
+      jsonLd,
+      validationNotes,
+      sources: ['BusinessInput'],
+    };
+  }
+
   // Generate JSON-LD string
   const jsonLd = JSON.stringify(schema, null, 2);
 
@@ -179,3 +267,63 @@ export function generateSchema(input: BusinessInput): SchemaOutput {
     sources: ['BusinessInput'],
   };
 }
+
+/**
+ * Builds the LocalBusiness schema for one branch.
+ * Services default to the business-wide list unless the branch lists its own.
+ */
+function buildBranchSchema(
+  input: BusinessInput,
+  branch: BusinessLocation,
+  baseUrl: string,
+  organizationId: string
+): BranchLocalBusinessSchema {
+  const { address } = branch;
+
+  const branchSchema: BranchLocalBusinessSchema = {
+    '@type': 'LocalBusiness',
+    '@id': `${baseUrl}#location-${branch.id}`,
+    name: hasValue(branch.name) ? branch.name : `${input.business.name} - ${address.city}`,
+    address: {
+      '@type': 'PostalAddress',
+      addressLocality: address.city,
+      addressCountry: address.country,
+    },
+    parentOrganization: { '@id': organizationId },
+  };
+
+  if (hasValue(address.streetAddress)) branchSchema.address.streetAddress = address.streetAddress;
+  if (hasValue(address.region)) branchSchema.address.addressRegion = address.region;
+  if (hasValue(address.postalCode)) branchSchema.address.postalCode = address.postalCode;
+
+  if (hasValue(branch.url)) branchSchema.url = branch.url;
+  if (hasValue(branch.phone)) branchSchema.telephone = branch.phone;
+  if (hasValue(branch.email)) branchSchema.email = branch.email;
+  if (hasValue(branch.operatingHours)) branchSchema.openingHours = branch.operatingHours;
+
+  if (hasItems(branch.serviceAreas)) {
+    branchSchema.areaServed = branch.serviceAreas.map(area => ({
+      '@type': 'City' as const,
+      name: area,
+    }));
+  }
+
+  const branchServices = hasItems(branch.services)
+    ? branch.services
+    : [...input.services.primary, ...(input.services.secondary ?? [])];
+  if (hasItems(branchServices)) {
+    branchSchema.hasOfferCatalog = {
+      '@type': 'OfferCatalog',
+      name: 'Services',
+      itemListElement: branchServices.map(serviceName => ({
+        '@type': 'Offer',
+        itemOffered: {
+          '@type': 'Service',
+          name: serviceName,
+        },
+      })),
+    };
+  }
+
+  return branchSchema;
+}
@@ -0,0 +1,431 @@
+/**
+ * Service Area Page Generator
+ *
+ * Generates one landing page package per service area × primary service:
+ * title/meta, answer capsule, localized description, area FAQs and
+ * Service JSON-LD with `areaServed`.
+ *
+ * PROMPT LOGIC:
+ * - Every sentence on a page must be about that area or that service;
+ *   business-wide boilerplate (credentials, ratings) stays on the main pages
+ * - Area-specific facts come from the input only: the branch covering the
+ *   area, case studies located there, testimonials and team specialties
+ *   for the service
+ * - Pages that still read as near-duplicates of a sibling page (once area
+ *   and service names are masked) are reported, never padded with filler
+ * - No fabricated local landmarks, demographics or response times
+ */
+
+import type { BusinessInput, BusinessLocation } from '../../inputs/business.schema';
+import {
+  enforceNoHallucinations,
+  hasValue,
+  hasItems,
+  missingDataPlaceholder,
+} from '../rules/antiHallucination';
+import { getBranches, getBranchLabel } from './locations';
+import type { FAQItem } from './faq.generator';
+
+/**
+ * Pages whose masked content overlaps a sibling page by at least this
+ * share are reported as near-duplicates.
+ */
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+export interface ServiceAreaSchema {
+  '@type': 'Service';
+  name: string;
+  serviceType: string;
+  provider: {
+    '@type': 'LocalBusiness';
+    name: string;
+    url?: string;
+    telephone?: string;
+  };
+  areaServed: {
+    '@type': 'City';
+    name: string;
+  };
+}
+
+export interface ServiceAreaPage {
+  slug: string;
+  area: string;
+  service: string;
+  /** City of the office (head office or branch) that covers the area */
+  servedFrom: string;
+  title: string;
+  metaDescription: string;
+  answerCapsule: string;
+  description: string;
+  faqs: FAQItem[];
+  schema: ServiceAreaSchema;
+  /** JSON-LD @graph of the Service and the page's FAQPage */
+  jsonLd: string;
+  /** Share of page content (0-1) not shared with its most similar sibling page */
+  uniqueness: number;
+}
+
+export interface ServiceAreaPagesOutput {
+  pages: ServiceAreaPage[];
+  /** Page pairs that remain near-duplicates after masking area/service names */
+  nearDuplicates: Array<{ slugs: [string, string]; similarity: number }>;
+  sources: string[];
+}
+
+/**
+ * Generates service-area landing pages from BusinessInput.
+ * One page per service area (including branch areas) × primary service.
+ */
+export function generateServiceAreaPages(input: BusinessInput): ServiceAreaPagesOutput {
+  // Enforce anti-hallucination rules
+  enforceNoHallucinations(input);
+
+  const { location, services } = input;
+
+  // PROMPT LOGIC: Areas come from the primary location and every branch
+  const areas = uniqueCaseInsensitive([
+    ...(location.serviceAreas ?? []),
+    ...getBranches(input).flatMap(branch => branch.serviceAreas ?? []),
+  ]);
+
+  const pages: ServiceAreaPage[] = [];
+  if (hasItems(services.primary)) {
+    for (const area of areas) {
+      for (const service of services.primary) {
+        pages.push(buildPage(input, area, service));
+      }
+    }
+  }
+
+  const nearDuplicates = scoreUniqueness(pages);
+
+  return {
+    pages,
+    nearDuplicates,
+    sources: ['BusinessInput'],
+  };
+}
+
+/**
+ * Office covering an area: a branch that lists the area (and offers the
+ * service, if it restricts its services), otherwise the head office.
+ */
+interface CoveringOffice {
+  branch?: BusinessLocation;
+  city: string;
+  phone?: string;
+  email?: string;
+}
+
+function findCoveringOffice(input: BusinessInput, area: string, service: string): CoveringOffice {
+  const branch = getBranches(input).find(b =>
+    (b.serviceAreas ?? []).some(a => sameName(a, area)) &&
+    (!hasItems(b.services) || b.services.some(s => sameName(s, service)))
+  );
+
+  if (branch) {
+    return {
+      branch,
+      city: branch.address.city,
+      phone: branch.phone,
+      email: branch.email,
+    };
+  }
+
+  return {
+    city: input.location.primaryCity,
+    phone: input.contact?.phone,
+    email: input.contact?.email,
+  };
+}
+
+/**
+ * Builds one landing page package for an area and service.
+ */
+function buildPage(input: BusinessInput, area: string, service: string): ServiceAreaPage {
+  const { business, services } = input;
+  const entity = hasValue(business.name)
+    ? business.name
+    : missingDataPlaceholder('business.name');
+
+  const office = findCoveringOffice(input, area, service);
+  const isBaseArea = sameName(area, office.city);
+  const officeLabel = office.branch ? getBranchLabel(office.branch) : entity;
+
+  const caseStudies = (input.caseStudies?.studies ?? []).filter(study =>
+    mentions(study.location, area) &&
+    (mentions(study.projectType, service) || mentions(study.title, service))
+  );
+  const areaCaseStudies = caseStudies.length > 0
+    ? caseStudies
+    : (input.caseStudies?.studies ?? []).filter(study => mentions(study.location, area));
+  const testimonial = pickTestimonial(input, area, service);
+  const specialists = (input.team?.members ?? []).filter(member =>
+    (member.specialties ?? []).some(specialty => mentions(specialty, service) || mentions(service, specialty))
+  );
+  const otherServices = services.primary.filter(s => !sameName(s, service));
+
+  // PROMPT LOGIC: Title leads with the service + area query
+  const title = `${service} in ${area} | ${entity}`;
+
+  // PROMPT LOGIC: Meta description states the offer and how the area is covered
+  const metaParts = [`${entity} provides ${service} in ${area}`];
+  if (!isBaseArea) {
+    metaParts.push(`served from ${office.city}`);
+  }
+  if (areaCaseStudies.length > 0) {
+    metaParts.push(`recent local project: ${areaCaseStudies[0].title}`);
+  }
+  const metaDescription = metaParts.join(', ') + '.';
+
+  // PROMPT LOGIC: Capsule answers "who does <service> in <area>?" directly
+  const capsuleParts = [
+    isBaseArea
+      ? `${entity} provides ${service} in ${area}, where ${office.branch ? `its ${officeLabel} office` : 'it'} is based.`
+      : `${entity} provides ${service} in ${area} from ${office.branch ? `its ${officeLabel} office` : `its base`} in ${office.city}.`,
+  ];
+  if (hasValue(office.phone)) {
+    capsuleParts.push(`${area} customers can book ${service} on ${office.phone}.`);
+  }
+  const answerCapsule = capsuleParts.join(' ');
+
+  // PROMPT LOGIC: Description is assembled only from area/service facts
+  const descriptionParts: string[] = [];
+  if (areaCaseStudies.length > 0) {
+    descriptionParts.push(
+      `Work in ${area} includes ${areaCaseStudies.map(s => s.title).join('; ')}.`
+    );
+  }
+  if (testimonial) {
+    const attribution = hasValue(testimonial.customerName) ? ` - ${testimonial.customerName}` : '';
+    descriptionParts.push(`"${testimonial.text}"${attribution}`);
+  }
+  if (hasItems(specialists)) {
+    descriptionParts.push(
+      `${service} specialists: ${specialists.map(m => `${m.name} (${m.role})`).join(', ')}.`
+    );
+  }
+  if (hasItems(otherServices)) {
+    descriptionParts.push(`Also available in ${area}: ${otherServices.join(', ')}.`);
+  }
+  const description = descriptionParts.length > 0
+    ? descriptionParts.join(' ')
+    : missingDataPlaceholder(`area-specific facts for ${service} in ${area}`);
+
+  // PROMPT LOGIC: FAQs answer area-specific questions only
+  const faqs: FAQItem[] = [
+    {
+      question: `Does ${entity} offer ${service} in ${area}?`,
+      answer: isBaseArea
+        ? `Yes. ${area} is where ${officeLabel} is based.`
+        : `Yes. ${area} is covered from ${office.city}.`,
+      category: 'location',
+      canAnswer: true,
+    },
+  ];
+
+  if (hasValue(office.phone) || hasValue(office.email)) {
+    const channels = [
+      hasValue(office.phone) ? `call ${office.phone}` : undefined,
+      hasValue(office.email) ? `email ${office.email}` : undefined,
+    ].filter(hasValue);
+    faqs.push({
+      question: `How do I book ${service} in ${area}?`,
+      answer: `To book ${service} in ${area}, ${channels.join(' or ')}.`,
+      category: 'contact',
+      canAnswer: true,
+    });
+  }
+
+  if (areaCaseStudies.length > 0) {
+    faqs.push({
+      question: `Has ${entity} worked in ${area} before?`,
+      answer: `Yes. Projects in ${area} include ${areaCaseStudies.map(s => s.title).join('; ')}.`,
+      category: 'location',
+      canAnswer: true,
+    });
+  }
+
+  const branchHours = office.branch?.operatingHours;
+  if (hasValue(branchHours)) {
+    faqs.push({
+      question: `What are the ${officeLabel} office hours?`,
+      answer: `The ${officeLabel} office serving ${area} is open ${branchHours}.`,
+      category: 'operations',
+      canAnswer: true,
+    });
+  }
+
+  // PROMPT LOGIC: Service schema scoped to this area
+  const branchUrl = office.branch?.url;
+  const providerUrl = hasValue(branchUrl)
+    ? branchUrl
+    : hasValue(business.website)
+      ? business.website
+      : hasValue(business.domain) ? `https://${business.domain}` : undefined;
+
+  const schema: ServiceAreaSchema = {
+    '@type': 'Service',
+    name: `${service} in ${area}`,
+    serviceType: service,
+    provider: {
+      '@type': 'LocalBusiness',
+      name: office.branch && hasValue(office.branch.name) ? office.branch.name : entity,
+    },
+    areaServed: {
+      '@type': 'City',
+      name: area,
+    },
+  };
+  if (providerUrl) schema.provider.url = providerUrl;
+  if (hasValue(office.phone)) schema.provider.telephone = office.phone;
+
+  const jsonLd = JSON.stringify(
+    {
+      '@context': 'https://schema.org',
+      '@graph': [
+        schema,
+        {
+          '@type': 'FAQPage',
+          mainEntity: faqs.map(faq => ({
+            '@type': 'Question',
+            name: faq.question,
+            acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+          })),
+        },
+      ],
+    },
+    null,
+    2
+  );
+
+  return {
+    slug: `${slugify(service)}-${slugify(area)}`,
+    area,
+    service,
+    servedFrom: office.city,
+    title,
+    metaDescription,
+    answerCapsule,
+    description,
+    faqs,
+    schema,
+    jsonLd,
+    uniqueness: 1,
+  };
+}
+
+/**
+ * Picks a testimonial for the service, preferring one that mentions the
+ * area. Different areas get different testimonials where several exist.
+ */
+function pickTestimonial(
+  input: BusinessInput,
+  area: string,
+  service: string
+): NonNullable<NonNullable<BusinessInput['proof']>['testimonials']>[number] | undefined {
+  const testimonials = input.proof?.testimonials ?? [];
+
+  const local = testimonials.find(t =>
+    mentions(t.text, area) && (!hasValue(t.serviceReceived) || mentions(t.serviceReceived, service))
+  );
+  if (local) return local;
+
+  const forService = testimonials.filter(t =>
+    hasValue(t.serviceReceived) && mentions(t.serviceReceived, service)
+  );
+  if (forService.length === 0) return undefined;
+
+  const areas = input.location.serviceAreas ?? [];
+  const areaIndex = Math.max(0, areas.findIndex(a => sameName(a, area)));
+  return forService[areaIndex % forService.length];
+}
+
+/**
+ * Scores each page against its most similar sibling and reports
+ * near-duplicate pairs. Area, service and office names are masked so
+ * only the surrounding wording is compared.
+ */
+function scoreUniqueness(pages: ServiceAreaPage[]): ServiceAreaPagesOutput['nearDuplicates'] {
+  const fingerprints = pages.map(fingerprint);
+  const nearDuplicates: ServiceAreaPagesOutput['nearDuplicates'] = [];
+  const maxSimilarity = pages.map(() => 0);
+
+  for (let i = 0; i < pages.length; i++) {
+    for (let j = i + 1; j < pages.length; j++) {
+      const similarity = jaccard(fingerprints[i], fingerprints[j]);
+      maxSimilarity[i] = Math.max(maxSimilarity[i], similarity);
+      maxSimilarity[j] = Math.max(maxSimilarity[j], similarity);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        nearDuplicates.push({
+          slugs: [pages[i].slug, pages[j].slug],
+          similarity: Math.round(similarity * 100) / 100,
+        });
+      }
+    }
+  }
+
+  pages.forEach((page, index) => {
+    page.uniqueness = Math.round((1 - maxSimilarity[index]) * 100) / 100;
+  });
+
+  return nearDuplicates;
+}
+
+/**
+ * Word 3-gram shingles of a page's prose with area, service and office
+ * names masked.
+ */
+function fingerprint(page: ServiceAreaPage): Set<string> {
+  let text = [
+    page.answerCapsule,
+    page.description,
+    ...page.faqs.map(faq => `${faq.question} ${faq.answer}`),
+  ].join(' ').toLowerCase();
+
+  for (const name of [page.service, page.area, page.servedFrom]) {
+    text = text.split(name.toLowerCase()).join(' _ ');
+  }
+
+  const words = text.split(/[^a-z0-9_]+/).filter(word => word.length > 0);
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    shingles.add(words.slice(i, i + 3).join(' '));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function mentions(text: string | undefined, name: string): boolean {
+  return hasValue(text) && text.toLowerCase().includes(name.trim().toLowerCase());
+}
+
+function uniqueCaseInsensitive(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.trim().toLowerCase();
+    if (key.length === 0 || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -156,9 +156,13 @@ export function generateWhyChooseUs(input: BusinessInput): WhyChooseUsOutput {
   // DIFFERENTIATOR 7: Speed (Emergency Service)
   // ============================================================
   if (operations?.emergencyService === true) {
+    const emergencyTimeline = operations.serviceProcess?.emergencyTimeline;
     differentiators.push({
       claim: `Emergency service available`,
-      proof: `24/7 emergency response capability`,
+      // PROMPT LOGIC: emergencyService does not imply round-the-clock hours
+      proof: hasValue(emergencyTimeline)
+        ? `Emergency response: ${emergencyTimeline}`
+        : 'Emergency response offered',
       localContext: primaryLocation
         ? `Fast emergency response for ${primaryLocation} residents`
         : 'Available when you need us most',
@@ -0,0 +1,439 @@
+/**
+ * Minimal HTML DOM
+ *
+ * A small, dependency-free HTML tokenizer and tree builder. It runs
+ * anywhere plain JavaScript runs (Cloudflare Workers, Node, browsers),
+ * so ingestion does not depend on Node-only parsers or HTMLRewriter.
+ *
+ * COVERAGE:
+ * - Attributes in any order, quoted or unquoted, with entity decoding
+ * - Comments, doctype and processing instructions are dropped
+ * - CDATA sections become text
+ * - Raw text elements (script, style) are not parsed as markup
+ * - Void elements and common implied end tags (p, li, dt/dd, tr/td, option)
+ * - Stray end tags are ignored; unclosed elements close at end of input
+ *
+ * This is not a full HTML5 tree builder (no foster parenting or
+ * adoption agency), but nested inline markup and malformed pages
+ * produce a usable tree rather than a failed match.
+ */
+
+export interface HtmlElement {
+  type: 'element';
+  /** Lower-cased tag name; '#document' for the root */
+  tagName: string;
+  /** Attributes keyed by lower-cased name (first occurrence wins) */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: 'text';
+  value: string;
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+/**
+ * Elements that never have children or end tags.
+ */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Elements whose content is raw text, ended only by their own end tag.
+ * Entities are decoded in escapable raw text (title, textarea) only.
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(['title', 'textarea']);
+
+/**
+ * SVG elements where a trailing '/>' closes the element. On HTML
+ * elements '/>' is ignored, as in browsers.
+ */
+const FOREIGN_ELEMENTS = new Set([
+  'svg', 'path', 'circle', 'rect', 'line', 'polyline', 'polygon',
+  'ellipse', 'use', 'stop', 'g',
+]);
+
+/**
+ * Start tags that close an open <p>.
+ */
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul',
+]);
+
+/**
+ * Start tags that implicitly end a sibling of the listed types, up to
+ * (but not past) the given container elements.
+ */
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; boundary: string[] }> = {
+  li: { closes: ['li'], boundary: ['ul', 'ol', 'menu'] },
+  dt: { closes: ['dt', 'dd'], boundary: ['dl'] },
+  dd: { closes: ['dt', 'dd'], boundary: ['dl'] },
+  option: { closes: ['option'], boundary: ['select', 'datalist'] },
+  tr: { closes: ['tr', 'td', 'th'], boundary: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+};
+
+/**
+ * Named character references recognised outside numeric form.
+ * Unknown names are left as written.
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', hellip: '…',
+  mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+  deg: '°', pound: '£', euro: '€', times: '×',
+  eacute: 'é', egrave: 'è', aacute: 'á', agrave: 'à',
+  oacute: 'ó', uacute: 'ú', iacute: 'í', ntilde: 'ñ',
+  ccedil: 'ç', uuml: 'ü', ouml: 'ö', auml: 'ä',
+};
+
+/**
+ * Named references browsers also accept without a trailing ';'.
+ */
+const LEGACY_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'nbsp', 'copy', 'reg']);
+
+/**
+ * Decodes numeric and common named character references.
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#[0-9]+|[a-zA-Z][a-zA-Z0-9]*);?/g, (match, ref: string) => {
+    if (ref.startsWith('#')) {
+      const codePoint = ref[1] === 'x' || ref[1] === 'X'
+        ? parseInt(ref.slice(2), 16)
+        : parseInt(ref.slice(1), 10);
+      if (!Number.isFinite(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) {
+        return '�';
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    const named = NAMED_ENTITIES[ref];
+    if (named === undefined) return match;
+    return match.endsWith(';') || LEGACY_ENTITIES.has(ref) ? named : match;
+  });
+}
+
+/**
+ * Parses an HTML string into a tree rooted at a '#document' element.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: 'element',
+    tagName: '#document',
+    attributes: {},
+    children: [],
+    parent: null,
+  };
+  const stack: HtmlElement[] = [root];
+  const current = (): HtmlElement => stack[stack.length - 1];
+
+  const appendText = (value: string): void => {
+    if (value.length === 0) return;
+    const parent = current();
+    const last = parent.children[parent.children.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      parent.children.push({ type: 'text', value, parent });
+    }
+  };
+
+  const closeUpTo = (index: number): void => {
+    stack.length = Math.max(1, index);
+  };
+
+  const findOpen = (tagNames: string[], boundary: string[] = []): number => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (tagNames.includes(stack[i].tagName)) return i;
+      if (boundary.includes(stack[i].tagName)) return -1;
+    }
+    return -1;
+  };
+
+  let pos = 0;
+  const length = html.length;
+
+  while (pos < length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(html.slice(pos, lt)));
+    }
+    pos = lt;
+
+    // Comments
+    if (html.startsWith('<!--', pos)) {
+      const end = html.indexOf('-->', pos + 4);
+      pos = end === -1 ? length : end + 3;
+      continue;
+    }
+
+    // CDATA sections (mostly seen in inline SVG/MathML and legacy XHTML)
+    if (html.startsWith('<![CDATA[', pos)) {
+      const end = html.indexOf(']]>', pos + 9);
+      appendText(html.slice(pos + 9, end === -1 ? length : end));
+      pos = end === -1 ? length : end + 3;
+      continue;
+    }
+
+    // Doctype, processing instructions and other bogus comments
+    if (html[pos + 1] === '!' || html[pos + 1] === '?') {
+      const end = html.indexOf('>', pos + 2);
+      pos = end === -1 ? length : end + 1;
+      continue;
+    }
+
+    // End tags
+    if (html[pos + 1] === '/' && /[a-zA-Z]/.test(html[pos + 2] ?? '')) {
+      const end = html.indexOf('>', pos + 2);
+      const raw = html.slice(pos + 2, end === -1 ? length : end);
+      const tagName = raw.split(/[\s/]/)[0].toLowerCase();
+      pos = end === -1 ? length : end + 1;
+
+      const index = findOpen([tagName]);
+      if (index > 0) {
+        closeUpTo(index);
+      }
+      continue;
+    }
+
+    // Start tags
+    if (/[a-zA-Z]/.test(html[pos + 1] ?? '')) {
+      const parsed = parseStartTag(html, pos);
+      pos = parsed.end;
+      const { tagName, attributes } = parsed;
+
+      if (tagName === 'p' || CLOSES_PARAGRAPH.has(tagName)) {
+        const open = findOpen(['p'], ['button', 'table', 'td', 'th']);
+        if (open > 0) closeUpTo(open);
+      }
+      const implied = IMPLIED_END_TAGS[tagName];
+      if (implied) {
+        const open = findOpen(implied.closes, implied.boundary);
+        if (open > 0) closeUpTo(open);
+      }
+
+      const element: HtmlElement = {
+        type: 'element',
+        tagName,
+        attributes,
+        children: [],
+        parent: current(),
+      };
+      current().children.push(element);
+
+      if (VOID_ELEMENTS.has(tagName) || (parsed.selfClosing && FOREIGN_ELEMENTS.has(tagName))) {
+        continue;
+      }
+
+      if (RAW_TEXT_ELEMENTS.has(tagName) || ESCAPABLE_RAW_TEXT_ELEMENTS.has(tagName)) {
+        const close = findRawTextEnd(html, pos, tagName);
+        const text = html.slice(pos, close.contentEnd);
+        if (text.length > 0) {
+          element.children.push({
+            type: 'text',
+            value: ESCAPABLE_RAW_TEXT_ELEMENTS.has(tagName) ? decodeEntities(text) : text,
+            parent: element,
+          });
+        }
+        pos = close.end;
+        continue;
+      }
+
+      stack.push(element);
+      continue;
+    }
+
+    // A lone '<' that does not start markup is text
+    appendText('<');
+    pos += 1;
+  }
+
+  return root;
+}
+
+/**
+ * Parses a start tag beginning at `start` ('<'), returning the tag name,
+ * attributes and the index just past the closing '>'.
+ */
+function parseStartTag(
+  html: string,
+  start: number
+): { tagName: string; attributes: Record<string, string>; selfClosing: boolean; end: number } {
+  let pos = start + 1;
+  const length = html.length;
+
+  let nameEnd = pos;
+  while (nameEnd < length && !/[\s/>]/.test(html[nameEnd])) nameEnd++;
+  const tagName = html.slice(pos, nameEnd).toLowerCase();
+  pos = nameEnd;
+
+  const attributes: Record<string, string> = {};
+  let selfClosing = false;
+
+  while (pos < length) {
+    while (pos < length && /\s/.test(html[pos])) pos++;
+    if (pos >= length) break;
+
+    if (html[pos] === '>') {
+      pos++;
+      break;
+    }
+    if (html[pos] === '/') {
+      selfClosing = html[pos + 1] === '>';
+      pos++;
+      continue;
+    }
+
+    let attrEnd = pos;
+    while (attrEnd < length && !/[\s/>=]/.test(html[attrEnd])) attrEnd++;
+    if (attrEnd === pos) attrEnd++; // Stray '=' or quote: consume it
+    const name = html.slice(pos, attrEnd).toLowerCase();
+    pos = attrEnd;
+
+    while (pos < length && /\s/.test(html[pos])) pos++;
+
+    let value = '';
+    if (html[pos] === '=') {
+      pos++;
+      while (pos < length && /\s/.test(html[pos])) pos++;
+      const quote = html[pos];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, pos + 1);
+        value = html.slice(pos + 1, close === -1 ? length : close);
+        pos = close === -1 ? length : close + 1;
+      } else {
+        let valueEnd = pos;
+        while (valueEnd < length && !/[\s>]/.test(html[valueEnd])) valueEnd++;
+        value = html.slice(pos, valueEnd);
+        pos = valueEnd;
+      }
+    }
+
+    if (name.length > 0 && !(name in attributes)) {
+      attributes[name] = decodeEntities(value);
+    }
+  }
+
+  return { tagName, attributes, selfClosing, end: pos };
+}
+
+/**
+ * Finds the end tag that closes a raw text element.
+ */
+function findRawTextEnd(html: string, from: number, tagName: string): { contentEnd: number; end: number } {
+  const pattern = new RegExp(`</${tagName}[\\s/>]`, 'ig');
+  pattern.lastIndex = from;
+  const match = pattern.exec(html);
+  if (!match) {
+    return { contentEnd: html.length, end: html.length };
+  }
+  const close = html.indexOf('>', match.index);
+  return { contentEnd: match.index, end: close === -1 ? html.length : close + 1 };
+}
+
+/**
+ * Returns all descendant elements matching the predicate, in document order.
+ */
+export function findAll(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const matches: HtmlElement[] = [];
+  const walk = (element: HtmlElement): void => {
+    for (const child of element.children) {
+      if (child.type === 'element') {
+        if (predicate(child)) matches.push(child);
+        walk(child);
+      }
+    }
+  };
+  walk(root);
+  return matches;
+}
+
+/**
+ * Returns the first descendant element matching the predicate.
+ */
+export function findFirst(
+  root: HtmlElement,
+  predicate: (element: HtmlElement) => boolean
+): HtmlElement | null {
+  for (const child of root.children) {
+    if (child.type !== 'element') continue;
+    if (predicate(child)) return child;
+    const nested = findFirst(child, predicate);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Returns descendant elements with any of the given tag names.
+ */
+export function getElementsByTagName(root: HtmlElement, ...tagNames: string[]): HtmlElement[] {
+  const names = new Set(tagNames.map(name => name.toLowerCase()));
+  return findAll(root, element => names.has(element.tagName));
+}
+
+/**
+ * Returns an attribute value, or null if the attribute is absent.
+ */
+export function getAttribute(element: HtmlElement, name: string): string | null {
+  const value = element.attributes[name.toLowerCase()];
+  return value === undefined ? null : value;
+}
+
+/**
+ * Elements whose content is never rendered as page text.
+ */
+const NON_VISIBLE_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'head', 'title']);
+
+/**
+ * Elements that break text flow, so adjacent words are not glued together.
+ */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'details', 'div',
+  'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1',
+  'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'summary', 'table', 'td', 'th', 'tr', 'ul',
+]);
+
+/**
+ * Returns the text of a node with whitespace collapsed.
+ * With `visibleOnly`, script/style/template content and the document
+ * head are skipped, approximating the text a visitor would see.
+ */
+export function textContent(node: HtmlNode, options: { visibleOnly?: boolean } = {}): string {
+  const parts: string[] = [];
+
+  const walk = (current: HtmlNode): void => {
+    if (current.type === 'text') {
+      parts.push(current.value);
+      return;
+    }
+    if (options.visibleOnly && NON_VISIBLE_ELEMENTS.has(current.tagName)) {
+      return;
+    }
+    const isBlock = BLOCK_ELEMENTS.has(current.tagName);
+    if (isBlock) parts.push(' ');
+    current.children.forEach(walk);
+    if (isBlock) parts.push(' ');
+  };
+
+  walk(node);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
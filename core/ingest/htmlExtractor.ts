@@ -0,0 +1,223 @@
+/**
+ * HTML Extractor
+ *
+ * Extracts GEO-relevant signals from a page using the minimal DOM in
+ * htmlDom.ts. Shared by the site crawler (core/ingest/siteCrawler.ts)
+ * and the audit worker (src/index.ts) so both read pages the same way.
+ *
+ * DESIGN:
+ * - No Node-only dependencies; runs unchanged in Cloudflare Workers
+ * - Only the first <title>, description meta and canonical link count,
+ *   matching how search engines resolve duplicates
+ * - JSON-LD is parsed, not pattern-matched; invalid blocks are reported
+ *   as raw text but contribute no schema types
+ */
+
+import {
+  parseHtml,
+  findAll,
+  findFirst,
+  getAttribute,
+  textContent,
+  HtmlElement,
+} from './htmlDom';
+
+/**
+ * A heading in document order.
+ */
+export interface ExtractedHeading {
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  text: string;
+}
+
+/**
+ * An anchor with an href.
+ */
+export interface ExtractedLink {
+  href: string;
+  text: string;
+}
+
+/**
+ * An image element.
+ */
+export interface ExtractedImage {
+  src: string | null;
+  alt: string | null;
+}
+
+/**
+ * Signals extracted from one HTML document.
+ */
+export interface ExtractedPage {
+  title: string | null;
+  metaDescription: string | null;
+  metaRobots: string | null;
+  canonical: string | null;
+  headings: ExtractedHeading[];
+  /** Visible text of the <body> (scripts, styles and templates excluded) */
+  bodyText: string;
+  links: ExtractedLink[];
+  images: ExtractedImage[];
+  /** Raw contents of every application/ld+json script */
+  jsonLdBlocks: string[];
+  /** Parsed JSON-LD blocks that were valid JSON */
+  jsonLd: unknown[];
+  /** Every @type found in valid JSON-LD, including nested and @graph entities */
+  schemaTypes: string[];
+  /** Every property name used in valid JSON-LD (keywords such as @type excluded) */
+  schemaProperties: string[];
+}
+
+/**
+ * Parses HTML and extracts title, meta, canonical, headings, body text,
+ * links, images and JSON-LD.
+ */
+export function extractPage(html: string): ExtractedPage {
+  const document = parseHtml(html);
+
+  const title = findFirst(document, el => el.tagName === 'title');
+  const metaDescription = findMeta(document, 'description');
+  const metaRobots = findMeta(document, 'robots');
+  const canonical = findFirst(document, el =>
+    el.tagName === 'link' && hasToken(getAttribute(el, 'rel'), 'canonical') && getAttribute(el, 'href') !== null
+  );
+
+  const headings: ExtractedHeading[] = findAll(document, el => /^h[1-6]$/.test(el.tagName)).map(el => ({
+    level: Number(el.tagName[1]) as ExtractedHeading['level'],
+    text: textContent(el, { visibleOnly: true }),
+  }));
+
+  const body = findFirst(document, el => el.tagName === 'body') ?? document;
+
+  const links: ExtractedLink[] = findAll(document, el => el.tagName === 'a' && getAttribute(el, 'href') !== null)
+    .map(el => ({
+      href: (getAttribute(el, 'href') as string).trim(),
+      text: textContent(el, { visibleOnly: true }),
+    }));
+
+  const images: ExtractedImage[] = findAll(document, el => el.tagName === 'img').map(el => ({
+    src: getAttribute(el, 'src'),
+    alt: getAttribute(el, 'alt'),
+  }));
+
+  const jsonLdBlocks = findAll(document, el =>
+    el.tagName === 'script' &&
+    (getAttribute(el, 'type') ?? '').trim().toLowerCase() === 'application/ld+json'
+  ).map(rawText);
+
+  const jsonLd: unknown[] = [];
+  for (const block of jsonLdBlocks) {
+    try {
+      jsonLd.push(JSON.parse(stripCdata(block)));
+    } catch {
+      // Invalid JSON-LD contributes no schema types
+    }
+  }
+
+  const titleText = title ? textContent(title) : '';
+
+  return {
+    title: titleText.length > 0 ? titleText : null,
+    metaDescription,
+    metaRobots,
+    canonical: canonical ? (getAttribute(canonical, 'href') as string).trim() : null,
+    headings: headings.filter(h => h.text.length > 0),
+    bodyText: textContent(body, { visibleOnly: true }),
+    links,
+    images,
+    jsonLdBlocks,
+    jsonLd,
+    schemaTypes: collectSchemaTypes(jsonLd),
+    schemaProperties: collectSchemaProperties(jsonLd),
+  };
+}
+
+/**
+ * Content of the first <meta> whose name (or OG-style property) matches.
+ */
+function findMeta(document: HtmlElement, name: string): string | null {
+  const meta = findFirst(document, el =>
+    el.tagName === 'meta' &&
+    ((getAttribute(el, 'name') ?? getAttribute(el, 'property') ?? '').trim().toLowerCase() === name) &&
+    getAttribute(el, 'content') !== null
+  );
+  if (!meta) return null;
+  const content = (getAttribute(meta, 'content') as string).trim();
+  return content.length > 0 ? content : null;
+}
+
+/**
+ * True if a space-separated attribute (e.g. rel) contains the token.
+ */
+function hasToken(value: string | null, token: string): boolean {
+  return value !== null && value.toLowerCase().split(/\s+/).includes(token);
+}
+
+/**
+ * Raw, un-collapsed text of an element (for script contents).
+ */
+function rawText(element: HtmlElement): string {
+  return element.children.map(child => (child.type === 'text' ? child.value : rawText(child))).join('');
+}
+
+/**
+ * Removes CDATA wrappers some CMSs put around inline JSON-LD.
+ */
+function stripCdata(text: string): string {
+  return text.replace(/^\s*(?:\/\/\s*)?<!\[CDATA\[/, '').replace(/(?:\/\/\s*)?\]\]>\s*$/, '');
+}
+
+/**
+ * Collects @type values from parsed JSON-LD, walking nested objects,
+ * arrays and @graph, in first-seen order.
+ */
+function collectSchemaTypes(blocks: unknown[]): string[] {
+  const types = new Set<string>();
+
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const record = value as Record<string, unknown>;
+    const type = record['@type'];
+    if (typeof type === 'string') {
+      types.add(type);
+    } else if (Array.isArray(type)) {
+      type.filter((t): t is string => typeof t === 'string').forEach(t => types.add(t));
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (key !== '@type') walk(child);
+    }
+  };
+
+  blocks.forEach(walk);
+  return Array.from(types);
+}
+
+/**
+ * Collects property names from parsed JSON-LD, walking nested objects,
+ * arrays and @graph, in first-seen order.
+ */
+function collectSchemaProperties(blocks: unknown[]): string[] {
+  const properties = new Set<string>();
+
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (!key.startsWith('@')) properties.add(key);
+      walk(child);
+    }
+  };
+
+  blocks.forEach(walk);
+  return Array.from(properties);
+}
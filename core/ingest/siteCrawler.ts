@@ -14,12 +14,18 @@
  *
  * DEPENDENCIES:
  * - Uses built-in fetch API
- * - Basic regex-based HTML parsing (no external parser for MVP)
- *   This is intentionally simple; a proper HTML parser would be better
- *   for production but adds dependency weight.
+ * - HTML is parsed by the shared extractor (htmlExtractor.ts), the same
+ *   one the audit worker uses, so both read pages identically
  */
 
 import { discoverSitemapUrls } from './sitemapDiscovery';
+import { extractPage, ExtractedHeading, ExtractedLink, ExtractedImage } from './htmlExtractor';
+
+/**
+ * Maximum body text kept per page. contentTextLength still reports
+ * the full length.
+ */
+const MAX_BODY_TEXT_LENGTH = 20000;
 
 /**
  * Configuration for the crawler.
@@ -47,15 +53,27 @@ export interface PageData {
   httpStatus: number;
   title: string | null;
   metaDescription: string | null;
+  metaRobots: string | null;
   canonical: string | null;
   h1Text: string | null;
   headingsSummary: {
     h2Count: number;
     h3Count: number;
   };
+  /** All non-empty headings in document order */
+  headings: ExtractedHeading[];
   detectedSchemaTypes: string[];
+  /** JSON-LD property names (e.g. areaServed), used by schema completeness checks */
+  detectedSchemaProperties: string[];
+  /** Parsed JSON-LD blocks that were valid JSON */
+  jsonLd: unknown[];
+  /** Visible body text, whitespace-collapsed (truncated to MAX_BODY_TEXT_LENGTH) */
+  bodyText: string;
   contentTextLength: number;
   internalLinks: string[];
+  /** Every anchor on the page as written, including external and tel: links */
+  links: ExtractedLink[];
+  images: ExtractedImage[];
   fetchError: string | null;
 }
 
@@ -72,6 +90,28 @@ export interface CrawlResult {
   sitemapFound: boolean;
 }
 
+/**
+ * URLs a crawl will visit, found from the sitemap or homepage links.
+ */
+export interface CrawlDiscovery {
+  /** Sorted, de-duplicated and limited to maxPages */
+  urls: string[];
+  sitemapFound: boolean;
+  /** Pages already fetched during discovery (the homepage when there is no sitemap) */
+  pages: PageData[];
+  errors: string[];
+}
+
+/**
+ * Callbacks for following a crawl as it runs.
+ */
+export interface CrawlProgressHandlers {
+  /** Called once the URL list is known */
+  onDiscovered?: (discovery: CrawlDiscovery) => void;
+  /** Called for every page, including pages fetched during discovery */
+  onPageCrawled?: (page: PageData, crawled: number, total: number) => void;
+}
+
 /**
  * Extracts the origin (scheme + host) from a URL.
  */
@@ -115,186 +155,101 @@ function isSameOrigin(url: string, origin: string): boolean {
 }
 
 /**
- * Extracts text content from between HTML tags (simple regex approach).
- * This is intentionally basic - a proper DOM parser would be more robust.
- */
-function extractTagContent(html: string, tagName: string): string | null {
-  const regex = new RegExp(`<${tagName}[^>]*>([^<]*)</${tagName}>`, 'i');
-  const match = html.match(regex);
-  return match ? match[1].trim() : null;
-}
-
-/**
- * Extracts meta tag content by name or property.
- */
-function extractMetaContent(html: string, nameOrProperty: string): string | null {
-  // Try name attribute
-  const nameRegex = new RegExp(
-    `<meta[^>]*name=["']${nameOrProperty}["'][^>]*content=["']([^"']*)["'][^>]*>`,
-    'i'
-  );
-  let match = html.match(nameRegex);
-  if (match) return match[1].trim();
-
-  // Try content before name
-  const nameRegex2 = new RegExp(
-    `<meta[^>]*content=["']([^"']*)["'][^>]*name=["']${nameOrProperty}["'][^>]*>`,
-    'i'
-  );
-  match = html.match(nameRegex2);
-  if (match) return match[1].trim();
-
-  // Try property attribute (for OG tags)
-  const propRegex = new RegExp(
-    `<meta[^>]*property=["']${nameOrProperty}["'][^>]*content=["']([^"']*)["'][^>]*>`,
-    'i'
-  );
-  match = html.match(propRegex);
-  if (match) return match[1].trim();
-
-  return null;
-}
-
-/**
- * Extracts canonical link.
- */
-function extractCanonical(html: string): string | null {
-  const regex = /<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']*)["'][^>]*>/i;
-  const match = html.match(regex);
-  if (match) return match[1].trim();
-
-  // Try href before rel
-  const regex2 = /<link[^>]*href=["']([^"']*)["'][^>]*rel=["']canonical["'][^>]*>/i;
-  const match2 = html.match(regex2);
-  return match2 ? match2[1].trim() : null;
-}
-
-/**
- * Extracts first H1 text.
- */
-function extractH1(html: string): string | null {
-  const regex = /<h1[^>]*>([\s\S]*?)<\/h1>/i;
-  const match = html.match(regex);
-  if (!match) return null;
-  // Strip inner tags and clean whitespace
-  return match[1].replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim() || null;
-}
-
-/**
- * Counts H2 and H3 headings.
- */
-function countHeadings(html: string): { h2Count: number; h3Count: number } {
-  const h2Matches = html.match(/<h2[^>]*>/gi);
-  const h3Matches = html.match(/<h3[^>]*>/gi);
-  return {
-    h2Count: h2Matches ? h2Matches.length : 0,
-    h3Count: h3Matches ? h3Matches.length : 0,
-  };
-}
-
-/**
- * Detects schema.org types from JSON-LD scripts.
- */
-function detectSchemaTypes(html: string): string[] {
-  const types: string[] = [];
-  const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
-  let match;
-
-  while ((match = scriptRegex.exec(html)) !== null) {
-    try {
-      const json = JSON.parse(match[1]);
-      if (json['@type']) {
-        if (Array.isArray(json['@type'])) {
-          types.push(...json['@type']);
-        } else {
-          types.push(json['@type']);
-        }
-      }
-      // Check for @graph
-      if (json['@graph'] && Array.isArray(json['@graph'])) {
-        for (const item of json['@graph']) {
-          if (item['@type']) {
-            if (Array.isArray(item['@type'])) {
-              types.push(...item['@type']);
-            } else {
-              types.push(item['@type']);
-            }
-          }
-        }
-      }
-    } catch {
-      // Invalid JSON-LD, skip
-    }
-  }
-
-  return [...new Set(types)]; // Deduplicate
-}
-
-/**
- * Estimates text content length (strips HTML tags).
- */
-function estimateContentLength(html: string): number {
-  // Remove script and style blocks
-  let text = html.replace(/<script[\s\S]*?<\/script>/gi, '');
-  text = text.replace(/<style[\s\S]*?<\/style>/gi, '');
-  // Remove all HTML tags
-  text = text.replace(/<[^>]*>/g, ' ');
-  // Collapse whitespace
-  text = text.replace(/\s+/g, ' ').trim();
-  return text.length;
-}
-
-/**
- * Extracts internal links from HTML.
+ * Resolves same-origin links from extracted anchors, relative to the page URL.
  */
-function extractInternalLinks(html: string, origin: string): string[] {
-  const links: Set<string> = new Set();
-  const regex = /<a[^>]*href=["']([^"'#][^"']*)["'][^>]*>/gi;
-  let match;
+function resolveInternalLinks(links: ExtractedLink[], pageUrl: string): string[] {
+  const internal: Set<string> = new Set();
+  const origin = getOrigin(pageUrl);
 
-  while ((match = regex.exec(html)) !== null) {
-    let href = match[1].trim();
-
-    // Skip javascript:, mailto:, tel:, etc.
-    if (href.match(/^(javascript|mailto|tel|data):/i)) {
+  for (const { href } of links) {
+    // Skip fragments and javascript:, mailto:, tel:, etc.
+    if (href.length === 0 || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) {
       continue;
     }
 
     // Handle relative URLs
     try {
-      const fullUrl = new URL(href, origin);
+      const fullUrl = new URL(href, pageUrl);
       if (isSameOrigin(fullUrl.href, origin)) {
-        links.add(normalizeUrl(fullUrl.href));
+        internal.add(normalizeUrl(fullUrl.href));
       }
     } catch {
       // Invalid URL, skip
     }
   }
 
-  return Array.from(links).sort();
+  return Array.from(internal).sort();
 }
 
 /**
- * Fetches a single page and extracts GEO-relevant data.
+ * Creates an empty PageData record for a URL.
  */
-async function fetchAndParsePage(
-  url: string,
-  origin: string,
-  config: CrawlerConfig
-): Promise<PageData> {
-  const pageData: PageData = {
+function createPageData(url: string, httpStatus: number): PageData {
+  return {
     url,
-    httpStatus: 0,
+    httpStatus,
     title: null,
     metaDescription: null,
+    metaRobots: null,
     canonical: null,
     h1Text: null,
     headingsSummary: { h2Count: 0, h3Count: 0 },
+    headings: [],
     detectedSchemaTypes: [],
+    detectedSchemaProperties: [],
+    jsonLd: [],
+    bodyText: '',
     contentTextLength: 0,
     internalLinks: [],
+    links: [],
+    images: [],
     fetchError: null,
   };
+}
+
+/**
+ * Builds PageData from already-fetched HTML.
+ *
+ * Used by the crawler and by callers that fetch a single page themselves
+ * (the audit worker and the UI audit endpoint), so every audit entry
+ * point sees the same page data.
+ */
+export function buildPageData(url: string, html: string, httpStatus: number = 200): PageData {
+  const pageData = createPageData(url, httpStatus);
+  const extracted = extractPage(html);
+  const h1 = extracted.headings.find(h => h.level === 1);
+
+  pageData.title = extracted.title;
+  pageData.metaDescription = extracted.metaDescription;
+  pageData.metaRobots = extracted.metaRobots;
+  pageData.canonical = extracted.canonical;
+  pageData.h1Text = h1 ? h1.text : null;
+  pageData.headingsSummary = {
+    h2Count: extracted.headings.filter(h => h.level === 2).length,
+    h3Count: extracted.headings.filter(h => h.level === 3).length,
+  };
+  pageData.headings = extracted.headings;
+  pageData.detectedSchemaTypes = extracted.schemaTypes;
+  pageData.detectedSchemaProperties = extracted.schemaProperties;
+  pageData.jsonLd = extracted.jsonLd;
+  pageData.bodyText = extracted.bodyText.slice(0, MAX_BODY_TEXT_LENGTH);
+  pageData.contentTextLength = extracted.bodyText.length;
+  pageData.internalLinks = resolveInternalLinks(extracted.links, url);
+  pageData.links = extracted.links;
+  pageData.images = extracted.images;
+
+  return pageData;
+}
+
+/**
+ * Fetches a single page and extracts GEO-relevant data. Fetch failures
+ * are reported in fetchError rather than thrown.
+ */
+export async function fetchAndParsePage(
+  url: string,
+  config: CrawlerConfig
+): Promise<PageData> {
+  let pageData = createPageData(url, 0);
 
   try {
     const controller = new AbortController();
@@ -327,14 +282,7 @@ async function fetchAndParsePage(
     const html = await response.text();
 
     // Extract all data
-    pageData.title = extractTagContent(html, 'title');
-    pageData.metaDescription = extractMetaContent(html, 'description');
-    pageData.canonical = extractCanonical(html);
-    pageData.h1Text = extractH1(html);
-    pageData.headingsSummary = countHeadings(html);
-    pageData.detectedSchemaTypes = detectSchemaTypes(html);
-    pageData.contentTextLength = estimateContentLength(html);
-    pageData.internalLinks = extractInternalLinks(html, origin);
+    pageData = buildPageData(url, html, response.status);
   } catch (err) {
     if (err instanceof Error) {
       if (err.name === 'AbortError') {
@@ -351,64 +299,51 @@ async function fetchAndParsePage(
 }
 
 /**
- * Crawls a website starting from the given URL.
+ * Finds the URLs to crawl for a site.
  *
  * Strategy:
  * 1. Try to discover URLs from sitemap
  * 2. Fallback to homepage link extraction
- * 3. Crawl up to maxPages URLs
- * 4. Return structured results with partial data on errors
+ * 3. Sort and limit to maxPages
  */
-export async function crawlSite(
+export async function discoverCrawlUrls(
   siteUrl: string,
   config: Partial<CrawlerConfig> = {}
-): Promise<CrawlResult> {
+): Promise<CrawlDiscovery> {
   const fullConfig: CrawlerConfig = { ...DEFAULT_CRAWLER_CONFIG, ...config };
   const origin = getOrigin(siteUrl);
 
-  if (!origin) {
-    return {
-      baseUrl: siteUrl,
-      crawledAt: new Date().toISOString(),
-      pagesAnalyzed: 0,
-      maxPagesLimit: fullConfig.maxPages,
-      pages: [],
-      errors: ['Invalid URL: could not determine origin'],
-      sitemapFound: false,
-    };
-  }
-
-  const result: CrawlResult = {
-    baseUrl: siteUrl,
-    crawledAt: new Date().toISOString(),
-    pagesAnalyzed: 0,
-    maxPagesLimit: fullConfig.maxPages,
+  const discovery: CrawlDiscovery = {
+    urls: [],
+    sitemapFound: false,
     pages: [],
     errors: [],
-    sitemapFound: false,
   };
 
-  // Step 1: Discover URLs
+  if (!origin) {
+    discovery.errors.push('Invalid URL: could not determine origin');
+    return discovery;
+  }
+
   let urlsToVisit: string[] = [];
 
   try {
     const sitemapUrls = await discoverSitemapUrls(origin, fullConfig.requestTimeoutMs);
     if (sitemapUrls.length > 0) {
-      result.sitemapFound = true;
+      discovery.sitemapFound = true;
       urlsToVisit = sitemapUrls;
     }
   } catch (err) {
-    result.errors.push(`Sitemap discovery failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    discovery.errors.push(`Sitemap discovery failed: ${err instanceof Error ? err.message : 'unknown error'}`);
   }
 
-  // Step 2: If no sitemap, crawl homepage for links
+  // If no sitemap, crawl homepage for links
   if (urlsToVisit.length === 0) {
     urlsToVisit = [normalizeUrl(siteUrl)];
 
     // Fetch homepage to extract links
-    const homepage = await fetchAndParsePage(normalizeUrl(siteUrl), origin, fullConfig);
-    result.pages.push(homepage);
-    result.pagesAnalyzed = 1;
+    const homepage = await fetchAndParsePage(normalizeUrl(siteUrl), fullConfig);
+    discovery.pages.push(homepage);
 
     if (homepage.internalLinks.length > 0) {
       urlsToVisit = [
@@ -418,20 +353,50 @@ export async function crawlSite(
     }
   }
 
-  // Step 3: Sort and limit URLs
-  urlsToVisit = [...new Set(urlsToVisit)].sort().slice(0, fullConfig.maxPages);
+  discovery.urls = [...new Set(urlsToVisit)].sort().slice(0, fullConfig.maxPages);
+  return discovery;
+}
+
+/**
+ * Crawls a website starting from the given URL.
+ *
+ * Discovers URLs (discoverCrawlUrls), then fetches each one in order.
+ * Returns structured results with partial data on errors.
+ */
+export async function crawlSite(
+  siteUrl: string,
+  config: Partial<CrawlerConfig> = {},
+  progress: CrawlProgressHandlers = {}
+): Promise<CrawlResult> {
+  const fullConfig: CrawlerConfig = { ...DEFAULT_CRAWLER_CONFIG, ...config };
+  const discovery = await discoverCrawlUrls(siteUrl, fullConfig);
+  progress.onDiscovered?.(discovery);
+
+  const total = Math.max(discovery.urls.length, discovery.pages.length);
+  discovery.pages.forEach((page, i) => progress.onPageCrawled?.(page, i + 1, total));
+
+  const result: CrawlResult = {
+    baseUrl: siteUrl,
+    crawledAt: new Date().toISOString(),
+    pagesAnalyzed: discovery.pages.length,
+    maxPagesLimit: fullConfig.maxPages,
+    pages: [...discovery.pages],
+    errors: [...discovery.errors],
+    sitemapFound: discovery.sitemapFound,
+  };
 
-  // Step 4: Crawl all URLs (skip already visited)
+  // Crawl all URLs (skip already visited)
   const visited = new Set(result.pages.map(p => p.url));
 
-  for (const url of urlsToVisit) {
+  for (const url of discovery.urls) {
     if (visited.has(url)) continue;
     if (result.pagesAnalyzed >= fullConfig.maxPages) break;
 
-    const pageData = await fetchAndParsePage(url, origin, fullConfig);
+    const pageData = await fetchAndParsePage(url, fullConfig);
     result.pages.push(pageData);
     result.pagesAnalyzed++;
     visited.add(url);
+    progress.onPageCrawled?.(pageData, result.pagesAnalyzed, total);
 
     if (pageData.fetchError) {
       result.errors.push(`${url}: ${pageData.fetchError}`);
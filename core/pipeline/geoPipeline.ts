@@ -13,18 +13,43 @@
  */
 
 import type { BusinessInput } from '../../inputs/business.schema';
-import { enforceNoHallucinations } from '../rules/antiHallucination';
-
-import { generateTitleMeta, TitleMetaOutput } from '../generators/titleMeta.generator';
-import { generateAnswerCapsule, AnswerCapsuleOutput } from '../generators/answerCapsule.generator';
-import { generateServiceDescription, ServiceDescriptionOutput } from '../generators/serviceDescription.generator';
-import { generateWhyChooseUs, WhyChooseUsOutput } from '../generators/whyChooseUs.generator';
-import { generateTeamBio, TeamBioOutput } from '../generators/teamBio.generator';
-import { generateHowWeWork, HowWeWorkOutput } from '../generators/howWeWork.generator';
-import { generateCaseStudy, CaseStudyOutput } from '../generators/caseStudy.generator';
-import { generateTestimonial, TestimonialOutput } from '../generators/testimonial.generator';
-import { generateFAQ, FAQOutput } from '../generators/faq.generator';
-import { generateSchema, SchemaOutput } from '../generators/schema.generator';
+import {
+  enforceNoHallucinations,
+  assertClaimsVerified,
+  verifyOutputClaims,
+  ClaimVerificationResult,
+} from '../rules/antiHallucination';
+import { buildProvenanceLedger, ProvenanceLedger } from '../rules/provenance';
+import {
+  GENERATOR_REGISTRY,
+  getGeneratorsByCategory,
+  GeneratorId,
+} from '../generators/registry';
+
+import type { TitleMetaOutput } from '../generators/titleMeta.generator';
+import type { AnswerCapsuleOutput } from '../generators/answerCapsule.generator';
+import type { ServiceDescriptionOutput } from '../generators/serviceDescription.generator';
+import type { WhyChooseUsOutput } from '../generators/whyChooseUs.generator';
+import type { TeamBioOutput } from '../generators/teamBio.generator';
+import type { HowWeWorkOutput } from '../generators/howWeWork.generator';
+import type { CaseStudyOutput } from '../generators/caseStudy.generator';
+import type { TestimonialOutput } from '../generators/testimonial.generator';
+import type { FAQOutput } from '../generators/faq.generator';
+import type { SchemaOutput } from '../generators/schema.generator';
+import type { LocationContentOutput } from '../generators/locationContent.generator';
+import type { ServiceAreaPagesOutput } from '../generators/serviceArea.generator';
+import type {
+  PropertyMarketDataOutput,
+  PermitsAndCodesOutput,
+  LocalCourtProcessOutput,
+  FirstTimeBuyerProgramsOutput,
+  SeasonalClimateOutput,
+} from '../generators/industry';
+
+/**
+ * Current pipeline output version.
+ */
+export const PIPELINE_VERSION = '2.1.0';
 
 /**
  * Complete GEO content output structure.
@@ -46,42 +71,71 @@ export interface GEOPipelineOutput {
   testimonials?: TestimonialOutput;
   faq: FAQOutput;
   schema: SchemaOutput;
+  /** Per-branch title/meta, capsule and FAQs (multi-location businesses only) */
+  locationContent?: LocationContentOutput;
+  /** One landing page package per service area × primary service */
+  serviceAreaPages?: ServiceAreaPagesOutput;
+  // Industry-specific sections (only present when the generator was enabled)
+  propertyMarketData?: PropertyMarketDataOutput;
+  permitsAndCodes?: PermitsAndCodesOutput;
+  localCourtProcess?: LocalCourtProcessOutput;
+  firstTimeBuyerPrograms?: FirstTimeBuyerProgramsOutput;
+  seasonalClimate?: SeasonalClimateOutput;
   allSources: string[];
+  /** Field-level provenance: which BusinessInput fields back each generated string */
+  provenance: ProvenanceLedger;
+  /** Claims in generated text that could not be traced back to BusinessInput */
+  claimVerification: ClaimVerificationResult;
 }
 
 /**
  * Pipeline configuration options.
  */
 export interface PipelineOptions {
+  /**
+   * Generators to run, typically `selectGenerators(...).enabled`.
+   * Defaults to all core generators; industry generators only run when listed.
+   */
+  generators?: string[];
   /** Skip specific generators if needed */
-  skip?: Array<
-    | 'titleMeta'
-    | 'answerCapsule'
-    | 'serviceDescription'
-    | 'whyChooseUs'
-    | 'teamBio'
-    | 'howWeWork'
-    | 'caseStudy'
-    | 'testimonial'
-    | 'faq'
-    | 'schema'
-  >;
+  skip?: GeneratorId[];
+  /**
+   * How untraceable claims are handled:
+   * - 'flag' (default): reported in output.claimVerification
+   * - 'fail': the pipeline throws
+   */
+  claimVerification?: 'flag' | 'fail';
+  /**
+   * Called after each generator runs. `included` is false when an optional
+   * section had no content and was left out of the output.
+   */
+  onGeneratorComplete?: (generatorId: string, outputKey: string, included: boolean) => void;
 }
 
 /**
  * Executes the full GEO content generation pipeline.
  *
  * EXECUTION ORDER (fixed for determinism):
+ * Generators run in GENERATOR_REGISTRY declaration order:
  * 1. Title & Meta
  * 2. Answer Capsule
  * 3. Service Descriptions
- * 4. Why Choose Us (NEW)
- * 5. Team Bios (NEW)
- * 6. How We Work (NEW)
- * 7. Case Studies (NEW)
- * 8. Testimonials (NEW)
+ * 4. Why Choose Us
+ * 5. Team Bios
+ * 6. How We Work
+ * 7. Case Studies
+ * 8. Testimonials
  * 9. FAQ
  * 10. Schema.org
+ * 11. Location Content (multi-location businesses)
+ * 12. Service Area Pages
+ * 13+. Industry-specific generators (when enabled)
+ *
+ * Every generated section is checked against its contract validator;
+ * a generator that produces an invalid section fails the whole run.
+ * The output carries a provenance ledger mapping each generated string
+ * to the BusinessInput fields (JSON pointers) that back it, and the
+ * result of the post-generation claim check.
  *
  * @param input - BusinessInput data (single source of truth)
  * @param options - Optional pipeline configuration
@@ -94,127 +148,73 @@ export function runGEOPipeline(
   // Enforce anti-hallucination at pipeline level
   enforceNoHallucinations(input);
 
-  const skip = options.skip ?? [];
+  const enabled = options.generators ?? getGeneratorsByCategory('core');
+  const skip: string[] = options.skip ?? [];
   const allSources = new Set<string>();
+  const sections: Record<string, unknown> = {};
+
+  // Execute generators in registry order
+  for (const config of Object.values(GENERATOR_REGISTRY)) {
+    const shouldRun = enabled.includes(config.id) && !skip.includes(config.id);
+
+    if (!shouldRun) {
+      // Required sections keep their slot so the output contract still holds
+      if (config.required) {
+        sections[config.outputKey] = createSkippedOutput(config.id);
+        allSources.add('SKIPPED');
+      }
+      continue;
+    }
+
+    const result = config.generate(input);
+
+    const contractErrors = config.validate(result);
+    if (contractErrors.length > 0) {
+      throw new Error(
+        `Generator '${config.id}' violated its output contract: ${contractErrors.join(', ')}`
+      );
+    }
+
+    // Optional sections are only included if they have meaningful content
+    if (!config.required && config.hasContent && !config.hasContent(result)) {
+      options.onGeneratorComplete?.(config.id, config.outputKey, false);
+      continue;
+    }
+
+    sections[config.outputKey] = result;
+    options.onGeneratorComplete?.(config.id, config.outputKey, true);
+    result.sources.forEach(s => allSources.add(s));
+  }
 
-  // Track sources helper
-  const trackSources = (sources: string[]) => {
-    sources.forEach(s => allSources.add(s));
-  };
-
-  // Execute generators in fixed order
-  // PIPELINE STEP 1: Title & Meta
-  const titleMeta = skip.includes('titleMeta')
-    ? createSkippedOutput<TitleMetaOutput>('titleMeta')
-    : generateTitleMeta(input);
-  trackSources(titleMeta.sources);
-
-  // PIPELINE STEP 2: Answer Capsule
-  const answerCapsule = skip.includes('answerCapsule')
-    ? createSkippedOutput<AnswerCapsuleOutput>('answerCapsule')
-    : generateAnswerCapsule(input);
-  trackSources(answerCapsule.sources);
-
-  // PIPELINE STEP 3: Service Descriptions
-  const serviceDescriptions = skip.includes('serviceDescription')
-    ? createSkippedOutput<ServiceDescriptionOutput>('serviceDescription')
-    : generateServiceDescription(input);
-  trackSources(serviceDescriptions.sources);
-
-  // PIPELINE STEP 4: Why Choose Us (NEW)
-  const whyChooseUs = skip.includes('whyChooseUs')
-    ? undefined
-    : generateWhyChooseUs(input);
-  if (whyChooseUs) trackSources(whyChooseUs.sources);
-
-  // PIPELINE STEP 5: Team Bios (NEW)
-  const teamBios = skip.includes('teamBio')
-    ? undefined
-    : generateTeamBio(input);
-  // Only track sources if team data was provided
-  if (teamBios && teamBios.team.length > 0) trackSources(teamBios.sources);
-
-  // PIPELINE STEP 6: How We Work (NEW)
-  const howWeWork = skip.includes('howWeWork')
-    ? undefined
-    : generateHowWeWork(input);
-  if (howWeWork) trackSources(howWeWork.sources);
-
-  // PIPELINE STEP 7: Case Studies (NEW)
-  const caseStudies = skip.includes('caseStudy')
-    ? undefined
-    : generateCaseStudy(input);
-  // Only track sources if case studies were provided
-  if (caseStudies && caseStudies.caseStudies.length > 0) trackSources(caseStudies.sources);
-
-  // PIPELINE STEP 8: Testimonials (NEW)
-  const testimonials = skip.includes('testimonial')
-    ? undefined
-    : generateTestimonial(input);
-  // Only track sources if testimonials were provided
-  if (testimonials && testimonials.testimonials.length > 0) trackSources(testimonials.sources);
-
-  // PIPELINE STEP 9: FAQ
-  const faq = skip.includes('faq')
-    ? createSkippedOutput<FAQOutput>('faq')
-    : generateFAQ(input);
-  trackSources(faq.sources);
-
-  // PIPELINE STEP 10: Schema.org
-  const schema = skip.includes('schema')
-    ? createSkippedOutput<SchemaOutput>('schema')
-    : generateSchema(input);
-  trackSources(schema.sources);
+  // Verify every claim in the generated text traces back to input
+  const claimVerification = verifyOutputClaims(sections, input);
+  if (options.claimVerification === 'fail') {
+    assertClaimsVerified(claimVerification);
+  }
 
   // Aggregate final output
-  // Only include optional sections if they have content
-  const output: GEOPipelineOutput = {
+  return {
     metadata: {
       generatedAt: new Date().toISOString(),
       businessName: input.business.name,
-      pipelineVersion: '2.0.0', // Version bump for new generators
+      pipelineVersion: PIPELINE_VERSION,
     },
-    titleMeta,
-    answerCapsule,
-    serviceDescriptions,
-    faq,
-    schema,
+    ...sections,
     allSources: Array.from(allSources),
-  };
-
-  // Add optional sections only if they have meaningful content
-  if (whyChooseUs && whyChooseUs.differentiators.length > 0) {
-    output.whyChooseUs = whyChooseUs;
-  }
-
-  if (teamBios && teamBios.team.length > 0) {
-    output.teamBios = teamBios;
-  }
-
-  if (howWeWork && howWeWork.steps.length > 0) {
-    output.howWeWork = howWeWork;
-  }
-
-  if (caseStudies && caseStudies.caseStudies.length > 0) {
-    output.caseStudies = caseStudies;
-  }
-
-  if (testimonials && testimonials.testimonials.length > 0) {
-    output.testimonials = testimonials;
-  }
-
-  return output;
+    provenance: buildProvenanceLedger(sections, input),
+    claimVerification,
+  } as GEOPipelineOutput;
 }
 
 /**
  * Creates a placeholder output for skipped generators.
  */
-function createSkippedOutput<T>(generatorName: string): T {
+function createSkippedOutput(generatorName: string): { skipped: true; reason: string; sources: string[] } {
   return {
     skipped: true,
     reason: `Generator '${generatorName}' was skipped via pipeline options`,
     sources: ['SKIPPED'],
-  } as unknown as T;
+  };
 }
 
 /**
@@ -7,10 +7,17 @@
  */
 
 import type { BusinessInput } from '../../inputs/business.schema';
+import {
+  collectInputFields,
+  collectOutputStrings,
+  traceText,
+  InputField,
+} from './provenance';
 
 /**
  * List of fields that MUST NOT be inferred or fabricated.
  * If these fields are not present in BusinessInput, they must be omitted entirely.
+ * Each entry is enforced on generated text by verifyOutputClaims (see CLAIM_RULES).
  */
 export const FORBIDDEN_INFERENCES = [
   'yearsOperating',
@@ -107,3 +114,401 @@ export function validateAllowedSources(
   }
   return sourcesUsed.every(s => allowed.includes(s) || s === 'BusinessInput');
 }
+
+// ============================================================
+// POST-GENERATION CLAIM VERIFICATION
+// ============================================================
+
+export type ForbiddenInference = typeof FORBIDDEN_INFERENCES[number];
+
+/**
+ * Kinds of claim the verifier extracts from generated text.
+ */
+export type ClaimKind =
+  | 'years'
+  | 'year'
+  | 'license'
+  | 'certification'
+  | 'insurance'
+  | 'review-count'
+  | 'rating'
+  | 'service-area'
+  | 'place'
+  | 'service'
+  | 'superlative'
+  | 'staff'
+  | 'pricing'
+  | 'project-history'
+  | 'number';
+
+/**
+ * Maps each claim kind to the forbidden inference it enforces.
+ * Bare numbers have no dedicated rule but must still be traceable.
+ */
+export const CLAIM_RULES: Record<ClaimKind, ForbiddenInference | null> = {
+  'years': 'yearsOperating',
+  'year': 'yearsOperating',
+  'license': 'licenses',
+  'certification': 'certifications',
+  'insurance': 'insurance',
+  'review-count': 'reviewCount',
+  'rating': 'averageRating',
+  'service-area': 'serviceAreas not explicitly listed',
+  'place': 'locations not explicitly listed',
+  'service': 'services not explicitly listed',
+  'superlative': 'awards or recognitions',
+  'staff': 'staff names or counts',
+  'pricing': 'pricing information',
+  'project-history': 'specific project history',
+  'number': null,
+};
+
+/**
+ * A claim in generated text that cannot be traced back to BusinessInput.
+ */
+export interface ClaimViolation {
+  kind: ClaimKind;
+  rule: ForbiddenInference | null;
+  /** The offending token or phrase */
+  token: string;
+  /** JSON pointer to the string within the output */
+  path: string;
+  text: string;
+}
+
+/**
+ * Result of verifying generated output against its BusinessInput.
+ */
+export interface ClaimVerificationResult {
+  valid: boolean;
+  violations: ClaimViolation[];
+  stringsChecked: number;
+}
+
+/**
+ * Output sections holding industry reference data rather than claims
+ * about the business. They carry their own disclaimers and are not verified.
+ */
+const REFERENCE_DATA_SECTIONS = new Set([
+  'propertyMarketData',
+  'permitsAndCodes',
+  'localCourtProcess',
+  'firstTimeBuyerPrograms',
+  'seasonalClimate',
+]);
+
+/**
+ * Output keys that are pipeline bookkeeping, not generated content.
+ */
+const NON_CLAIM_SECTIONS = new Set(['metadata', 'allSources', 'provenance', 'claimVerification']);
+
+const SUPERLATIVE_PATTERN =
+  /(?:#\s?1\b|\bno\.?\s?1\b|\bnumber one\b|\bbest\b|\btop[- ]rated\b|\baward[- ]winning\b|\bawards?\b|\bleading\b|\bpremier\b|\bmost trusted\b|\b#?1 rated\b|\bunbeatable\b|\bguaranteed?\b)/gi;
+
+const CREDENTIAL_PATTERNS: Array<{ kind: ClaimKind; pattern: RegExp }> = [
+  { kind: 'license', pattern: /\blicen[sc](?:e|ed|es|ing)\b/gi },
+  { kind: 'certification', pattern: /\bcertifi(?:ed|cation|cations)\b/gi },
+  { kind: 'insurance', pattern: /\b(?:insured|insurance|bonded)\b/gi },
+];
+
+const NUMBER_PATTERN = /(\$\s?)?(?<![\w.])(24\/7|\d+(?:[.,]\d+)*)(?![\w])(\+)?/g;
+
+/**
+ * Words after a number that reveal what kind of claim it is.
+ */
+const NUMBER_CONTEXT: Array<{ kind: ClaimKind; pattern: RegExp }> = [
+  { kind: 'years', pattern: /^\+?\s*(?:\w+\s+)?years?\b/i },
+  { kind: 'review-count', pattern: /^\+?\s*(?:\w+\s+)?reviews?\b/i },
+  { kind: 'rating', pattern: /^\s*(?:stars?|\/\s?5|out of 5|(?:average\s+)?rating)\b/i },
+  { kind: 'staff', pattern: /^\+?\s*(?:\w+\s+)?(?:technicians|employees|staff|team members|experts|professionals|attorneys|agents)\b/i },
+  { kind: 'project-history', pattern: /^\+?\s*(?:\w+\s+)?(?:projects|jobs|customers|clients|homes|cases|installations)\b/i },
+];
+
+/**
+ * Phrases that introduce a place name, and the claim kind they imply.
+ */
+const PLACE_PATTERN =
+  /\b([Ss]erving|[Ss]erves|[Tt]hroughout|[Aa]cross|[Cc]overing|[Ii]n|[Nn]ear|[Aa]round|[Ll]ocated in)\s+((?:[A-Z][\w'-]*)(?:\s+[A-Z][\w'-]*)*(?:(?:,\s*|\s+and\s+)[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)*)*)/g;
+
+/**
+ * Phrases that introduce a named service.
+ */
+const SERVICE_PATTERN =
+  /\b(?:offers|provides|specializes in|specializing in|specialists in)\s+((?:[A-Z][\w'&-]*)(?:\s+[A-Z][\w'&-]*)*)/g;
+
+const PLACEHOLDER_PATTERN = /\[DATA_REQUIRED: [^\]]*\]/g;
+
+/**
+ * Checks whether a token occurs in the value of any input field traced
+ * into the same string, i.e. the token was copied from BusinessInput.
+ */
+function isTokenTraced(token: string, tracedFields: InputField[]): boolean {
+  const needle = token.toLowerCase().trim();
+  if (needle.length === 0) return true;
+
+  return tracedFields.some(field => {
+    const value = field.value.toLowerCase();
+    const index = value.indexOf(needle);
+    if (index === -1) return false;
+    const before = value.charAt(index - 1);
+    const after = value.charAt(index + needle.length);
+    return !/\w/.test(before) && !/\w/.test(after);
+  });
+}
+
+/**
+ * Collects figures derived from a value by counting or summing:
+ * array lengths ("Serving 2 local areas") and per-key totals across
+ * arrays of objects ("a combined 30 years of experience").
+ */
+function collectDerivedFigures(
+  value: unknown,
+  counts: Set<number>,
+  totals: Set<number>
+): void {
+  if (Array.isArray(value)) {
+    counts.add(value.length);
+
+    const sums: Record<string, number> = {};
+    for (const item of value) {
+      if (!item || typeof item !== 'object') continue;
+      for (const [key, child] of Object.entries(item)) {
+        if (typeof child === 'number') {
+          sums[key] = (sums[key] ?? 0) + child;
+        }
+      }
+    }
+    Object.values(sums).forEach(sum => totals.add(sum));
+
+    value.forEach(item => collectDerivedFigures(item, counts, totals));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(child => collectDerivedFigures(child, counts, totals));
+  }
+}
+
+/**
+ * Returns true if the input provides data for a credential claim kind.
+ */
+function hasCredentialData(input: BusinessInput, kind: ClaimKind): boolean {
+  const members = input.team?.members ?? [];
+  switch (kind) {
+    case 'license':
+      return hasItems(input.credentials?.licenses) || members.some(m => hasItems(m.licenses));
+    case 'certification':
+      return hasItems(input.credentials?.certifications) || members.some(m => hasItems(m.certifications));
+    case 'insurance':
+      return hasValue(input.credentials?.insurance) && input.credentials!.insurance.trim().length > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Classifies a number by the words that follow it.
+ */
+function classifyNumber(value: string, prefix: string | undefined, following: string): ClaimKind {
+  if (prefix) return 'pricing';
+  for (const { kind, pattern } of NUMBER_CONTEXT) {
+    if (pattern.test(following)) return kind;
+  }
+  if (/^(?:19|20)\d{2}$/.test(value)) return 'year';
+  return 'number';
+}
+
+/**
+ * Verifies that every factual claim in generated output traces back to
+ * BusinessInput. Scans each generated string for numbers, years, ratings,
+ * superlatives, license/certification/insurance mentions, place names and
+ * named services, and reports any that cannot be traced.
+ *
+ * Industry reference sections are skipped; they are template data with
+ * their own disclaimers, not claims about the business.
+ *
+ * @param output - Assembled pipeline output (GEOOutputContract shape)
+ * @param input - BusinessInput the output was generated from
+ * @returns Verification result listing every untraceable claim
+ */
+export function verifyOutputClaims(
+  output: object,
+  input: BusinessInput
+): ClaimVerificationResult {
+  const sections: Record<string, unknown> = {};
+  for (const [key, section] of Object.entries(output)) {
+    if (NON_CLAIM_SECTIONS.has(key) || REFERENCE_DATA_SECTIONS.has(key)) continue;
+    sections[key] = section;
+  }
+
+  const fields = collectInputFields(input);
+  const derivedCounts = new Set<number>();
+  const derivedTotals = new Set<number>();
+  collectDerivedFigures(input, derivedCounts, derivedTotals);
+  collectDerivedFigures(sections, derivedCounts, derivedTotals);
+
+  const violations: ClaimViolation[] = [];
+  const strings = collectOutputStrings(sections);
+
+  for (const { path, text: rawText } of strings) {
+    const text = rawText.replace(PLACEHOLDER_PATTERN, ' ');
+    const tracedPointers = new Set(traceText(text, fields));
+    const tracedFields = fields.filter(f => tracedPointers.has(f.pointer));
+
+    const flag = (kind: ClaimKind, token: string): void => {
+      violations.push({ kind, rule: CLAIM_RULES[kind], token, path, text: rawText });
+    };
+
+    // Numbers, years, ratings, review counts, prices, staff and project counts
+    for (const match of text.matchAll(NUMBER_PATTERN)) {
+      const [fullMatch, prefix, value] = match;
+      if (isTokenTraced(value, tracedFields)) continue;
+
+      const following = text.slice((match.index ?? 0) + fullMatch.length);
+      const kind = classifyNumber(value, prefix, following);
+      // Counts may back bare numbers and headcounts; totals may also back years
+      const figure = Number(value);
+      const isDerived =
+        ((kind === 'number' || kind === 'staff') && derivedCounts.has(figure)) ||
+        ((kind === 'number' || kind === 'years') && derivedTotals.has(figure));
+      if (!isDerived) {
+        flag(kind, fullMatch.trim());
+      }
+    }
+
+    // Superlatives and awards
+    for (const match of text.matchAll(SUPERLATIVE_PATTERN)) {
+      if (!isTokenTraced(match[0], tracedFields)) {
+        flag('superlative', match[0]);
+      }
+    }
+
+    // License, certification and insurance mentions
+    for (const { kind, pattern } of CREDENTIAL_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        if (!hasCredentialData(input, kind) && !isTokenTraced(match[0], tracedFields)) {
+          flag(kind, match[0]);
+        }
+      }
+    }
+
+    // Place names
+    for (const match of text.matchAll(PLACE_PATTERN)) {
+      const kind: ClaimKind = /^(?:serving|serves|throughout|across|covering)$/i.test(match[1])
+        ? 'service-area'
+        : 'place';
+      for (const place of match[2].split(/,\s*|\s+and\s+/)) {
+        if (!isTokenTraced(place, tracedFields)) {
+          flag(kind, place);
+        }
+      }
+    }
+
+    // Named services
+    for (const match of text.matchAll(SERVICE_PATTERN)) {
+      if (!isTokenTraced(match[1], tracedFields)) {
+        flag('service', match[1]);
+      }
+    }
+  }
+
+  return {
+    valid: violations.length === 0,
+    violations,
+    stringsChecked: strings.length,
+  };
+}
+
+/**
+ * Throws if generated output contains claims that cannot be traced
+ * back to BusinessInput. Use after assembling output when strict
+ * enforcement is required.
+ */
+export function enforceVerifiedClaims(output: object, input: BusinessInput): void {
+  assertClaimsVerified(verifyOutputClaims(output, input));
+}
+
+/**
+ * Throws if a verification result has untraceable claims. Lets callers
+ * that keep the result (such as the pipeline) enforce it without
+ * verifying the output a second time.
+ */
+export function assertClaimsVerified(result: ClaimVerificationResult): void {
+  if (!result.valid) {
+    const summary = result.violations
+      .slice(0, 5)
+      .map(v => `"${v.token}" at ${v.path}${v.rule ? ` (${v.rule})` : ''}`)
+      .join('; ');
+    const more = result.violations.length > 5 ? ` and ${result.violations.length - 5} more` : '';
+    throw new Error(
+      `Anti-hallucination enforcement failed: untraceable claims in output: ${summary}${more}`
+    );
+  }
+}
+
+/**
+ * Reduces markup to the text a reader (or crawler) would see: tags and
+ * entities go, comment bodies stay because meta recommendations live in them.
+ */
+function toCheckableText(markup: string): string {
+  return markup
+    .replace(/<!--|-->/g, ' ')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, ' ')
+    .replace(/&#?\w+;/g, ' ');
+}
+
+/**
+ * Finds claims that a hand edit introduces: numbers, license/certification/
+ * insurance mentions and place names in the edited text that occur nowhere
+ * in the original. Review sessions check edits against the content they
+ * generated plus the session's BusinessInput values, if it has one.
+ *
+ * @param editedText - Content after the edit
+ * @param originalTexts - Content the edit is checked against
+ * @param path - Reported as the violation path (e.g. the file path)
+ */
+export function findIntroducedClaims(
+  editedText: string,
+  originalTexts: string[],
+  path: string = ''
+): ClaimViolation[] {
+  const sources: InputField[] = originalTexts.map((value, i) => ({
+    pointer: `/${i}`,
+    value: toCheckableText(value),
+  }));
+  const text = toCheckableText(editedText);
+  const violations: ClaimViolation[] = [];
+  const seen = new Set<string>();
+
+  const flag = (kind: ClaimKind, token: string): void => {
+    const key = `${kind}:${token.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    violations.push({ kind, rule: CLAIM_RULES[kind], token, path, text: token });
+  };
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [fullMatch, prefix, value] = match;
+    if (isTokenTraced(value, sources)) continue;
+    const following = text.slice((match.index ?? 0) + fullMatch.length);
+    flag(classifyNumber(value, prefix, following), fullMatch.trim());
+  }
+
+  for (const { kind, pattern } of CREDENTIAL_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!isTokenTraced(match[0], sources)) {
+        flag(kind, match[0]);
+      }
+    }
+  }
+
+  for (const match of text.matchAll(PLACE_PATTERN)) {
+    const kind: ClaimKind = /^(?:serving|serves|throughout|across|covering)$/i.test(match[1])
+      ? 'service-area'
+      : 'place';
+    for (const place of match[2].split(/,\s*|\s+and\s+/)) {
+      if (!isTokenTraced(place, sources)) {
+        flag(kind, place);
+      }
+    }
+  }
+
+  return violations;
+}
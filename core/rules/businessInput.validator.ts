@@ -28,6 +28,7 @@ export interface ValidationResult {
 const ALLOWED_TOP_LEVEL_KEYS: ReadonlySet<string> = new Set([
   'business',
   'location',
+  'locations',
   'contact',
   'services',
   'credentials',
@@ -72,6 +73,11 @@ export function validateBusinessInput(input: unknown): ValidationResult {
   // Validate location (required)
   validateLocationSection(obj.location, errors);
 
+  // Validate locations (optional branches, must be valid if present)
+  if (obj.locations !== undefined) {
+    validateLocationsSection(obj.locations, errors);
+  }
+
   // Validate contact (optional but must be valid if present)
   if (obj.contact !== undefined) {
     validateContactSection(obj.contact, errors);
@@ -172,6 +178,79 @@ function validateLocationSection(location: unknown, errors: string[]): void {
   }
 }
 
+/**
+ * Validates the optional locations (branches) array.
+ */
+function validateLocationsSection(locations: unknown, errors: string[]): void {
+  if (!Array.isArray(locations)) {
+    errors.push('locations must be an array if provided');
+    return;
+  }
+
+  const seenIds = new Set<string>();
+
+  for (let i = 0; i < locations.length; i++) {
+    const branch = locations[i];
+    const prefix = `locations[${i}]`;
+
+    if (!branch || typeof branch !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      continue;
+    }
+
+    const b = branch as Record<string, unknown>;
+
+    // id is required and must be unique
+    if (typeof b.id !== 'string' || b.id.trim() === '') {
+      errors.push(`${prefix}.id is required and must be a non-empty string`);
+    } else if (seenIds.has(b.id)) {
+      errors.push(`${prefix}.id '${b.id}' is duplicated`);
+    } else {
+      seenIds.add(b.id);
+    }
+
+    // address with city and country is required
+    if (!b.address || typeof b.address !== 'object') {
+      errors.push(`${prefix}.address is required and must be an object`);
+    } else {
+      const a = b.address as Record<string, unknown>;
+      if (typeof a.city !== 'string' || a.city.trim() === '') {
+        errors.push(`${prefix}.address.city is required and must be a non-empty string`);
+      }
+      if (typeof a.country !== 'string' || a.country.trim() === '') {
+        errors.push(`${prefix}.address.country is required and must be a non-empty string`);
+      }
+      for (const key of ['streetAddress', 'region', 'postalCode']) {
+        if (a[key] !== undefined && typeof a[key] !== 'string') {
+          errors.push(`${prefix}.address.${key} must be a string if provided`);
+        }
+      }
+    }
+
+    // Optional string fields
+    for (const key of ['name', 'phone', 'email', 'operatingHours', 'url']) {
+      if (b[key] !== undefined && typeof b[key] !== 'string') {
+        errors.push(`${prefix}.${key} must be a string if provided`);
+      }
+    }
+
+    // Optional string arrays
+    for (const key of ['services', 'serviceAreas']) {
+      if (b[key] === undefined) continue;
+      const values = b[key];
+      if (!Array.isArray(values)) {
+        errors.push(`${prefix}.${key} must be an array if provided`);
+      } else {
+        for (let j = 0; j < values.length; j++) {
+          if (typeof values[j] !== 'string') {
+            errors.push(`${prefix}.${key}[${j}] must be a string`);
+          }
+        }
+      }
+    }
+  }
+}
+
 /**
  * Validates the contact section.
  */
@@ -0,0 +1,312 @@
+/**
+ * Field-Level Provenance
+ *
+ * Traces every generated string back to the BusinessInput fields that
+ * back it, using JSON pointers (RFC 6901) such as `/credentials/licenses/0`.
+ *
+ * DESIGN:
+ * - Generators compose output verbatim from BusinessInput values, so
+ *   provenance is recovered by locating those values in the output text
+ * - Multi-sentence strings are traced sentence by sentence
+ * - Text with no traceable field is reported, not hidden, so editors
+ *   can review template wording and any claim that slipped through
+ */
+
+import type { BusinessInput } from '../../inputs/business.schema';
+import type {
+  ProvenanceContract,
+  ProvenanceEntryContract,
+} from '../../contracts/output.contract';
+
+export type ProvenanceEntry = ProvenanceEntryContract;
+export type ProvenanceLedger = ProvenanceContract;
+
+/**
+ * A single BusinessInput leaf value addressed by JSON pointer.
+ */
+export interface InputField {
+  pointer: string;
+  value: string;
+}
+
+/**
+ * Human-readable provenance for one generated string or sentence.
+ */
+export interface ProvenanceExplanation {
+  /** Where the text lives in the output (pointer, plus sentence number if split) */
+  location: string;
+  text: string;
+  /** Input fields backing the text, with their values */
+  backedBy: InputField[];
+  /** False when no BusinessInput field could be traced */
+  traced: boolean;
+}
+
+/**
+ * Output keys that hold identifiers, enums or serialized copies rather
+ * than generated prose. They are excluded from the ledger.
+ */
+const NON_CONTENT_KEYS = new Set([
+  'sources',
+  'jsonLd',
+  'generatedAt',
+  'category',
+  'priority',
+  'demandLevel',
+  'level',
+  'type',
+  'season',
+  'frequency',
+  'marketType',
+  '@context',
+  '@type',
+]);
+
+/**
+ * Input sections that configure generation and are never content.
+ */
+const NON_CONTENT_INPUT_ROOTS = new Set(['constraints']);
+
+/**
+ * Minimum length for an output fragment to be traced as an excerpt
+ * of a longer input value (e.g. a key quote lifted from a testimonial).
+ */
+const MIN_EXCERPT_LENGTH = 20;
+
+/**
+ * Encodes a path as a JSON pointer, escaping `~` and `/` per RFC 6901.
+ */
+export function toJsonPointer(segments: Array<string | number>): string {
+  return segments
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+/**
+ * Resolves a JSON pointer against an object.
+ * Returns undefined if any segment is missing.
+ */
+export function resolveJsonPointer(root: unknown, pointer: string): unknown {
+  if (pointer === '') return root;
+
+  let current: unknown = root;
+  for (const raw of pointer.split('/').slice(1)) {
+    const segment = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Flattens BusinessInput into its string and numeric leaf values.
+ * Booleans are skipped since they never appear verbatim in output text.
+ */
+export function collectInputFields(input: BusinessInput): InputField[] {
+  const fields: InputField[] = [];
+
+  const walk = (value: unknown, path: Array<string | number>): void => {
+    if (typeof value === 'string') {
+      if (value.trim().length > 0) {
+        fields.push({ pointer: toJsonPointer(path), value: value.trim() });
+      }
+    } else if (typeof value === 'number') {
+      fields.push({ pointer: toJsonPointer(path), value: String(value) });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, [...path, index]));
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (path.length === 0 && NON_CONTENT_INPUT_ROOTS.has(key)) continue;
+        walk(child, [...path, key]);
+      }
+    }
+  };
+
+  walk(input, []);
+  return fields;
+}
+
+/**
+ * Escapes a string for literal use inside a RegExp.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns pointers of input fields whose values appear in the text.
+ * Values match on word boundaries so "15" does not match "150", and a
+ * value that only occurs inside a longer matched value (e.g. a service
+ * name inside the business name) is not credited.
+ * Long input values also match when the text is an excerpt of them.
+ */
+export function traceText(text: string, fields: InputField[]): string[] {
+  const normalizedText = text.toLowerCase();
+  const occurrences: Array<{ pointer: string; start: number; end: number }> = [];
+  const excerptOf: string[] = [];
+
+  for (const field of fields) {
+    const value = field.value.toLowerCase();
+    const pattern = new RegExp(`(?<![\\w])${escapeRegExp(value)}(?![\\w])`, 'g');
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(normalizedText)) !== null) {
+      occurrences.push({
+        pointer: field.pointer,
+        start: match.index,
+        end: match.index + value.length,
+      });
+    }
+
+    const excerpt = normalizedText.replace(/^["']|["']$/g, '');
+    if (
+      excerpt.length >= MIN_EXCERPT_LENGTH &&
+      value.length > excerpt.length &&
+      value.includes(excerpt)
+    ) {
+      excerptOf.push(field.pointer);
+    }
+  }
+
+  const credited = occurrences.filter(occurrence =>
+    !occurrences.some(other =>
+      other.end - other.start > occurrence.end - occurrence.start &&
+      other.start <= occurrence.start &&
+      other.end >= occurrence.end
+    )
+  );
+
+  // Text that is exactly one input value is not also an excerpt of others
+  const exactMatch = credited.some(o => o.start === 0 && o.end === normalizedText.length);
+
+  const pointers = new Set([
+    ...credited.map(o => o.pointer),
+    ...(exactMatch ? [] : excerptOf),
+  ]);
+  return fields.map(f => f.pointer).filter(pointer => pointers.has(pointer));
+}
+
+/**
+ * Splits prose into sentences. Strings without sentence breaks
+ * are returned as a single element.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"[])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * A generated string addressed by JSON pointer within the output.
+ */
+export interface OutputString {
+  path: string;
+  text: string;
+}
+
+/**
+ * Collects every generated prose string from output sections.
+ * Skips identifier/enum keys and placeholders for skipped generators.
+ *
+ * @param sections - Generated sections keyed by output key (e.g. titleMeta)
+ */
+export function collectOutputStrings(sections: Record<string, unknown>): OutputString[] {
+  const strings: OutputString[] = [];
+
+  const walk = (value: unknown, path: Array<string | number>): void => {
+    if (typeof value === 'string') {
+      if (value.trim().length > 0) {
+        strings.push({ path: toJsonPointer(path), text: value });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, [...path, index]));
+    } else if (value && typeof value === 'object') {
+      // Placeholders for skipped generators carry no generated content
+      if ((value as Record<string, unknown>).skipped === true) return;
+      for (const [key, child] of Object.entries(value)) {
+        if (NON_CONTENT_KEYS.has(key)) continue;
+        walk(child, [...path, key]);
+      }
+    }
+  };
+
+  for (const [key, section] of Object.entries(sections)) {
+    walk(section, [key]);
+  }
+
+  return strings;
+}
+
+/**
+ * Builds the provenance ledger for a set of generated output sections.
+ *
+ * @param sections - Generated sections keyed by output key (e.g. titleMeta)
+ * @param input - BusinessInput the sections were generated from
+ * @returns Ledger of traced strings plus the input values they reference
+ */
+export function buildProvenanceLedger(
+  sections: Record<string, unknown>,
+  input: BusinessInput
+): ProvenanceLedger {
+  const fields = collectInputFields(input);
+  const entries: ProvenanceEntry[] = [];
+  const referenced = new Set<string>();
+
+  for (const { path, text } of collectOutputStrings(sections)) {
+    const sentences = splitSentences(text);
+    sentences.forEach((sentence, index) => {
+      const entry: ProvenanceEntry = {
+        path,
+        text: sentence,
+        fields: traceText(sentence, fields),
+      };
+      if (sentences.length > 1) {
+        entry.sentence = index;
+      }
+      entry.fields.forEach(pointer => referenced.add(pointer));
+      entries.push(entry);
+    });
+  }
+
+  const inputValues: Record<string, string> = {};
+  for (const field of fields) {
+    if (referenced.has(field.pointer)) {
+      inputValues[field.pointer] = field.value;
+    }
+  }
+
+  return { entries, inputValues };
+}
+
+/**
+ * Explains the provenance of every generated string in a pipeline output.
+ * Untraced entries are listed first so editors review them before publishing.
+ *
+ * @param output - Pipeline output carrying a provenance ledger
+ * @returns One explanation per traced string or sentence
+ */
+export function explainProvenance(output: { provenance?: ProvenanceLedger }): ProvenanceExplanation[] {
+  if (!output.provenance) {
+    return [];
+  }
+
+  const { entries, inputValues } = output.provenance;
+
+  const explanations = entries.map(entry => ({
+    location: entry.sentence !== undefined
+      ? `${entry.path} (sentence ${entry.sentence + 1})`
+      : entry.path,
+    text: entry.text,
+    backedBy: entry.fields.map(pointer => ({
+      pointer,
+      value: inputValues[pointer] ?? '',
+    })),
+    traced: entry.fields.length > 0,
+  }));
+
+  return [
+    ...explanations.filter(e => !e.traced),
+    ...explanations.filter(e => e.traced),
+  ];
+}
@@ -0,0 +1,237 @@
+/**
+ * Bitbucket Cloud REST API Client
+ *
+ * RepoProvider for Bitbucket Cloud (API 2.0).
+ * Uses fetch for all HTTP requests - no external dependencies.
+ *
+ * ADDRESSING:
+ * - owner is the workspace, repo the repository slug
+ * - baseUrl overrides the API root (https://api.bitbucket.org/2.0)
+ *
+ * AUTHENTICATION:
+ * - Access tokens are sent as Bearer tokens
+ * - "username:app-password" tokens are sent with Basic auth
+ *
+ * OPERATIONS:
+ * - Read files via the src API at the branch head commit
+ * - List files via the src API's directory listing (max_depth, paginated)
+ * - Write or delete any number of files as one commit via the src API (form post)
+ * - Create branches via the refs API and open pull requests
+ * - Read pull request state and decline (close) pull requests
+ * - Verify access from the user's repository permission (write or admin)
+ *
+ * The src API does not expose blob IDs, so files are read without a sha.
+ */
+
+import {
+  RepoProviderError,
+  validateProviderConfig,
+  providerRequest,
+  combineCommitMessages,
+  perFileCommits,
+  trimBaseUrl,
+  encodeFilePath,
+  resolveMergeRequestBranch,
+} from './repoProvider';
+import type { RepoProvider, RepoProviderConfig } from './repoProvider';
+import { encodeContent } from './githubClient';
+
+/**
+ * Bitbucket Cloud API root.
+ */
+const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+
+/**
+ * Bitbucket Cloud web root, for commit links.
+ */
+const BITBUCKET_WEB_BASE = 'https://bitbucket.org';
+
+/**
+ * Directory depth requested when listing the repository tree.
+ */
+const BITBUCKET_LIST_DEPTH = 20;
+
+/**
+ * Bitbucket Cloud implementation of RepoProvider.
+ */
+export function createBitbucketProvider(config: RepoProviderConfig): RepoProvider {
+  const api = trimBaseUrl(config.baseUrl ?? BITBUCKET_API_BASE);
+  const { owner: workspace, repo: slug, branch } = config.target;
+  const repo = `${api}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(slug)}`;
+  const headers = {
+    Authorization: config.token.includes(':')
+      ? `Basic ${encodeContent(config.token)}`
+      : `Bearer ${config.token}`,
+  };
+
+  const request = <T>(method: string, url: string, body?: { json: unknown } | { form: URLSearchParams }) =>
+    providerRequest<T>('bitbucket', method, url, headers, body);
+
+  async function branchHead(name: string): Promise<string> {
+    const { data } = await request<{ target: { hash: string } }>(
+      'GET',
+      `${repo}/refs/branches/${encodeURIComponent(name)}`
+    );
+    return data.target.hash;
+  }
+
+  /**
+   * Like branchHead, but null when the branch does not exist.
+   */
+  async function findBranchHead(name: string): Promise<string | null> {
+    try {
+      return await branchHead(name);
+    } catch (err) {
+      if (err instanceof RepoProviderError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Commits files to a branch with one src form post. Paths listed under
+   * `files` are deleted. The new commit's hash comes back in the Location
+   * header.
+   */
+  async function commit(
+    files: Array<{ path: string; content: string }>,
+    message: string,
+    target: string,
+    deletedPaths: string[] = []
+  ) {
+    const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    const form = new URLSearchParams();
+    form.set('message', message);
+    form.set('branch', target);
+    for (const file of sortedFiles) {
+      form.set(file.path, file.content);
+    }
+    const sortedDeletions = [...deletedPaths].sort((a, b) => a.localeCompare(b));
+    for (const path of sortedDeletions) {
+      form.append('files', path);
+    }
+
+    const { response } = await request<unknown>('POST', `${repo}/src`, { form });
+    const location = response.headers.get('Location') ?? '';
+    const sha = location.slice(location.lastIndexOf('/') + 1);
+    return {
+      sha,
+      message,
+      url: `${BITBUCKET_WEB_BASE}/${workspace}/${slug}/commits/${sha}`,
+      paths: [...sortedFiles.map(f => f.path), ...sortedDeletions],
+    };
+  }
+
+  return {
+    id: 'bitbucket',
+    config,
+
+    async readFile(path) {
+      validateProviderConfig('bitbucket', config);
+      try {
+        const head = await branchHead(branch);
+        const { data } = await providerRequest<string>(
+          'bitbucket',
+          'GET',
+          `${repo}/src/${head}/${encodeFilePath(path)}`,
+          headers,
+          undefined,
+          { raw: true }
+        );
+        return { path, content: data };
+      } catch (err) {
+        if (err instanceof RepoProviderError && err.status === 404) {
+          return null;
+        }
+        throw err;
+      }
+    },
+
+    async listFiles() {
+      validateProviderConfig('bitbucket', config);
+      const paths: string[] = [];
+      let next: string | undefined =
+        `${repo}/src/${await branchHead(branch)}/?max_depth=${BITBUCKET_LIST_DEPTH}&pagelen=100`;
+      while (next) {
+        const { data }: { data: { values: Array<{ path: string; type: string }>; next?: string } } =
+          await request('GET', next);
+        paths.push(...data.values.filter(entry => entry.type === 'commit_file').map(entry => entry.path));
+        next = data.next;
+      }
+      return paths.sort();
+    },
+
+    async writeFiles(files) {
+      validateProviderConfig('bitbucket', config);
+      const result = await commit(files, combineCommitMessages(files), branch);
+      return perFileCommits(files, result);
+    },
+
+    async deleteFiles(files) {
+      validateProviderConfig('bitbucket', config);
+      const result = await commit([], combineCommitMessages(files), branch, files.map(f => f.path));
+      return perFileCommits(files, result);
+    },
+
+    async openMergeRequest(files, details, deletedPaths = []) {
+      validateProviderConfig('bitbucket', config);
+      const baseSha = await branchHead(branch);
+      const resolved = await resolveMergeRequestBranch('bitbucket', details.branch, baseSha, findBranchHead);
+      if (!resolved.exists) {
+        await request('POST', `${repo}/refs/branches`, {
+          json: { name: resolved.branch, target: { hash: baseSha } },
+        });
+      }
+      const result = await commit(files, details.commitMessage, resolved.branch, deletedPaths);
+      const { data: pull } = await request<{ id: number; links: { html: { href: string } } }>(
+        'POST',
+        `${repo}/pullrequests`,
+        {
+          json: {
+            title: details.title,
+            description: details.body,
+            source: { branch: { name: resolved.branch } },
+            destination: { branch: { name: branch } },
+            close_source_branch: true,
+          },
+        }
+      );
+      return {
+        commit: result,
+        pullRequest: {
+          number: pull.id,
+          url: pull.links.html.href,
+          branch: resolved.branch,
+          base: branch,
+        },
+      };
+    },
+
+    async getMergeRequestState(id) {
+      validateProviderConfig('bitbucket', config);
+      const { data } = await request<{ state: string }>('GET', `${repo}/pullrequests/${id}`);
+      if (data.state === 'MERGED') return 'merged';
+      // DECLINED and SUPERSEDED pull requests are closed
+      return data.state === 'OPEN' ? 'open' : 'closed';
+    },
+
+    async closeMergeRequest(id) {
+      validateProviderConfig('bitbucket', config);
+      await request('POST', `${repo}/pullrequests/${id}/decline`);
+    },
+
+    async verifyWriteAccess() {
+      validateProviderConfig('bitbucket', config);
+      const query = encodeURIComponent(`repository.full_name="${workspace}/${slug}"`);
+      const { data } = await request<{ values?: Array<{ permission: string }> }>(
+        'GET',
+        `${api}/user/permissions/repositories?q=${query}`
+      );
+      const permission = data.values?.[0]?.permission;
+      if (permission !== 'write' && permission !== 'admin') {
+        throw new RepoProviderError('Token does not have write access to the repository', 403, 'bitbucket');
+      }
+    },
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Format Patch
+ *
+ * Renders planned file changes as a `git format-patch` style mailbox:
+ * one commit holding every changed file, which `git am` (or `git apply`
+ * for just the diff) applies to a checkout of the target branch.
+ *
+ * Diffs are computed on whole lines including their terminators, so a
+ * missing newline at end of file is written as git expects
+ * ("\ No newline at end of file") and the patch applies byte for byte.
+ */
+
+import { diffLines } from './patchApplier';
+import type { PlannedFileChange } from './patchApplier';
+
+/**
+ * Commit metadata for a format-patch bundle.
+ */
+export interface FormatPatchOptions {
+  subject: string;
+  body?: string;
+  /** "Name <email>" */
+  author?: string;
+  date?: Date;
+}
+
+/**
+ * Author used when none is given.
+ */
+export const DEFAULT_PATCH_AUTHOR = 'Nico GEO <nico-geo@localhost>';
+
+/**
+ * Placeholder commit ID on the "From " line, as format-patch writes for
+ * commits that do not exist yet.
+ */
+const ZERO_COMMIT = '0000000000000000000000000000000000000000';
+
+/**
+ * Widest +/- graph in the diffstat; larger changes are scaled down.
+ */
+const DIFFSTAT_GRAPH_WIDTH = 40;
+
+/**
+ * Splits content into lines that keep their "\n" terminator.
+ */
+function splitKeepingNewlines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Renders one hunk line, marking a final line that has no newline.
+ */
+function renderHunkLine(line: string): string {
+  return line.endsWith('\n')
+    ? line
+    : `${line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Formats a hunk range: "start,count", or just "start" for one line.
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Diffs a file change into git hunks with line counts.
+ */
+function diffChange(change: PlannedFileChange): { diff: string; added: number; removed: number } {
+  const isNew = change.originalContent === null;
+  const header = [
+    `diff --git a/${change.filePath} b/${change.filePath}`,
+    ...(isNew ? ['new file mode 100644'] : []),
+    `--- ${isNew ? '/dev/null' : `a/${change.filePath}`}`,
+    `+++ b/${change.filePath}`,
+  ].join('\n') + '\n';
+
+  const hunks = diffLines(
+    splitKeepingNewlines(change.originalContent ?? ''),
+    splitKeepingNewlines(change.newContent)
+  );
+  const allLines = hunks.flatMap(hunk => hunk.lines);
+
+  return {
+    diff: header + hunks.map(hunk =>
+      `@@ -${formatRange(hunk.oldStart, hunk.oldCount)} +${formatRange(hunk.newStart, hunk.newCount)} @@\n` +
+      hunk.lines.map(renderHunkLine).join('')
+    ).join(''),
+    added: allLines.filter(line => line.startsWith('+')).length,
+    removed: allLines.filter(line => line.startsWith('-')).length,
+  };
+}
+
+/**
+ * Renders the git diff for one file change.
+ */
+export function formatFileDiff(change: PlannedFileChange): string {
+  return diffChange(change).diff;
+}
+
+/**
+ * Renders every change that is not a no-op as a single-commit
+ * format-patch mailbox, files in path order.
+ */
+export function buildFormatPatch(changes: PlannedFileChange[], options: FormatPatchOptions): string {
+  const sortedChanges = changes
+    .filter(c => c.action !== 'no-op')
+    .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  const stats = sortedChanges.map(change => ({ path: change.filePath, ...diffChange(change) }));
+
+  const date = (options.date ?? new Date()).toUTCString().replace('GMT', '+0000');
+  const totalAdded = stats.reduce((sum, s) => sum + s.added, 0);
+  const totalRemoved = stats.reduce((sum, s) => sum + s.removed, 0);
+  const scale = Math.max(1, Math.max(0, ...stats.map(s => s.added + s.removed)) / DIFFSTAT_GRAPH_WIDTH);
+  const graph = (s: { added: number; removed: number }) =>
+    '+'.repeat(Math.ceil(s.added / scale)) + '-'.repeat(Math.ceil(s.removed / scale));
+
+  return [
+    `From ${ZERO_COMMIT} Mon Sep 17 00:00:00 2001`,
+    `From: ${options.author ?? DEFAULT_PATCH_AUTHOR}`,
+    `Date: ${date}`,
+    `Subject: [PATCH] ${options.subject}`,
+    '',
+    ...(options.body ? [options.body, ''] : []),
+    '---',
+    ...stats.map(s => ` ${s.path} | ${s.added + s.removed} ${graph(s)}`),
+    ` ${stats.length} file${stats.length === 1 ? '' : 's'} changed, ${totalAdded} insertion${totalAdded === 1 ? '' : 's'}(+), ${totalRemoved} deletion${totalRemoved === 1 ? '' : 's'}(-)`,
+    '',
+    stats.map(s => s.diff).join('') + '-- ',
+    'nico-geo',
+    '',
+  ].join('\n');
+}
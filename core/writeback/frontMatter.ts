@@ -0,0 +1,183 @@
+/**
+ * Front Matter
+ *
+ * Locates and patches the front matter at the top of Markdown pages:
+ * YAML between --- lines (Jekyll, Eleventy, Hugo) or TOML between
+ * +++ lines (Hugo).
+ *
+ * Duplicate keys are an error in both formats, so a key written by a
+ * nico-geo block replaces the same key elsewhere in the front matter.
+ * The replaced lines are kept as comments starting with
+ * REPLACED_KEY_PREFIX, which restoreReplacedKeys turns back into keys
+ * when the block is stripped.
+ */
+
+/**
+ * Front matter syntax.
+ */
+export type FrontMatterFormat = 'yaml' | 'toml';
+
+/**
+ * Prefix of a key line commented out because a block replaced it.
+ */
+export const REPLACED_KEY_PREFIX = '# nico-geo:replaced ';
+
+/**
+ * Position of a page's front matter.
+ */
+export interface FrontMatterLocation {
+  format: FrontMatterFormat;
+  /** Offset of the first line after the opening delimiter */
+  bodyStart: number;
+  /** Offset of the closing delimiter line */
+  bodyEnd: number;
+}
+
+const OPENING_DELIMITERS: Record<FrontMatterFormat, RegExp> = {
+  yaml: /^---[ \t]*\r?\n/,
+  toml: /^\+\+\+[ \t]*\r?\n/,
+};
+
+const CLOSING_DELIMITERS: Record<FrontMatterFormat, RegExp> = {
+  yaml: /^---[ \t]*\r?$/m,
+  toml: /^\+\+\+[ \t]*\r?$/m,
+};
+
+/**
+ * Finds the front matter at the very start of content, or null if there
+ * is none (or it is never closed).
+ */
+export function findFrontMatter(content: string): FrontMatterLocation | null {
+  for (const format of ['yaml', 'toml'] as const) {
+    const opening = OPENING_DELIMITERS[format].exec(content);
+    if (!opening) continue;
+
+    const bodyStart = opening[0].length;
+    const closing = CLOSING_DELIMITERS[format].exec(content.slice(bodyStart));
+    if (!closing) return null;
+    return { format, bodyStart, bodyEnd: bodyStart + closing.index };
+  }
+  return null;
+}
+
+/**
+ * Renders one string-valued key in the given format. JSON string
+ * escapes are valid in both YAML double-quoted and TOML basic strings.
+ */
+export function formatFrontMatterEntry(format: FrontMatterFormat, key: string, value: string): string {
+  return format === 'toml'
+    ? `${key} = ${JSON.stringify(value)}`
+    : `${key}: ${JSON.stringify(value)}`;
+}
+
+/**
+ * Lists the top-level keys set by a block of front matter lines.
+ */
+export function listFrontMatterKeys(block: string): string[] {
+  const keys: string[] = [];
+  for (const line of block.split('\n')) {
+    const match = /^([A-Za-z_][\w-]*)\s*[:=]/.exec(line);
+    if (match) keys.push(match[1]);
+  }
+  return keys;
+}
+
+/**
+ * Inserts an already-wrapped block at the end of the front matter,
+ * creating YAML front matter when the page has none.
+ */
+export function insertIntoFrontMatter(content: string, wrappedBlock: string): string {
+  const location = findFrontMatter(content);
+  if (!location) {
+    return `---\n${wrappedBlock}\n---\n\n${content}`;
+  }
+  return content.slice(0, location.bodyEnd) + wrappedBlock + '\n' + content.slice(location.bodyEnd);
+}
+
+/**
+ * Comments out front matter keys outside the marker region that a block
+ * now sets. YAML continuation lines (indented, as in block scalars and
+ * lists) go with their key.
+ */
+export function replaceFrontMatterKeys(
+  content: string,
+  keys: string[],
+  markers: { start: string; end: string }
+): string {
+  const location = findFrontMatter(content);
+  if (!location || keys.length === 0) {
+    return content;
+  }
+
+  const separator = location.format === 'toml' ? '=' : ':';
+  const lines = content.slice(location.bodyStart, location.bodyEnd).split('\n');
+  let insideBlock = false;
+  let replacing = false;
+
+  const patched = lines.map(line => {
+    if (line.trim() === markers.start) insideBlock = true;
+    if (insideBlock) {
+      if (line.trim() === markers.end) insideBlock = false;
+      replacing = false;
+      return line;
+    }
+
+    if (replacing && location.format === 'yaml' && /^[ \t]+\S/.test(line)) {
+      return REPLACED_KEY_PREFIX + line;
+    }
+    const key = new RegExp(`^([A-Za-z_][\\w-]*)\\s*${separator}`).exec(line)?.[1];
+    replacing = key !== undefined && keys.includes(key);
+    return replacing ? REPLACED_KEY_PREFIX + line : line;
+  });
+
+  return content.slice(0, location.bodyStart) + patched.join('\n') + content.slice(location.bodyEnd);
+}
+
+/**
+ * Turns replaced-key comments back into keys.
+ */
+export function restoreReplacedKeys(content: string): string {
+  return content.split(REPLACED_KEY_PREFIX).join('');
+}
+
+/**
+ * Reads a string-valued top-level key from the front matter, skipping
+ * commented-out lines. Handles double- and single-quoted values, plain
+ * scalars and YAML folded/literal blocks (joined with spaces). Returns
+ * null when the page has no front matter or the key is not set.
+ */
+export function readFrontMatterValue(content: string, key: string): string | null {
+  const location = findFrontMatter(content);
+  if (!location) {
+    return null;
+  }
+
+  const separator = location.format === 'toml' ? '=' : ':';
+  const lines = content.slice(location.bodyStart, location.bodyEnd).split('\n');
+  const keyPattern = new RegExp(`^${key}\\s*${separator}\\s*(.*?)\\s*$`);
+
+  for (let i = 0; i < lines.length; i++) {
+    const value = keyPattern.exec(lines[i].replace(/\r$/, ''))?.[1];
+    if (value === undefined) continue;
+
+    if (/^[>|][+-]?$/.test(value)) {
+      const continuation: string[] = [];
+      for (let j = i + 1; j < lines.length && /^[ \t]+\S/.test(lines[j]); j++) {
+        continuation.push(lines[j].trim());
+      }
+      return continuation.join(' ');
+    }
+    if (value.startsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value;
+  }
+  return null;
+}
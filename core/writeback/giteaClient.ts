@@ -0,0 +1,206 @@
+/**
+ * Gitea REST API Client
+ *
+ * RepoProvider for self-hosted Gitea (API v1, Gitea 1.20 or later).
+ * Uses fetch for all HTTP requests - no external dependencies.
+ *
+ * ADDRESSING:
+ * - baseUrl (the instance root) is required; /api/v1 is appended
+ * - owner/repo follow GitHub semantics
+ *
+ * OPERATIONS:
+ * - Read files via the contents API
+ * - List files via the recursive git trees API (paginated)
+ * - Write or delete any number of files as one commit via the multi-file contents API
+ * - Create the pull request branch in the same call (new_branch)
+ * - Read and close pull requests
+ * - Verify access from the repository's push/admin permissions
+ */
+
+import {
+  RepoProviderError,
+  validateProviderConfig,
+  providerRequest,
+  combineCommitMessages,
+  perFileCommits,
+  trimBaseUrl,
+  encodeFilePath,
+  resolveMergeRequestBranch,
+} from './repoProvider';
+import type { RepoProvider, RepoProviderConfig } from './repoProvider';
+import { decodeContent, encodeContent } from './githubClient';
+
+/**
+ * Gitea implementation of RepoProvider.
+ */
+export function createGiteaProvider(config: RepoProviderConfig): RepoProvider {
+  const api = `${trimBaseUrl(config.baseUrl ?? '')}/api/v1`;
+  const repo = `${api}/repos/${encodeURIComponent(config.target.owner)}/${encodeURIComponent(config.target.repo)}`;
+  const headers = { Authorization: `token ${config.token}` };
+
+  const request = <T>(method: string, url: string, json?: unknown) =>
+    providerRequest<T>('gitea', method, url, headers, json === undefined ? undefined : { json })
+      .then(r => r.data);
+
+  function validate(): void {
+    validateProviderConfig('gitea', config);
+    if (!config.baseUrl) {
+      throw new RepoProviderError('Gitea requires targetRepo.baseUrl (the instance URL)', 400, 'gitea');
+    }
+  }
+
+  async function readFile(path: string) {
+    validate();
+    try {
+      const file = await request<{ content: string; sha: string }>(
+        'GET',
+        `${repo}/contents/${encodeFilePath(path)}?ref=${encodeURIComponent(config.target.branch)}`
+      );
+      return { path, content: decodeContent(file.content), sha: file.sha };
+    } catch (err) {
+      if (err instanceof RepoProviderError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async function listFiles() {
+    validate();
+    const paths: string[] = [];
+    for (let page = 1; ; page++) {
+      const tree = await request<{ tree: Array<{ path: string; type: string }>; truncated: boolean }>(
+        'GET',
+        `${repo}/git/trees/${encodeURIComponent(config.target.branch)}?recursive=true&per_page=1000&page=${page}`
+      );
+      paths.push(...tree.tree.filter(entry => entry.type === 'blob').map(entry => entry.path));
+      if (!tree.truncated) break;
+    }
+    return paths.sort();
+  }
+
+  /**
+   * Gets the commit a branch points to, or null if it does not exist.
+   */
+  async function branchHead(name: string): Promise<string | null> {
+    try {
+      const found = await request<{ commit: { id: string } }>('GET', `${repo}/branches/${encodeURIComponent(name)}`);
+      return found.commit.id;
+    } catch (err) {
+      if (err instanceof RepoProviderError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Commits files to `branch`, creating it from the target branch when
+   * `createBranch` is set. Updates and deletes need the current blob SHA,
+   * so each file is read first.
+   */
+  async function commit(
+    files: Array<{ path: string; content: string }>,
+    message: string,
+    branch: string,
+    createBranch: boolean,
+    deletedPaths: string[] = []
+  ) {
+    const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    const changes: Array<{ operation: string; path: string; content?: string; sha?: string }> = [];
+    for (const file of sortedFiles) {
+      const existing = await readFile(file.path);
+      changes.push({
+        operation: existing ? 'update' : 'create',
+        path: file.path,
+        content: encodeContent(file.content),
+        ...(existing?.sha && { sha: existing.sha }),
+      });
+    }
+    const sortedDeletions = [...deletedPaths].sort((a, b) => a.localeCompare(b));
+    for (const path of sortedDeletions) {
+      const existing = await readFile(path);
+      if (!existing) {
+        throw new RepoProviderError(`File not found: ${path}`, 404, 'gitea');
+      }
+      changes.push({ operation: 'delete', path, sha: existing.sha });
+    }
+
+    const result = await request<{ commit: { sha: string; html_url: string } }>('POST', `${repo}/contents`, {
+      branch: createBranch ? config.target.branch : branch,
+      ...(createBranch && { new_branch: branch }),
+      message,
+      files: changes,
+    });
+    return {
+      sha: result.commit.sha,
+      message,
+      url: result.commit.html_url,
+      paths: [...sortedFiles.map(f => f.path), ...sortedDeletions],
+    };
+  }
+
+  return {
+    id: 'gitea',
+    config,
+    readFile,
+    listFiles,
+
+    async writeFiles(files) {
+      validate();
+      const result = await commit(files, combineCommitMessages(files), config.target.branch, false);
+      return perFileCommits(files, result);
+    },
+
+    async deleteFiles(files) {
+      validate();
+      const result = await commit([], combineCommitMessages(files), config.target.branch, false, files.map(f => f.path));
+      return perFileCommits(files, result);
+    },
+
+    async openMergeRequest(files, details, deletedPaths = []) {
+      validate();
+      const baseSha = await branchHead(config.target.branch);
+      if (!baseSha) {
+        throw new RepoProviderError(`Branch not found: ${config.target.branch}`, 404, 'gitea');
+      }
+      const { branch, exists } = await resolveMergeRequestBranch('gitea', details.branch, baseSha, branchHead);
+      const result = await commit(files, details.commitMessage, branch, !exists, deletedPaths);
+      const pull = await request<{ number: number; html_url: string }>('POST', `${repo}/pulls`, {
+        head: branch,
+        base: config.target.branch,
+        title: details.title,
+        body: details.body,
+      });
+      return {
+        commit: result,
+        pullRequest: {
+          number: pull.number,
+          url: pull.html_url,
+          branch,
+          base: config.target.branch,
+        },
+      };
+    },
+
+    async getMergeRequestState(number) {
+      validate();
+      const pull = await request<{ state: 'open' | 'closed'; merged: boolean }>('GET', `${repo}/pulls/${number}`);
+      if (pull.merged) return 'merged';
+      return pull.state === 'open' ? 'open' : 'closed';
+    },
+
+    async closeMergeRequest(number) {
+      validate();
+      await request('PATCH', `${repo}/pulls/${number}`, { state: 'closed' });
+    },
+
+    async verifyWriteAccess() {
+      validate();
+      const info = await request<{ permissions?: { push?: boolean; admin?: boolean } }>('GET', repo);
+      if (!info.permissions?.push && !info.permissions?.admin) {
+        throw new RepoProviderError('Token does not have write access to the repository', 403, 'gitea');
+      }
+    },
+  };
+}
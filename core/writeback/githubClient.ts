@@ -12,10 +12,17 @@
  *
  * SUPPORTED OPERATIONS:
  * - Get file contents (for SHA retrieval)
- * - Create or update files
+ * - Create, update or delete files
  * - Create commits via the Contents API
+ * - Create branches and single multi-file commits via the Git Data API
+ * - Open, inspect and close pull requests
+ *
+ * createGitHubProvider wraps these operations as a RepoProvider.
  */
 
+import { RepoProviderError, trimBaseUrl, resolveMergeRequestBranch } from './repoProvider';
+import type { RepoProvider, RepoProviderConfig, MergeRequestState } from './repoProvider';
+
 /**
  * GitHub API base URL.
  */
@@ -41,6 +48,8 @@ export interface TargetRepo {
 export interface GitHubClientConfig {
   token: string;
   target: TargetRepo;
+  /** API root for GitHub Enterprise Server, e.g. https://github.example.com/api/v3 */
+  baseUrl?: string;
 }
 
 /**
@@ -66,20 +75,45 @@ export interface CommitResult {
   url: string;
 }
 
+/**
+ * Commit created from a tree of several files.
+ */
+export interface TreeCommitResult {
+  sha: string;
+  message: string;
+  url: string;
+  paths: string[];
+}
+
+/**
+ * Pull request created by openPullRequest.
+ */
+export interface PullRequestResult {
+  number: number;
+  url: string;
+  /** Branch the changes were committed to */
+  branch: string;
+  /** Branch the pull request merges into */
+  base: string;
+}
+
 /**
  * Error thrown when GitHub API returns an error.
  */
-export class GitHubAPIError extends Error {
-  constructor(
-    message: string,
-    public readonly status: number,
-    public readonly response?: unknown
-  ) {
-    super(message);
+export class GitHubAPIError extends RepoProviderError {
+  constructor(message: string, status: number, response?: unknown) {
+    super(message, status, 'github', response);
     this.name = 'GitHubAPIError';
   }
 }
 
+/**
+ * API root for a configuration.
+ */
+function apiBase(config: GitHubClientConfig): string {
+  return config.baseUrl ? trimBaseUrl(config.baseUrl) : GITHUB_API_BASE;
+}
+
 /**
  * Validates that required configuration is present.
  */
@@ -193,7 +227,7 @@ export async function getFileContents(
 ): Promise<GitHubFileContent | null> {
   validateConfig(config);
 
-  const url = `${GITHUB_API_BASE}/repos/${config.target.owner}/${config.target.repo}/contents/${path}?ref=${config.target.branch}`;
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/contents/${path}?ref=${config.target.branch}`;
 
   try {
     const response = await apiRequest<GitHubFileContent>('GET', url, config.token);
@@ -207,14 +241,15 @@ export async function getFileContents(
 }
 
 /**
- * Decodes base64 content from GitHub API response.
+ * Decodes base64 file content from a GitHub, GitLab or Gitea API response.
  */
 export function decodeContent(content: string): string {
   // GitHub returns base64 with newlines, need to remove them
   const cleaned = content.replace(/\n/g, '');
-  // Use atob for browser/worker environments, Buffer for Node
+  // Use atob for browser/worker environments, Buffer for Node. atob yields
+  // one character per byte, so the bytes are decoded as UTF-8 afterwards.
   if (typeof atob === 'function') {
-    return atob(cleaned);
+    return new TextDecoder().decode(Uint8Array.from(atob(cleaned), c => c.charCodeAt(0)));
   }
   return Buffer.from(cleaned, 'base64').toString('utf-8');
 }
@@ -245,7 +280,7 @@ export async function createOrUpdateFile(
 ): Promise<CommitResult> {
   validateConfig(config);
 
-  const url = `${GITHUB_API_BASE}/repos/${config.target.owner}/${config.target.repo}/contents/${path}`;
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/contents/${path}`;
 
   const body: Record<string, unknown> = {
     message,
@@ -329,12 +364,42 @@ export async function upsertFile(
   return createOrUpdateFile(config, path, content, message, existing?.sha);
 }
 
+/**
+ * Deletes a file from the repository.
+ * Fails if the file doesn't exist.
+ */
+export async function deleteFile(
+  config: GitHubClientConfig,
+  path: string,
+  message: string
+): Promise<CommitResult> {
+  // Deletes need the current SHA
+  const existing = await getFileContents(config, path);
+  if (!existing) {
+    throw new GitHubAPIError(`File not found: ${path}`, 404);
+  }
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/contents/${path}`;
+  const response = await apiRequest<{ commit: { sha: string; html_url: string } }>('DELETE', url, config.token, {
+    message,
+    sha: existing.sha,
+    branch: config.target.branch,
+  });
+
+  return {
+    sha: response.commit.sha,
+    path,
+    message,
+    url: response.commit.html_url,
+  };
+}
+
 /**
  * Batch creates or updates multiple files.
  * Returns results for each file operation.
  *
  * Note: GitHub Contents API creates one commit per file.
- * For atomic multi-file commits, use the Git Trees API (not implemented).
+ * For a single multi-file commit, use commitFilesToBranch.
  */
 export async function batchUpsertFiles(
   config: GitHubClientConfig,
@@ -374,7 +439,7 @@ export async function batchUpsertFiles(
 export async function verifyWriteAccess(config: GitHubClientConfig): Promise<boolean> {
   validateConfig(config);
 
-  const url = `${GITHUB_API_BASE}/repos/${config.target.owner}/${config.target.repo}`;
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}`;
 
   const response = await apiRequest<{
     permissions?: {
@@ -392,3 +457,251 @@ export async function verifyWriteAccess(config: GitHubClientConfig): Promise<boo
 
   return true;
 }
+
+/**
+ * Gets the commit SHA a branch points to.
+ */
+export async function getBranchHeadSha(config: GitHubClientConfig, branch: string): Promise<string> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/git/ref/heads/${branch}`;
+  const response = await apiRequest<{ object: { sha: string } }>('GET', url, config.token);
+  return response.object.sha;
+}
+
+/**
+ * Gets the commit SHA a branch points to, or null if it does not exist.
+ */
+async function findBranchHeadSha(config: GitHubClientConfig, branch: string): Promise<string | null> {
+  try {
+    return await getBranchHeadSha(config, branch);
+  } catch (err) {
+    if (err instanceof GitHubAPIError && err.status === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Lists every file path on the configured branch with one recursive
+ * Git Trees request. Fails if GitHub truncates the listing.
+ */
+export async function listBranchFiles(config: GitHubClientConfig): Promise<string[]> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/git/trees/${encodeURIComponent(config.target.branch)}?recursive=1`;
+  const response = await apiRequest<{ tree: Array<{ path: string; type: string }>; truncated: boolean }>(
+    'GET',
+    url,
+    config.token
+  );
+  if (response.truncated) {
+    throw new GitHubAPIError('Repository tree is too large to list', 413);
+  }
+
+  return response.tree.filter(entry => entry.type === 'blob').map(entry => entry.path).sort();
+}
+
+/**
+ * Creates a branch pointing at the given commit.
+ * Fails with 422 if the branch already exists.
+ */
+export async function createBranch(
+  config: GitHubClientConfig,
+  branch: string,
+  fromSha: string
+): Promise<void> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/git/refs`;
+  try {
+    await apiRequest('POST', url, config.token, { ref: `refs/heads/${branch}`, sha: fromSha });
+  } catch (err) {
+    if (err instanceof GitHubAPIError && err.status === 422) {
+      throw new GitHubAPIError(`Branch already exists: ${branch}`, 422, err.response);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Writes several files to a branch as one commit using the Git Data API:
+ * a tree built on the branch head's tree, a commit on top of the head,
+ * then a fast-forward of the branch ref. Paths in deletedPaths are
+ * removed from the tree.
+ */
+export async function commitFilesToBranch(
+  config: GitHubClientConfig,
+  branch: string,
+  files: Array<{ path: string; content: string }>,
+  message: string,
+  deletedPaths: string[] = []
+): Promise<TreeCommitResult> {
+  validateConfig(config);
+
+  const repoUrl = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}`;
+  const headSha = await getBranchHeadSha(config, branch);
+  const headCommit = await apiRequest<{ tree: { sha: string } }>(
+    'GET',
+    `${repoUrl}/git/commits/${headSha}`,
+    config.token
+  );
+
+  // Sort files for deterministic trees
+  const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+  const sortedDeletions = [...deletedPaths].sort((a, b) => a.localeCompare(b));
+
+  const tree = await apiRequest<{ sha: string }>('POST', `${repoUrl}/git/trees`, config.token, {
+    base_tree: headCommit.tree.sha,
+    tree: [
+      ...sortedFiles.map(file => ({
+        path: file.path,
+        mode: '100644',
+        type: 'blob',
+        content: file.content,
+      })),
+      // A null sha removes the path
+      ...sortedDeletions.map(path => ({ path, mode: '100644', type: 'blob', sha: null })),
+    ],
+  });
+
+  const commit = await apiRequest<{ sha: string; html_url: string }>('POST', `${repoUrl}/git/commits`, config.token, {
+    message,
+    tree: tree.sha,
+    parents: [headSha],
+  });
+
+  await apiRequest('PATCH', `${repoUrl}/git/refs/heads/${branch}`, config.token, {
+    sha: commit.sha,
+    force: false,
+  });
+
+  return {
+    sha: commit.sha,
+    message,
+    url: commit.html_url,
+    paths: [...sortedFiles.map(f => f.path), ...sortedDeletions],
+  };
+}
+
+/**
+ * Opens a pull request from a branch into the configured target branch.
+ */
+export async function openPullRequest(
+  config: GitHubClientConfig,
+  head: string,
+  title: string,
+  body: string
+): Promise<PullRequestResult> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/pulls`;
+  const response = await apiRequest<{ number: number; html_url: string }>('POST', url, config.token, {
+    title,
+    body,
+    head,
+    base: config.target.branch,
+  });
+
+  return {
+    number: response.number,
+    url: response.html_url,
+    branch: head,
+    base: config.target.branch,
+  };
+}
+
+/**
+ * Reads whether a pull request is open, merged or closed unmerged.
+ */
+export async function getPullRequestState(
+  config: GitHubClientConfig,
+  number: number
+): Promise<MergeRequestState> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/pulls/${number}`;
+  const response = await apiRequest<{ state: 'open' | 'closed'; merged: boolean }>('GET', url, config.token);
+  if (response.merged) {
+    return 'merged';
+  }
+  return response.state === 'open' ? 'open' : 'closed';
+}
+
+/**
+ * Closes a pull request without merging it.
+ */
+export async function closePullRequest(config: GitHubClientConfig, number: number): Promise<void> {
+  validateConfig(config);
+
+  const url = `${apiBase(config)}/repos/${config.target.owner}/${config.target.repo}/pulls/${number}`;
+  await apiRequest('PATCH', url, config.token, { state: 'closed' });
+}
+
+/**
+ * GitHub implementation of RepoProvider. Direct writes use the Contents
+ * API (one commit per file); merge requests use the Git Data API.
+ */
+export function createGitHubProvider(config: RepoProviderConfig): RepoProvider {
+  const clientConfig: GitHubClientConfig = {
+    token: config.token,
+    target: config.target,
+    baseUrl: config.baseUrl,
+  };
+
+  return {
+    id: 'github',
+    config,
+
+    async readFile(path) {
+      const file = await getFileContents(clientConfig, path);
+      return file ? { path, content: decodeContent(file.content), sha: file.sha } : null;
+    },
+
+    async listFiles() {
+      return listBranchFiles(clientConfig);
+    },
+
+    async writeFiles(files) {
+      return batchUpsertFiles(clientConfig, files);
+    },
+
+    async deleteFiles(files) {
+      const results: CommitResult[] = [];
+      for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+        results.push(await deleteFile(clientConfig, file.path, file.message));
+      }
+      return results;
+    },
+
+    async openMergeRequest(files, details, deletedPaths = []) {
+      const baseSha = await getBranchHeadSha(clientConfig, config.target.branch);
+      const { branch, exists } = await resolveMergeRequestBranch(
+        'github',
+        details.branch,
+        baseSha,
+        name => findBranchHeadSha(clientConfig, name)
+      );
+      if (!exists) {
+        await createBranch(clientConfig, branch, baseSha);
+      }
+      const commit = await commitFilesToBranch(clientConfig, branch, files, details.commitMessage, deletedPaths);
+      const pullRequest = await openPullRequest(clientConfig, branch, details.title, details.body);
+      return { commit, pullRequest };
+    },
+
+    async getMergeRequestState(number) {
+      return getPullRequestState(clientConfig, number);
+    },
+
+    async closeMergeRequest(number) {
+      await closePullRequest(clientConfig, number);
+    },
+
+    async verifyWriteAccess() {
+      await verifyWriteAccess(clientConfig);
+    },
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * GitLab REST API Client
+ *
+ * RepoProvider for GitLab.com and self-managed GitLab (API v4).
+ * Uses fetch for all HTTP requests - no external dependencies.
+ *
+ * ADDRESSING:
+ * - The project is `{owner}/{repo}`, URL-encoded as the project ID;
+ *   owner may be a nested group path (group/subgroup)
+ * - baseUrl is the instance root; /api/v4 is appended
+ *
+ * OPERATIONS:
+ * - Read files via the repository files API
+ * - List files via the recursive repository tree API (paginated)
+ * - Write or delete any number of files as one commit via the commits API
+ * - Create the merge request branch in the same commit call (start_branch)
+ * - Read and close merge requests by IID
+ * - Verify access from the project's Developer (30) access level or above
+ */
+
+import {
+  RepoProviderError,
+  validateProviderConfig,
+  providerRequest,
+  combineCommitMessages,
+  perFileCommits,
+  trimBaseUrl,
+  resolveMergeRequestBranch,
+} from './repoProvider';
+import type { RepoProvider, RepoProviderConfig } from './repoProvider';
+import { decodeContent } from './githubClient';
+
+/**
+ * GitLab.com instance root.
+ */
+const GITLAB_BASE_URL = 'https://gitlab.com';
+
+/**
+ * Lowest access level that can push (Developer).
+ */
+const GITLAB_DEVELOPER_ACCESS = 30;
+
+/**
+ * GitLab implementation of RepoProvider.
+ */
+export function createGitLabProvider(config: RepoProviderConfig): RepoProvider {
+  const api = `${trimBaseUrl(config.baseUrl ?? GITLAB_BASE_URL)}/api/v4`;
+  const project = `${api}/projects/${encodeURIComponent(`${config.target.owner}/${config.target.repo}`)}`;
+  const headers = { Authorization: `Bearer ${config.token}` };
+
+  const request = <T>(method: string, url: string, json?: unknown) =>
+    providerRequest<T>('gitlab', method, url, headers, json === undefined ? undefined : { json })
+      .then(r => r.data);
+
+  async function readFile(path: string) {
+    validateProviderConfig('gitlab', config);
+    try {
+      const file = await request<{ content: string; blob_id: string }>(
+        'GET',
+        `${project}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(config.target.branch)}`
+      );
+      return { path, content: decodeContent(file.content), sha: file.blob_id };
+    } catch (err) {
+      if (err instanceof RepoProviderError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async function listFiles() {
+    validateProviderConfig('gitlab', config);
+    const paths: string[] = [];
+    let page: string | null = '1';
+    while (page) {
+      const { data, response }: { data: Array<{ path: string; type: string }>; response: Response } =
+        await providerRequest(
+          'gitlab',
+          'GET',
+          `${project}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(config.target.branch)}`,
+          headers
+        );
+      paths.push(...data.filter(entry => entry.type === 'blob').map(entry => entry.path));
+      page = response.headers.get('x-next-page') || null;
+    }
+    return paths.sort();
+  }
+
+  /**
+   * Gets the commit a branch points to, or null if it does not exist.
+   */
+  async function branchHead(name: string): Promise<string | null> {
+    try {
+      const found = await request<{ commit: { id: string } }>(
+        'GET',
+        `${project}/repository/branches/${encodeURIComponent(name)}`
+      );
+      return found.commit.id;
+    } catch (err) {
+      if (err instanceof RepoProviderError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Commits files to `branch`, creating it from the target branch when
+   * `createBranch` is set. Existing files are updated, others created;
+   * deletedPaths are removed.
+   */
+  async function commit(
+    files: Array<{ path: string; content: string }>,
+    message: string,
+    branch: string,
+    createBranch: boolean,
+    deletedPaths: string[] = []
+  ) {
+    const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    const actions: Array<{ action: string; file_path: string; content?: string }> = [];
+    for (const file of sortedFiles) {
+      const existing = await readFile(file.path);
+      actions.push({
+        action: existing ? 'update' : 'create',
+        file_path: file.path,
+        content: file.content,
+      });
+    }
+    const sortedDeletions = [...deletedPaths].sort((a, b) => a.localeCompare(b));
+    for (const path of sortedDeletions) {
+      actions.push({ action: 'delete', file_path: path });
+    }
+
+    const result = await request<{ id: string; web_url: string }>('POST', `${project}/repository/commits`, {
+      branch,
+      ...(createBranch && { start_branch: config.target.branch }),
+      commit_message: message,
+      actions,
+    });
+    return {
+      sha: result.id,
+      message,
+      url: result.web_url,
+      paths: [...sortedFiles.map(f => f.path), ...sortedDeletions],
+    };
+  }
+
+  return {
+    id: 'gitlab',
+    config,
+    readFile,
+    listFiles,
+
+    async writeFiles(files) {
+      validateProviderConfig('gitlab', config);
+      const result = await commit(files, combineCommitMessages(files), config.target.branch, false);
+      return perFileCommits(files, result);
+    },
+
+    async deleteFiles(files) {
+      validateProviderConfig('gitlab', config);
+      const result = await commit([], combineCommitMessages(files), config.target.branch, false, files.map(f => f.path));
+      return perFileCommits(files, result);
+    },
+
+    async openMergeRequest(files, details, deletedPaths = []) {
+      validateProviderConfig('gitlab', config);
+      const baseSha = await branchHead(config.target.branch);
+      if (!baseSha) {
+        throw new RepoProviderError(`Branch not found: ${config.target.branch}`, 404, 'gitlab');
+      }
+      const { branch, exists } = await resolveMergeRequestBranch('gitlab', details.branch, baseSha, branchHead);
+      const result = await commit(files, details.commitMessage, branch, !exists, deletedPaths);
+      const mergeRequest = await request<{ iid: number; web_url: string }>('POST', `${project}/merge_requests`, {
+        source_branch: branch,
+        target_branch: config.target.branch,
+        title: details.title,
+        description: details.body,
+      });
+      return {
+        commit: result,
+        pullRequest: {
+          number: mergeRequest.iid,
+          url: mergeRequest.web_url,
+          branch,
+          base: config.target.branch,
+        },
+      };
+    },
+
+    async getMergeRequestState(iid) {
+      validateProviderConfig('gitlab', config);
+      const mergeRequest = await request<{ state: string }>('GET', `${project}/merge_requests/${iid}`);
+      if (mergeRequest.state === 'merged') return 'merged';
+      // 'locked' is an open merge request mid-merge
+      return mergeRequest.state === 'opened' || mergeRequest.state === 'locked' ? 'open' : 'closed';
+    },
+
+    async closeMergeRequest(iid) {
+      validateProviderConfig('gitlab', config);
+      await request('PUT', `${project}/merge_requests/${iid}`, { state_event: 'close' });
+    },
+
+    async verifyWriteAccess() {
+      validateProviderConfig('gitlab', config);
+      const info = await request<{
+        permissions?: {
+          project_access?: { access_level: number } | null;
+          group_access?: { access_level: number } | null;
+        };
+      }>('GET', project);
+      const level = Math.max(
+        info.permissions?.project_access?.access_level ?? 0,
+        info.permissions?.group_access?.access_level ?? 0
+      );
+      if (level < GITLAB_DEVELOPER_ACCESS) {
+        throw new RepoProviderError('Token does not have write access to the project', 403, 'gitlab');
+      }
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Local Directory Target
+ *
+ * Write-back to a checkout on disk instead of a git host, for local
+ * development and CI. Uses Node's fs module, so it is only available to
+ * scripts, never to the worker.
+ *
+ * The same planning applies: planPatches against the files read from the
+ * directory, with the route index built from its file listing, so blocks
+ * are replaced idempotently through their markers. The plan is then either
+ * written to disk or rendered as a `git format-patch` bundle (see
+ * formatPatch) for review and `git am`.
+ *
+ * SAFETY:
+ * - Every path must resolve inside the directory
+ * - .git, node_modules and dot-directories are never listed or written
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { PathContractConfig } from './pathContract';
+import type { PlannedFileChange } from './patchApplier';
+
+/**
+ * What to do with the planned changes.
+ * - write: update the files in the directory
+ * - format-patch: write a patch bundle and leave the directory untouched
+ */
+export type LocalOutputMode = 'write' | 'format-patch';
+
+/**
+ * A local checkout used as the write-back target.
+ */
+export interface LocalTargetRepo extends PathContractConfig {
+  /** Checkout root */
+  directory: string;
+  output: LocalOutputMode;
+  /** Patch bundle path (format-patch mode) */
+  patchFile?: string;
+}
+
+/**
+ * Result of writing planned changes to a directory.
+ */
+export interface LocalWriteResult {
+  written: string[];
+  skipped: string[];
+}
+
+/**
+ * Error thrown for paths outside the target directory.
+ */
+export class LocalTargetError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(message);
+    this.name = 'LocalTargetError';
+  }
+}
+
+/**
+ * Directory names never listed or written.
+ */
+function isSkippedDirectory(name: string): boolean {
+  return name.startsWith('.') || name === 'node_modules';
+}
+
+/**
+ * Resolves a repository-relative path inside the directory.
+ */
+function resolveInside(directory: string, filePath: string): string {
+  const root = path.resolve(directory);
+  const resolved = path.resolve(root, filePath);
+  const relative = path.relative(root, resolved);
+  if (
+    relative === '' ||
+    relative.startsWith('..') ||
+    path.isAbsolute(relative) ||
+    relative.split(path.sep).some(isSkippedDirectory)
+  ) {
+    throw new LocalTargetError(`Path is outside the target directory: ${filePath}`, filePath);
+  }
+  return resolved;
+}
+
+/**
+ * Lists every file in the directory as a sorted, '/'-separated path
+ * relative to it.
+ */
+export async function listLocalFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(relativeDir: string): Promise<void> {
+    const entries = await fs.readdir(path.join(directory, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!isSkippedDirectory(entry.name)) await walk(relativePath);
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  await walk('');
+  return files.sort();
+}
+
+/**
+ * Reads files from the directory; missing files map to null.
+ */
+export async function readLocalFiles(
+  directory: string,
+  filePaths: string[]
+): Promise<Map<string, string | null>> {
+  const contents = new Map<string, string | null>();
+
+  for (const filePath of filePaths) {
+    try {
+      contents.set(filePath, await fs.readFile(resolveInside(directory, filePath), 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      contents.set(filePath, null);
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Writes planned changes to the directory, creating parent directories
+ * for new files. No-op changes are skipped.
+ */
+export async function writeLocalChanges(
+  directory: string,
+  plannedChanges: PlannedFileChange[]
+): Promise<LocalWriteResult> {
+  const result: LocalWriteResult = { written: [], skipped: [] };
+
+  // Resolve every path before writing anything
+  const sortedChanges = [...plannedChanges].sort((a, b) => a.filePath.localeCompare(b.filePath));
+  const targets = sortedChanges.map(change => resolveInside(directory, change.filePath));
+
+  for (let i = 0; i < sortedChanges.length; i++) {
+    const change = sortedChanges[i];
+    if (change.action === 'no-op') {
+      result.skipped.push(change.filePath);
+      continue;
+    }
+    await fs.mkdir(path.dirname(targets[i]), { recursive: true });
+    await fs.writeFile(targets[i], change.newContent, 'utf-8');
+    result.written.push(change.filePath);
+  }
+
+  return result;
+}
@@ -15,18 +15,36 @@
  * <!-- nico-geo:block:{blockType}:start -->
  * ... content ...
  * <!-- nico-geo:block:{blockType}:end -->
+ *
+ * JSX and front matter use their own comment syntax for the same
+ * markers; see patchStrategies.
  */
 
-import type { PageImprovementPlan, SuggestedFAQ, SuggestedSchema } from '../analyze/improvementPlanner';
+import type { PageImprovementPlan } from '../analyze/improvementPlanner';
 import type {
   GitHubClientConfig,
   CommitResult,
+  PullRequestResult,
 } from './githubClient';
 import {
   getFileContents,
   decodeContent,
   batchUpsertFiles,
 } from './githubClient';
+import type { RepoProvider } from './repoProvider';
+import type { PullRequestDetails } from './pullRequest';
+import {
+  getPatchStrategy,
+  htmlMarkers,
+  removeMarkerBlock,
+  generateMetaBlock,
+  generateAnswerCapsuleBlock,
+  generateFAQBlock,
+  generateSchemaBlock,
+} from './patchStrategies';
+import type { BlockInput, PageMeta } from './patchStrategies';
+import { resolveRoute } from './routeResolver';
+import type { RouteIndex } from './routeResolver';
 import {
   mapUrlToFilePath,
   PathContractConfig,
@@ -37,209 +55,58 @@ import {
 /**
  * Block types for marker-based content injection.
  */
-export type BlockType = 'meta' | 'answer-capsule' | 'faq' | 'schema';
+export type BlockType =
+  | 'meta'
+  | 'breadcrumbs'
+  | 'answer-capsule'
+  | 'service-list'
+  | 'how-we-work'
+  | 'testimonials'
+  | 'team'
+  | 'faq'
+  | 'schema';
 
 /**
- * Maximum diff preview length in characters.
+ * Every block type, in the order planPatches applies them. Blocks added
+ * at the same place (before </main>, or the end of a Markdown page)
+ * appear in this order.
  */
-const MAX_DIFF_LENGTH = 10000;
+export const BLOCK_TYPES: BlockType[] = [
+  'meta',
+  'breadcrumbs',
+  'answer-capsule',
+  'service-list',
+  'how-we-work',
+  'testimonials',
+  'team',
+  'faq',
+  'schema',
+];
 
 /**
- * Creates the start marker for a block.
- */
-function startMarker(blockType: BlockType): string {
-  return `<!-- nico-geo:block:${blockType}:start -->`;
-}
-
-/**
- * Creates the end marker for a block.
+ * Maximum diff preview length in characters.
  */
-function endMarker(blockType: BlockType): string {
-  return `<!-- nico-geo:block:${blockType}:end -->`;
-}
+const MAX_DIFF_LENGTH = 10000;
 
 /**
- * Wraps content with idempotency markers.
+ * Wraps content with HTML idempotency markers.
  */
 function wrapWithMarkers(content: string, blockType: BlockType): string {
-  return `${startMarker(blockType)}\n${content}\n${endMarker(blockType)}`;
-}
-
-/**
- * Checks if content contains markers for a specific block type.
- */
-function hasMarkers(content: string, blockType: BlockType): boolean {
-  return content.includes(startMarker(blockType)) && content.includes(endMarker(blockType));
-}
-
-/**
- * Replaces content within existing markers, or returns null if markers not found.
- */
-function replaceWithinMarkers(
-  existingContent: string,
-  newBlockContent: string,
-  blockType: BlockType
-): string | null {
-  const start = startMarker(blockType);
-  const end = endMarker(blockType);
-
-  const startIdx = existingContent.indexOf(start);
-  const endIdx = existingContent.indexOf(end);
-
-  if (startIdx === -1 || endIdx === -1 || endIdx < startIdx) {
-    return null; // Markers not found or invalid
-  }
-
-  // Replace everything between markers (inclusive of markers)
-  const before = existingContent.slice(0, startIdx);
-  const after = existingContent.slice(endIdx + end.length);
-  const wrappedContent = wrapWithMarkers(newBlockContent, blockType);
-
-  return before + wrappedContent + after;
-}
-
-/**
- * Finds the best insertion point in HTML/Astro content.
- * Priority: before </main>, before </body>, or append at end.
- */
-function findInsertionPoint(content: string): number {
-  // Try to find </main>
-  const mainCloseIdx = content.lastIndexOf('</main>');
-  if (mainCloseIdx !== -1) {
-    return mainCloseIdx;
-  }
-
-  // Try to find </body>
-  const bodyCloseIdx = content.lastIndexOf('</body>');
-  if (bodyCloseIdx !== -1) {
-    return bodyCloseIdx;
-  }
-
-  // Fall back to end of content
-  return content.length;
+  const { start, end } = htmlMarkers(blockType);
+  return `${start}\n${content}\n${end}`;
 }
 
-/**
- * Inserts a block at the appropriate location in content.
- */
-function insertBlock(
-  existingContent: string,
-  newBlockContent: string,
-  blockType: BlockType
-): string {
-  const wrappedContent = wrapWithMarkers(newBlockContent, blockType);
-  const insertionPoint = findInsertionPoint(existingContent);
-
-  // Add newlines for clean formatting
-  const before = existingContent.slice(0, insertionPoint);
-  const after = existingContent.slice(insertionPoint);
-
-  return before + '\n\n' + wrappedContent + '\n\n' + after;
-}
-
-/**
- * Applies a block to content idempotently.
- * If markers exist, replaces content within. Otherwise, inserts at appropriate location.
- */
-function applyBlockIdempotent(
-  existingContent: string,
-  newBlockContent: string,
-  blockType: BlockType
-): string {
-  // Try to replace within existing markers first
-  const replaced = replaceWithinMarkers(existingContent, newBlockContent, blockType);
-  if (replaced !== null) {
-    return replaced;
-  }
-
-  // No existing markers - insert new block
-  return insertBlock(existingContent, newBlockContent, blockType);
-}
-
-/**
- * Generates meta tag content block.
- */
-function generateMetaBlock(
-  recommendedTitle: string | null,
-  recommendedMetaDescription: string | null
-): string {
-  const lines: string[] = [];
-  lines.push('<!-- TODO: Review and customize these recommendations -->');
-
-  if (recommendedTitle) {
-    lines.push(`<!-- Recommended Title: ${escapeHtml(recommendedTitle)} -->`);
-  }
-  if (recommendedMetaDescription) {
-    lines.push(`<!-- Recommended Meta Description: ${escapeHtml(recommendedMetaDescription)} -->`);
-  }
-
-  return lines.join('\n');
-}
-
-/**
- * Generates an answer capsule block.
- */
-function generateAnswerCapsuleBlock(capsule: string): string {
-  const lines: string[] = [];
-  lines.push('<!-- TODO: Review, customize, and position appropriately -->');
-  lines.push('<div class="geo-answer-capsule">');
-  lines.push(`  <p>${escapeHtml(capsule)}</p>`);
-  lines.push('</div>');
-  return lines.join('\n');
-}
-
-/**
- * Generates FAQ section HTML block.
- */
-function generateFAQBlock(faqs: SuggestedFAQ[]): string {
-  const lines: string[] = [];
-  lines.push('<!-- TODO: Review and verify all FAQ content before publishing -->');
-  lines.push('<section class="geo-faq" itemscope itemtype="https://schema.org/FAQPage">');
-  lines.push('  <h2>Frequently Asked Questions</h2>');
-
-  for (const faq of faqs) {
-    const placeholderNote = faq.isPlaceholder ? ' <!-- PLACEHOLDER: Requires real data -->' : '';
-    lines.push(`  <div itemscope itemprop="mainEntity" itemtype="https://schema.org/Question">${placeholderNote}`);
-    lines.push(`    <h3 itemprop="name">${escapeHtml(faq.question)}</h3>`);
-    lines.push(`    <div itemscope itemprop="acceptedAnswer" itemtype="https://schema.org/Answer">`);
-    lines.push(`      <p itemprop="text">${escapeHtml(faq.answer)}</p>`);
-    lines.push(`    </div>`);
-    lines.push(`  </div>`);
-  }
-
-  lines.push('</section>');
-  return lines.join('\n');
-}
-
-/**
- * Generates schema.org JSON-LD block.
- */
-function generateSchemaBlock(schema: SuggestedSchema): string {
-  const lines: string[] = [];
-  lines.push('<!-- TODO: Verify all placeholder values before publishing -->');
-  lines.push('<script type="application/ld+json">');
-  lines.push(JSON.stringify(schema, null, 2));
-  lines.push('</script>');
-  return lines.join('\n');
-}
+// Re-export SuggestedSchema from improvementPlanner for convenience
+export type { SuggestedSchema } from '../analyze/improvementPlanner';
 
 /**
- * Escapes HTML special characters.
+ * A marker block planned for a file, before it is wrapped in markers.
  */
-function escapeHtml(text: string): string {
-  const entities: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#39;',
-  };
-  return text.replace(/[&<>"']/g, char => entities[char] || char);
+export interface PlannedBlock {
+  blockType: BlockType;
+  content: string;
 }
 
-// Re-export SuggestedSchema from improvementPlanner for convenience
-export type { SuggestedSchema } from '../analyze/improvementPlanner';
-
 /**
  * A planned file change.
  */
@@ -251,6 +118,8 @@ export interface PlannedFileChange {
   newContent: string;
   humanReviewRequired: boolean;
   reviewNotes: string[];
+  /** Blocks applied to originalContent to produce newContent, in order */
+  blocks: PlannedBlock[];
 }
 
 /**
@@ -269,6 +138,22 @@ export interface DiffPreview {
 export interface PatchPlanConfig {
   pathContract: PathContractConfig;
   patchOutputDir?: string;
+  /**
+   * Routes of the target repository. When set, URLs map to the files
+   * that exist (see routeResolver) instead of the path contract's guess,
+   * and URLs without a source file are reported as mapping errors.
+   */
+  routeIndex?: RouteIndex;
+}
+
+/**
+ * A URL that could not be mapped to a file.
+ */
+export interface MappingError {
+  url: string;
+  error: string;
+  /** Repository files that may hold the page (repository-aware mapping only) */
+  candidates?: string[];
 }
 
 /**
@@ -277,7 +162,7 @@ export interface PatchPlanConfig {
 export interface PatchPlanResult {
   plannedChanges: PlannedFileChange[];
   diffPreviews: DiffPreview[];
-  mappingErrors: Array<{ url: string; error: string }>;
+  mappingErrors: MappingError[];
   warnings: string[];
 }
 
@@ -293,6 +178,8 @@ export interface PatchApplicationResult {
   diffPreviews: DiffPreview[];
   errors: string[];
   warnings: string[];
+  /** Set when the changes were opened as a pull request */
+  pullRequest?: PullRequestResult;
 }
 
 /**
@@ -343,6 +230,33 @@ function generateUnifiedDiff(
   return lines.join('\n');
 }
 
+/**
+ * A unified diff hunk. A zero-length range starts at the line before it,
+ * as git writes it.
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  /** Hunk lines prefixed with ' ', '-' or '+' */
+  lines: string[];
+}
+
+/**
+ * Diffs two line arrays into hunks with three lines of context.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffHunk[] {
+  const ops = computeLineDiff(oldLines, newLines);
+  return groupIntoHunks(ops, oldLines.length, newLines.length).map(hunk => ({
+    oldStart: hunk.oldCount === 0 ? hunk.oldStart - 1 : hunk.oldStart,
+    oldCount: hunk.oldCount,
+    newStart: hunk.newCount === 0 ? hunk.newStart - 1 : hunk.newStart,
+    newCount: hunk.newCount,
+    lines: hunk.lines,
+  }));
+}
+
 /**
  * Represents a diff operation.
  */
@@ -412,8 +326,8 @@ function groupIntoHunks(
   ops: DiffOp[],
   oldLen: number,
   newLen: number
-): Array<{ header: string; lines: string[] }> {
-  const hunks: Array<{ header: string; lines: string[] }> = [];
+): Array<DiffHunk & { header: string }> {
+  const hunks: Array<DiffHunk & { header: string }> = [];
 
   // Find ranges with changes
   let inChange = false;
@@ -493,6 +407,10 @@ function groupIntoHunks(
     hunks.push({
       header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
       lines,
+      oldStart,
+      oldCount,
+      newStart,
+      newCount,
     });
   }
 
@@ -514,6 +432,146 @@ function truncateDiff(diff: string): { diff: string; truncated: boolean } {
   };
 }
 
+/**
+ * Builds the (possibly truncated) unified diff preview for a file change.
+ */
+export function buildDiffPreview(
+  filePath: string,
+  action: DiffPreview['action'],
+  originalContent: string | null,
+  newContent: string
+): DiffPreview {
+  const rawDiff = generateUnifiedDiff(filePath, originalContent, newContent);
+  const { diff, truncated } = truncateDiff(rawDiff);
+  return { filePath, action, diff, truncated };
+}
+
+/**
+ * Planner output for a page, one input per block, in BLOCK_TYPES order.
+ */
+function buildBlockInputs(improvement: PageImprovementPlan): BlockInput[] {
+  const inputs: BlockInput[] = [];
+  if (improvement.recommendedTitle || improvement.recommendedMetaDescription) {
+    inputs.push({
+      blockType: 'meta',
+      title: improvement.recommendedTitle,
+      description: improvement.recommendedMetaDescription,
+    });
+  }
+
+  const { breadcrumbs, serviceList, howWeWork, testimonials, team } = improvement.suggestedAdditions;
+  if (breadcrumbs) {
+    inputs.push({ blockType: 'breadcrumbs', section: breadcrumbs });
+  }
+
+  if (improvement.suggestedAdditions.answerCapsule) {
+    inputs.push({ blockType: 'answer-capsule', capsule: improvement.suggestedAdditions.answerCapsule });
+  }
+
+  if (serviceList) {
+    inputs.push({ blockType: 'service-list', section: serviceList });
+  }
+  if (howWeWork) {
+    inputs.push({ blockType: 'how-we-work', section: howWeWork });
+  }
+  if (testimonials) {
+    inputs.push({ blockType: 'testimonials', section: testimonials });
+  }
+  if (team) {
+    inputs.push({ blockType: 'team', section: team });
+  }
+
+  if (improvement.suggestedAdditions.faq && improvement.suggestedAdditions.faq.length > 0) {
+    inputs.push({ blockType: 'faq', faqs: improvement.suggestedAdditions.faq });
+  }
+
+  if (improvement.suggestedAdditions.schemaJsonLd) {
+    inputs.push({ blockType: 'schema', schema: improvement.suggestedAdditions.schemaJsonLd });
+  }
+
+  return inputs;
+}
+
+/**
+ * Renders block inputs with the strategy for a file's format. Formats
+ * without a meta block leave it out; describeMetaChanges notes it.
+ */
+function renderBlocks(inputs: BlockInput[], fileExtension: string, existingContent: string | null): PlannedBlock[] {
+  const strategy = getPatchStrategy(fileExtension, existingContent);
+  const supported = inputs.filter(input => input.blockType !== 'meta' || !strategy.metaUnsupported);
+  return supported.map(input => ({
+    blockType: input.blockType,
+    content: strategy.render(input, existingContent),
+  }));
+}
+
+/**
+ * Review notes giving the title and description a page sets before and
+ * after patching, and flagging any the meta block had nowhere to put.
+ */
+function describeMetaChanges(
+  inputs: BlockInput[],
+  fileExtension: string,
+  originalContent: string | null,
+  newContent: string
+): string[] {
+  const strategy = getPatchStrategy(fileExtension, newContent);
+  const meta = inputs.find(input => input.blockType === 'meta');
+  if (!meta || meta.blockType !== 'meta') {
+    return [];
+  }
+  const quote = (value: string | null) => (value === null ? '(none)' : JSON.stringify(value));
+  const labels: Record<keyof PageMeta, string> = { title: 'Title', description: 'Meta description' };
+
+  if (strategy.metaUnsupported) {
+    return (['title', 'description'] as const)
+      .filter(key => meta[key])
+      .map(key => `${labels[key]} not applied: ${strategy.metaUnsupported}; set it to ${quote(meta[key])} by hand`);
+  }
+  if (!strategy.readMeta) {
+    return [];
+  }
+
+  const before = originalContent === null ? { title: null, description: null } : strategy.readMeta(originalContent);
+  const after = strategy.readMeta(newContent);
+
+  const notes: string[] = [];
+  for (const key of ['title', 'description'] as const) {
+    const recommended = meta[key];
+    if (!recommended) continue;
+    if (after[key] !== recommended) {
+      notes.push(`${labels[key]} not applied: the page sets none we can replace; set it to ${quote(recommended)} by hand`);
+    } else if (before[key] !== recommended) {
+      notes.push(`${labels[key]}: ${quote(before[key])} → ${quote(recommended)}`);
+    }
+  }
+  return notes;
+}
+
+/**
+ * Maps an improvement's URL to its file: an existing repository file
+ * when the config has a route index, otherwise the path contract's path.
+ */
+function mapImprovementUrl(url: string, config: PatchPlanConfig): PathMappingResult | MappingError {
+  if (config.routeIndex) {
+    const route = resolveRoute(url, config.routeIndex);
+    if ('unmapped' in route) {
+      const { reason, candidates } = route.unmapped;
+      return { url, error: reason, candidates };
+    }
+    return route.resolved;
+  }
+
+  try {
+    return mapUrlToFilePath(url, config.pathContract);
+  } catch (err) {
+    if (err instanceof PathMappingError) {
+      return { url: err.url, error: err.reason };
+    }
+    return { url, error: 'Unknown mapping error' };
+  }
+}
+
 /**
  * Plans patches for improvements using path contract and idempotent blocks.
  */
@@ -524,7 +582,7 @@ export function planPatches(
 ): PatchPlanResult {
   const plannedChanges: PlannedFileChange[] = [];
   const diffPreviews: DiffPreview[] = [];
-  const mappingErrors: Array<{ url: string; error: string }> = [];
+  const mappingErrors: MappingError[] = [];
   const warnings: string[] = [];
 
   // Sort improvements for deterministic output
@@ -542,23 +600,15 @@ export function planPatches(
     if (!hasImprovements) continue;
 
     // Map URL to file path
-    let mapping: PathMappingResult;
-    try {
-      mapping = mapUrlToFilePath(improvement.url, config.pathContract);
-    } catch (err) {
-      if (err instanceof PathMappingError) {
-        mappingErrors.push({ url: err.url, error: err.reason });
-      } else {
-        mappingErrors.push({ url: improvement.url, error: 'Unknown mapping error' });
-      }
+    const mapping = mapImprovementUrl(improvement.url, config);
+    if ('error' in mapping) {
+      mappingErrors.push(mapping);
       continue;
     }
 
     const reviewNotes: string[] = [];
     const existingContent = existingContents.get(mapping.filePath) ?? null;
-
-    // Start with existing content or empty
-    let newContent = existingContent ?? getDefaultContent(mapping.fileExtension);
+    const blockInputs = buildBlockInputs(improvement);
 
     // Check for placeholders requiring human review
     const hasPlaceholders =
@@ -566,35 +616,18 @@ export function planPatches(
       (improvement.recommendedMetaDescription?.includes('[ADD') ?? false) ||
       (improvement.suggestedAdditions.answerCapsule?.includes('[ADD') ?? false) ||
       (improvement.suggestedAdditions.faq?.some(f => f.isPlaceholder) ?? false) ||
-      (JSON.stringify(improvement.suggestedAdditions.schemaJsonLd || {}).includes('[ADD'));
+      (JSON.stringify(improvement.suggestedAdditions.schemaJsonLd || {}).includes('[ADD')) ||
+      blockInputs.some(input => 'section' in input && JSON.stringify(input.section).includes('[ADD'));
 
     if (hasPlaceholders) {
       reviewNotes.push('Contains placeholder values that require real data');
     }
 
-    // Apply blocks idempotently
-    if (improvement.recommendedTitle || improvement.recommendedMetaDescription) {
-      const metaBlock = generateMetaBlock(
-        improvement.recommendedTitle,
-        improvement.recommendedMetaDescription
-      );
-      newContent = applyBlockIdempotent(newContent, metaBlock, 'meta');
-    }
-
-    if (improvement.suggestedAdditions.answerCapsule) {
-      const capsuleBlock = generateAnswerCapsuleBlock(improvement.suggestedAdditions.answerCapsule);
-      newContent = applyBlockIdempotent(newContent, capsuleBlock, 'answer-capsule');
-    }
+    // Render blocks for the file's format, then apply them idempotently
+    const blocks = renderBlocks(blockInputs, mapping.fileExtension, existingContent);
 
-    if (improvement.suggestedAdditions.faq && improvement.suggestedAdditions.faq.length > 0) {
-      const faqBlock = generateFAQBlock(improvement.suggestedAdditions.faq);
-      newContent = applyBlockIdempotent(newContent, faqBlock, 'faq');
-    }
-
-    if (improvement.suggestedAdditions.schemaJsonLd) {
-      const schemaBlock = generateSchemaBlock(improvement.suggestedAdditions.schemaJsonLd);
-      newContent = applyBlockIdempotent(newContent, schemaBlock, 'schema');
-    }
+    const newContent = buildPatchedContent(existingContent, mapping.fileExtension, blocks);
+    reviewNotes.push(...describeMetaChanges(blockInputs, mapping.fileExtension, existingContent, newContent));
 
     // Determine action
     let action: 'create' | 'update' | 'no-op';
@@ -615,17 +648,11 @@ export function planPatches(
       newContent,
       humanReviewRequired: hasPlaceholders,
       reviewNotes,
+      blocks,
     });
 
     // Generate diff preview
-    const rawDiff = generateUnifiedDiff(mapping.filePath, existingContent, newContent);
-    const { diff, truncated } = truncateDiff(rawDiff);
-    diffPreviews.push({
-      filePath: mapping.filePath,
-      action,
-      diff,
-      truncated,
-    });
+    diffPreviews.push(buildDiffPreview(mapping.filePath, action, existingContent, newContent));
   }
 
   return {
@@ -636,10 +663,139 @@ export function planPatches(
   };
 }
 
+/**
+ * Applies blocks, in order, to a file's content. A file that does not
+ * exist yet starts from the default page for its extension. Used by
+ * planPatches and to rebuild a file when only some blocks are accepted.
+ */
+export function buildPatchedContent(
+  originalContent: string | null,
+  fileExtension: string,
+  blocks: PlannedBlock[]
+): string {
+  let content = originalContent ?? getDefaultContent(fileExtension);
+  const strategy = getPatchStrategy(fileExtension, content);
+  for (const block of blocks) {
+    content = strategy.apply(content, block.blockType, block.content);
+  }
+  return content;
+}
+
+/**
+ * Returns the content between a block's markers, or null when the
+ * block is absent or its markers are out of order.
+ */
+export function extractBlockContent(
+  content: string,
+  blockType: BlockType,
+  fileExtension: string = 'html'
+): string | null {
+  const { start, end } = getPatchStrategy(fileExtension, content).markers(blockType);
+  const startIdx = content.indexOf(start);
+  const endIdx = content.indexOf(end);
+
+  if (startIdx === -1 || endIdx === -1 || endIdx < startIdx) {
+    return null;
+  }
+  return content.slice(startIdx + start.length, endIdx);
+}
+
+/**
+ * Removes every marker block from content. Blocks take the padding they
+ * were inserted with (surrounding blank lines, or the newline ending a
+ * front matter line), and whatever the meta block replaced (head tags,
+ * layout props, front matter keys) comes back, so stripping a file we
+ * only added blocks to gives back its original content.
+ */
+export function stripMarkerBlocks(content: string, fileExtension: string = 'html'): string {
+  const strategy = getPatchStrategy(fileExtension, content);
+  let stripped = content;
+  for (const blockType of BLOCK_TYPES) {
+    const markers = strategy.markers(blockType);
+    for (;;) {
+      const next = removeMarkerBlock(stripped, markers);
+      if (next === stripped) break;
+      stripped = next;
+    }
+  }
+  return strategy.restore(stripped);
+}
+
+/**
+ * Re-applies a planned change's blocks to the file's current content.
+ *
+ * Marker blocks are the only part of a file we own, so a rebase is safe
+ * as long as every block region we are about to write is exactly as it
+ * was when the change was planned. Anything else is reported as a conflict.
+ */
+export function rebasePlannedChange(
+  change: PlannedFileChange,
+  currentContent: string | null
+): { rebased: true; change: PlannedFileChange } | { rebased: false; reason: string } {
+  if (change.originalContent !== null && currentContent === null) {
+    return { rebased: false, reason: 'File was deleted after the change was planned' };
+  }
+
+  const extension = change.filePath.slice(change.filePath.lastIndexOf('.') + 1);
+  for (const block of change.blocks) {
+    const planned = change.originalContent === null
+      ? null
+      : extractBlockContent(change.originalContent, block.blockType, extension);
+    const current = currentContent === null ? null : extractBlockContent(currentContent, block.blockType, extension);
+    if (planned !== current) {
+      return { rebased: false, reason: `The ${block.blockType} block was changed after the change was planned` };
+    }
+  }
+
+  const newContent = buildPatchedContent(currentContent, extension, change.blocks);
+  let action: PlannedFileChange['action'];
+  if (currentContent === null) {
+    action = 'create';
+  } else if (currentContent === newContent) {
+    action = 'no-op';
+  } else {
+    action = 'update';
+  }
+
+  return {
+    rebased: true,
+    change: { ...change, action, originalContent: currentContent, newContent },
+  };
+}
+
 /**
  * Returns default content for a new file based on extension.
  */
 function getDefaultContent(extension: string): string {
+  const strategy = getPatchStrategy(extension);
+  if (strategy.id === 'jsx') {
+    return `// GEO-generated page
+export default function Page() {
+  return (
+    <main>
+      {/* Content will be added here */}
+    </main>
+  );
+}
+`;
+  }
+
+  if (strategy.id === 'markdown') {
+    return `---
+---
+
+<!-- Content will be added here -->
+`;
+  }
+
+  if (strategy.id === 'mdx') {
+    return `---
+---
+
+{/* Content will be added here */}
+`;
+  }
+
   if (extension === 'astro') {
     return `---
 // GEO-generated page
@@ -651,6 +807,7 @@ function getDefaultContent(extension: string): string {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Page Title</title>
+  <meta name="description" content="">
 </head>
 <body>
   <main>
@@ -678,12 +835,15 @@ function getDefaultContent(extension: string): string {
 }
 
 /**
- * Applies planned patches to GitHub repository.
+ * Applies planned patches directly to the target branch, then deletes
+ * the files in `deletions`.
  */
 export async function applyPlannedPatches(
-  githubConfig: GitHubClientConfig,
+  provider: RepoProvider,
   plannedChanges: PlannedFileChange[],
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  commitMessage: (change: PlannedFileChange) => string = change => `GEO improvement: ${change.url}`,
+  deletions: Array<{ path: string; message: string }> = []
 ): Promise<PatchApplicationResult> {
   const result: PatchApplicationResult = {
     success: true,
@@ -699,7 +859,7 @@ export async function applyPlannedPatches(
   // Filter to only changes that need to be applied
   const changesToApply = plannedChanges.filter(c => c.action !== 'no-op');
 
-  if (changesToApply.length === 0) {
+  if (changesToApply.length === 0 && deletions.length === 0) {
     result.warnings.push('No changes to apply');
     return result;
   }
@@ -716,11 +876,14 @@ export async function applyPlannedPatches(
   const filesToWrite = sortedChanges.map(change => ({
     path: change.filePath,
     content: change.newContent,
-    message: `GEO improvement: ${change.url}`,
+    message: commitMessage(change),
   }));
 
   try {
-    const commits = await batchUpsertFiles(githubConfig, filesToWrite);
+    const commits = filesToWrite.length > 0 ? await provider.writeFiles(filesToWrite) : [];
+    if (deletions.length > 0) {
+      commits.push(...await provider.deleteFiles(deletions));
+    }
     result.commits = commits;
     result.patchesApplied = commits.length;
   } catch (err) {
@@ -732,6 +895,59 @@ export async function applyPlannedPatches(
   return result;
 }
 
+/**
+ * Applies planned patches as a pull request: a new branch off the target
+ * branch, one commit holding every file (and removing deletedPaths), and
+ * a pull request back into the target branch. `commits` lists each file
+ * against that single commit.
+ */
+export async function applyPlannedPatchesAsPullRequest(
+  provider: RepoProvider,
+  plannedChanges: PlannedFileChange[],
+  details: PullRequestDetails,
+  deletedPaths: string[] = []
+): Promise<PatchApplicationResult> {
+  const result: PatchApplicationResult = {
+    success: true,
+    patchesGenerated: plannedChanges.length,
+    patchesApplied: 0,
+    commits: [],
+    plannedChanges,
+    diffPreviews: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const changesToApply = plannedChanges.filter(c => c.action !== 'no-op');
+
+  if (changesToApply.length === 0 && deletedPaths.length === 0) {
+    result.warnings.push('No changes to apply');
+    return result;
+  }
+
+  try {
+    const { commit, pullRequest } = await provider.openMergeRequest(
+      changesToApply.map(change => ({ path: change.filePath, content: change.newContent })),
+      details,
+      deletedPaths
+    );
+    result.commits = commit.paths.map(path => ({
+      sha: commit.sha,
+      path,
+      message: commit.message,
+      url: commit.url,
+    }));
+    result.patchesApplied = commit.paths.length;
+    result.pullRequest = pullRequest;
+  } catch (err) {
+    result.success = false;
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    result.errors.push(`Pull request write-back failed: ${message}`);
+  }
+
+  return result;
+}
+
 export interface PathMapping {
   urlPath: string;
   filePath: string;
@@ -752,6 +968,21 @@ export interface FilePatch {
   operation: 'create' | 'update' | 'append';
   humanReviewRequired: boolean;
   reviewNotes: string[];
+  /**
+   * Blocks to apply through the file's patch strategy instead of
+   * appending `content` (Markdown mappings, whose title and description
+   * belong in front matter)
+   */
+  blocks?: { fileExtension: string; inputs: BlockInput[] };
+}
+
+/**
+ * Patch strategy extension for a Markdown path mapping: the file's own
+ * extension when it is Markdown or MDX, otherwise md.
+ */
+function markdownMappingExtension(filePath: string): string {
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+  return ['md', 'markdown', 'mdx'].includes(extension) ? extension : 'md';
 }
 
 /**
@@ -788,7 +1019,26 @@ export function generatePatches(
       reviewNotes.push('Contains placeholder values that require real data');
     }
 
-    if (mapping) {
+    if (mapping && mapping.fileType === 'markdown') {
+      const fileExtension = markdownMappingExtension(mapping.filePath);
+      const inputs = buildBlockInputs(improvement);
+      const strategy = getPatchStrategy(fileExtension);
+
+      patches.push({
+        path: mapping.filePath,
+        content: renderBlocks(inputs, fileExtension, null)
+          .map(block => {
+            const { start, end } = strategy.markers(block.blockType);
+            return `${start}\n${block.content}\n${end}`;
+          })
+          .join('\n\n'),
+        message: `GEO improvement: ${urlPath}`,
+        operation: 'append',
+        humanReviewRequired: hasPlaceholders,
+        reviewNotes,
+        blocks: { fileExtension, inputs },
+      });
+    } else if (mapping) {
       const blocks: string[] = [];
 
       if (improvement.recommendedTitle || improvement.recommendedMetaDescription) {
@@ -916,7 +1166,16 @@ export async function applyPatches(
   for (const patch of sortedPatches) {
     let finalContent = patch.content;
 
-    if (patch.operation === 'append') {
+    if (patch.operation === 'append' && patch.blocks) {
+      const existing = await getFileContents(config, patch.path);
+      const existingContent = existing ? decodeContent(existing.content) : null;
+      const { fileExtension, inputs } = patch.blocks;
+      finalContent = buildPatchedContent(
+        existingContent,
+        fileExtension,
+        renderBlocks(inputs, fileExtension, existingContent)
+      );
+    } else if (patch.operation === 'append') {
       const existing = await getFileContents(config, patch.path);
       if (existing) {
         const existingContent = decodeContent(existing.content);
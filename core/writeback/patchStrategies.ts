@@ -0,0 +1,1153 @@
+/**
+ * Patch Strategies
+ *
+ * How marker blocks are rendered and placed in each kind of page file.
+ * patchApplier picks a strategy from the file extension (and, for HTML,
+ * whether the file starts with front matter):
+ *
+ * - html (html, anything unknown): HTML comment markers, blocks
+ *   inserted before </main> or </body>; the meta block goes in <head>
+ * - html-front-matter (html or unknown, starting with front matter, as
+ *   Jekyll, Eleventy and Hugo pages may): as html, except that the meta
+ *   block goes into front matter as in Markdown
+ * - astro: as html, except that title and description are declared in
+ *   the component script and bound where the page sets them
+ * - jsx (tsx, jsx, js): JSX comment markers and JSX-safe markup,
+ *   inserted before </main> or the component's last closing tag; no
+ *   meta block (see metaUnsupported)
+ * - markdown (md, markdown): title, description and JSON-LD written to
+ *   front matter; answer capsule after the first heading and FAQ
+ *   appended, both as Markdown
+ * - mdx: as markdown, with JSX comment markers in the body and JSON-LD
+ *   as a script element
+ *
+ * The meta block replaces the page's own title and description: tags in
+ * <head>, props on an Astro layout, or front matter keys. What it replaced
+ * is kept in the file (as a comment) so stripping the block restores it.
+ * HTML pages without a <head> get them as comments.
+ */
+
+import type {
+  SuggestedBreadcrumb,
+  SuggestedFAQ,
+  SuggestedProcessStep,
+  SuggestedSchema,
+  SuggestedSection,
+  SuggestedService,
+  SuggestedTeamMember,
+  SuggestedTestimonial,
+} from '../analyze/improvementPlanner';
+import type { BlockType } from './patchApplier';
+import {
+  findFrontMatter,
+  formatFrontMatterEntry,
+  insertIntoFrontMatter,
+  listFrontMatterKeys,
+  readFrontMatterValue,
+  replaceFrontMatterKeys,
+  restoreReplacedKeys,
+} from './frontMatter';
+
+/**
+ * Supported strategies.
+ */
+export type PatchStrategyId = 'html' | 'html-front-matter' | 'astro' | 'jsx' | 'markdown' | 'mdx';
+
+/**
+ * Planner output for one block, before rendering.
+ */
+export type BlockInput =
+  | { blockType: 'meta'; title: string | null; description: string | null }
+  | { blockType: 'answer-capsule'; capsule: string }
+  | { blockType: 'faq'; faqs: SuggestedFAQ[] }
+  | { blockType: 'schema'; schema: SuggestedSchema }
+  | SectionBlockInput;
+
+/**
+ * Planner output for a page section that carries its own JSON-LD.
+ */
+export type SectionBlockInput =
+  | { blockType: 'breadcrumbs'; section: SuggestedSection<SuggestedBreadcrumb> }
+  | { blockType: 'service-list'; section: SuggestedSection<SuggestedService> }
+  | { blockType: 'how-we-work'; section: SuggestedSection<SuggestedProcessStep> }
+  | { blockType: 'testimonials'; section: SuggestedSection<SuggestedTestimonial> }
+  | { blockType: 'team'; section: SuggestedSection<SuggestedTeamMember> };
+
+/**
+ * Start and end marker lines for a block.
+ */
+export interface MarkerPair {
+  start: string;
+  end: string;
+}
+
+/**
+ * Title and description a page sets.
+ */
+export interface PageMeta {
+  title: string | null;
+  description: string | null;
+}
+
+/**
+ * Rendering and placement rules for one file format.
+ */
+export interface PatchStrategy {
+  id: PatchStrategyId;
+  /** Marker lines around a block of the given type */
+  markers(blockType: BlockType): MarkerPair;
+  /** Renders planner output as block content for a file */
+  render(input: BlockInput, existingContent: string | null): string;
+  /** Writes a block, replacing the one between its markers if present */
+  apply(content: string, blockType: BlockType, blockContent: string): string;
+  /** Undoes what apply changed outside marker blocks, once they are removed */
+  restore(content: string): string;
+  /** Reads the title and description the page sets, if the format has them */
+  readMeta?(content: string): PageMeta;
+  /** Why the format gets no meta block, if it gets none */
+  metaUnsupported?: string;
+}
+
+/**
+ * Generates meta tag content block.
+ */
+export function generateMetaBlock(
+  recommendedTitle: string | null,
+  recommendedMetaDescription: string | null
+): string {
+  const lines: string[] = [];
+  lines.push('<!-- TODO: Review and customize these recommendations -->');
+
+  if (recommendedTitle) {
+    lines.push(`<!-- Recommended Title: ${escapeHtml(recommendedTitle)} -->`);
+  }
+  if (recommendedMetaDescription) {
+    lines.push(`<!-- Recommended Meta Description: ${escapeHtml(recommendedMetaDescription)} -->`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generates an answer capsule block.
+ */
+export function generateAnswerCapsuleBlock(capsule: string): string {
+  const lines: string[] = [];
+  lines.push('<!-- TODO: Review, customize, and position appropriately -->');
+  lines.push('<div class="geo-answer-capsule">');
+  lines.push(`  <p>${escapeHtml(capsule)}</p>`);
+  lines.push('</div>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates FAQ section HTML block.
+ */
+export function generateFAQBlock(faqs: SuggestedFAQ[]): string {
+  const lines: string[] = [];
+  lines.push('<!-- TODO: Review and verify all FAQ content before publishing -->');
+  lines.push('<section class="geo-faq" itemscope itemtype="https://schema.org/FAQPage">');
+  lines.push('  <h2>Frequently Asked Questions</h2>');
+
+  for (const faq of faqs) {
+    const placeholderNote = faq.isPlaceholder ? ' <!-- PLACEHOLDER: Requires real data -->' : '';
+    lines.push(`  <div itemscope itemprop="mainEntity" itemtype="https://schema.org/Question">${placeholderNote}`);
+    lines.push(`    <h3 itemprop="name">${escapeHtml(faq.question)}</h3>`);
+    lines.push(`    <div itemscope itemprop="acceptedAnswer" itemtype="https://schema.org/Answer">`);
+    lines.push(`      <p itemprop="text">${escapeHtml(faq.answer)}</p>`);
+    lines.push(`    </div>`);
+    lines.push(`  </div>`);
+  }
+
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates schema.org JSON-LD block.
+ */
+export function generateSchemaBlock(schema: SuggestedSchema): string {
+  const lines: string[] = [];
+  lines.push('<!-- TODO: Verify all placeholder values before publishing -->');
+  lines.push(jsonLdScript(schema));
+  return lines.join('\n');
+}
+
+/**
+ * Renders JSON-LD in a script element.
+ */
+function jsonLdScript(schema: SuggestedSchema): string {
+  return ['<script type="application/ld+json">', JSON.stringify(schema, null, 2), '</script>'].join('\n');
+}
+
+/**
+ * Reviewer note leading each section block.
+ */
+const SECTION_NOTES: Record<SectionBlockInput['blockType'], string> = {
+  'breadcrumbs': 'TODO: Check the trail matches the site navigation',
+  'service-list': 'TODO: Review service names and add descriptions',
+  'how-we-work': 'TODO: Adjust the steps to match how the business actually works',
+  'testimonials': "TODO: Use only real testimonials, with the customer's permission",
+  'team': 'TODO: Add real team members and verify every credential',
+};
+
+/**
+ * Path of a same-site URL, for links that keep working on preview
+ * deployments; other URLs are returned as they are.
+ */
+function sitePath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Generates breadcrumb navigation; the last step is the current page.
+ */
+export function generateBreadcrumbsBlock(items: SuggestedBreadcrumb[]): string {
+  const lines: string[] = [];
+  lines.push(`<!-- ${SECTION_NOTES['breadcrumbs']} -->`);
+  lines.push('<nav class="geo-breadcrumbs" aria-label="Breadcrumb">');
+  lines.push('  <ol>');
+  items.forEach((item, index) => {
+    lines.push(index === items.length - 1
+      ? `    <li aria-current="page">${escapeHtml(item.name)}</li>`
+      : `    <li><a href="${escapeHtml(sitePath(item.url))}">${escapeHtml(item.name)}</a></li>`);
+  });
+  lines.push('  </ol>');
+  lines.push('</nav>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates a service list section.
+ */
+export function generateServiceListBlock(services: SuggestedService[]): string {
+  const lines: string[] = [];
+  lines.push(`<!-- ${SECTION_NOTES['service-list']} -->`);
+  lines.push('<section class="geo-services">');
+  lines.push('  <h2>Our Services</h2>');
+  lines.push('  <ul>');
+  for (const service of services) {
+    const name = service.url
+      ? `<a href="${escapeHtml(sitePath(service.url))}">${escapeHtml(service.name)}</a>`
+      : escapeHtml(service.name);
+    lines.push('    <li>');
+    lines.push(`      <h3>${name}</h3>`);
+    lines.push(`      <p>${escapeHtml(service.description)}</p>`);
+    lines.push('    </li>');
+  }
+  lines.push('  </ul>');
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates a "how we work" process section.
+ */
+export function generateHowWeWorkBlock(steps: SuggestedProcessStep[]): string {
+  const lines: string[] = [];
+  lines.push(`<!-- ${SECTION_NOTES['how-we-work']} -->`);
+  lines.push('<section class="geo-how-we-work">');
+  lines.push('  <h2>How We Work</h2>');
+  lines.push('  <ol>');
+  for (const step of steps) {
+    lines.push('    <li>');
+    lines.push(`      <h3>${escapeHtml(step.title)}</h3>`);
+    lines.push(`      <p>${escapeHtml(step.description)}</p>`);
+    lines.push('    </li>');
+  }
+  lines.push('  </ol>');
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates a testimonials section.
+ */
+export function generateTestimonialsBlock(testimonials: SuggestedTestimonial[]): string {
+  const lines: string[] = [];
+  lines.push(`<!-- ${SECTION_NOTES['testimonials']} -->`);
+  lines.push('<section class="geo-testimonials">');
+  lines.push('  <h2>What Our Customers Say</h2>');
+  for (const testimonial of testimonials) {
+    const placeholderNote = testimonial.isPlaceholder ? ' <!-- PLACEHOLDER: Requires real data -->' : '';
+    lines.push(`  <blockquote>${placeholderNote}`);
+    lines.push(`    <p>${escapeHtml(testimonial.quote)}</p>`);
+    lines.push(`    <footer>— ${escapeHtml(testimonial.author)}</footer>`);
+    lines.push('  </blockquote>');
+  }
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+/**
+ * Generates a team section with one bio per member.
+ */
+export function generateTeamBlock(members: SuggestedTeamMember[]): string {
+  const lines: string[] = [];
+  lines.push(`<!-- ${SECTION_NOTES['team']} -->`);
+  lines.push('<section class="geo-team">');
+  lines.push('  <h2>Meet the Team</h2>');
+  for (const member of members) {
+    const placeholderNote = member.isPlaceholder ? ' <!-- PLACEHOLDER: Requires real data -->' : '';
+    lines.push(`  <div class="geo-team-member">${placeholderNote}`);
+    lines.push(`    <h3>${escapeHtml(member.name)}</h3>`);
+    lines.push(`    <p class="geo-team-role">${escapeHtml(member.role)}</p>`);
+    lines.push(`    <p>${escapeHtml(member.bio)}</p>`);
+    lines.push('  </div>');
+  }
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a section block's markup, without its JSON-LD.
+ */
+function renderSectionHtml(input: SectionBlockInput): string {
+  switch (input.blockType) {
+    case 'breadcrumbs':
+      return generateBreadcrumbsBlock(input.section.items);
+    case 'service-list':
+      return generateServiceListBlock(input.section.items);
+    case 'how-we-work':
+      return generateHowWeWorkBlock(input.section.items);
+    case 'testimonials':
+      return generateTestimonialsBlock(input.section.items);
+    case 'team':
+      return generateTeamBlock(input.section.items);
+  }
+}
+
+/**
+ * True for blocks that render a page section with its own JSON-LD.
+ */
+function isSectionBlock(input: BlockInput): input is SectionBlockInput {
+  return 'section' in input;
+}
+
+/**
+ * Escapes HTML special characters.
+ */
+export function escapeHtml(text: string): string {
+  const entities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return text.replace(/[&<>"']/g, char => entities[char] || char);
+}
+
+/**
+ * Renders a block as HTML.
+ */
+function renderHtml(input: BlockInput): string {
+  switch (input.blockType) {
+    case 'meta':
+      return generateMetaBlock(input.title, input.description);
+    case 'answer-capsule':
+      return generateAnswerCapsuleBlock(input.capsule);
+    case 'faq':
+      return generateFAQBlock(input.faqs);
+    case 'schema':
+      return generateSchemaBlock(input.schema);
+    default:
+      return `${renderSectionHtml(input)}\n${jsonLdScript(input.section.schemaJsonLd)}`;
+  }
+}
+
+/**
+ * HTML comment markers.
+ */
+export function htmlMarkers(blockType: BlockType): MarkerPair {
+  return {
+    start: `<!-- nico-geo:block:${blockType}:start -->`,
+    end: `<!-- nico-geo:block:${blockType}:end -->`,
+  };
+}
+
+/**
+ * Replaces the block between its markers, or hands the wrapped block to
+ * `insert` when the markers are missing or out of order.
+ */
+function applyBetweenMarkers(
+  content: string,
+  blockContent: string,
+  markers: MarkerPair,
+  insert: (content: string, wrapped: string) => string
+): string {
+  const wrapped = `${markers.start}\n${blockContent}\n${markers.end}`;
+  const startIdx = content.indexOf(markers.start);
+  const endIdx = content.indexOf(markers.end);
+
+  if (startIdx === -1 || endIdx === -1 || endIdx < startIdx) {
+    return insert(content, wrapped);
+  }
+  return content.slice(0, startIdx) + wrapped + content.slice(endIdx + markers.end.length);
+}
+
+/**
+ * Inserts a wrapped block at `index`, padded with blank lines.
+ */
+function insertAt(content: string, index: number, wrapped: string): string {
+  return content.slice(0, index) + '\n\n' + wrapped + '\n\n' + content.slice(index);
+}
+
+/**
+ * Removes the first block between `markers`, with the padding it was
+ * inserted with: the blank lines around it, or the newline ending its
+ * own line. Returns content unchanged when the block is absent.
+ */
+export function removeMarkerBlock(content: string, markers: MarkerPair): string {
+  const startIdx = content.indexOf(markers.start);
+  const endIdx = content.indexOf(markers.end);
+  if (startIdx === -1 || endIdx === -1 || endIdx < startIdx) {
+    return content;
+  }
+
+  let from = startIdx;
+  let to = endIdx + markers.end.length;
+  if (content.slice(from - 2, from) === '\n\n' && content.slice(to, to + 2) === '\n\n') {
+    from -= 2;
+    to += 2;
+  } else if ((from === 0 || content[from - 1] === '\n') && content[to] === '\n') {
+    to += 1;
+  }
+  return content.slice(0, from) + content.slice(to);
+}
+
+/**
+ * Finds the best insertion point in HTML/Astro content.
+ * Priority: before </main>, before </body>, or append at end.
+ */
+function findHtmlInsertionPoint(content: string): number {
+  for (const tag of ['</main>', '</body>']) {
+    const index = content.lastIndexOf(tag);
+    if (index !== -1) return index;
+  }
+  return content.length;
+}
+
+/**
+ * Finds where a page's content starts: after <main>, after <body>, or
+ * (on an Astro page using a layout) after the first component's opening
+ * tag. Falls back to the start of the template.
+ */
+function findHtmlStartPoint(content: string): number {
+  for (const pattern of [/<main\b[^>]*>/i, /<body\b[^>]*>/i]) {
+    const match = pattern.exec(content);
+    if (match) return match.index + match[0].length;
+  }
+  const templateStart = findTemplateStart(content);
+  const layout = findLayoutTag(content.slice(templateStart));
+  return layout ? templateStart + layout.end : templateStart;
+}
+
+/**
+ * Prefix of the comment wrapping a head tag the meta block replaced.
+ */
+const REPLACED_TAG_PREFIX = '<!-- nico-geo:replaced ';
+
+const TITLE_TAG = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i;
+const DESCRIPTION_TAG = /<meta\b[^>]*\bname\s*=\s*["']?description["']?[^>]*>/i;
+
+/**
+ * Decodes the entities escapeHtml writes, plus numeric ones.
+ */
+function decodeHtml(text: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'" };
+  return text.replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (match, name: string) => {
+    if (entities[name]) return entities[name];
+    if (name.startsWith('#')) {
+      const code = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return match;
+  });
+}
+
+/**
+ * Reads a quoted or bare attribute value from a tag.
+ */
+function readAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Renders the meta block as the tags it replaces in <head>.
+ */
+function renderHeadMeta(title: string | null, description: string | null): string {
+  const lines = ['<!-- TODO: Review and customize these recommendations -->'];
+  if (title) {
+    lines.push(`<title>${escapeHtml(title)}</title>`);
+  }
+  if (description) {
+    lines.push(`<meta name="description" content="${escapeHtml(description)}">`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Comments out the <title> and description <meta> tags in <head> that a
+ * meta block now sets, skipping the block itself and existing comments.
+ */
+function replaceHeadTags(content: string, blockContent: string, markers: MarkerPair): string {
+  const headEnd = content.search(/<\/head\s*>/i);
+  const blockStart = content.indexOf(markers.start);
+  const blockEnd = content.indexOf(markers.end);
+  if (headEnd === -1 || blockStart === -1 || blockEnd === -1 || blockEnd > headEnd) {
+    return content;
+  }
+
+  const patterns = [TITLE_TAG, DESCRIPTION_TAG]
+    .filter(pattern => pattern.test(blockContent))
+    .map(pattern => new RegExp(pattern.source, 'gi'));
+  const replaceOutsideComments = (html: string): string =>
+    html
+      .split(/(<!--[\s\S]*?-->)/)
+      .map((part, index) => index % 2 === 1
+        ? part
+        : patterns.reduce((text, pattern) => text.replace(pattern, tag =>
+          tag.includes('--') ? tag : `${REPLACED_TAG_PREFIX}${tag} -->`
+        ), part))
+      .join('');
+
+  const afterBlock = blockEnd + markers.end.length;
+  return replaceOutsideComments(content.slice(0, blockStart)) +
+    content.slice(blockStart, afterBlock) +
+    replaceOutsideComments(content.slice(afterBlock, headEnd)) +
+    content.slice(headEnd);
+}
+
+/**
+ * Turns replaced-tag comments back into tags.
+ */
+function restoreHeadTags(content: string): string {
+  return content.replace(/<!-- nico-geo:replaced ([\s\S]*?) -->/g, '$1');
+}
+
+/**
+ * Reads the title and description an HTML page sets, ignoring comments.
+ */
+function readHtmlMeta(content: string): PageMeta {
+  const html = content.replace(/<!--[\s\S]*?-->/g, '');
+  const title = TITLE_TAG.exec(html)?.[1];
+  const descriptionTag = DESCRIPTION_TAG.exec(html)?.[0];
+  const description = descriptionTag ? readAttribute(descriptionTag, 'content') : null;
+  return {
+    title: title === undefined ? null : decodeHtml(title.trim()),
+    description: description === null ? null : decodeHtml(description),
+  };
+}
+
+/**
+ * Writes the meta block into <head>, replacing the tags it sets. A block
+ * left in the body by an earlier version is moved. Pages without a
+ * <head> get the block in the body.
+ */
+function applyHeadMeta(content: string, blockContent: string): string {
+  const markers = htmlMarkers('meta');
+  const headEnd = content.search(/<\/head\s*>/i);
+  const blockStart = content.indexOf(markers.start);
+  const current = headEnd !== -1 && blockStart > headEnd ? removeMarkerBlock(content, markers) : content;
+
+  const patched = applyBetweenMarkers(current, blockContent, markers, (existing, wrapped) => {
+    const index = existing.search(/<\/head\s*>/i);
+    return insertAt(existing, index === -1 ? findHtmlInsertionPoint(existing) : index, wrapped);
+  });
+  return replaceHeadTags(patched, blockContent, markers);
+}
+
+const htmlStrategy: PatchStrategy = {
+  id: 'html',
+  markers: htmlMarkers,
+  render: (input, existingContent) => {
+    if (input.blockType === 'meta' && (existingContent === null || /<\/head\s*>/i.test(existingContent))) {
+      return renderHeadMeta(input.title, input.description);
+    }
+    return renderHtml(input);
+  },
+  apply: (content, blockType, blockContent) => {
+    if (blockType === 'meta') {
+      return applyHeadMeta(content, blockContent);
+    }
+    return applyBetweenMarkers(content, blockContent, htmlMarkers(blockType), (existing, wrapped) =>
+      insertAt(existing, blockType === 'breadcrumbs' ? findHtmlStartPoint(existing) : findHtmlInsertionPoint(existing), wrapped)
+    );
+  },
+  restore: restoreHeadTags,
+  readMeta: readHtmlMeta,
+};
+
+/**
+ * JSX attribute names for the HTML attributes our blocks use.
+ */
+const JSX_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  itemscope: 'itemScope',
+  itemprop: 'itemProp',
+  itemtype: 'itemType',
+};
+
+/**
+ * Converts block HTML to JSX: braces in text are escaped, comments
+ * become JSX comments and attributes take their JSX names.
+ */
+export function htmlToJsx(html: string): string {
+  // Odd parts are comments, even parts markup
+  return html
+    .split(/(<!--[\s\S]*?-->)/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        const text = part.slice(4, -3).trim().replace(/\*\//g, '* /');
+        return `{/* ${text} */}`;
+      }
+      return part
+        .replace(/[{}]/g, brace => (brace === '{' ? '&#123;' : '&#125;'))
+        .replace(/<[a-zA-Z][^>]*>/g, tag =>
+          tag.replace(/\s([a-z]+)(?=[\s=>])/g, (match, name: string) =>
+            JSX_ATTRIBUTES[name] ? ` ${JSX_ATTRIBUTES[name]}` : match
+          )
+        );
+    })
+    .join('');
+}
+
+/**
+ * Finds the insertion point in a React component: before </main> or
+ * </body>, else inside the last closing tag of the returned markup.
+ */
+function findJsxInsertionPoint(content: string): number {
+  const htmlPoint = findHtmlInsertionPoint(content);
+  if (htmlPoint !== content.length) return htmlPoint;
+  const lastClose = content.lastIndexOf('</');
+  return lastClose === -1 ? content.length : lastClose;
+}
+
+/**
+ * Finds where a React component's content starts: after <main>, else
+ * after the opening tag of the returned markup.
+ */
+function findJsxStartPoint(content: string): number {
+  const main = /<main\b[^>]*>/.exec(content);
+  if (main) return main.index + main[0].length;
+  const returned = /return\s*\(\s*<[^>]*>/.exec(content);
+  return returned ? returned.index + returned[0].length : findJsxInsertionPoint(content);
+}
+
+/**
+ * Renders JSON-LD as a React script element.
+ */
+function jsxJsonLdScript(schema: SuggestedSchema): string {
+  return [
+    '<script',
+    '  type="application/ld+json"',
+    `  dangerouslySetInnerHTML={{ __html: JSON.stringify(${JSON.stringify(schema, null, 2)}) }}`,
+    '/>',
+  ].join('\n');
+}
+
+function jsxMarkers(blockType: BlockType): MarkerPair {
+  return {
+    start: `{/* nico-geo:block:${blockType}:start */}`,
+    end: `{/* nico-geo:block:${blockType}:end */}`,
+  };
+}
+
+const jsxStrategy: PatchStrategy = {
+  id: 'jsx',
+  markers: jsxMarkers,
+  render: input => {
+    if (input.blockType === 'schema') {
+      return `{/* TODO: Verify all placeholder values before publishing */}\n${jsxJsonLdScript(input.schema)}`;
+    }
+    if (isSectionBlock(input)) {
+      return `${htmlToJsx(renderSectionHtml(input))}\n${jsxJsonLdScript(input.section.schemaJsonLd)}`;
+    }
+    return htmlToJsx(renderHtml(input));
+  },
+  apply: (content, blockType, blockContent) =>
+    applyBetweenMarkers(content, blockContent, jsxMarkers(blockType), (existing, wrapped) =>
+      insertAt(existing, blockType === 'breadcrumbs' ? findJsxStartPoint(existing) : findJsxInsertionPoint(existing), wrapped)
+    ),
+  restore: content => content,
+  // Comments would not change the page, and the metadata export or <Head>
+  // element that would differs by router and may already exist
+  metaUnsupported: 'Next.js pages set it in `export const metadata` (app router) or `<Head>` (pages router)',
+};
+
+/**
+ * Constant the Astro meta block declares in the component script.
+ */
+const ASTRO_META_CONST = 'nicoGeoMeta';
+
+/**
+ * An Astro attribute value: quoted, or an expression with at most one
+ * level of nested braces.
+ */
+const ASTRO_ATTRIBUTE_VALUE = `"[^"]*"|'[^']*'|\\{(?:[^{}]|\\{[^{}]*\\})*\\}`;
+
+/**
+ * Line comment markers, for blocks in an Astro component script.
+ */
+function scriptMarkers(blockType: BlockType): MarkerPair {
+  return {
+    start: `// nico-geo:block:${blockType}:start`,
+    end: `// nico-geo:block:${blockType}:end`,
+  };
+}
+
+/**
+ * Renders the Astro meta block: a constant holding the title and
+ * description, which apply binds into the template.
+ */
+function renderAstroMeta(title: string | null, description: string | null): string {
+  const lines = ['// TODO: Review and customize these recommendations', `const ${ASTRO_META_CONST} = {`];
+  if (title) {
+    lines.push(`  title: ${JSON.stringify(title)},`);
+  }
+  if (description) {
+    lines.push(`  description: ${JSON.stringify(description)},`);
+  }
+  lines.push('};');
+  return lines.join('\n');
+}
+
+/**
+ * Reads the values declared by an Astro meta block.
+ */
+function readAstroMetaConst(blockContent: string): PageMeta {
+  const read = (key: keyof PageMeta): string | null => {
+    const value = new RegExp(`^\\s*${key}: (".*"),\\s*$`, 'm').exec(blockContent)?.[1];
+    return value === undefined ? null : JSON.parse(value);
+  };
+  return { title: read('title'), description: read('description') };
+}
+
+/**
+ * Offset where an Astro template starts, after the component script.
+ */
+function findTemplateStart(content: string): number {
+  return content.length - stripFrontMatter(content).length;
+}
+
+/**
+ * Finds the end of the tag opening at `start` (just past its ">"),
+ * skipping quoted strings and braced expressions, or -1.
+ */
+function findTagEnd(content: string, start: number): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (char === '>' && depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Location of the first component tag in a template, which on a page
+ * is the layout (or head component) receiving its title and description.
+ */
+function findLayoutTag(template: string): { start: number; end: number } | null {
+  const match = /<[A-Z][\w.]*(?=[\s/>])/.exec(template);
+  if (!match) return null;
+  const end = findTagEnd(template, match.index);
+  return end === -1 ? null : { start: match.index, end };
+}
+
+/**
+ * Expression replacing a value with the block's constant, keeping the
+ * original source in a comment. Null when the value is already bound or
+ * cannot be kept in a comment.
+ */
+function astroBinding(key: keyof PageMeta, original: string): string | null {
+  if (original.includes('*/') || original.includes(`${ASTRO_META_CONST}.`)) {
+    return null;
+  }
+  return `{/* nico-geo:replaced ${original} */ ${ASTRO_META_CONST}.${key}}`;
+}
+
+/**
+ * Binds the block's constant where an Astro template sets the title and
+ * description: the <title> text and description <meta> content, or
+ * failing those the layout component's title and description props.
+ */
+function bindAstroMeta(content: string, declared: PageMeta): string {
+  const templateStart = findTemplateStart(content);
+  let template = content.slice(templateStart);
+
+  const bindAttribute = (tag: string, attribute: string, key: keyof PageMeta): string =>
+    tag.replace(new RegExp(`(\\s${attribute}\\s*=\\s*)(${ASTRO_ATTRIBUTE_VALUE})`), (match, prefix: string, value: string) => {
+      const binding = astroBinding(key, value);
+      return binding ? prefix + binding : match;
+    });
+
+  const boundInHead = { title: false, description: false };
+  if (declared.title) {
+    template = template.replace(/(<title\b[^>]*>)([\s\S]*?)(<\/title\s*>)/i, (match, open: string, text: string, close: string) => {
+      boundInHead.title = true;
+      const binding = astroBinding('title', text);
+      return binding ? open + binding + close : match;
+    });
+  }
+  if (declared.description) {
+    template = template.replace(DESCRIPTION_TAG, tag => {
+      boundInHead.description = true;
+      return bindAttribute(tag, 'content', 'description');
+    });
+  }
+
+  const layout = findLayoutTag(template);
+  if (layout) {
+    let tag = template.slice(layout.start, layout.end);
+    for (const key of ['title', 'description'] as const) {
+      if (declared[key] && !boundInHead[key]) tag = bindAttribute(tag, key, key);
+    }
+    template = template.slice(0, layout.start) + tag + template.slice(layout.end);
+  }
+
+  return content.slice(0, templateStart) + template;
+}
+
+/**
+ * Reads the title and description an Astro page sets: the block's
+ * values where they are bound, otherwise the page's own <title>,
+ * description <meta> or layout props (expressions as written).
+ */
+function readAstroMeta(content: string): PageMeta {
+  const markers = scriptMarkers('meta');
+  const startIdx = content.indexOf(markers.start);
+  const endIdx = content.indexOf(markers.end);
+  const declared = startIdx !== -1 && endIdx > startIdx
+    ? readAstroMetaConst(content.slice(startIdx, endIdx))
+    : { title: null, description: null };
+
+  const template = content.slice(findTemplateStart(content));
+  const head = readHtmlMeta(template);
+  const layout = findLayoutTag(template);
+  const layoutProp = (key: keyof PageMeta): string | null => {
+    if (!layout) return null;
+    const tag = template.slice(layout.start, layout.end);
+    const value = new RegExp(`\\s${key}\\s*=\\s*(${ASTRO_ATTRIBUTE_VALUE})`).exec(tag)?.[1];
+    if (value === undefined) return null;
+    if (/^["']/.test(value)) return value.slice(1, -1);
+    // A prop set from a constant in the component script reads as its value
+    const name = /^\{\s*([A-Za-z_$][\w$]*)\s*\}$/.exec(value)?.[1];
+    const script = content.slice(0, content.length - template.length);
+    const constant = name && new RegExp(`\\b(?:const|let)\\s+${name.replace(/\$/g, '\\$')}\\s*=\\s*(["'])([^"'\\\\\\n]*)\\1`).exec(script)?.[2];
+    return constant ?? value;
+  };
+
+  const read = (key: keyof PageMeta): string | null =>
+    template.includes(`${ASTRO_META_CONST}.${key}`) ? declared[key] : head[key] ?? layoutProp(key);
+  return { title: read('title'), description: read('description') };
+}
+
+/**
+ * Astro pages: as HTML, except that the meta block declares the title
+ * and description in the component script and binds them where the
+ * template sets its own, so layouts that build <head> from props get
+ * them too. A meta block an earlier version left in the body is removed.
+ */
+const astroStrategy: PatchStrategy = {
+  id: 'astro',
+  markers: blockType => (blockType === 'meta' ? scriptMarkers(blockType) : htmlMarkers(blockType)),
+  render: (input, existingContent) =>
+    input.blockType === 'meta'
+      ? renderAstroMeta(input.title, input.description)
+      : htmlStrategy.render(input, existingContent),
+  apply: (content, blockType, blockContent) => {
+    if (blockType !== 'meta') {
+      return htmlStrategy.apply(content, blockType, blockContent);
+    }
+    const current = removeMarkerBlock(content, htmlMarkers('meta'));
+    const patched = applyBetweenMarkers(current, blockContent, scriptMarkers('meta'), insertIntoFrontMatter);
+    return bindAstroMeta(patched, readAstroMetaConst(blockContent));
+  },
+  restore: content =>
+    content
+      .replace(new RegExp(`\\{/\\* nico-geo:replaced ([\\s\\S]*?) \\*/ ${ASTRO_META_CONST}\\.(?:title|description)\\}`, 'g'), '$1')
+      // The component script insertIntoFrontMatter created, now empty
+      .replace(/^---\n---\n\n/, ''),
+  readMeta: readAstroMeta,
+};
+
+/**
+ * Front matter key the Markdown schema block writes JSON-LD to, as a
+ * JSON string for the site's layout to output in a script tag.
+ */
+export const SCHEMA_FRONT_MATTER_KEY = 'jsonLd';
+
+/**
+ * Blocks a Markdown strategy writes into front matter.
+ */
+type FrontMatterBlock = 'meta' | 'schema';
+
+/**
+ * Front matter markers (a comment in both YAML and TOML).
+ */
+function frontMatterMarkers(blockType: BlockType): MarkerPair {
+  return { start: `# nico-geo:block:${blockType}:start`, end: `# nico-geo:block:${blockType}:end` };
+}
+
+/**
+ * Escapes text so Markdown (and MDX, which also treats braces as
+ * expressions) renders it literally.
+ */
+export function escapeMarkdown(text: string, mdx: boolean = false): string {
+  return text.replace(mdx ? /[\\`*_[\]<>|{}]/g : /[\\`*_[\]<>|]/g, char => `\\${char}`);
+}
+
+/**
+ * Renders a block as front matter lines.
+ */
+function renderFrontMatterBlock(input: BlockInput, existingContent: string | null): string {
+  const format = (existingContent && findFrontMatter(existingContent)?.format) || 'yaml';
+  if (input.blockType === 'schema') {
+    return [
+      '# TODO: Verify all placeholder values before publishing',
+      formatFrontMatterEntry(format, SCHEMA_FRONT_MATTER_KEY, JSON.stringify(input.schema)),
+    ].join('\n');
+  }
+
+  const lines = ['# TODO: Review and customize these recommendations'];
+  if (input.blockType === 'meta' && input.title) {
+    lines.push(formatFrontMatterEntry(format, 'title', input.title));
+  }
+  if (input.blockType === 'meta' && input.description) {
+    lines.push(formatFrontMatterEntry(format, 'description', input.description));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders an answer capsule or FAQ block as Markdown, with notes for the
+ * reviewer as comments in the file's comment syntax.
+ */
+function renderMarkdownBody(input: BlockInput, mdx: boolean): string {
+  const comment = (text: string) => (mdx ? `{/* ${text} */}` : `<!-- ${text} -->`);
+  const escape = (text: string) => escapeMarkdown(text, mdx);
+
+  if (input.blockType === 'answer-capsule') {
+    return [comment('TODO: Review, customize, and position appropriately'), '', escape(input.capsule)].join('\n');
+  }
+  if (input.blockType === 'faq') {
+    const lines = [comment('TODO: Review and verify all FAQ content before publishing'), '## Frequently Asked Questions'];
+    for (const faq of input.faqs) {
+      const placeholderNote = faq.isPlaceholder ? ` ${comment('PLACEHOLDER: Requires real data')}` : '';
+      lines.push('', `### ${escape(faq.question)}`, '', `${escape(faq.answer)}${placeholderNote}`);
+    }
+    return lines.join('\n');
+  }
+  if (isSectionBlock(input)) {
+    const script = mdx ? jsxJsonLdScript(input.section.schemaJsonLd) : jsonLdScript(input.section.schemaJsonLd);
+    return [comment(SECTION_NOTES[input.blockType]), renderMarkdownSection(input, mdx), '', script].join('\n');
+  }
+  return renderHtml(input);
+}
+
+/**
+ * Renders a section block's content as Markdown.
+ */
+function renderMarkdownSection(input: SectionBlockInput, mdx: boolean): string {
+  const escape = (text: string) => escapeMarkdown(text, mdx);
+  const link = (text: string, url: string) => `[${escape(text)}](${sitePath(url).replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)})`;
+  const placeholder = (isPlaceholder: boolean) =>
+    isPlaceholder ? ` ${mdx ? '{/* PLACEHOLDER: Requires real data */}' : '<!-- PLACEHOLDER: Requires real data -->'}` : '';
+
+  switch (input.blockType) {
+    case 'breadcrumbs': {
+      const { items } = input.section;
+      return items
+        .map((item, index) => (index === items.length - 1 ? escape(item.name) : link(item.name, item.url)))
+        .join(' › ');
+    }
+    case 'service-list':
+      return ['## Our Services', '', ...input.section.items.map(service =>
+        `- **${service.url ? link(service.name, service.url) : escape(service.name)}**: ${escape(service.description)}`
+      )].join('\n');
+    case 'how-we-work':
+      return ['## How We Work', '', ...input.section.items.map((step, index) =>
+        `${index + 1}. **${escape(step.title)}**: ${escape(step.description)}`
+      )].join('\n');
+    case 'testimonials':
+      return ['## What Our Customers Say', ...input.section.items.flatMap(testimonial => [
+        '',
+        `> ${escape(testimonial.quote)}${placeholder(testimonial.isPlaceholder)}`,
+        '>',
+        `> — ${escape(testimonial.author)}`,
+      ])].join('\n');
+    case 'team':
+      return ['## Meet the Team', ...input.section.items.flatMap(member => [
+        '',
+        `### ${escape(member.name)}${placeholder(member.isPlaceholder)}`,
+        '',
+        `*${escape(member.role)}*`,
+        '',
+        escape(member.bio),
+      ])].join('\n');
+  }
+}
+
+/**
+ * Finds the end of the first heading's line in the page body: an ATX
+ * (# Heading) or setext (underlined) heading outside code fences, or an
+ * HTML <h1>. Falls back to the start of the body.
+ */
+function findFirstHeadingEnd(content: string): number {
+  const bodyStart = content.length - stripFrontMatter(content).length;
+  const lines = content.slice(bodyStart).split('\n');
+  let offset = bodyStart;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineEnd = offset + line.length;
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      if (/^ {0,3}#{1,6}(\s|$)/.test(line)) {
+        return lineEnd;
+      }
+      if (/^\s*<h1[\s>]/i.test(line)) {
+        // The heading may span lines; stop after the line that closes it
+        const close = content.indexOf('</h1>', offset);
+        const closeLineEnd = close === -1 ? -1 : content.indexOf('\n', close);
+        return close === -1 ? lineEnd : closeLineEnd === -1 ? content.length : closeLineEnd;
+      }
+      const next = lines[i + 1];
+      if (line.trim() !== '' && next !== undefined && /^ {0,3}(=+|-+)\s*$/.test(next)) {
+        return lineEnd + 1 + next.length;
+      }
+    }
+    offset = lineEnd + 1;
+  }
+  return bodyStart;
+}
+
+/**
+ * Content after the front matter, if any.
+ */
+function stripFrontMatter(content: string): string {
+  const location = findFrontMatter(content);
+  if (!location) return content;
+  const closingLineEnd = content.indexOf('\n', location.bodyEnd);
+  return closingLineEnd === -1 ? '' : content.slice(closingLineEnd + 1);
+}
+
+/**
+ * Markdown and MDX pages: title, description and (in Markdown) JSON-LD
+ * go into front matter; the answer capsule follows the first heading and
+ * the FAQ is appended. MDX pages use JSX comments for body markers and a
+ * script element for JSON-LD, as MDX does not allow HTML comments.
+ */
+function createMarkdownStrategy(id: 'markdown' | 'mdx'): PatchStrategy {
+  const mdx = id === 'mdx';
+  const frontMatterBlocks: FrontMatterBlock[] = mdx ? ['meta'] : ['meta', 'schema'];
+  const inFrontMatter = (blockType: BlockType): boolean =>
+    (frontMatterBlocks as BlockType[]).includes(blockType);
+  const markers = (blockType: BlockType): MarkerPair => {
+    if (inFrontMatter(blockType)) return frontMatterMarkers(blockType);
+    return mdx ? jsxMarkers(blockType) : htmlMarkers(blockType);
+  };
+
+  return {
+    id,
+    markers,
+    render: (input, existingContent) => {
+      if (inFrontMatter(input.blockType)) {
+        return renderFrontMatterBlock(input, existingContent);
+      }
+      if (input.blockType === 'schema') {
+        return jsxStrategy.render(input, existingContent);
+      }
+      return renderMarkdownBody(input, mdx);
+    },
+    apply: (content, blockType, blockContent) => {
+      const blockMarkers = markers(blockType);
+      if (inFrontMatter(blockType)) {
+        const patched = applyBetweenMarkers(content, blockContent, blockMarkers, insertIntoFrontMatter);
+        return replaceFrontMatterKeys(patched, listFrontMatterKeys(blockContent), blockMarkers);
+      }
+      return applyBetweenMarkers(content, blockContent, blockMarkers, (existing, wrapped) => {
+        if (blockType === 'answer-capsule') {
+          return insertAt(existing, findFirstHeadingEnd(existing), wrapped);
+        }
+        if (blockType === 'breadcrumbs') {
+          return insertAt(existing, existing.length - stripFrontMatter(existing).length, wrapped);
+        }
+        return insertAt(existing, existing.length, wrapped);
+      });
+    },
+    restore: restoreReplacedKeys,
+    readMeta: content => ({
+      title: readFrontMatterValue(content, 'title'),
+      description: readFrontMatterValue(content, 'description'),
+    }),
+  };
+}
+
+const markdownStrategy = createMarkdownStrategy('markdown');
+const mdxStrategy = createMarkdownStrategy('mdx');
+
+/**
+ * HTML pages that start with front matter: the site's layout builds
+ * <head> from the front matter's title and description, so the meta
+ * block replaces them there, as on a Markdown page. Other blocks are
+ * placed as on any HTML page.
+ */
+const htmlFrontMatterStrategy: PatchStrategy = {
+  id: 'html-front-matter',
+  markers: blockType => (blockType === 'meta' ? frontMatterMarkers(blockType) : htmlMarkers(blockType)),
+  render: (input, existingContent) =>
+    (input.blockType === 'meta' ? markdownStrategy : htmlStrategy).render(input, existingContent),
+  apply: (content, blockType, blockContent) =>
+    (blockType === 'meta' ? markdownStrategy : htmlStrategy).apply(content, blockType, blockContent),
+  restore: restoreReplacedKeys,
+  readMeta: markdownStrategy.readMeta,
+};
+
+/**
+ * Strategy for each known file extension.
+ */
+const STRATEGIES_BY_EXTENSION: Record<string, PatchStrategy> = {
+  astro: astroStrategy,
+  html: htmlStrategy,
+  tsx: jsxStrategy,
+  jsx: jsxStrategy,
+  js: jsxStrategy,
+  md: markdownStrategy,
+  markdown: markdownStrategy,
+  mdx: mdxStrategy,
+};
+
+/**
+ * Returns the strategy for a file extension; HTML for anything unknown.
+ * An HTML file starting with front matter gets the front matter variant,
+ * so callers pass the file's content wherever they have it.
+ */
+export function getPatchStrategy(fileExtension: string, content: string | null = null): PatchStrategy {
+  const strategy = Object.prototype.hasOwnProperty.call(STRATEGIES_BY_EXTENSION, fileExtension)
+    ? STRATEGIES_BY_EXTENSION[fileExtension]
+    : htmlStrategy;
+  return strategy === htmlStrategy && content !== null && findFrontMatter(content)
+    ? htmlFrontMatterStrategy
+    : strategy;
+}
@@ -7,16 +7,38 @@
  * SUPPORTED PROJECT TYPES:
  * - astro-pages: Astro project with src/pages structure
  * - static-html: Static HTML site with direct file structure
+ * - nextjs-app: Next.js app router (app/.../page.tsx)
+ * - nextjs-pages: Next.js pages router (pages/...)
+ * - hugo: Hugo content bundles (content/.../index.md)
+ * - eleventy: Eleventy Markdown templates
+ * - jekyll: Jekyll Markdown pages
  *
  * SUPPORTED ROUTE STRATEGIES:
  * - path-index: URLs map to directory/index.ext structure
  * - flat-html: URLs map to flat file names with hyphen separators
+ *
+ * Hugo, Eleventy and Jekyll pages are Markdown with front matter, so
+ * their title and description are patched there (see patchStrategies).
  */
 
 /**
  * Supported project types for target repository.
  */
-export type ProjectType = 'astro-pages' | 'static-html';
+export type ProjectType =
+  | 'astro-pages'
+  | 'static-html'
+  | 'nextjs-app'
+  | 'nextjs-pages'
+  | 'hugo'
+  | 'eleventy'
+  | 'jekyll';
+
+/**
+ * Every supported project type.
+ */
+export const PROJECT_TYPES: ProjectType[] = [
+  'astro-pages', 'static-html', 'nextjs-app', 'nextjs-pages', 'hugo', 'eleventy', 'jekyll',
+];
 
 /**
  * Supported route strategies for file mapping.
@@ -60,7 +82,7 @@ export class PathMappingError extends Error {
  * Validates that the project type is supported.
  */
 export function isValidProjectType(value: unknown): value is ProjectType {
-  return value === 'astro-pages' || value === 'static-html';
+  return PROJECT_TYPES.includes(value as ProjectType);
 }
 
 /**
@@ -130,75 +152,82 @@ function validatePathSafety(urlPath: string, url: string): void {
 }
 
 /**
- * Maps a URL path to a file path for astro-pages with path-index strategy.
- *
- * Examples:
- * - "/" -> "src/pages/index.astro"
- * - "/about" -> "src/pages/about/index.astro"
- * - "/services/plumbing" -> "src/pages/services/plumbing/index.astro"
+ * Where a project type keeps its pages.
  */
-function mapAstroPagesPathIndex(urlPath: string): string {
-  if (urlPath === '/' || urlPath === '') {
-    return 'src/pages/index.astro';
-  }
-
-  // Remove leading slash
-  const cleanPath = urlPath.replace(/^\//, '');
-  return `src/pages/${cleanPath}/index.astro`;
+interface ProjectLayout {
+  /** Directory holding page files ('' for the repository root) */
+  root: string;
+  fileExtension: string;
+  /** File name (without extension) for a directory's page under path-index */
+  indexName: string;
+  /** File name (without extension) for the site root */
+  homeName: string;
+  routeStrategies: RouteStrategy[];
 }
 
 /**
- * Maps a URL path to a file path for astro-pages with flat-html strategy.
+ * Layouts for every supported project type.
  *
- * Examples:
- * - "/" -> "src/pages/index.astro"
- * - "/about" -> "src/pages/about.astro"
- * - "/services/plumbing" -> "src/pages/services-plumbing.astro"
+ * Next.js app router routes are directories by definition, so it only
+ * supports path-index. Hugo's home page is the _index.md branch bundle;
+ * other pages map to leaf bundles (about/index.md).
  */
-function mapAstroPagesFlat(urlPath: string): string {
-  if (urlPath === '/' || urlPath === '') {
-    return 'src/pages/index.astro';
-  }
-
-  // Remove leading slash and replace remaining slashes with hyphens
-  const cleanPath = urlPath.replace(/^\//, '').replace(/\//g, '-');
-  return `src/pages/${cleanPath}.astro`;
-}
+const PROJECT_LAYOUTS: Record<ProjectType, ProjectLayout> = {
+  'astro-pages': {
+    root: 'src/pages/', fileExtension: 'astro', indexName: 'index', homeName: 'index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+  'static-html': {
+    root: '', fileExtension: 'html', indexName: 'index', homeName: 'index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+  'nextjs-app': {
+    root: 'app/', fileExtension: 'tsx', indexName: 'page', homeName: 'page',
+    routeStrategies: ['path-index'],
+  },
+  'nextjs-pages': {
+    root: 'pages/', fileExtension: 'tsx', indexName: 'index', homeName: 'index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+  'hugo': {
+    root: 'content/', fileExtension: 'md', indexName: 'index', homeName: '_index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+  'eleventy': {
+    root: '', fileExtension: 'md', indexName: 'index', homeName: 'index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+  'jekyll': {
+    root: '', fileExtension: 'md', indexName: 'index', homeName: 'index',
+    routeStrategies: ['path-index', 'flat-html'],
+  },
+};
 
 /**
- * Maps a URL path to a file path for static-html with path-index strategy.
+ * Maps a URL path to a file path within a project layout.
+ *
+ * Examples (astro-pages):
+ * - "/" -> "src/pages/index.astro"
+ * - "/services/plumbing", path-index -> "src/pages/services/plumbing/index.astro"
+ * - "/services/plumbing", flat-html -> "src/pages/services-plumbing.astro"
  *
- * Examples:
- * - "/" -> "index.html"
- * - "/about" -> "about/index.html"
- * - "/services/plumbing" -> "services/plumbing/index.html"
+ * Examples (hugo, path-index):
+ * - "/" -> "content/_index.md"
+ * - "/about" -> "content/about/index.md"
  */
-function mapStaticHtmlPathIndex(urlPath: string): string {
+function mapLayoutPath(urlPath: string, layout: ProjectLayout, routeStrategy: RouteStrategy): string {
   if (urlPath === '/' || urlPath === '') {
-    return 'index.html';
+    return `${layout.root}${layout.homeName}.${layout.fileExtension}`;
   }
 
   // Remove leading slash
   const cleanPath = urlPath.replace(/^\//, '');
-  return `${cleanPath}/index.html`;
-}
-
-/**
- * Maps a URL path to a file path for static-html with flat-html strategy.
- *
- * Examples:
- * - "/" -> "index.html"
- * - "/about" -> "about.html"
- * - "/services/plumbing" -> "services-plumbing.html"
- */
-function mapStaticHtmlFlat(urlPath: string): string {
-  if (urlPath === '/' || urlPath === '') {
-    return 'index.html';
+  if (routeStrategy === 'path-index') {
+    return `${layout.root}${cleanPath}/${layout.indexName}.${layout.fileExtension}`;
   }
 
-  // Remove leading slash and replace remaining slashes with hyphens
-  const cleanPath = urlPath.replace(/^\//, '').replace(/\//g, '-');
-  return `${cleanPath}.html`;
+  // Flat: replace remaining slashes with hyphens
+  return `${layout.root}${cleanPath.replace(/\//g, '-')}.${layout.fileExtension}`;
 }
 
 /**
@@ -217,39 +246,25 @@ export function mapUrlToFilePath(
   const urlPath = extractUrlPath(url);
   validatePathSafety(urlPath, url);
 
-  // Determine file path based on project type and route strategy
-  let filePath: string;
-  let fileExtension: string;
-
-  if (config.projectType === 'astro-pages') {
-    fileExtension = 'astro';
-    if (config.routeStrategy === 'path-index') {
-      filePath = mapAstroPagesPathIndex(urlPath);
-    } else {
-      filePath = mapAstroPagesFlat(urlPath);
-    }
-  } else {
-    // static-html
-    fileExtension = 'html';
-    if (config.routeStrategy === 'path-index') {
-      filePath = mapStaticHtmlPathIndex(urlPath);
-    } else {
-      filePath = mapStaticHtmlFlat(urlPath);
-    }
+  const layout = PROJECT_LAYOUTS[config.projectType];
+  if (!layout.routeStrategies.includes(config.routeStrategy)) {
+    throw new PathMappingError(
+      `${config.projectType} does not support ${config.routeStrategy}`,
+      url,
+      `Route strategy ${config.routeStrategy} is not supported for ${config.projectType}`
+    );
   }
 
-  // Determine if this is an index file
-  const isIndex = filePath.endsWith('/index.astro') ||
-                  filePath.endsWith('/index.html') ||
-                  filePath === 'index.html' ||
-                  filePath === 'src/pages/index.astro';
+  const filePath = mapLayoutPath(urlPath, layout, config.routeStrategy);
+  const fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
 
   return {
     url,
     urlPath,
     filePath,
-    fileExtension,
-    isIndex,
+    fileExtension: layout.fileExtension,
+    isIndex: fileName === `${layout.indexName}.${layout.fileExtension}` ||
+             fileName === `${layout.homeName}.${layout.fileExtension}`,
   };
 }
 
@@ -300,5 +315,9 @@ export function validatePathContractConfig(
   }
 
   const c = config as Record<string, unknown>;
-  return isValidProjectType(c.projectType) && isValidRouteStrategy(c.routeStrategy);
+  return (
+    isValidProjectType(c.projectType) &&
+    isValidRouteStrategy(c.routeStrategy) &&
+    PROJECT_LAYOUTS[c.projectType].routeStrategies.includes(c.routeStrategy)
+  );
 }
@@ -0,0 +1,42 @@
+/**
+ * Repository Provider Registry
+ *
+ * Maps targetRepo.provider to its RepoProvider implementation.
+ * GitHub is the default when no provider is given.
+ */
+
+import type { RepoProvider, RepoProviderConfig, RepoProviderId } from './repoProvider';
+import { createGitHubProvider } from './githubClient';
+import { createGitLabProvider } from './gitlabClient';
+import { createBitbucketProvider } from './bitbucketClient';
+import { createGiteaProvider } from './giteaClient';
+
+export const DEFAULT_REPO_PROVIDER: RepoProviderId = 'github';
+
+/**
+ * Central registry of provider factories.
+ */
+export const REPO_PROVIDERS: Record<RepoProviderId, (config: RepoProviderConfig) => RepoProvider> = {
+  github: createGitHubProvider,
+  gitlab: createGitLabProvider,
+  bitbucket: createBitbucketProvider,
+  gitea: createGiteaProvider,
+};
+
+/**
+ * Validates that a provider ID exists in the registry.
+ */
+export function isValidRepoProvider(id: string): id is RepoProviderId {
+  // Own keys only: IDs come from request bodies
+  return Object.prototype.hasOwnProperty.call(REPO_PROVIDERS, id);
+}
+
+/**
+ * Creates the provider for a target repository.
+ */
+export function createRepoProvider(
+  provider: RepoProviderId | undefined,
+  config: RepoProviderConfig
+): RepoProvider {
+  return REPO_PROVIDERS[provider ?? DEFAULT_REPO_PROVIDER](config);
+}
@@ -0,0 +1,214 @@
+/**
+ * Pull Request Content
+ *
+ * Builds the branch name, title and body for pull-request write-back.
+ * The body is what the repository's reviewers see, so it carries
+ * everything they need to judge the change without the Nico GEO API:
+ * the session summary, each file's review notes, and the action-queue
+ * evidence that explains why each page was chosen.
+ *
+ * Output is plain GitHub-flavoured markdown and deterministic for a
+ * given input.
+ */
+
+import type { PlannedFileChange } from './patchApplier';
+import type { PullRequestResult } from './githubClient';
+
+/**
+ * Branch prefix for pull-request write-back.
+ */
+export const PULL_REQUEST_BRANCH_PREFIX = 'nico-geo/';
+
+/**
+ * GitHub rejects pull request bodies above 65536 characters.
+ */
+const MAX_PULL_REQUEST_BODY_LENGTH = 60000;
+
+/**
+ * Branch, commit and pull request text for one write-back.
+ */
+export interface PullRequestDetails {
+  /** Branch the commit is written to; a retry may add an attempt suffix */
+  branch: string;
+  title: string;
+  body: string;
+  commitMessage: string;
+}
+
+/**
+ * Why a page was selected, from the action queue.
+ */
+export interface PullRequestEvidence {
+  url: string;
+  totalScore: number;
+  recommendedNextAction: string;
+  evidence: string[];
+}
+
+/**
+ * Inputs for buildPullRequestDetails.
+ */
+export interface PullRequestSource {
+  siteUrl: string;
+  /** Review session the change came from, if any */
+  sessionId?: string;
+  changes: Array<Pick<PlannedFileChange, 'url' | 'filePath' | 'action' | 'reviewNotes'>>;
+  evidence: PullRequestEvidence[];
+}
+
+/**
+ * Builds the branch name for a write-back. Session IDs are already
+ * unique; other write-backs use a timestamp.
+ */
+export function buildPullRequestBranch(sessionId?: string, now: Date = new Date()): string {
+  if (sessionId) {
+    return `${PULL_REQUEST_BRANCH_PREFIX}review-${sessionId}`;
+  }
+  return `${PULL_REQUEST_BRANCH_PREFIX}run-${now.toISOString().replace(/[:.]/g, '-')}`;
+}
+
+/**
+ * Builds branch, title, commit message and body for a write-back.
+ */
+export function buildPullRequestDetails(source: PullRequestSource, now: Date = new Date()): PullRequestDetails {
+  const changes = source.changes.filter(c => c.action !== 'no-op');
+  const host = siteLabel(source.siteUrl);
+  const title = `GEO improvements for ${host} (${changes.length} file${changes.length === 1 ? '' : 's'})`;
+
+  return {
+    branch: buildPullRequestBranch(source.sessionId, now),
+    title,
+    commitMessage: source.sessionId
+      ? `${title}\n\nReview session: ${source.sessionId}`
+      : title,
+    body: buildPullRequestBody(source, changes),
+  };
+}
+
+/**
+ * Inputs for buildRevertPullRequestDetails.
+ */
+export interface RevertPullRequestSource {
+  siteUrl: string;
+  sessionId: string;
+  /** Files given back their original content */
+  restoredFiles: string[];
+  /** Files that keep later edits but lose their marker blocks */
+  strippedFiles: string[];
+  /** Files the session created, deleted again */
+  deletedFiles: string[];
+  /** Commits or pull request being reverted */
+  commitShas: string[];
+  pullRequest?: PullRequestResult;
+}
+
+/**
+ * Builds branch, title, commit message and body for reverting a
+ * review session's write-back.
+ */
+export function buildRevertPullRequestDetails(source: RevertPullRequestSource): PullRequestDetails {
+  const count = source.restoredFiles.length + source.strippedFiles.length + source.deletedFiles.length;
+  const title = `Revert GEO improvements for ${siteLabel(source.siteUrl)} (${count} file${count === 1 ? '' : 's'})`;
+
+  const lines: string[] = [];
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- Site: ${source.siteUrl}`);
+  lines.push(`- Review session: \`${source.sessionId}\``);
+  if (source.pullRequest) {
+    lines.push(`- Reverts: ${source.pullRequest.url}`);
+  }
+  if (source.commitShas.length > 0) {
+    lines.push(`- Reverted commits: ${source.commitShas.map(sha => `\`${sha}\``).join(', ')}`);
+  }
+  lines.push('');
+
+  lines.push('## Files');
+  lines.push('');
+  for (const filePath of source.restoredFiles) {
+    lines.push(`- \`${filePath}\` - restored to its content before the session`);
+  }
+  for (const filePath of source.strippedFiles) {
+    lines.push(`- \`${filePath}\` - \`nico-geo:block\` sections removed; other edits kept`);
+  }
+  for (const filePath of source.deletedFiles) {
+    lines.push(`- \`${filePath}\` - deleted; the session created it`);
+  }
+  lines.push('');
+  lines.push('---');
+  lines.push('Generated by Nico GEO.');
+
+  return {
+    branch: `${PULL_REQUEST_BRANCH_PREFIX}revert-${source.sessionId}`,
+    title,
+    commitMessage: `${title}\n\nReview session: ${source.sessionId}`,
+    body: lines.join('\n'),
+  };
+}
+
+/**
+ * Renders the pull request body.
+ */
+function buildPullRequestBody(
+  source: PullRequestSource,
+  changes: PullRequestSource['changes']
+): string {
+  const lines: string[] = [];
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- Site: ${source.siteUrl}`);
+  if (source.sessionId) {
+    lines.push(`- Review session: \`${source.sessionId}\``);
+  }
+  lines.push(`- Files created: ${changes.filter(c => c.action === 'create').length}`);
+  lines.push(`- Files updated: ${changes.filter(c => c.action === 'update').length}`);
+  lines.push('');
+
+  lines.push('## Files');
+  lines.push('');
+  for (const change of changes) {
+    lines.push(`### \`${change.filePath}\` (${change.action})`);
+    lines.push('');
+    lines.push(`Page: ${change.url}`);
+    lines.push('');
+    if (change.reviewNotes.length > 0) {
+      lines.push('Review notes:');
+      for (const note of change.reviewNotes) {
+        lines.push(`- ${note}`);
+      }
+      lines.push('');
+    }
+  }
+
+  const changedUrls = new Set(changes.map(c => c.url));
+  const evidence = source.evidence.filter(e => changedUrls.has(e.url));
+  if (evidence.length > 0) {
+    lines.push('## Why these pages');
+    lines.push('');
+    for (const item of evidence) {
+      lines.push(`- **${item.url}** - score ${item.totalScore}, next action: ${item.recommendedNextAction}`);
+      for (const reason of item.evidence) {
+        lines.push(`  - ${reason}`);
+      }
+    }
+    lines.push('');
+  }
+
+  lines.push('---');
+  lines.push('Generated by Nico GEO. Every block is marked with `nico-geo:block` comments; review TODO markers before merging.');
+
+  const body = lines.join('\n');
+  if (body.length <= MAX_PULL_REQUEST_BODY_LENGTH) {
+    return body;
+  }
+  return `${body.slice(0, MAX_PULL_REQUEST_BODY_LENGTH)}\n\n... (truncated)`;
+}
+
+function siteLabel(siteUrl: string): string {
+  try {
+    return new URL(siteUrl).hostname;
+  } catch {
+    return siteUrl;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Repository Provider Interface
+ *
+ * Write-back talks to a git host through a RepoProvider, so the planner,
+ * review sessions and apply flows do not depend on GitHub. Implementations:
+ * - github: githubClient.ts (default)
+ * - gitlab: gitlabClient.ts (GitLab.com or self-managed)
+ * - bitbucket: bitbucketClient.ts (Bitbucket Cloud)
+ * - gitea: giteaClient.ts (self-hosted; baseUrl required)
+ *
+ * REPOSITORY ADDRESSING:
+ * - owner: GitHub/Gitea owner, GitLab namespace (may contain '/'),
+ *   Bitbucket workspace
+ * - repo: repository name, GitLab project path or Bitbucket repo slug
+ * - branch: branch write-back targets (or merges into)
+ *
+ * Providers are created through providerRegistry.ts.
+ */
+
+import type { TargetRepo, CommitResult, TreeCommitResult, PullRequestResult } from './githubClient';
+import type { PullRequestDetails } from './pullRequest';
+
+/**
+ * Supported git hosts.
+ */
+export type RepoProviderId = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+/**
+ * Configuration shared by every provider.
+ */
+export interface RepoProviderConfig {
+  token: string;
+  target: TargetRepo;
+  /** Instance root URL for self-hosted GitLab or Gitea, e.g. https://git.example.com */
+  baseUrl?: string;
+}
+
+/**
+ * A file read from the target branch.
+ */
+export interface RepoFile {
+  path: string;
+  content: string;
+  /** Provider's blob ID, where the API exposes one */
+  sha?: string;
+}
+
+/**
+ * Where a pull/merge request stands. Closed means closed without merging.
+ */
+export type MergeRequestState = 'open' | 'merged' | 'closed';
+
+/**
+ * Operations write-back needs from a git host.
+ */
+export interface RepoProvider {
+  readonly id: RepoProviderId;
+  readonly config: RepoProviderConfig;
+  /** Reads a file from the target branch; null if it does not exist */
+  readFile(path: string): Promise<RepoFile | null>;
+  /** Lists the path of every file (blob) on the target branch */
+  listFiles(): Promise<string[]>;
+  /**
+   * Writes files straight to the target branch. GitHub makes one commit
+   * per file; other hosts make one commit with a combined message.
+   */
+  writeFiles(files: Array<{ path: string; content: string; message: string }>): Promise<CommitResult[]>;
+  /**
+   * Deletes files straight from the target branch, with the same commit
+   * granularity as writeFiles.
+   */
+  deleteFiles(files: Array<{ path: string; message: string }>): Promise<CommitResult[]>;
+  /**
+   * Creates details.branch from the target branch, commits every file to
+   * it in one commit, and opens a pull/merge request into the target branch.
+   * Paths in deletedPaths are removed in the same commit. If the branch
+   * is left over from an earlier attempt, see resolveMergeRequestBranch;
+   * the result names the branch actually used.
+   */
+  openMergeRequest(
+    files: Array<{ path: string; content: string }>,
+    details: PullRequestDetails,
+    deletedPaths?: string[]
+  ): Promise<{ commit: TreeCommitResult; pullRequest: PullRequestResult }>;
+  /** Reads whether a pull/merge request is open, merged or closed */
+  getMergeRequestState(number: number): Promise<MergeRequestState>;
+  /** Closes a pull/merge request without merging it */
+  closeMergeRequest(number: number): Promise<void>;
+  /** Throws a RepoProviderError unless the token can push to the repository */
+  verifyWriteAccess(): Promise<void>;
+}
+
+/**
+ * Error thrown when a git host's API returns an error.
+ */
+export class RepoProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly provider: RepoProviderId,
+    public readonly response?: unknown
+  ) {
+    super(message);
+    this.name = 'RepoProviderError';
+  }
+}
+
+/**
+ * Most branch names tried before openMergeRequest gives up.
+ */
+const MAX_BRANCH_ATTEMPTS = 20;
+
+/**
+ * Picks the branch a merge request is written to. A retry after a partial
+ * failure finds the branch from the earlier attempt: it is reused while it
+ * still points at the base commit (nothing was committed to it). A branch
+ * with a commit on it may hold an earlier version of the change, so the
+ * next free name with an attempt suffix (-2, -3, ...) is used instead.
+ *
+ * @param getHead - Commit a branch points to, or null if it does not exist
+ * @returns The branch name, and whether it already exists (at baseSha)
+ */
+export async function resolveMergeRequestBranch(
+  provider: RepoProviderId,
+  branch: string,
+  baseSha: string,
+  getHead: (name: string) => Promise<string | null>
+): Promise<{ branch: string; exists: boolean }> {
+  for (let attempt = 1; attempt <= MAX_BRANCH_ATTEMPTS; attempt++) {
+    const name = attempt === 1 ? branch : `${branch}-${attempt}`;
+    const head = await getHead(name);
+    if (head === null) {
+      return { branch: name, exists: false };
+    }
+    if (head === baseSha) {
+      return { branch: name, exists: true };
+    }
+  }
+  throw new RepoProviderError(
+    `Branch ${branch} and ${MAX_BRANCH_ATTEMPTS - 1} attempt branches already exist`,
+    409,
+    provider
+  );
+}
+
+/**
+ * User agent for provider API requests.
+ */
+export const PROVIDER_USER_AGENT = 'NicoGeoBot/1.0 (Repository Write-Back)';
+
+/**
+ * Validates that required configuration is present.
+ */
+export function validateProviderConfig(provider: RepoProviderId, config: RepoProviderConfig): void {
+  if (!config.token) {
+    throw new RepoProviderError('Repository token is required for write-back operations', 401, provider);
+  }
+  if (!config.target.owner) {
+    throw new RepoProviderError('Target repository owner is required', 400, provider);
+  }
+  if (!config.target.repo) {
+    throw new RepoProviderError('Target repository name is required', 400, provider);
+  }
+  if (!config.target.branch) {
+    throw new RepoProviderError('Target branch is required', 400, provider);
+  }
+}
+
+/**
+ * Commit message for several files written in one commit.
+ */
+export function combineCommitMessages(files: Array<{ path: string; message: string }>): string {
+  if (files.length === 1) {
+    return files[0].message;
+  }
+  return [
+    `GEO improvements: ${files.length} files`,
+    '',
+    ...files.map(f => `- ${f.path}: ${f.message}`),
+  ].join('\n');
+}
+
+/**
+ * Lists one CommitResult per file for a single multi-file commit.
+ */
+export function perFileCommits(
+  files: Array<{ path: string }>,
+  commit: { sha: string; message: string; url: string }
+): CommitResult[] {
+  return files.map(f => ({ sha: commit.sha, path: f.path, message: commit.message, url: commit.url }));
+}
+
+/**
+ * Strips trailing slashes from a base URL.
+ */
+export function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Encodes each segment of a repository file path for use in a URL.
+ */
+export function encodeFilePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Makes a provider API request and maps HTTP failures to RepoProviderError.
+ * Returns the parsed JSON body, the raw text when `raw` is set, or an empty
+ * object for bodiless responses.
+ */
+export async function providerRequest<T>(
+  provider: RepoProviderId,
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: { json: unknown } | { form: URLSearchParams },
+  options: { raw?: boolean } = {}
+): Promise<{ data: T; response: Response }> {
+  const init: RequestInit = {
+    method,
+    headers: { 'User-Agent': PROVIDER_USER_AGENT, ...headers },
+  };
+  if (body && 'json' in body) {
+    init.headers = { ...init.headers, 'Content-Type': 'application/json' };
+    init.body = JSON.stringify(body.json);
+  } else if (body) {
+    init.headers = { ...init.headers, 'Content-Type': 'application/x-www-form-urlencoded' };
+    init.body = body.form.toString();
+  }
+
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const text = await response.text();
+    let errorBody: unknown = text;
+    try {
+      errorBody = JSON.parse(text);
+    } catch {
+      // Keep the text body
+    }
+    throw new RepoProviderError(describeStatus(provider, response.status), response.status, provider, errorBody);
+  }
+
+  if (options.raw) {
+    return { data: await response.text() as unknown as T, response };
+  }
+  const text = await response.text();
+  return { data: (text ? JSON.parse(text) : {}) as T, response };
+}
+
+/**
+ * Error messages for common HTTP failures.
+ */
+function describeStatus(provider: RepoProviderId, status: number): string {
+  switch (status) {
+    case 401:
+      return `${provider} authentication failed. Check that the token is valid and has required permissions.`;
+    case 403:
+      return `${provider} permission denied. Token may lack write access to the repository.`;
+    case 404:
+      return `${provider} resource not found. Check repository name, owner, and branch.`;
+    case 409:
+    case 422:
+      return `${provider} rejected the request. The branch or file may already exist or have changed.`;
+    default:
+      return `${provider} API error: HTTP ${status}`;
+  }
+}
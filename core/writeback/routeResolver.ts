@@ -0,0 +1,424 @@
+/**
+ * Route Resolver
+ *
+ * Maps crawled URLs to the source files that actually exist in the
+ * target repository. mapUrlToFilePath only knows the path contract, so
+ * for /about it proposes src/pages/about/index.astro even when the page
+ * lives in src/pages/about.astro; the resolver lists the repository tree
+ * once and matches URLs against the routes those files define.
+ *
+ * RESOLUTION ORDER (per URL):
+ * 1. A page file whose route is the URL path (the contract path wins ties)
+ * 2. A dynamic route ([slug], [...rest]) whose content entry exists:
+ *    Astro content collections (src/content/{collection}/{id}.md)
+ * 3. Otherwise the URL is unmapped and reported with candidate files;
+ *    nothing is written for it
+ *
+ * Route files per project type follow each framework's conventions:
+ * Next.js route groups and private folders, Astro's _-prefixed files,
+ * Hugo's _index.md branch bundles, Jekyll and Eleventy underscore
+ * directories.
+ */
+
+import {
+  mapUrlToFilePath,
+  PathMappingError,
+} from './pathContract';
+import type { PathContractConfig, PathMappingResult, ProjectType } from './pathContract';
+
+/**
+ * How a resolved URL was matched.
+ */
+export type RouteSource = 'page' | 'collection';
+
+/**
+ * A URL matched to an existing repository file.
+ */
+export interface ResolvedRoute extends PathMappingResult {
+  source: RouteSource;
+}
+
+/**
+ * A URL no repository file could be matched to.
+ */
+export interface UnmappedRoute {
+  url: string;
+  reason: string;
+  /** Files that might hold the page, for a human to pick from */
+  candidates: string[];
+}
+
+/**
+ * One segment of a file-defined route.
+ */
+type RouteSegment =
+  | { kind: 'static'; value: string }
+  | { kind: 'param' }
+  | { kind: 'rest'; optional: boolean };
+
+/**
+ * A page route defined by a repository file.
+ */
+interface FileRoute {
+  filePath: string;
+  fileExtension: string;
+  isIndex: boolean;
+  segments: RouteSegment[];
+}
+
+/**
+ * An Astro content collection entry.
+ */
+interface CollectionEntry {
+  filePath: string;
+  fileExtension: string;
+  collection: string;
+  /** Entry ID: path within the collection, without extension */
+  id: string;
+}
+
+/**
+ * Repository routes for one path contract, built once per tree.
+ */
+export interface RouteIndex {
+  config: PathContractConfig;
+  routes: FileRoute[];
+  entries: CollectionEntry[];
+}
+
+/**
+ * Where a project type keeps route files.
+ */
+interface RouteSourceLayout {
+  roots: string[];
+  extensions: string[];
+  /** File names (without extension) that stand for their directory */
+  indexNames: string[];
+  /** Only files with one of these names define routes (Next.js app router) */
+  pageNames?: string[];
+  /** Path segments whose files are not routes */
+  ignoreSegment: (segment: string) => boolean;
+  /** Segments left out of the URL (Next.js route groups) */
+  omitSegment?: (segment: string) => boolean;
+  collectionRoot?: string;
+}
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+
+const isHidden = (segment: string) => segment.startsWith('.') || segment === 'node_modules';
+const isUnderscored = (segment: string) => isHidden(segment) || segment.startsWith('_');
+
+const ROUTE_SOURCES: Record<ProjectType, RouteSourceLayout> = {
+  'astro-pages': {
+    roots: ['src/pages/'],
+    extensions: ['astro', 'md', 'mdx', 'html'],
+    indexNames: ['index'],
+    ignoreSegment: isUnderscored,
+    collectionRoot: 'src/content/',
+  },
+  'static-html': {
+    roots: [''],
+    extensions: ['html'],
+    indexNames: ['index'],
+    ignoreSegment: isHidden,
+  },
+  'nextjs-app': {
+    roots: ['app/', 'src/app/'],
+    extensions: ['tsx', 'jsx', 'js'],
+    indexNames: ['page'],
+    pageNames: ['page'],
+    ignoreSegment: segment => isUnderscored(segment) || segment.startsWith('@'),
+    omitSegment: segment => /^\(.*\)$/.test(segment),
+  },
+  'nextjs-pages': {
+    roots: ['pages/', 'src/pages/'],
+    extensions: ['tsx', 'jsx', 'js'],
+    indexNames: ['index'],
+    ignoreSegment: segment => isUnderscored(segment) || segment === 'api',
+  },
+  'hugo': {
+    roots: ['content/'],
+    extensions: [...MARKDOWN_EXTENSIONS, 'html'],
+    indexNames: ['index', '_index'],
+    ignoreSegment: isHidden,
+  },
+  'eleventy': {
+    roots: [''],
+    extensions: [...MARKDOWN_EXTENSIONS, 'html'],
+    indexNames: ['index'],
+    ignoreSegment: segment => isUnderscored(segment) || segment === 'README',
+  },
+  'jekyll': {
+    roots: [''],
+    extensions: [...MARKDOWN_EXTENSIONS, 'html'],
+    indexNames: ['index'],
+    ignoreSegment: segment => isUnderscored(segment) || segment === 'README' || segment === 'vendor',
+  },
+};
+
+/**
+ * Maximum candidates reported per unmapped URL.
+ */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Splits a file name into name and extension.
+ */
+function splitExtension(fileName: string): { name: string; extension: string } {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0
+    ? { name: fileName.slice(0, dot), extension: fileName.slice(dot + 1) }
+    : { name: fileName, extension: '' };
+}
+
+/**
+ * Parses a file-route segment: [slug], [...rest] and [[...rest]].
+ */
+function parseSegment(segment: string): RouteSegment {
+  if (/^\[\[\.\.\..+\]\]$/.test(segment)) return { kind: 'rest', optional: true };
+  if (/^\[\.\.\..+\]$/.test(segment)) return { kind: 'rest', optional: false };
+  if (/^\[.+\]$/.test(segment)) return { kind: 'param' };
+  return { kind: 'static', value: segment };
+}
+
+/**
+ * Derives the route a file defines, or null if it is not a route file.
+ */
+function toFileRoute(filePath: string, layout: RouteSourceLayout): FileRoute | null {
+  const root = layout.roots.find(r => filePath.startsWith(r));
+  if (root === undefined) return null;
+
+  const parts = filePath.slice(root.length).split('/');
+  const { name, extension } = splitExtension(parts.pop() ?? '');
+  if (!layout.extensions.includes(extension)) return null;
+  if (layout.pageNames && !layout.pageNames.includes(name)) return null;
+
+  const isIndex = layout.indexNames.includes(name);
+  if (parts.some(layout.ignoreSegment) || (!isIndex && layout.ignoreSegment(name))) return null;
+
+  const routeParts = (isIndex ? parts : [...parts, name])
+    .filter(part => !layout.omitSegment?.(part));
+
+  return {
+    filePath,
+    fileExtension: extension,
+    isIndex,
+    segments: routeParts.map(parseSegment),
+  };
+}
+
+/**
+ * Derives a content collection entry from a file, or null.
+ */
+function toCollectionEntry(filePath: string, collectionRoot: string): CollectionEntry | null {
+  if (!filePath.startsWith(collectionRoot)) return null;
+
+  const parts = filePath.slice(collectionRoot.length).split('/');
+  const { name, extension } = splitExtension(parts.pop() ?? '');
+  if (!['md', 'mdx'].includes(extension) || parts.length === 0) return null;
+  if ([...parts, name].some(isUnderscored)) return null;
+
+  const [collection, ...dirs] = parts;
+  const idParts = name === 'index' && dirs.length > 0 ? dirs : [...dirs, name];
+  return { filePath, fileExtension: extension, collection, id: idParts.join('/') };
+}
+
+/**
+ * Indexes the routes defined by a repository tree.
+ *
+ * @param files - Every file path on the target branch
+ * @param config - The path contract configuration
+ */
+export function buildRouteIndex(files: string[], config: PathContractConfig): RouteIndex {
+  const layout = ROUTE_SOURCES[config.projectType];
+  const sortedFiles = [...files].sort();
+  const routes: FileRoute[] = [];
+  const entries: CollectionEntry[] = [];
+
+  for (const filePath of sortedFiles) {
+    const route = toFileRoute(filePath, layout);
+    if (route) {
+      routes.push(route);
+      continue;
+    }
+    const entry = layout.collectionRoot ? toCollectionEntry(filePath, layout.collectionRoot) : null;
+    if (entry) entries.push(entry);
+  }
+
+  return { config, routes, entries };
+}
+
+/**
+ * Splits a URL path into decoded segments, treating /about.html and
+ * /about/index.html as /about.
+ */
+function urlSegments(urlPath: string): string[] {
+  const segments = urlPath.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+
+  const last = segments.length > 0 ? splitExtension(segments[segments.length - 1]) : null;
+  if (last && (last.extension === 'html' || last.extension === 'htm')) {
+    segments.pop();
+    if (last.name !== 'index') segments.push(last.name);
+  }
+  return segments;
+}
+
+/**
+ * Matches URL segments against route segments. Returns the segments
+ * captured by parameters, or null when the route does not match.
+ */
+function matchRoute(route: RouteSegment[], segments: string[]): string[] | null {
+  const captured: string[] = [];
+  for (let i = 0; i < route.length; i++) {
+    const part = route[i];
+    if (part.kind === 'rest') {
+      const rest = segments.slice(i);
+      if (rest.length === 0 && !part.optional) return null;
+      return [...captured, ...rest];
+    }
+    if (i >= segments.length) return null;
+    if (part.kind === 'static' && part.value !== segments[i]) return null;
+    if (part.kind === 'param') captured.push(segments[i]);
+  }
+  return route.length === segments.length ? captured : null;
+}
+
+/**
+ * Orders dynamic routes most specific first: static segments beat
+ * parameters, which beat catch-alls.
+ */
+function compareSpecificity(a: FileRoute, b: FileRoute): number {
+  const rank = (segment: RouteSegment | undefined) =>
+    segment === undefined ? 3 : segment.kind === 'static' ? 0 : segment.kind === 'param' ? 1 : 2;
+  const length = Math.max(a.segments.length, b.segments.length);
+  for (let i = 0; i < length; i++) {
+    const diff = rank(a.segments[i]) - rank(b.segments[i]);
+    if (diff !== 0) return diff;
+  }
+  return a.filePath.localeCompare(b.filePath);
+}
+
+/**
+ * Finds the collection entries a dynamic route renders for a URL. The
+ * collection named after the route's last static segment is preferred.
+ */
+function findCollectionEntries(index: RouteIndex, route: FileRoute, captured: string[]): CollectionEntry[] {
+  const id = captured.join('/');
+  const matches = index.entries.filter(entry => entry.id === id);
+  const statics = route.segments.filter(s => s.kind === 'static') as Array<{ value: string }>;
+  const collection = statics[statics.length - 1]?.value;
+  const preferred = matches.filter(entry => entry.collection === collection);
+  return preferred.length > 0 ? preferred : matches;
+}
+
+/**
+ * Files whose route or path mentions the URL's last segment.
+ */
+function findCandidates(index: RouteIndex, segments: string[]): string[] {
+  const last = segments[segments.length - 1];
+  if (!last) {
+    return index.routes.filter(route => route.segments.length === 0).map(route => route.filePath)
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  const needle = last.toLowerCase();
+  const files = [...index.routes.map(r => r.filePath), ...index.entries.map(e => e.filePath)];
+  return files
+    .filter(filePath => filePath.toLowerCase().split('/').some(part => part.includes(needle)))
+    .sort()
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Resolves one URL against the repository routes.
+ */
+export function resolveRoute(
+  url: string,
+  index: RouteIndex
+): { resolved: ResolvedRoute } | { unmapped: UnmappedRoute } {
+  let contract: PathMappingResult;
+  try {
+    contract = mapUrlToFilePath(url, index.config);
+  } catch (err) {
+    const reason = err instanceof PathMappingError ? err.reason : 'Unknown mapping error';
+    return { unmapped: { url, reason, candidates: [] } };
+  }
+
+  const segments = urlSegments(contract.urlPath);
+  const toResolved = (
+    file: { filePath: string; fileExtension: string },
+    isIndex: boolean,
+    source: RouteSource
+  ): { resolved: ResolvedRoute } => ({
+    resolved: { ...contract, filePath: file.filePath, fileExtension: file.fileExtension, isIndex, source },
+  });
+
+  // 1. Static page files
+  const pages = index.routes.filter(route =>
+    route.segments.every(s => s.kind === 'static') && matchRoute(route.segments, segments) !== null
+  );
+  if (pages.length > 0) {
+    const page = pages.find(p => p.filePath === contract.filePath) ?? pages[0];
+    return toResolved(page, page.isIndex, 'page');
+  }
+
+  // 2. Dynamic routes backed by a content entry
+  const dynamic = index.routes
+    .filter(route => !route.segments.every(s => s.kind === 'static'))
+    .sort(compareSpecificity);
+  for (const route of dynamic) {
+    const captured = matchRoute(route.segments, segments);
+    if (captured === null) continue;
+
+    const entries = findCollectionEntries(index, route, captured);
+    if (entries.length === 1) {
+      return toResolved(entries[0], false, 'collection');
+    }
+    return {
+      unmapped: {
+        url,
+        reason: entries.length > 1
+          ? `Several content entries match ${route.filePath}`
+          : `Rendered by dynamic route ${route.filePath}, but no content entry was found`,
+        candidates: [route.filePath, ...entries.map(e => e.filePath)].slice(0, MAX_CANDIDATES),
+      },
+    };
+  }
+
+  // 3. Nothing in the repository serves this URL
+  return {
+    unmapped: {
+      url,
+      reason: 'No source file in the repository matches this URL',
+      candidates: findCandidates(index, segments),
+    },
+  };
+}
+
+/**
+ * Resolves several URLs, in sorted order, against the repository routes.
+ */
+export function resolveRoutes(
+  urls: string[],
+  index: RouteIndex
+): { resolved: ResolvedRoute[]; unmapped: UnmappedRoute[] } {
+  const resolved: ResolvedRoute[] = [];
+  const unmapped: UnmappedRoute[] = [];
+
+  for (const url of [...urls].sort()) {
+    const result = resolveRoute(url, index);
+    if ('resolved' in result) {
+      resolved.push(result.resolved);
+    } else {
+      unmapped.push(result.unmapped);
+    }
+  }
+
+  return { resolved, unmapped };
+}
@@ -13,6 +13,26 @@ export interface BusinessInput {
     serviceAreas: string[];
   };
 
+  // Optional branches for multi-location businesses.
+  // `location` above remains the primary (head office) location.
+  locations?: {
+    id: string;
+    name?: string;
+    address: {
+      streetAddress?: string;
+      city: string;
+      region?: string;
+      postalCode?: string;
+      country: string;
+    };
+    phone?: string;
+    email?: string;
+    operatingHours?: string;
+    services?: string[];
+    serviceAreas?: string[];
+    url?: string;
+  }[];
+
   contact: {
     phone?: string;
     email?: string;
@@ -92,3 +112,5 @@ export interface BusinessInput {
     allowedSources?: string[];
   };
 }
+
+export type BusinessLocation = NonNullable<BusinessInput['locations']>[number];
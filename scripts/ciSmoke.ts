@@ -158,6 +158,80 @@ async function main() {
     assert(result.filePath === 'src/pages/index.astro', `Unexpected path: ${result.filePath}`);
   });
 
+  await test('maps Next.js, Hugo, Eleventy and Jekyll layouts', () => {
+    const { mapUrlToFilePath, validatePathContractConfig } = require('../core/writeback/pathContract');
+    const cases: Array<[string, string, string, string]> = [
+      ['nextjs-app', 'path-index', '/', 'app/page.tsx'],
+      ['nextjs-app', 'path-index', '/services/plumbing', 'app/services/plumbing/page.tsx'],
+      ['nextjs-pages', 'path-index', '/about', 'pages/about/index.tsx'],
+      ['nextjs-pages', 'flat-html', '/services/plumbing', 'pages/services-plumbing.tsx'],
+      ['hugo', 'path-index', '/', 'content/_index.md'],
+      ['hugo', 'path-index', '/about', 'content/about/index.md'],
+      ['eleventy', 'flat-html', '/about', 'about.md'],
+      ['jekyll', 'path-index', '/about', 'about/index.md'],
+    ];
+    for (const [projectType, routeStrategy, path, expected] of cases) {
+      const result = mapUrlToFilePath(`https://example.com${path}`, { projectType, routeStrategy });
+      assertEqual(result.filePath, expected, `${projectType} ${routeStrategy} ${path}`);
+    }
+    assert(!validatePathContractConfig({ projectType: 'nextjs-app', routeStrategy: 'flat-html' }),
+      'App router routes are always directories');
+  });
+
+  await test('resolves URLs to existing repository files', () => {
+    const { buildRouteIndex, resolveRoutes } = require('../core/writeback/routeResolver');
+    const index = buildRouteIndex([
+      'src/pages/index.astro',
+      'src/pages/about.astro',
+      'src/pages/services/index.astro',
+      'src/pages/blog/[slug].astro',
+      'src/pages/team/[member].astro',
+      'src/pages/_draft.astro',
+      'src/content/blog/first-post.md',
+      'src/content/config.ts',
+      'src/components/About.astro',
+    ], { projectType: 'astro-pages', routeStrategy: 'path-index' });
+
+    const { resolved, unmapped } = resolveRoutes([
+      'https://example.com/',
+      'https://example.com/about/',
+      'https://example.com/services',
+      'https://example.com/blog/first-post',
+      'https://example.com/team/alice',
+      'https://example.com/about-us',
+      'https://example.com/_draft',
+    ], index);
+
+    const paths = Object.fromEntries(resolved.map((r: { urlPath: string; filePath: string }) => [r.urlPath, r.filePath]));
+    assertEqual(paths['/'], 'src/pages/index.astro', 'Root should map to the index page');
+    assertEqual(paths['/about'], 'src/pages/about.astro', 'Existing flat file should win over the contract path');
+    assertEqual(paths['/services'], 'src/pages/services/index.astro', 'Index pages should match');
+    assertEqual(paths['/blog/first-post'], 'src/content/blog/first-post.md', 'Dynamic routes should map to collection entries');
+    assertEqual(resolved.find((r: { urlPath: string }) => r.urlPath === '/blog/first-post').fileExtension, 'md', 'Entry extension should be used');
+
+    const byUrl = Object.fromEntries(unmapped.map((u: { url: string }) => [u.url, u]));
+    assert(byUrl['https://example.com/team/alice'].reason.includes('[member].astro'), 'Dynamic route without an entry should be named');
+    assertEqual(byUrl['https://example.com/team/alice'].candidates[0], 'src/pages/team/[member].astro', 'Template should be a candidate');
+    assert(byUrl['https://example.com/about-us'].candidates.length === 0, 'Unrelated URL should have no candidates');
+    assert(byUrl['https://example.com/_draft'] !== undefined, 'Underscored files are not routes');
+  });
+
+  await test('resolves Next.js app router groups and dynamic segments', () => {
+    const { buildRouteIndex, resolveRoute } = require('../core/writeback/routeResolver');
+    const index = buildRouteIndex([
+      'app/(marketing)/about/page.tsx',
+      'app/layout.tsx',
+      'app/docs/[...path]/page.tsx',
+      'app/_components/Card.tsx',
+    ], { projectType: 'nextjs-app', routeStrategy: 'path-index' });
+
+    assertEqual(resolveRoute('https://example.com/about', index).resolved.filePath, 'app/(marketing)/about/page.tsx', 'Route groups should be left out of URLs');
+    const docs = resolveRoute('https://example.com/docs/setup/install', index).unmapped;
+    assertEqual(docs.candidates[0], 'app/docs/[...path]/page.tsx', 'Catch-all route should be a candidate');
+    const missing = resolveRoute('https://example.com/card', index).unmapped;
+    assertEqual(missing.candidates.length, 0, 'Private folders are not routes');
+  });
+
   // ========================================
   // Test 4: Patch Applier
   // ========================================
@@ -169,6 +243,644 @@ async function main() {
     assert(typeof generatePatches === 'function', 'generatePatches should be a function');
   });
 
+  function improvementFor(url: string) {
+    return {
+      url,
+      currentState: { title: null, metaDescription: null, h1: null, hasSchema: false, contentLength: 0 },
+      recommendedTitle: 'Plumbing in Austin | Acme',
+      recommendedMetaDescription: 'Acme fixes "leaks" across Austin.',
+      suggestedAdditions: {
+        answerCapsule: 'Acme Plumbing serves Austin {24/7}.',
+        schemaJsonLd: { '@context': 'https://schema.org', '@type': 'Plumber', name: 'Acme' },
+      },
+      priorityActions: [],
+      estimatedImpact: 'high',
+    };
+  }
+
+  await test('front matter pages get title and description in front matter', () => {
+    const { planPatches, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const yaml = '---\ntitle: Old title\ndescription: >-\n  Old\n  description\nlayout: page\n---\n\n# About\n';
+    const toml = '+++\ntitle = "Old"\n+++\n\nBody\n';
+    const plan = planPatches(
+      [improvementFor('https://example.com/about'), improvementFor('https://example.com/team')],
+      new Map([['content/about/index.md', yaml], ['content/team/index.md', toml]]),
+      { pathContract: { projectType: 'hugo', routeStrategy: 'path-index' } }
+    );
+    const [about, team] = plan.plannedChanges;
+    const frontMatter = about.newContent.split('\n---\n')[0];
+    assert(frontMatter.includes('title: "Plumbing in Austin | Acme"'), 'Title should be set in front matter');
+    assert(frontMatter.includes('description: "Acme fixes \\"leaks\\" across Austin."'), 'Description should be quoted');
+    assert(frontMatter.includes('# nico-geo:replaced title: Old title'), 'Old title should be commented out');
+    assert(frontMatter.includes('# nico-geo:replaced   description'), 'Block scalar lines go with their key');
+    assert(frontMatter.includes('\nlayout: page'), 'Unrelated keys should stay');
+    assert(!about.newContent.includes('Recommended Title'), 'Meta should not be written to the body');
+    assert(team.newContent.includes('title = "Plumbing in Austin | Acme"'), 'TOML front matter should use TOML');
+    assertEqual(stripMarkerBlocks(about.newContent, 'md'), yaml, 'Stripping should restore the original page');
+
+    const again = planPatches([improvementFor('https://example.com/about')],
+      new Map([['content/about/index.md', about.newContent]]),
+      { pathContract: { projectType: 'hugo', routeStrategy: 'path-index' } });
+    assertEqual(again.plannedChanges[0].action, 'no-op', 'Re-applying should be idempotent');
+  });
+
+  await test('HTML pages with front matter get title and description in front matter', () => {
+    const { planPatches, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const { buildRouteIndex } = require('../core/writeback/routeResolver');
+    const pathContract = { projectType: 'jekyll', routeStrategy: 'flat-html' };
+    const page = '---\nlayout: default\ntitle: Old title\n---\n<section>\n  <h1>About</h1>\n</section>\n';
+    const config = { pathContract, routeIndex: buildRouteIndex(['about.html', '_layouts/default.html'], pathContract) };
+
+    const plan = planPatches([improvementFor('https://example.com/about')], new Map([['about.html', page]]), config);
+    const [about] = plan.plannedChanges;
+    assertEqual(about.filePath, 'about.html', 'The existing page should be patched');
+    const frontMatter = about.newContent.slice(0, about.newContent.indexOf('\n---\n'));
+    assert(frontMatter.includes('title: "Plumbing in Austin | Acme"'), 'Title should be set in front matter');
+    assert(frontMatter.includes('# nico-geo:replaced title: Old title'), 'Old title should be commented out');
+    assert(!about.newContent.includes('Recommended Title'), 'Meta should not be left as comments');
+    assert(about.newContent.includes('<!-- nico-geo:block:answer-capsule:start -->'), 'Body blocks should use HTML markers');
+    assertEqual(about.reviewNotes.find((n: string) => n.startsWith('Title')), 'Title: "Old title" → "Plumbing in Austin | Acme"',
+      'Notes should read the front matter title');
+    assertEqual(stripMarkerBlocks(about.newContent, 'html'), page, 'Stripping should restore the original page');
+
+    const again = planPatches([improvementFor('https://example.com/about')], new Map([['about.html', about.newContent]]), config);
+    assertEqual(again.plannedChanges[0].action, 'no-op', 'Re-applying should be idempotent');
+  });
+
+  await test('meta blocks replace head tags and Astro layout props', () => {
+    const { planPatches, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const html = '<html>\n<head>\n  <title>About us</title>\n  <meta name="description" content="Old &amp; tired">\n</head>\n<body><main><h1>About</h1></main></body>\n</html>\n';
+    const astro = '---\nimport Layout from "../layouts/Layout.astro";\nconst pageTitle = "About";\n---\n\n<Layout title={pageTitle} description="Old">\n  <Card title="Keep" />\n</Layout>\n';
+    const pathContract = { projectType: 'astro-pages', routeStrategy: 'path-index' };
+    const plan = planPatches(
+      [improvementFor('https://example.com/about'), improvementFor('https://example.com/team')],
+      new Map([['src/pages/about/index.astro', astro]]),
+      { pathContract }
+    );
+    const staticPlan = planPatches([improvementFor('https://example.com/about')], new Map([['about/index.html', html]]),
+      { pathContract: { projectType: 'static-html', routeStrategy: 'path-index' } });
+
+    const [page] = staticPlan.plannedChanges;
+    const head = page.newContent.slice(0, page.newContent.indexOf('</head>'));
+    assert(head.includes('<!-- nico-geo:replaced <title>About us</title> -->'), 'Old title should be commented out');
+    assert(head.includes('<title>Plumbing in Austin | Acme</title>'), 'New title should be in <head>');
+    assert(head.includes('content="Acme fixes &quot;leaks&quot; across Austin."'), 'Description should be escaped');
+    assertEqual(page.newContent.match(/<title>/g).length, 2, 'Only the new title should be live');
+    assertEqual(page.reviewNotes[0], 'Title: "About us" → "Plumbing in Austin | Acme"', 'Notes should show the change');
+    assertEqual(page.reviewNotes[1], 'Meta description: "Old & tired" → "Acme fixes \\"leaks\\" across Austin."', 'Notes should decode entities');
+    assertEqual(stripMarkerBlocks(page.newContent, 'html'), html, 'Stripping should restore the head tags');
+
+    const [about, team] = plan.plannedChanges;
+    assert(about.newContent.includes('const nicoGeoMeta = {\n  title: "Plumbing in Austin | Acme",'), 'Values should be declared in the script');
+    assert(about.newContent.includes('<Layout title={/* nico-geo:replaced {pageTitle} */ nicoGeoMeta.title} description={/* nico-geo:replaced "Old" */ nicoGeoMeta.description}>'),
+      'Layout props should be bound to the block');
+    assert(about.newContent.includes('<Card title="Keep" />'), 'Only the layout should be patched');
+    assertEqual(about.reviewNotes[0], 'Title: "About" → "Plumbing in Austin | Acme"', 'Props set from constants should show their value');
+    assertEqual(stripMarkerBlocks(about.newContent, 'astro'), astro, 'Stripping should restore the layout props');
+    assert(team.newContent.includes('<title>{/* nico-geo:replaced Page Title */ nicoGeoMeta.title}</title>'), 'New pages should bind their <title>');
+
+    const again = planPatches([improvementFor('https://example.com/about')],
+      new Map([['src/pages/about/index.astro', about.newContent]]), { pathContract });
+    assertEqual(again.plannedChanges[0].action, 'no-op', 'Re-applying should be idempotent');
+    assertEqual(again.plannedChanges[0].reviewNotes.length, 0, 'Nothing should change on re-apply');
+  });
+
+  await test('Markdown and MDX pages get Markdown blocks placed by structure', () => {
+    const { planPatches, stripMarkerBlocks, generatePatches } = require('../core/writeback/patchApplier');
+    const { buildRouteIndex } = require('../core/writeback/routeResolver');
+    const pathContract = { projectType: 'astro-pages', routeStrategy: 'path-index' };
+    const page = '---\ntitle: Post\n---\n\n```\n# not a heading\n```\n\n# Post\n\nBody.\n';
+    const improvement = {
+      ...improvementFor('https://example.com/blog/post'),
+      suggestedAdditions: {
+        ...improvementFor('https://example.com/blog/post').suggestedAdditions,
+        faq: [{ question: 'Do you fix <leaks>?', answer: 'Yes, [always].', isPlaceholder: false }],
+      },
+    };
+
+    for (const extension of ['md', 'mdx']) {
+      const filePath = `src/content/blog/post.${extension}`;
+      const routeIndex = buildRouteIndex(['src/pages/blog/[slug].astro', filePath], pathContract);
+      const content = planPatches([improvement], new Map([[filePath, page]]), { pathContract, routeIndex })
+        .plannedChanges[0].newContent;
+      const body = content.slice(content.indexOf('\n---\n'));
+      const capsule = body.indexOf('nico-geo:block:answer-capsule:start');
+      assert(capsule > body.indexOf('# Post') && capsule < body.indexOf('Body.'), `${extension}: capsule should follow the first heading`);
+      assert(body.indexOf('nico-geo:block:faq:start') > body.indexOf('Body.'), `${extension}: FAQ should be appended`);
+      assert(body.includes('## Frequently Asked Questions\n\n### Do you fix \\<leaks\\>?\n\nYes, \\[always\\].'), `${extension}: FAQ should be escaped Markdown`);
+      assertEqual(stripMarkerBlocks(content, extension), page, `${extension}: stripping should restore the page`);
+
+      if (extension === 'md') {
+        assert(content.split('\n---\n')[0].includes('jsonLd: "{\\"@context\\"'), 'Markdown JSON-LD should be a front matter field');
+        assert(!body.includes('{/*'), 'Markdown should use HTML comment markers');
+      } else {
+        assert(!content.includes('<!--'), 'MDX does not allow HTML comments');
+        assert(body.includes('Austin \\{24/7\\}'), 'MDX braces should be escaped');
+        assert(body.includes('<script\n  type="application/ld+json"'), 'MDX JSON-LD should be a script element');
+      }
+    }
+
+    const [legacy] = generatePatches([improvementFor('https://example.com/about')], {
+      pathMappings: [{ urlPath: '/about', filePath: 'about.md', fileType: 'markdown' }],
+    });
+    assertEqual(legacy.blocks.fileExtension, 'md', 'Markdown mappings should apply through the Markdown strategy');
+    assert(legacy.content.includes('# nico-geo:block:meta:start'), 'Legacy preview should show front matter markers');
+  });
+
+  await test('Next.js pages get JSX-safe blocks', () => {
+    const { planPatches, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const page = 'export default function About() {\n  return (\n    <>\n      <h1>About</h1>\n    </>\n  );\n}\n';
+    const plan = planPatches(
+      [improvementFor('https://example.com/about')],
+      new Map([['app/about/page.tsx', page]]),
+      { pathContract: { projectType: 'nextjs-app', routeStrategy: 'path-index' } }
+    );
+    const content = plan.plannedChanges[0].newContent;
+    assert(content.includes('{/* nico-geo:block:answer-capsule:start */}'), 'Markers should be JSX comments');
+    assert(!content.includes('<!--'), 'No HTML comments in JSX');
+    assert(content.includes('className="geo-answer-capsule"'), 'class should become className');
+    assert(content.includes('Austin &#123;24/7&#125;.'), 'Braces in text should be escaped');
+    assert(content.includes('dangerouslySetInnerHTML={{ __html: JSON.stringify('), 'JSON-LD should be injected as a string');
+    assert(content.indexOf('nico-geo:block:schema:end') < content.lastIndexOf('</>'), 'Blocks go inside the returned markup');
+    assertEqual(stripMarkerBlocks(content, 'tsx'), page, 'Stripping should restore the original page');
+
+    // Title and description are left to the reviewer
+    assert(!content.includes('nico-geo:block:meta'), 'Next.js pages should get no meta block');
+    const notes = plan.plannedChanges[0].reviewNotes;
+    assert(notes.includes('Title not applied: Next.js pages set it in `export const metadata` (app router) or `<Head>` (pages router); set it to "Plumbing in Austin | Acme" by hand'),
+      `Notes should give the title to set: ${notes.join(' | ')}`);
+    assert(notes.some((n: string) => n.startsWith('Meta description not applied: Next.js')), 'Notes should give the description to set');
+  });
+
+  await test('section blocks are planned from audit gaps', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { planSiteImprovements } = require('../core/analyze/improvementPlanner');
+    const { planPatches, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const words = Array.from({ length: 450 }, (_, i) => `word${i}`).join(' ');
+    const home = `<html><head><title>Acme</title></head><body><main><h1>Acme</h1><p>${words}</p>` +
+      '<a href="/services/drain-cleaning">Drain cleaning</a><a href="/contact">Contact</a></main></body></html>';
+    const service = '<html><head><title>Drain Cleaning | Acme</title></head><body><main><h1>Drain Cleaning</h1><p>We clean drains.</p></main></body></html>';
+    const plan = planSiteImprovements({
+      baseUrl: 'https://acme.com',
+      crawledAt: '2024-01-01T00:00:00.000Z',
+      pagesAnalyzed: 2,
+      maxPagesLimit: 2,
+      pages: [buildPageData('https://acme.com/', home), buildPageData('https://acme.com/services/drain-cleaning', service)],
+      errors: [],
+      sitemapFound: false,
+    });
+    const [homeAdditions, serviceAdditions] = plan.pages.map((p: { suggestedAdditions: Record<string, any> }) => p.suggestedAdditions);
+
+    assertEqual(homeAdditions.serviceList.items[0].url, 'https://acme.com/services/drain-cleaning', 'Service list should use linked service pages');
+    assertEqual(homeAdditions.howWeWork.items.length, 4, 'How-we-work should use the default process steps');
+    assertEqual(homeAdditions.howWeWork.schemaJsonLd['@type'], 'HowTo', 'How-we-work schema should be HowTo');
+    assertEqual(homeAdditions.testimonials.schemaJsonLd.review[0]['@type'], 'Review', 'Testimonials should carry Review schema');
+    assertEqual(homeAdditions.team.schemaJsonLd.itemListElement[0].item['@type'], 'Person', 'Team should carry Person schema');
+    assert(!homeAdditions.breadcrumbs, 'Homepage should not get breadcrumbs');
+    assertEqual(serviceAdditions.breadcrumbs.schemaJsonLd['@type'], 'BreadcrumbList', 'Service page should get breadcrumbs');
+
+    const pathContract = { projectType: 'static-html', routeStrategy: 'path-index' };
+    const patches = planPatches(plan.pages, new Map([['index.html', home], ['services/drain-cleaning/index.html', service]]), { pathContract });
+    const [homeChange, serviceChange] = patches.plannedChanges;
+    assert(homeChange.blocks.map((b: { blockType: string }) => b.blockType).join(',').includes('service-list,how-we-work,testimonials,team'),
+      'Sections should be planned in block order');
+    assert(homeChange.humanReviewRequired, 'Placeholder testimonials should require review');
+    assert(serviceChange.newContent.indexOf('nico-geo:block:breadcrumbs:start') < serviceChange.newContent.indexOf('<h1>'),
+      'Breadcrumbs should open the main content');
+    for (const change of patches.plannedChanges) {
+      assertEqual(stripMarkerBlocks(change.newContent, 'html'), change.originalContent, `${change.filePath}: stripping should restore the page`);
+      const pages = plan.pages.filter((p: { url: string }) => p.url === change.url);
+      const again = planPatches(pages, new Map([[change.filePath, change.newContent]]), { pathContract });
+      assertEqual(again.plannedChanges[0].action, 'no-op', `${change.filePath}: re-planning should be a no-op`);
+    }
+  });
+
+  await test('business input supplies the facts for planned blocks, scoped to each page', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { planSiteImprovements } = require('../core/analyze/improvementPlanner');
+    const words = Array.from({ length: 450 }, (_, i) => `word${i}`).join(' ');
+    const page = (h1: string, body = 'We fix pipes.') =>
+      `<html><head><title>Acme</title></head><body><main><h1>${h1}</h1><p>${body}</p></main></body></html>`;
+    const businessInput = {
+      business: { name: 'Acme Plumbing' },
+      location: { primaryCity: 'Austin', region: 'TX', country: 'USA', serviceAreas: ['Austin', 'Round Rock'] },
+      contact: { phone: '512-555-0100' },
+      services: { primary: ['Drain Cleaning', 'Leak Repair'] },
+      proof: { testimonials: [{ text: 'Fast and tidy.', customerName: 'Jo' }] },
+      constraints: { noHallucinations: true },
+    };
+    const plan = planSiteImprovements({
+      baseUrl: 'https://acme.com',
+      crawledAt: '2024-01-01T00:00:00.000Z',
+      pagesAnalyzed: 3,
+      maxPagesLimit: 3,
+      pages: [
+        buildPageData('https://acme.com/', page('Acme', words)),
+        buildPageData('https://acme.com/services/drain-cleaning', page('Drain Cleaning')),
+        buildPageData('https://acme.com/areas/round-rock', page('Plumbers in Round Rock')),
+      ],
+      errors: [],
+      sitemapFound: false,
+    }, undefined, businessInput);
+    const [home, service, area] = plan.pages;
+
+    assertEqual(service.suggestedAdditions.answerCapsule,
+      'Acme Plumbing is a Drain Cleaning provider located in Austin, TX, USA. Service areas include Austin, Round Rock.',
+      'Service page capsule should come from the answer capsule generator, scoped to its service');
+    assert(service.suggestedAdditions.faq.every((f: { isPlaceholder: boolean }) => !f.isPlaceholder), 'FAQs should be answered from business facts');
+    assertEqual(service.suggestedAdditions.schemaJsonLd.telephone, '512-555-0100', 'Schema should carry the listed phone');
+    assertEqual(area.suggestedAdditions.schemaJsonLd.areaServed.map((a: { name: string }) => a.name).join(','), 'Round Rock',
+      'Area page schema should be scoped to its service area');
+    assertEqual(area.recommendedTitle, 'Drain Cleaning in Round Rock | Acme Plumbing', 'Title should use listed facts');
+    assertEqual(home.suggestedAdditions.testimonials.items[0].quote, 'Fast and tidy.', 'Listed testimonials should be used');
+    assertEqual(home.suggestedAdditions.serviceList.items.map((s: { name: string }) => s.name).join(','), 'Drain Cleaning,Leak Repair',
+      'Service list should use the listed services');
+    assert(!JSON.stringify(plan).includes('[BUSINESS NAME]'), 'No business name placeholders should remain');
+  });
+
+  await test('planning with a route index patches existing files and reports unmapped URLs', () => {
+    const { planPatches } = require('../core/writeback/patchApplier');
+    const { buildRouteIndex } = require('../core/writeback/routeResolver');
+    const pathContract = { projectType: 'astro-pages', routeStrategy: 'path-index' };
+    const routeIndex = buildRouteIndex(['src/pages/about.astro', 'src/pages/about-old.astro'], pathContract);
+    const plan = planPatches(
+      [improvementFor('https://example.com/about'), improvementFor('https://example.com/old')],
+      new Map([['src/pages/about.astro', '<main><h1>About</h1></main>']]),
+      { pathContract, routeIndex }
+    );
+    assertEqual(plan.plannedChanges.length, 1, 'Only mapped URLs should be planned');
+    assertEqual(plan.plannedChanges[0].filePath, 'src/pages/about.astro', 'Existing file should be patched');
+    assertEqual(plan.plannedChanges[0].action, 'update', 'Existing file should be updated, not created');
+    assertEqual(plan.mappingErrors[0].url, 'https://example.com/old', 'Unmapped URL should be reported');
+    assertEqual(plan.mappingErrors[0].candidates.join(','), 'src/pages/about-old.astro', 'Candidates should be listed');
+  });
+
+  await test('local target writes changes idempotently and renders a patch git can apply', async () => {
+    const fs = require('fs');
+    const os = require('os');
+    const path = require('path');
+    const { execFileSync } = require('child_process');
+    const { planPatches } = require('../core/writeback/patchApplier');
+    const { buildRouteIndex } = require('../core/writeback/routeResolver');
+    const { buildFormatPatch } = require('../core/writeback/formatPatch');
+    const { listLocalFiles, readLocalFiles, writeLocalChanges } = require('../core/writeback/localTarget');
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nico-geo-local-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'src/pages'), { recursive: true });
+      fs.mkdirSync(path.join(dir, 'node_modules/pkg'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'src/pages/about.astro'), '<main><h1>About</h1></main>');
+      fs.writeFileSync(path.join(dir, 'node_modules/pkg/index.html'), '');
+
+      const pathContract = { projectType: 'astro-pages', routeStrategy: 'path-index' };
+      const files = await listLocalFiles(dir);
+      assertEqual(files.join(','), 'src/pages/about.astro', 'node_modules should not be listed');
+      const plan = async () => {
+        const routeIndex = buildRouteIndex(await listLocalFiles(dir), pathContract);
+        const contents = await readLocalFiles(dir, ['src/pages/about.astro']);
+        return planPatches([improvementFor('https://example.com/about')], contents, { pathContract, routeIndex });
+      };
+
+      const first = await plan();
+      const patch = buildFormatPatch(first.plannedChanges, { subject: 'GEO improvements', date: new Date(0) });
+      assert(patch.startsWith('From 0000000000000000000000000000000000000000 '), 'Patch should be a format-patch mailbox');
+      assert(patch.includes('Subject: [PATCH] GEO improvements'), 'Subject should be set');
+      assert(patch.includes('\\ No newline at end of file'), 'Missing final newline should be marked');
+
+      const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'nico-geo-apply-'));
+      try {
+        fs.mkdirSync(path.join(repo, 'src/pages'), { recursive: true });
+        fs.writeFileSync(path.join(repo, 'src/pages/about.astro'), '<main><h1>About</h1></main>');
+        fs.writeFileSync(path.join(repo, 'geo.patch'), patch);
+        execFileSync('git', ['init', '-q'], { cwd: repo });
+        execFileSync('git', ['apply', 'geo.patch'], { cwd: repo });
+        assertEqual(fs.readFileSync(path.join(repo, 'src/pages/about.astro'), 'utf-8'), first.plannedChanges[0].newContent,
+          'Applied patch should match the planned content');
+      } finally {
+        fs.rmSync(repo, { recursive: true, force: true });
+      }
+
+      const written = await writeLocalChanges(dir, first.plannedChanges);
+      assertEqual(written.written.join(','), 'src/pages/about.astro', 'Changed file should be written');
+      const second = await plan();
+      assertEqual(second.plannedChanges[0].action, 'no-op', 'Re-running should be idempotent');
+
+      let rejected = false;
+      try {
+        await writeLocalChanges(dir, [{ ...first.plannedChanges[0], filePath: '../outside.astro' }]);
+      } catch (err) {
+        rejected = (err as Error).name === 'LocalTargetError';
+      }
+      assert(rejected, 'Paths outside the directory should be rejected');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await test('file contents round-trip through base64 as UTF-8', () => {
+    const { encodeContent, decodeContent } = require('../core/writeback/githubClient');
+    const text = '<footer>© 2024 Acme — Austin’s plumbers</footer>';
+    assertEqual(decodeContent(encodeContent(text)), text, 'Encoded content should decode unchanged');
+    // GitHub wraps base64 at 60 characters
+    const wrapped = Buffer.from(text, 'utf-8').toString('base64').replace(/(.{60})/g, '$1\n');
+    assertEqual(decodeContent(wrapped), text, 'API content should decode as UTF-8');
+  });
+
+  await test('pull request mode writes one commit on a new branch and opens a PR', async () => {
+    const { applyPlannedPatchesAsPullRequest } = require('../core/writeback/patchApplier');
+    const { buildPullRequestDetails } = require('../core/writeback/pullRequest');
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const changes = ['index', 'services'].map(name => ({
+      url: `https://example.com/${name === 'index' ? '' : name}`,
+      filePath: `src/pages/${name}.astro`,
+      action: 'create',
+      originalContent: null,
+      newContent: `<h1>${name}</h1>`,
+      humanReviewRequired: true,
+      reviewNotes: [`Check the ${name} FAQ`],
+      blocks: [],
+    }));
+    const details = buildPullRequestDetails({
+      siteUrl: 'https://example.com',
+      sessionId: 'abc-123',
+      changes,
+      evidence: [{ url: 'https://example.com/services', totalScore: 72, recommendedNextAction: 'add_faq', evidence: ['High impressions, low CTR'] }],
+    });
+    assertEqual(details.branch, 'nico-geo/review-abc-123', 'Branch should be named after the session');
+    assert(details.body.includes('Check the services FAQ'), 'Body should include review notes');
+    assert(details.body.includes('High impressions, low CTR'), 'Body should include action-queue evidence');
+
+    const calls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string, init?: RequestInit) => {
+      const path = new URL(input).pathname.replace('/repos/acme/site', '');
+      calls.push(`${init?.method ?? 'GET'} ${path}`);
+      const bodies: Record<string, unknown> = {
+        '/git/ref/heads/main': { object: { sha: 'base' } },
+        '/git/ref/heads/nico-geo/review-abc-123': { object: { sha: 'base' } },
+        '/git/commits/base': { tree: { sha: 'tree0' } },
+        '/git/trees': { sha: 'tree1' },
+        '/git/commits': { sha: 'c1', html_url: 'https://github.com/acme/site/commit/c1' },
+        '/pulls': { number: 7, html_url: 'https://github.com/acme/site/pull/7' },
+      };
+      return new Response(JSON.stringify(bodies[path] ?? {}), { status: 200 });
+    }) as typeof fetch;
+    try {
+      const result = await applyPlannedPatchesAsPullRequest(
+        createRepoProvider(undefined, { token: 't', target: { owner: 'acme', repo: 'site', branch: 'main' } }),
+        changes,
+        details
+      );
+      assert(result.success, `Apply should succeed: ${result.errors.join(', ')}`);
+      assertEqual(result.pullRequest.number, 7, 'Pull request should be returned');
+      assertEqual(new Set(result.commits.map((c: { sha: string }) => c.sha)).size, 1, 'All files share one commit');
+      assertEqual(calls.filter(c => c === 'POST /git/commits').length, 1, 'Exactly one commit should be created');
+      assert(!calls.some(c => c.includes('/contents/')), 'Contents API should not be used');
+      assertEqual(calls[calls.length - 1], 'POST /pulls', 'Pull request should be opened last');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  // Local HTTP stand-in for a git host API. Routes are keyed by
+  // "METHOD /raw/path" (query string removed); anything else is a 404.
+  type StandInReply = { status?: number; json?: unknown; text?: string; headers?: Record<string, string> };
+  async function withStandIn(
+    routes: Record<string, StandInReply>,
+    fn: (baseUrl: string, requests: Array<{ route: string; url: string; headers: Record<string, unknown>; body: string }>) => Promise<void>
+  ): Promise<void> {
+    const http = require('http');
+    const requests: Array<{ route: string; url: string; headers: Record<string, unknown>; body: string }> = [];
+    const server = http.createServer((req: any, res: any) => {
+      let body = '';
+      req.on('data', (chunk: string) => { body += chunk; });
+      req.on('end', () => {
+        const route = `${req.method} ${req.url.split('?')[0]}`;
+        requests.push({ route, url: req.url, headers: req.headers, body });
+        const reply = routes[route] ?? { status: 404, json: { message: 'Not Found' } };
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(reply.text ?? (reply.json === undefined ? '' : JSON.stringify(reply.json)));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await fn(`http://127.0.0.1:${server.address().port}`, requests);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  const providerFiles = [
+    { path: 'src/pages/index.astro', content: '<h1>Home</h1>', message: 'GEO improvement: /' },
+    { path: 'src/pages/services.astro', content: '<h1>Services</h1>', message: 'GEO improvement: /services' },
+  ];
+  const providerDetails = { branch: 'nico-geo/review-1', title: 'GEO improvements', body: 'Body', commitMessage: 'GEO improvements' };
+  const providerConfig = (baseUrl: string) => ({ token: 'tok', target: { owner: 'acme', repo: 'site', branch: 'main' }, baseUrl });
+
+  await test('gitlab provider commits once and opens a merge request', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const project = '/api/v4/projects/acme%2Fsite';
+    await withStandIn({
+      [`GET ${project}`]: { json: { permissions: { project_access: { access_level: 30 }, group_access: null } } },
+      [`GET ${project}/repository/files/src%2Fpages%2Findex.astro`]: { json: { content: Buffer.from('<h1>Old</h1>').toString('base64'), blob_id: 'b1' } },
+      [`GET ${project}/repository/branches/main`]: { json: { commit: { id: 'h0' } } },
+      [`POST ${project}/repository/commits`]: { status: 201, json: { id: 'gl1', web_url: 'https://gitlab.test/c/gl1' } },
+      [`POST ${project}/merge_requests`]: { status: 201, json: { iid: 3, web_url: 'https://gitlab.test/mr/3' } },
+    }, async (baseUrl, requests) => {
+      const provider = createRepoProvider('gitlab', providerConfig(baseUrl));
+      await provider.verifyWriteAccess();
+      assertEqual((await provider.readFile('src/pages/index.astro')).sha, 'b1', 'Blob ID should be read');
+      assertEqual(await provider.readFile('src/pages/services.astro'), null, 'Missing file should be null');
+
+      const { commit, pullRequest } = await provider.openMergeRequest(providerFiles, providerDetails);
+      assertEqual(commit.sha, 'gl1', 'Commit ID should be returned');
+      assertEqual(pullRequest.number, 3, 'Merge request IID should be returned');
+      const commitBody = JSON.parse(requests.find(r => r.route.endsWith('/repository/commits'))!.body);
+      assertEqual(commitBody.start_branch, 'main', 'Branch should be created from the target branch');
+      assertEqual(commitBody.actions.map((a: { action: string }) => a.action).join(','), 'update,create', 'Existing files update, new files create');
+      assertEqual(requests[0].headers.authorization, 'Bearer tok', 'Token should be sent as a bearer token');
+    });
+  });
+
+  await test('bitbucket provider branches, commits with one form post and opens a pull request', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const repo = '/repositories/acme/site';
+    await withStandIn({
+      [`GET ${repo}/refs/branches/main`]: { json: { target: { hash: 'h0' } } },
+      [`GET ${repo}/src/h0/src/pages/index.astro`]: { text: '<h1>Old</h1>' },
+      [`POST ${repo}/refs/branches`]: { status: 201, json: {} },
+      [`POST ${repo}/src`]: { status: 201, headers: { Location: `${repo}/commit/bb1` } },
+      [`POST ${repo}/pullrequests`]: { status: 201, json: { id: 5, links: { html: { href: 'https://bitbucket.test/pr/5' } } } },
+      ['GET /user/permissions/repositories']: { json: { values: [{ permission: 'write' }] } },
+    }, async (baseUrl, requests) => {
+      const provider = createRepoProvider('bitbucket', { ...providerConfig(baseUrl), token: 'user:app-pass' });
+      await provider.verifyWriteAccess();
+      assertEqual((await provider.readFile('src/pages/index.astro')).content, '<h1>Old</h1>', 'Raw file should be read');
+      assertEqual(await provider.readFile('src/pages/services.astro'), null, 'Missing file should be null');
+
+      const { commit, pullRequest } = await provider.openMergeRequest(providerFiles, providerDetails);
+      assertEqual(commit.sha, 'bb1', 'Commit hash should come from the Location header');
+      assertEqual(pullRequest.number, 5, 'Pull request ID should be returned');
+      const form = new URLSearchParams(requests.find(r => r.route === `POST ${repo}/src`)!.body);
+      assertEqual(form.get('branch'), 'nico-geo/review-1', 'Commit should go to the new branch');
+      assertEqual(form.get('src/pages/services.astro'), '<h1>Services</h1>', 'Every file should be in the form');
+      assert(String(requests[0].headers.authorization).startsWith('Basic '), 'App passwords should use Basic auth');
+    });
+  });
+
+  await test('gitea provider requires baseUrl and writes files in one commit', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const { isValidTargetRepo } = require('../worker/types');
+    const target = { owner: 'acme', repo: 'site', branch: 'main', projectType: 'astro-pages', routeStrategy: 'path-index' };
+    assert(!isValidTargetRepo({ ...target, provider: 'gitea' }), 'Gitea without baseUrl should be invalid');
+    assert(isValidTargetRepo({ ...target, provider: 'gitea', baseUrl: 'https://git.example.com' }), 'Gitea with baseUrl should be valid');
+    assert(!isValidTargetRepo({ ...target, provider: 'svn' }), 'Unknown provider should be invalid');
+
+    const repo = '/api/v1/repos/acme/site';
+    await withStandIn({
+      [`GET ${repo}`]: { json: { permissions: { push: true } } },
+      [`GET ${repo}/contents/src/pages/index.astro`]: { json: { content: Buffer.from('<h1>Old</h1>').toString('base64'), sha: 's1' } },
+      [`POST ${repo}/contents`]: { status: 201, json: { commit: { sha: 'gt1', html_url: 'https://gitea.test/c/gt1' } } },
+      [`GET ${repo}/git/trees/main`]: {
+        json: {
+          tree: [
+            { path: 'src/pages/index.astro', type: 'blob' },
+            { path: 'src', type: 'tree' },
+            { path: 'index.html', type: 'blob' },
+          ],
+          truncated: false,
+        },
+      },
+    }, async (baseUrl, requests) => {
+      const provider = createRepoProvider('gitea', providerConfig(baseUrl));
+      await provider.verifyWriteAccess();
+      assertEqual((await provider.listFiles()).join(','), 'index.html,src/pages/index.astro', 'Tree listing should return sorted blobs');
+      const commits = await provider.writeFiles(providerFiles);
+      assertEqual(commits.length, 2, 'Each file should be reported');
+      assert(commits.every((c: { sha: string }) => c.sha === 'gt1'), 'Files should share one commit');
+      const body = JSON.parse(requests.find(r => r.route === `POST ${repo}/contents`)!.body);
+      assertEqual(body.files[0].sha, 's1', 'Updates should carry the current blob SHA');
+      assertEqual(body.files[1].operation, 'create', 'New files should be created');
+      assert(body.message.includes('2 files'), 'Direct writes should combine commit messages');
+    });
+  });
+
+  await test('gitlab, gitea and bitbucket read files as UTF-8', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const text = '<footer>© 2024 Acme — Austin’s plumbers</footer>';
+    const base64 = Buffer.from(text, 'utf-8').toString('base64');
+    await withStandIn({
+      ['GET /api/v4/projects/acme%2Fsite/repository/files/index.html']: { json: { content: base64, blob_id: 'b1' } },
+      ['GET /api/v1/repos/acme/site/contents/index.html']: { json: { content: base64, sha: 's1' } },
+      ['GET /repositories/acme/site/refs/branches/main']: { json: { target: { hash: 'h0' } } },
+      ['GET /repositories/acme/site/src/h0/index.html']: { text },
+    }, async (baseUrl) => {
+      for (const id of ['gitlab', 'gitea', 'bitbucket']) {
+        const file = await createRepoProvider(id, providerConfig(baseUrl)).readFile('index.html');
+        assertEqual(file.content, text, `${id} should decode the file as UTF-8`);
+      }
+    });
+  });
+
+  await test('providers delete files and close unmerged merge requests', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const project = '/api/v4/projects/acme%2Fsite';
+    await withStandIn({
+      [`GET ${project}/repository/files/src%2Fpages%2Findex.astro`]: { json: { content: Buffer.from('<h1>Old</h1>').toString('base64'), blob_id: 'b1' } },
+      [`POST ${project}/repository/commits`]: { status: 201, json: { id: 'gl2', web_url: 'https://gitlab.test/c/gl2' } },
+      [`GET ${project}/merge_requests/3`]: { json: { state: 'opened' } },
+      [`PUT ${project}/merge_requests/3`]: { json: { state: 'closed' } },
+    }, async (baseUrl, requests) => {
+      const provider = createRepoProvider('gitlab', providerConfig(baseUrl));
+      const commits = await provider.deleteFiles([{ path: 'src/pages/new.astro', message: 'Revert' }]);
+      assertEqual(commits[0].path, 'src/pages/new.astro', 'Deleted file should be reported');
+      const commitBody = JSON.parse(requests.find(r => r.route.endsWith('/repository/commits'))!.body);
+      assertEqual(commitBody.actions[0].action, 'delete', 'Files should be deleted with a delete action');
+
+      assertEqual(await provider.getMergeRequestState(3), 'open', 'Opened merge request should be open');
+      await provider.closeMergeRequest(3);
+      const closeBody = JSON.parse(requests.find(r => r.route === `PUT ${project}/merge_requests/3`)!.body);
+      assertEqual(closeBody.state_event, 'close', 'Merge request should be closed');
+    });
+
+    const trees: Array<{ tree: Array<{ path: string; sha?: string | null }> }> = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string, init?: RequestInit) => {
+      const path = new URL(input).pathname.replace('/repos/acme/site', '');
+      if (path === '/git/trees') trees.push(JSON.parse(String(init?.body)));
+      const bodies: Record<string, unknown> = {
+        '/git/ref/heads/main': { object: { sha: 'base' } },
+        '/git/ref/heads/nico-geo/revert-1': { object: { sha: 'base' } },
+        '/git/commits/base': { tree: { sha: 'tree0' } },
+        '/git/trees': { sha: 'tree1' },
+        '/git/commits': { sha: 'c2', html_url: 'https://github.com/acme/site/commit/c2' },
+        '/pulls': { number: 8, html_url: 'https://github.com/acme/site/pull/8' },
+        '/pulls/7': { state: 'closed', merged: true },
+      };
+      return new Response(JSON.stringify(bodies[path] ?? {}), { status: 200 });
+    }) as typeof fetch;
+    try {
+      const github = createRepoProvider(undefined, { token: 't', target: { owner: 'acme', repo: 'site', branch: 'main' } });
+      const { commit } = await github.openMergeRequest(
+        [{ path: 'src/pages/index.astro', content: '<h1>Home</h1>' }],
+        { ...providerDetails, branch: 'nico-geo/revert-1' },
+        ['src/pages/new.astro']
+      );
+      assertEqual(commit.paths.join(','), 'src/pages/index.astro,src/pages/new.astro', 'Commit should list written and deleted files');
+      const removed = trees[0].tree.find(entry => entry.path === 'src/pages/new.astro');
+      assertEqual(removed?.sha, null, 'Deleted files should have a null sha in the tree');
+      assertEqual(await github.getMergeRequestState(7), 'merged', 'Merged pull request should be merged');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await test('retried merge requests reuse an empty branch or add an attempt suffix', async () => {
+    const { createRepoProvider } = require('../core/writeback/providerRegistry');
+    const repo = '/repos/acme/site';
+    const githubRoutes = (leftover: string) => ({
+      [`GET ${repo}/git/ref/heads/main`]: { json: { object: { sha: 'base' } } },
+      [`GET ${repo}/git/ref/heads/nico-geo/review-1`]: { json: { object: { sha: leftover } } },
+      [`GET ${repo}/git/ref/heads/nico-geo/review-1-2`]: { json: { object: { sha: 'base' } } },
+      [`POST ${repo}/git/refs`]: { status: 201, json: {} },
+      [`GET ${repo}/git/commits/base`]: { json: { tree: { sha: 'tree0' } } },
+      [`POST ${repo}/git/trees`]: { status: 201, json: { sha: 'tree1' } },
+      [`POST ${repo}/git/commits`]: { status: 201, json: { sha: 'c1', html_url: 'https://github.test/c/c1' } },
+      [`PATCH ${repo}/git/refs/heads/nico-geo/review-1`]: { json: {} },
+      [`PATCH ${repo}/git/refs/heads/nico-geo/review-1-2`]: { json: {} },
+      [`POST ${repo}/pulls`]: { status: 201, json: { number: 9, html_url: 'https://github.test/pull/9' } },
+    });
+
+    // The earlier attempt created the branch but failed before committing
+    await withStandIn(githubRoutes('base'), async (baseUrl, requests) => {
+      const { pullRequest } = await createRepoProvider('github', providerConfig(baseUrl)).openMergeRequest(providerFiles, providerDetails);
+      assertEqual(pullRequest.branch, 'nico-geo/review-1', 'A branch still at the base commit should be reused');
+      assert(!requests.some(r => r.route === `POST ${repo}/git/refs`), 'The branch should not be created again');
+      assertEqual(JSON.parse(requests.find(r => r.route === `POST ${repo}/pulls`)!.body).head, 'nico-geo/review-1', 'Pull request should use it');
+    });
+
+    // The earlier attempt committed but failed to open the pull request
+    await withStandIn(githubRoutes('c0'), async (baseUrl, requests) => {
+      const { pullRequest } = await createRepoProvider('github', providerConfig(baseUrl)).openMergeRequest(providerFiles, providerDetails);
+      assertEqual(pullRequest.branch, 'nico-geo/review-1-2', 'A branch with commits should get an attempt suffix');
+      assert(requests.some(r => r.route === `PATCH ${repo}/git/refs/heads/nico-geo/review-1-2`), 'The commit should go to the suffixed branch');
+      assert(!requests.some(r => r.route === `PATCH ${repo}/git/refs/heads/nico-geo/review-1`), 'The earlier branch should be left alone');
+    });
+
+    const project = '/api/v4/projects/acme%2Fsite';
+    await withStandIn({
+      [`GET ${project}/repository/branches/main`]: { json: { commit: { id: 'h0' } } },
+      [`GET ${project}/repository/branches/nico-geo%2Freview-1`]: { json: { commit: { id: 'h0' } } },
+      [`POST ${project}/repository/commits`]: { status: 201, json: { id: 'gl1', web_url: 'https://gitlab.test/c/gl1' } },
+      [`POST ${project}/merge_requests`]: { status: 201, json: { iid: 3, web_url: 'https://gitlab.test/mr/3' } },
+    }, async (baseUrl, requests) => {
+      await createRepoProvider('gitlab', providerConfig(baseUrl)).openMergeRequest(providerFiles, providerDetails);
+      const commitBody = JSON.parse(requests.find(r => r.route.endsWith('/repository/commits'))!.body);
+      assertEqual(commitBody.branch, 'nico-geo/review-1', 'GitLab should commit to the existing branch');
+      assertEqual(commitBody.start_branch, undefined, 'An existing branch should not be created again');
+    });
+  });
+
   // ========================================
   // Test 5: GSC Snapshot Validation
   // ========================================
@@ -266,6 +978,374 @@ async function main() {
     assert(result.canApprove, 'Pending session should be approvable');
   });
 
+  // Two planned files with meta, answer-capsule and faq blocks each
+  function createDecisionSession() {
+    const { planPatches } = require('../core/writeback/patchApplier');
+    const { createReviewSession } = require('../worker/reviewSessions');
+    const improvement = (url: string) => ({
+      url,
+      currentState: { title: null, metaDescription: null, h1: null, hasSchema: false, contentLength: 0 },
+      recommendedTitle: 'Plumbing in Austin | Acme',
+      recommendedMetaDescription: null,
+      suggestedAdditions: {
+        answerCapsule: 'Acme Plumbing serves Austin.',
+        faq: [{ question: 'Do you serve Austin?', answer: 'Yes.', isPlaceholder: false }],
+      },
+      priorityActions: [],
+      estimatedImpact: 'high',
+    });
+    const plan = planPatches(
+      [improvement('https://example.com/'), improvement('https://example.com/services')],
+      new Map(),
+      { pathContract: { projectType: 'astro-pages', routeStrategy: 'path-index' } }
+    );
+    return createReviewSession({
+      siteUrl: 'https://example.com',
+      selectedTargets: ['/', '/services'],
+      plannedFiles: plan.plannedChanges.map((c: { url: string; filePath: string; action: string }) => ({
+        url: c.url, filePath: c.filePath, action: c.action, humanReviewRequired: false, reviewNotes: [],
+      })),
+      diffPreviews: plan.diffPreviews,
+      patches: plan.plannedChanges.map((c: { url: string; filePath: string; newContent: string; blocks: unknown[] }) => ({
+        url: c.url, filePath: c.filePath, newContent: c.newContent, originalContent: null, blocks: c.blocks,
+      })),
+      targetRepo: { owner: 'test', repo: 'test', branch: 'main', projectType: 'astro-pages', routeStrategy: 'path-index' },
+    });
+  }
+
+  await test('apply writes only accepted files and blocks', () => {
+    const { applyReviewDecisions, acceptPendingDecisions, buildAcceptedChanges } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const [home, services] = session.plannedFiles.map((f: { filePath: string }) => f.filePath);
+    assertEqual(session.plannedFiles[0].blocks.length, 3, 'Each file should list its blocks');
+
+    const result = applyReviewDecisions(session, [
+      { filePath: home, blockType: 'faq', decision: 'rejected' },
+      { filePath: services, decision: 'rejected' },
+    ]);
+    assert(result.valid, 'Decisions should be accepted');
+    acceptPendingDecisions(session);
+    assertEqual(session.plannedFiles[0].decision, 'accepted', 'Approval should accept pending files');
+
+    const changes = buildAcceptedChanges(session);
+    assertEqual(changes.length, 1, 'Rejected file should be dropped');
+    assert(changes[0].newContent.includes('nico-geo:block:answer-capsule:start'), 'Accepted block should be kept');
+    assert(!changes[0].newContent.includes('nico-geo:block:faq:start'), 'Rejected block should be removed');
+  });
+
+  await test('decisions are validated and re-open approved sessions', () => {
+    const { applyReviewDecisions, canApproveSession, canApplySession } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const home = session.plannedFiles[0].filePath;
+    assert(!applyReviewDecisions(session, [{ filePath: 'nope.astro', decision: 'rejected' }]).valid, 'Unknown file should fail');
+    assert(!applyReviewDecisions(session, [{ filePath: home, blockType: 'schema', decision: 'rejected' }]).valid, 'Unplanned block should fail');
+
+    session.status = 'approved';
+    applyReviewDecisions(session, [{ filePath: home, blockType: 'meta', decision: 'rejected' }]);
+    assertEqual(session.status, 'pending', 'A changed decision should require re-approval');
+
+    session.status = 'rejected';
+    assert(!canApproveSession(session).canApprove, 'Rejected session cannot be approved');
+    assert(!canApplySession(session).canApply, 'Rejected session cannot be applied');
+  });
+
+  await test('comments thread and anchor to files', () => {
+    const { addReviewComment } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const home = session.plannedFiles[0].filePath;
+    const first = addReviewComment(session, { body: 'FAQ answer is too short', filePath: home, blockType: 'faq' }, 'key_a');
+    assert(first.valid, 'Anchored comment should be added');
+    const reply = addReviewComment(session, { body: 'Agreed', parentId: first.comment.commentId }, 'key_b');
+    assert(reply.valid, 'Reply should be added');
+    assertEqual(session.comments.length, 2, 'Both comments should be stored');
+    assert(!addReviewComment(session, { body: 'x', parentId: 'missing' }, 'key_a').valid, 'Unknown parent should fail');
+    assert(!addReviewComment(session, { body: 'x', blockType: 'faq' }, 'key_a').valid, 'blockType needs filePath');
+  });
+
+  // In-memory KV; TTLs are ignored
+  function createSessionKv() {
+    const data = new Map<string, string>();
+    return {
+      data,
+      async get(key: string) { return data.get(key) ?? null; },
+      async put(key: string, value: string) { data.set(key, value); },
+      async delete(key: string) { data.delete(key); },
+    };
+  }
+
+  await test('sessions are listed per key with filters and pagination', async () => {
+    const { storeSession, updateSessionStatus, listSessions, parseReviewListQuery } = require('../worker/reviewSessions');
+    const kv = createSessionKv();
+    const sessions = [];
+    const day = (n: number) => new Date(Date.UTC(2026, 0, 1) + n * 86400000).toISOString();
+    const today = Math.floor((Date.now() - Date.UTC(2026, 0, 1)) / 86400000);
+    for (let i = 0; i < 3; i++) {
+      const session = createDecisionSession();
+      session.keyId = 'key_list';
+      session.createdAt = day(today - 3 + i);
+      session.expiresAt = '2999-01-01T00:00:00.000Z';
+      if (i === 2) session.siteUrl = 'https://other.test';
+      await storeSession(kv, session);
+      sessions.push(session);
+    }
+    await storeSession(kv, { ...createDecisionSession(), keyId: 'key_other' });
+    await updateSessionStatus(kv, sessions[0].sessionId, 'applied', ['abc123']);
+
+    const query = (qs: string) => {
+      const parsed = parseReviewListQuery(new URL(`https://api.test/review?${qs}`));
+      assert(parsed.valid, `Query should be valid: ${qs}`);
+      return listSessions(kv, 'key_list', parsed.query);
+    };
+    const all = await query('');
+    assertEqual(all.total, 3, 'Only the calling key\'s sessions should be listed');
+    assertEqual(all.sessions[0].sessionId, sessions[2].sessionId, 'Newest session first');
+    assertEqual((await query('status=applied')).sessions[0].commitShas.join(','), 'abc123', 'Applied entry carries commits');
+    assertEqual((await query('siteUrl=https://www.example.com/page')).total, 2, 'siteUrl matches on host');
+    assertEqual((await query(`from=${day(today - 2)}&to=${day(today - 1)}`)).total, 1, 'Date range filters createdAt');
+    const page = await query('offset=1&limit=1');
+    assertEqual(page.sessions.length, 1, 'limit should apply');
+    assertEqual(page.sessions[0].sessionId, sessions[1].sessionId, 'offset should apply');
+    assert(!parseReviewListQuery(new URL('https://api.test/review?status=done')).valid, 'Unknown status should fail');
+    assert(!parseReviewListQuery(new URL('https://api.test/review?limit=1000')).valid, 'Oversized limit should fail');
+  });
+
+  await test('applied sessions are archived beyond their TTL', async () => {
+    const { storeSession, updateSessionStatus, getArchivedSession, getSessionWithExpirationCheck, listSessions, buildSessionKey } = require('../worker/reviewSessions');
+    const kv = createSessionKv();
+    const applied = { ...createDecisionSession(), keyId: 'key_arch', approvedBy: 'key_approver' };
+    const abandoned = { ...createDecisionSession(), keyId: 'key_arch', expiresAt: '2000-01-01T00:00:00.000Z' };
+    await storeSession(kv, applied);
+    await storeSession(kv, abandoned);
+    await updateSessionStatus(kv, applied.sessionId, 'applied', ['def456']);
+    kv.data.delete(buildSessionKey(applied.sessionId));
+
+    assert(!(await getSessionWithExpirationCheck(kv, applied.sessionId)).found, 'Session itself should be gone');
+    const record = await getArchivedSession(kv, applied.sessionId);
+    assertEqual(record.commitShas.join(','), 'def456', 'Archive keeps commit SHAs');
+    assertEqual(record.approvedBy, 'key_approver', 'Archive keeps the approver');
+    assertEqual(record.appliedFiles.length, 2, 'Archive lists applied files');
+    assertEqual(await getArchivedSession(kv, abandoned.sessionId), null, 'Unapplied sessions are not archived');
+
+    const listed = await listSessions(kv, 'key_arch', { offset: 0, limit: 10 });
+    const statuses = listed.sessions.map((s: { sessionId: string; status: string }) => s.status).sort().join(',');
+    assertEqual(statuses, 'applied,expired', 'Timed-out sessions should list as expired');
+  });
+
+  await test('only the creating key owns a session', () => {
+    const { isSessionOwner } = require('../worker/reviewSessions');
+    assert(isSessionOwner({ keyId: 'key-a' }, 'key-a'), 'The creating key should own the session');
+    assert(!isSessionOwner({ keyId: 'key-a' }, 'key-b'), 'Another key should not own the session');
+    assert(isSessionOwner({}, 'key-b'), 'Sessions without a key should be open to any key');
+  });
+
+  await test('block edits rebuild the file and re-open approved sessions', () => {
+    const { editReviewBlock } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const home = session.plannedFiles[0].filePath;
+    session.status = 'approved';
+    const edited = '<div class="geo-answer-capsule">\n  <p>Acme Plumbing is based in Austin and serves the whole city.</p>\n</div>';
+    const result = editReviewBlock(session, home, 'answer-capsule', edited);
+    assert(result.valid, `Rewording should be accepted: ${result.error}`);
+    assertEqual(session.status, 'pending', 'An edit should require re-approval');
+    assert(session.patches[0].newContent.includes('serves the whole city'), 'newContent should use the edit');
+    assert(result.diffPreview.diff.includes('serves the whole city'), 'Diff should be recomputed');
+    assertEqual(session.plannedFiles[0].editedBlocks.join(','), 'answer-capsule', 'Edited block should be recorded');
+    assert(!editReviewBlock(session, home, 'schema', edited).valid, 'Unplanned block should fail');
+    assert(!editReviewBlock(session, 'nope.astro', 'faq', edited).valid, 'Unknown file should fail');
+  });
+
+  await test('block edits cannot introduce new claims', () => {
+    const { editReviewBlock } = require('../worker/reviewSessions');
+    const { findIntroducedClaims } = require('../core/rules/antiHallucination');
+    const session = createDecisionSession();
+    const home = session.plannedFiles[0].filePath;
+    for (const claim of ['with 15 years of experience', 'a licensed plumber', 'in Dallas']) {
+      const result = editReviewBlock(session, home, 'answer-capsule', `<p>Acme Plumbing serves Austin ${claim}.</p>`);
+      assert(!result.valid && result.violations.length > 0, `"${claim}" should be rejected`);
+    }
+    assertEqual(session.plannedFiles[0].editedBlocks, undefined, 'Rejected edits should not be recorded');
+    assertEqual(findIntroducedClaims('<p>Call us in Austin</p>', ['Acme serves Austin']).length, 0, 'Traced place is fine');
+  });
+
+  await test('block edits are checked against business facts, not page chrome', () => {
+    const { editReviewBlock } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const home = session.plannedFiles[0].filePath;
+    session.patches[0].originalContent = '<html><body><main></main>' +
+      '<footer>Call 512-555-0142. Licensed in Texas.</footer><script>gtag("config", "G-48213")</script></body></html>';
+
+    for (const claim of ['at 512-555-0142', 'with 48213 customers', 'a licensed plumber']) {
+      const result = editReviewBlock(session, home, 'answer-capsule', `<p>Acme Plumbing serves Austin ${claim}.</p>`);
+      assert(!result.valid, `"${claim}" only appears in page chrome and should be rejected`);
+    }
+
+    session.businessInput = {
+      business: { name: 'Acme Plumbing' },
+      location: { primaryCity: 'Austin', country: 'USA', serviceAreas: ['Austin'] },
+      contact: { phone: '512-555-0142' },
+      services: { primary: ['Drain Cleaning'] },
+      constraints: { noHallucinations: true },
+    };
+    const result = editReviewBlock(session, home, 'answer-capsule', '<p>Acme Plumbing serves Austin. Call 512-555-0142.</p>');
+    assert(result.valid, `A phone number from the business facts should be accepted: ${result.error}`);
+  });
+
+  await test('drifted files are rebased when their marker blocks are untouched', () => {
+    const { buildAcceptedChanges, resolveSessionDrift, hasDrifted } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const [home, services] = session.patches;
+    home.baseReadAt = services.baseReadAt = '2026-01-01T00:00:00.000Z';
+
+    const current = '<html><body><main><p>Written by hand</p></main></body></html>';
+    const files = new Map([[home.filePath, { path: home.filePath, content: current, sha: 'b' }], [services.filePath, null]]);
+    const result = resolveSessionDrift(session, buildAcceptedChanges(session), files);
+
+    assertEqual(result.conflicts.length, 0, 'Nothing should conflict');
+    assertEqual(result.rebasedFiles.join(','), home.filePath, 'Only the drifted file should be rebased');
+    const rebased = result.changes.find((c: { filePath: string }) => c.filePath === home.filePath);
+    assertEqual(rebased.action, 'update', 'A file created since planning should be updated');
+    assert(rebased.newContent.includes('Written by hand') && rebased.newContent.includes('nico-geo:block:faq:start'),
+      'Blocks should be applied to the current content');
+    assertEqual(result.patches[0].baseSha, 'b', 'The stored base should move to the current file');
+    assertEqual(session.patches[0].baseSha, undefined, 'The session itself should not be modified');
+
+    // Providers without blob SHAs fall back to comparing content
+    const unchanged = { ...result.patches[0], baseSha: undefined };
+    assert(!hasDrifted(unchanged, { path: home.filePath, content: current }), 'Same content should not drift');
+    assert(hasDrifted(unchanged, { path: home.filePath, content: `${current}\n` }), 'New content should drift');
+  });
+
+  await test('edited marker blocks or deleted files fail with fresh diffs', () => {
+    const { buildAcceptedChanges, resolveSessionDrift } = require('../worker/reviewSessions');
+    const session = createDecisionSession();
+    const [home, services] = session.patches;
+    for (const patch of session.patches) {
+      patch.originalContent = patch.newContent;
+      patch.baseReadAt = '2026-01-01T00:00:00.000Z';
+      patch.baseSha = 'a';
+    }
+
+    const edited = home.originalContent.replace('Acme Plumbing serves Austin.', 'Acme Plumbing serves all of Austin.');
+    const files = new Map([[home.filePath, { path: home.filePath, content: edited, sha: 'b' }], [services.filePath, null]]);
+    const result = resolveSessionDrift(session, buildAcceptedChanges(session), files);
+
+    assertEqual(result.conflicts.length, 2, 'Both files should conflict');
+    const [homeConflict, servicesConflict] = result.conflicts;
+    assert(homeConflict.reason.includes('answer-capsule'), `Reason should name the block: ${homeConflict.reason}`);
+    assert(homeConflict.diffPreview.diff.includes('-  <p>Acme Plumbing serves all of Austin.</p>'),
+      'Diff should run from the current file');
+    assert(servicesConflict.reason.includes('deleted'), `Reason should report the deletion: ${servicesConflict.reason}`);
+    assertEqual(result.changes.length, 0, 'Conflicting files should not be applied');
+  });
+
+  await test('revert restores untouched files and strips blocks from edited ones', () => {
+    const { buildRevertSources, planSessionRevert, canRevertSession } = require('../worker/reviewSessions');
+    const { buildPatchedContent, stripMarkerBlocks } = require('../core/writeback/patchApplier');
+    const session = createDecisionSession();
+    const page = '<html><body><main><p>Hand-written</p></main></body></html>\n';
+    const patched = buildPatchedContent(page, 'astro', session.patches[0].blocks);
+    assertEqual(stripMarkerBlocks(patched, 'astro'), page, 'Stripping inserted blocks should give back the original');
+
+    session.patches[0].originalContent = page;
+    session.patches[0].newContent = patched;
+    session.status = 'applied';
+    assert(canRevertSession(session).canRevert, 'Applied sessions can be reverted');
+
+    const [home, services] = buildRevertSources(session);
+    const editedLater = services.writtenContent.replace('<main>', '<main>\n<p>Added after apply</p>');
+    const files = new Map([
+      [home.filePath, { path: home.filePath, content: patched }],
+      [services.filePath, { path: services.filePath, content: editedLater }],
+    ]);
+    const plan = planSessionRevert([home, services], files);
+    assertEqual(plan.restoredFiles.join(','), home.filePath, 'Untouched file should be restored');
+    assertEqual(plan.strippedFiles.join(','), services.filePath, 'Edited file should be stripped');
+    assertEqual(plan.changes[0].newContent, page, 'Restore should write the original content');
+    assert(plan.changes[1].newContent.includes('Added after apply') && !plan.changes[1].newContent.includes('nico-geo:block'),
+      'Stripping should keep later edits');
+
+    // Archived sessions only know paths, and cleaned files are skipped
+    const archived = planSessionRevert([{ filePath: home.filePath }, { filePath: 'gone.astro' }],
+      new Map([[home.filePath, { path: home.filePath, content: page }], ['gone.astro', null]]));
+    assertEqual(archived.changes.length, 0, 'Nothing should be written for clean or missing files');
+    assert(!canRevertSession({ status: 'approved' }).canRevert, 'Unapplied sessions cannot be reverted');
+    assert(canRevertSession({ status: 'reverted' }).isIdempotent, 'Reverting twice is idempotent');
+  });
+
+  await test('revert deletes files apply created unless they were edited since', () => {
+    const { planSessionRevert } = require('../worker/reviewSessions');
+    const { buildRevertPullRequestDetails } = require('../core/writeback/pullRequest');
+    const skeleton = '<html><body><main><!-- nico-geo:block:faq:start -->\n<p>FAQ</p>\n<!-- nico-geo:block:faq:end --></main></body></html>';
+    const edited = skeleton.replace('<main>', '<main><p>Written since</p>');
+    const plan = planSessionRevert(
+      [
+        { filePath: 'src/pages/new.astro', originalContent: null, writtenContent: skeleton },
+        { filePath: 'src/pages/kept.astro', originalContent: null, writtenContent: skeleton },
+      ],
+      new Map([
+        ['src/pages/new.astro', { path: 'src/pages/new.astro', content: skeleton }],
+        ['src/pages/kept.astro', { path: 'src/pages/kept.astro', content: edited }],
+      ])
+    );
+    assertEqual(plan.deletedFiles.join(','), 'src/pages/new.astro', 'Untouched created file should be deleted');
+    assertEqual(plan.strippedFiles.join(','), 'src/pages/kept.astro', 'Edited created file should only be stripped');
+    assertEqual(plan.changes.length, 1, 'Deleted files are not written');
+
+    const details = buildRevertPullRequestDetails({
+      siteUrl: 'https://example.com',
+      sessionId: 'abc-123',
+      commitShas: ['c1'],
+      ...plan,
+    });
+    assert(details.title.includes('(2 files)'), 'Deleted files should be counted');
+    assert(details.body.includes('`src/pages/new.astro` - deleted'), 'Body should list deleted files');
+  });
+
+  await test('revert closes an unmerged apply pull request instead of reverting files', async () => {
+    const { revertUnmergedPullRequest } = require('../worker/reviewSessions');
+    const pullRequest = { number: 9, url: 'https://github.com/acme/site/pull/9', branch: 'nico-geo/review-1', base: 'main' };
+    const fakeProvider = (state: string) => {
+      const closed: number[] = [];
+      return {
+        closed,
+        getMergeRequestState: async () => state,
+        closeMergeRequest: async (n: number) => { closed.push(n); },
+      };
+    };
+
+    const open = fakeProvider('open');
+    const result = await revertUnmergedPullRequest(open, pullRequest);
+    assertEqual(open.closed.join(','), '9', 'Open pull request should be closed');
+    assert(result.closed, 'Result should report the close');
+    assertEqual(result.revert.unmergedPullRequest.number, 9, 'Revert record should name the pull request');
+    assertEqual(result.revert.commitShas.length, 0, 'No commits should be made');
+
+    const alreadyClosed = fakeProvider('closed');
+    const closedResult = await revertUnmergedPullRequest(alreadyClosed, pullRequest);
+    assertEqual(alreadyClosed.closed.length, 0, 'Closed pull request should not be closed again');
+    assert(!closedResult.closed, 'Result should report nothing was closed');
+
+    assertEqual(await revertUnmergedPullRequest(fakeProvider('merged'), pullRequest), null, 'Merged pull requests need a file revert');
+  });
+
+  await test('reverts are recorded on archived sessions', async () => {
+    const { storeSession, updateSessionStatus, recordSessionRevert, getArchivedSession, listSessions, buildSessionKey } = require('../worker/reviewSessions');
+    const kv = createSessionKv();
+    const session = { ...createDecisionSession(), keyId: 'key_revert' };
+    session.targetRepo = { ...session.targetRepo, provider: 'gitlab', applyMode: 'pull-request' };
+    await storeSession(kv, session);
+    await updateSessionStatus(kv, session.sessionId, 'applied', ['abc123']);
+    kv.data.delete(buildSessionKey(session.sessionId));
+
+    const revert = { revertedAt: new Date().toISOString(), commitShas: ['fed321'], restoredFiles: [], strippedFiles: ['a.astro'] };
+    await recordSessionRevert(kv, session.sessionId, revert);
+    const record = await getArchivedSession(kv, session.sessionId);
+    assertEqual(record.revert.commitShas.join(','), 'fed321', 'Archive should keep the revert');
+    assertEqual(record.targetRepo.provider, 'gitlab', 'Archive should keep the provider for later reverts');
+    const listed = await listSessions(kv, 'key_revert', { status: 'reverted', offset: 0, limit: 10 });
+    assertEqual(listed.sessions.length, 1, 'Index entry should move to reverted');
+  });
+
   // ========================================
   // Test 8: Observability
   // ========================================
@@ -306,6 +1386,549 @@ async function main() {
     assert(body.message === 'Test error', 'Should have message');
   });
 
+  // ========================================
+  // Test 10: HTML Extraction
+  // ========================================
+  console.log('\n10. HTML Extraction');
+
+  await test('can import html extractor module', () => {
+    const { extractPage } = require('../core/ingest/htmlExtractor');
+    assert(typeof extractPage === 'function', 'extractPage should be a function');
+  });
+
+  await test('extracts head tags regardless of attribute order', () => {
+    const { extractPage } = require('../core/ingest/htmlExtractor');
+    const page = extractPage(`<!DOCTYPE html><html><head>
+      <!-- <title>Commented Out</title> -->
+      <title>Plumbing &amp; Drains</title>
+      <meta content="Trusted plumbers in Austin" name="description">
+      <link href="https://example.com/" rel="canonical">
+      <meta name=robots content=noindex>
+    </head><body></body></html>`);
+    assertEqual(page.title, 'Plumbing & Drains', 'Title should skip comments and decode entities');
+    assertEqual(page.metaDescription, 'Trusted plumbers in Austin', 'Meta with content first should be read');
+    assertEqual(page.canonical, 'https://example.com/', 'Canonical with href first should be read');
+    assertEqual(page.metaRobots, 'noindex', 'Unquoted attributes should be read');
+  });
+
+  await test('extracts headings, body text and links from nested markup', () => {
+    const { extractPage } = require('../core/ingest/htmlExtractor');
+    const page = extractPage(`<body>
+      <h1>Emergency <span>Plumbing</span> in <a href="/austin">Austin</a></h1>
+      <p>We fix leaks<p>Call <b>today</b>
+      <script>var hidden = "<h2>not a heading</h2>";</script>
+      <h2>Drain Cleaning</h2>
+      <ul><li>Residential<li>Commercial</ul>
+    </body>`);
+    assertEqual(page.headings.length, 2, 'Script content should not produce headings');
+    assertEqual(page.headings[0].text, 'Emergency Plumbing in Austin', 'H1 should include nested text');
+    assertEqual(page.bodyText, 'Emergency Plumbing in Austin We fix leaks Call today Drain Cleaning Residential Commercial', 'Unexpected body text');
+    assertEqual(page.links[0].href, '/austin', 'Should extract link inside heading');
+  });
+
+  await test('parses JSON-LD including @graph, nested types and CDATA', () => {
+    const { extractPage } = require('../core/ingest/htmlExtractor');
+    const page = extractPage(`<head>
+      <script type="application/ld+json">//<![CDATA[
+        {"@context":"https://schema.org","@graph":[{"@type":"Plumber","address":{"@type":"PostalAddress"}},{"@type":["FAQPage"]}]}
+      //]]></script>
+      <script type="application/ld+json">{ invalid </script>
+    </head>`);
+    assertEqual(page.jsonLdBlocks.length, 2, 'Should keep raw blocks');
+    assertEqual(page.jsonLd.length, 1, 'Invalid JSON-LD should be skipped');
+    assertEqual(page.schemaTypes.join(','), 'Plumber,PostalAddress,FAQPage', 'Unexpected schema types');
+  });
+
+  // ========================================
+  // Test 11: Audit Rules
+  // ========================================
+  console.log('\n11. Audit Rules');
+
+  const auditHtml = `<html><head>
+    <title>Plumber | Acme</title>
+    <meta name="description" content="Emergency plumbing in Austin. Call today.">
+    <script type="application/ld+json">{"@type":"Plumber","areaServed":"Austin"}</script>
+  </head><body>
+    <h1>Emergency Plumbing in Austin</h1>
+    <p>Call <a href="tel:5125550100">512-555-0100</a> or email office@acme-plumbing.com.</p>
+    <a href="/services/drains">Drain cleaning</a>
+  </body></html>`;
+
+  await test('registry rule IDs are unique and stable', () => {
+    const { AUDIT_RULES } = require('../core/analyze/auditRules');
+    for (const [key, rule] of Object.entries(AUDIT_RULES) as Array<[string, { id: string }]>) {
+      assertEqual(rule.id, key, 'Registry key should match rule id');
+    }
+    for (const id of ['missing_title', 'weak_title', 'missing_meta_description', 'no_faq_detected', 'no_schema_detected', 'answer_capsule_opportunity']) {
+      assert(id in AUDIT_RULES, `Downstream gap type ${id} should be a rule`);
+    }
+  });
+
+  await test('gap analysis and single-page audit agree on score and findings', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const { analyzeGeoGaps } = require('../core/analyze/geoGapAnalyzer');
+    const page = buildPageData('https://acme-plumbing.com/', auditHtml);
+    const report = runAuditRules([page], { entryUrl: 'https://acme-plumbing.com' });
+    const gaps = analyzeGeoGaps({
+      baseUrl: 'https://acme-plumbing.com',
+      crawledAt: '2024-01-01T00:00:00.000Z',
+      pagesAnalyzed: 1,
+      maxPagesLimit: 1,
+      pages: [page],
+      errors: [],
+      sitemapFound: false,
+    });
+    assertEqual(gaps.siteScore, report.score, 'Site score should match the single-page audit score');
+    assertEqual(gaps.pages[0].geoScore, report.pages[0].score, 'Page score should match');
+    assertEqual(
+      gaps.pages[0].gaps.map((g: { type: string }) => g.type).join(','),
+      report.pages[0].findings.map((f: { ruleId: string }) => f.ruleId).join(','),
+      'Gap types should be the rule IDs'
+    );
+    assert(report.pages[0].passedRuleIds.includes('phone_not_clickable'), 'tel: link should satisfy phone_not_clickable');
+    assert(report.pages[0].passedRuleIds.includes('schema_missing_service_area'), 'areaServed should satisfy schema_missing_service_area');
+  });
+
+  await test('homepage rules only apply to the entry page', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const home = buildPageData('https://acme-plumbing.com/', auditHtml);
+    const service = buildPageData('https://acme-plumbing.com/services/drains', auditHtml);
+    const report = runAuditRules([home, service]);
+    const serviceIds = report.pages[1].findings.map((f: { ruleId: string }) => f.ruleId);
+    assert(!serviceIds.includes('missing_review_schema'), 'Homepage-only rule should not run on service page');
+    assert(serviceIds.includes('answer_capsule_opportunity'), 'Service page should get answer capsule opportunity');
+    const capsule = report.pages[1].findings.find((f: { ruleId: string }) => f.ruleId === 'answer_capsule_opportunity');
+    assertEqual(capsule.weight, 0, 'Opportunities should not lower the score');
+  });
+
+  await test('unreachable pages only report http_error', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const page = { ...buildPageData('https://acme-plumbing.com/gone', ''), httpStatus: 404, fetchError: 'HTTP 404' };
+    const report = runAuditRules([page]);
+    assertEqual(report.pages[0].findings.map((f: { ruleId: string }) => f.ruleId).join(','), 'http_error', 'Only http_error expected');
+    assertEqual(report.pages[0].score, 80, 'Critical finding should deduct 20');
+  });
+
+  // ========================================
+  // Test 12: Audit Profiles
+  // ========================================
+  console.log('\n12. Audit Profiles');
+
+  await test('profiles only reference registered rules', () => {
+    const { AUDIT_RULES } = require('../core/analyze/auditRules');
+    const { AUDIT_PROFILES } = require('../core/analyze/auditProfiles');
+    for (const [key, profile] of Object.entries(AUDIT_PROFILES) as Array<[string, Record<string, any>]>) {
+      assertEqual(profile.id, key, 'Registry key should match profile id');
+      const ruleIds = [
+        ...(profile.enabledRules ?? []),
+        ...(profile.disabledRules ?? []),
+        ...Object.keys(profile.severityOverrides ?? {}),
+      ];
+      for (const ruleId of ruleIds) {
+        assert(ruleId in AUDIT_RULES, `Profile ${key} references unknown rule ${ruleId}`);
+      }
+    }
+  });
+
+  await test('profiles enable and disable rules', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const { getAuditProfile } = require('../core/analyze/auditProfiles');
+    const page = buildPageData('https://acme-plumbing.com/', auditHtml);
+    const ruleIds = (report: { pages: Array<{ findings: Array<{ ruleId: string }>; passedRuleIds: string[] }> }) => [
+      ...report.pages[0].findings.map(f => f.ruleId),
+      ...report.pages[0].passedRuleIds,
+    ];
+    const defaults = runAuditRules([page]);
+    const ecommerce = runAuditRules([page], { profile: getAuditProfile('ecommerce') });
+    assert(!ruleIds(defaults).includes('missing_product_schema'), 'Default-off rule should not run by default');
+    assert(ruleIds(ecommerce).includes('missing_product_schema'), 'ecommerce should enable missing_product_schema');
+    assert(!ruleIds(ecommerce).includes('no_geo_targeting'), 'ecommerce should disable geo rules');
+    assertEqual(ecommerce.profileId, 'ecommerce', 'Report should name the profile');
+  });
+
+  await test('profile severity overrides win over evidence severity', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const page = buildPageData('https://acme-plumbing.com/', auditHtml);
+    const profile = { id: 'custom', name: 'Custom', description: '', severityOverrides: { weak_title: 'low' } };
+    const defaults = runAuditRules([page]).pages[0].findings.find((f: { ruleId: string }) => f.ruleId === 'weak_title');
+    const overridden = runAuditRules([page], { profile }).pages[0].findings.find((f: { ruleId: string }) => f.ruleId === 'weak_title');
+    assertEqual(defaults.severity, 'high', 'Default severity expected');
+    assertEqual(overridden.severity, 'low', 'Override should apply');
+    assertEqual(overridden.weight, 2, 'Weight should follow the overridden severity');
+  });
+
+  await test('profile thresholds tune rules and recommendations', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { runAuditRules } = require('../core/analyze/auditEngine');
+    const { getAuditProfile, isValidAuditProfile } = require('../core/analyze/auditProfiles');
+    const page = buildPageData('https://acme-plumbing.com/', auditHtml);
+    const lenient = { id: 'lenient', name: 'Lenient', description: '', thresholds: { minContentLength: 5 } };
+    const report = runAuditRules([page], { profile: lenient });
+    assert(report.pages[0].passedRuleIds.includes('low_content_depth'), 'Lower minContentLength should pass thin content');
+    const strict = runAuditRules([page], { profile: getAuditProfile('strict') });
+    const weakTitle = strict.pages[0].findings.find((f: { ruleId: string }) => f.ruleId === 'weak_title');
+    assert(weakTitle.recommendation.includes('at least 30 characters'), 'Recommendation should use profile thresholds');
+    assert(!isValidAuditProfile('toString'), 'Prototype keys are not profiles');
+    assertEqual(getAuditProfile('nope'), undefined, 'Unknown profile should be undefined');
+  });
+
+  // ========================================
+  // 13. Jobs
+  // ========================================
+  console.log('\n13. Jobs');
+
+  // In-memory Durable Object storage with its 128-key call limit; alarms are fired by hand
+  function createJobStorage() {
+    const data = new Map<string, unknown>();
+    let alarmAt: number | null = null;
+    const checkKeyLimit = (count: number) => {
+      if (count > 128) throw new Error(`Storage call with ${count} keys exceeds the 128-key limit`);
+    };
+    const storage = {
+      async get(key: string | string[]) {
+        if (Array.isArray(key)) {
+          checkKeyLimit(key.length);
+          const found = new Map<string, unknown>();
+          for (const k of key) if (data.has(k)) found.set(k, structuredClone(data.get(k)));
+          return found;
+        }
+        return data.has(key) ? structuredClone(data.get(key)) : undefined;
+      },
+      async put(keyOrEntries: string | Record<string, unknown>, value?: unknown) {
+        if (typeof keyOrEntries === 'string') {
+          data.set(keyOrEntries, structuredClone(value));
+        } else {
+          checkKeyLimit(Object.keys(keyOrEntries).length);
+          for (const [k, v] of Object.entries(keyOrEntries)) data.set(k, structuredClone(v));
+        }
+      },
+      async deleteAll() { data.clear(); },
+      async setAlarm(time: number) { alarmAt = time; },
+    };
+    return { storage, data, pendingAlarm: () => alarmAt };
+  }
+
+  // Homepage linking to two pages; no sitemap
+  const jobSitePages: Record<string, string> = {
+    'https://jobs-site.test/': '<html><head><title>Home</title></head><body><h1>Home</h1>' +
+      '<a href="/services">Services</a><a href="/contact">Contact</a></body></html>',
+    'https://jobs-site.test/services': '<html><head><title>Services</title></head><body><h1>Services</h1><a href="/">Home</a></body></html>',
+    'https://jobs-site.test/contact': '<html><head><title>Contact</title></head><body><h1>Contact</h1><a href="/">Home</a></body></html>',
+  };
+
+  async function withJobSite(fn: () => Promise<void>, pages: Record<string, string> = jobSitePages): Promise<void> {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      const html = pages[href];
+      return html
+        ? new Response(html, { status: 200, headers: { 'content-type': 'text/html' } })
+        : new Response('Not found', { status: 404 });
+    }) as typeof fetch;
+    try {
+      await fn();
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  async function startTestJob(body: Record<string, unknown>, keyId = 'key_jobs') {
+    const { JobRunnerDO } = require('../worker/doJobRunner');
+    const { validateJobCreateRequest, createJobRecord } = require('../worker/jobs');
+    const mock = createJobStorage();
+    const runner = new JobRunnerDO({ storage: mock.storage });
+    const validation = validateJobCreateRequest(body);
+    assert(validation.valid, 'Job request should be valid');
+    const job = createJobRecord(validation.request, keyId);
+    const res = await runner.fetch(new Request('https://job-runner.internal/start', {
+      method: 'POST',
+      body: JSON.stringify({ job }),
+    }));
+    assertEqual(res.status, 201, 'Start should return 201');
+    return { runner, mock, job };
+  }
+
+  async function readJob(runner: { fetch(r: Request): Promise<Response> }, keyId: string, query = '') {
+    const res = await runner.fetch(new Request(`https://job-runner.internal/status?keyId=${keyId}${query}`));
+    return { status: res.status, body: res.status === 200 ? await res.json() : undefined };
+  }
+
+  await test('improve job runs to completion across alarms', async () => {
+    await withJobSite(async () => {
+      const { runner, mock } = await startTestJob({
+        mode: 'improve',
+        siteUrl: 'https://jobs-site.test/',
+        constraints: { noHallucinations: true },
+      });
+      let steps = 0;
+      let state = await readJob(runner, 'key_jobs');
+      while (!['completed', 'failed'].includes(state.body.job.status) && steps < 20) {
+        assert(mock.pendingAlarm() !== null, 'An alarm should be pending while the job runs');
+        await runner.alarm();
+        steps++;
+        state = await readJob(runner, 'key_jobs');
+      }
+      assertEqual(state.body.job.status, 'completed', 'Job should complete');
+      assertEqual(state.body.job.phase, 'done', 'Phase should be done');
+      assertEqual(state.body.job.progress.pagesCrawled, 3, 'All three pages crawled');
+      assertEqual(state.body.job.summary.totalPages, 3, 'Summary should cover all pages');
+      assert(Array.isArray(state.body.job.summary.siteWideSuggestions), 'Improve job should include site-wide suggestions');
+      assert(state.body.job.expiresAt !== undefined, 'Finished job should have an expiry');
+      assertEqual(state.body.job.keyId, undefined, 'keyId should not be exposed');
+
+      const windowed = await readJob(runner, 'key_jobs', '&offset=1&limit=1');
+      assertEqual(windowed.body.results.total, 3, 'Results total should count all pages');
+      assertEqual(windowed.body.results.pages.length, 1, 'Results should respect limit');
+    });
+  });
+
+  await test('large job stays within the storage key limit', async () => {
+    // 2,600 URLs is 130 URL batches, more than one storage call can hold
+    const paths = Array.from({ length: 2599 }, (_, i) => `/p${i}`);
+    const pages: Record<string, string> = {
+      'https://jobs-site.test/': `<html><head><title>Home</title></head><body><h1>Home</h1>${paths.map(p => `<a href="${p}">x</a>`).join('')}</body></html>`,
+    };
+    for (const p of paths) {
+      pages[`https://jobs-site.test${p}`] = '<html><head><title>Page</title></head><body><h1>Page</h1></body></html>';
+    }
+    await withJobSite(async () => {
+      const { runner } = await startTestJob({
+        mode: 'audit',
+        siteUrl: 'https://jobs-site.test/',
+        constraints: { noHallucinations: true, maxPages: 5000 },
+      });
+      let state = await readJob(runner, 'key_jobs');
+      for (let steps = 0; !['completed', 'failed'].includes(state.body.job.status) && steps < 300; steps++) {
+        await runner.alarm();
+        state = await readJob(runner, 'key_jobs');
+        assertEqual(state.body.job.failureReason, undefined, 'No step should fail');
+      }
+      assertEqual(state.body.job.progress.totalUrls, 2600, 'Every URL should be discovered');
+      assertEqual(state.body.job.status, 'completed', 'Job should complete');
+      assertEqual(state.body.job.summary.totalPages, 2600, 'Summary should cover all pages');
+    }, pages);
+  });
+
+  await test('cancelled job stops and cannot be cancelled twice', async () => {
+    await withJobSite(async () => {
+      const { runner } = await startTestJob({
+        mode: 'audit',
+        siteUrl: 'https://jobs-site.test/',
+        constraints: { noHallucinations: true },
+      });
+      const cancel = () => runner.fetch(new Request('https://job-runner.internal/cancel', {
+        method: 'POST',
+        body: JSON.stringify({ keyId: 'key_jobs' }),
+      }));
+      const first = await cancel();
+      assertEqual(first.status, 200, 'First cancel should succeed');
+      await runner.alarm();
+      const state = await readJob(runner, 'key_jobs');
+      assertEqual(state.body.job.status, 'cancelled', 'Job should stay cancelled');
+      assertEqual(state.body.job.progress.pagesCrawled, 0, 'Cancelled job should not crawl');
+      assertEqual((await cancel()).status, 409, 'Second cancel should conflict');
+    });
+  });
+
+  await test('jobs are only visible to the creating key', async () => {
+    const { runner } = await startTestJob({
+      mode: 'audit',
+      siteUrl: 'https://jobs-site.test/',
+      constraints: { noHallucinations: true },
+    }, 'key_owner');
+    assertEqual((await readJob(runner, 'key_owner')).status, 200, 'Owner can read the job');
+    assertEqual((await readJob(runner, 'key_other')).status, 404, 'Other keys get 404');
+  });
+
+  await test('job request validation', () => {
+    const { validateJobCreateRequest, MAX_JOB_PAGES } = require('../worker/jobs');
+    const base = { mode: 'audit', siteUrl: 'https://example.com', constraints: { noHallucinations: true } };
+    assert(validateJobCreateRequest(base).valid, 'Minimal audit job should be valid');
+    assert(
+      validateJobCreateRequest({ ...base, constraints: { noHallucinations: true, maxPages: MAX_JOB_PAGES } }).valid,
+      'maxPages up to the job limit should be valid'
+    );
+    assert(
+      !validateJobCreateRequest({ ...base, constraints: { noHallucinations: true, maxPages: MAX_JOB_PAGES + 1 } }).valid,
+      'maxPages above the job limit should be rejected'
+    );
+    assert(!validateJobCreateRequest({ ...base, mode: 'generate' }).valid, 'generate mode is not a job mode');
+    assert(!validateJobCreateRequest({ ...base, targetPaths: ['/'] }).valid, 'targetPaths needs improve mode');
+    assert(!validateJobCreateRequest({ ...base, auditProfile: 'nope' }).valid, 'Unknown profile should be rejected');
+  });
+
+  // ========================================
+  // 14. Run Event Stream
+  // ========================================
+  console.log('\n14. Run Event Stream');
+
+  await test('event stream sends progress then the final event, in order', async () => {
+    const { createRunEventStream, formatSseEvent } = require('../worker/runStream');
+    assertEqual(formatSseEvent('sitemap', { a: 1 }), 'event: sitemap\ndata: {"a":1}\n\n', 'SSE message format');
+
+    const stream = createRunEventStream({ 'x-request-id': 'req_1' });
+    assert(stream.response.headers.get('Content-Type').startsWith('text/event-stream'), 'Content type should be SSE');
+    assertEqual(stream.response.headers.get('x-request-id'), 'req_1', 'Extra headers should be kept');
+
+    const body = stream.response.text();
+    stream.emit({ type: 'sitemap', sitemapFound: false, urlCount: 2 });
+    stream.emit({ type: 'action_queue_scored', itemCount: 0, pagesWithGscData: 0, averageScore: 0 });
+    await stream.finish('result', { status: 'success' });
+    const text = await body;
+    const events = text.trim().split('\n\n').map((m: string) => m.split('\n')[0]);
+    assertEqual(events.join(','), 'event: sitemap,event: action_queue_scored,event: result', 'Events should arrive in order');
+  });
+
+  await test('crawl reports discovery and every crawled page', async () => {
+    await withJobSite(async () => {
+      const { crawlSite } = require('../core/ingest/siteCrawler');
+      const { crawlProgressEvents } = require('../worker/runStream');
+      const events: Array<{ type: string; crawled?: number; total?: number }> = [];
+      const result = await crawlSite('https://jobs-site.test/', {}, crawlProgressEvents((e: { type: string }) => events.push(e)));
+      assertEqual(events[0].type, 'sitemap', 'Discovery should be reported first');
+      const crawled = events.filter(e => e.type === 'page_crawled');
+      assertEqual(crawled.length, result.pages.length, 'Every page should be reported');
+      assertEqual(crawled[crawled.length - 1].crawled, crawled[crawled.length - 1].total, 'Last page should complete the count');
+    });
+  });
+
+  await test('pipeline reports each generator that runs', () => {
+    const { runGEOPipeline } = require('../core/pipeline/geoPipeline');
+    const completed: string[] = [];
+    const input = require('../inputs/example.business.json');
+    runGEOPipeline(input, {
+      generators: ['titleMeta', 'faq'],
+      onGeneratorComplete: (id: string) => completed.push(id),
+    });
+    assertEqual(completed.join(','), 'titleMeta,faq', 'Only enabled generators should be reported, in order');
+  });
+
+  // ========================================
+  // 15. Business Input Extraction
+  // ========================================
+  console.log('\n15. Business Input Extraction');
+
+  await test('draft business input is extracted from crawled pages with confidence and sources', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { extractBusinessInputDraft } = require('../core/analyze/businessInputExtractor');
+    const { validateBusinessInput } = require('../core/rules/businessInput.validator');
+    const crawl = (pages: Array<[string, string]>) => extractBusinessInputDraft({
+      baseUrl: 'https://acme.test',
+      crawledAt: '2024-01-01T00:00:00.000Z',
+      pagesAnalyzed: pages.length,
+      maxPagesLimit: 10,
+      pages: pages.map(([url, html]) => buildPageData(url, html)),
+      errors: [],
+      sitemapFound: false,
+    });
+    const field = (draft: import('../core/analyze/businessInputExtractor').BusinessInputDraft, path: string) => draft.fields.find(f => f.path === path)!;
+
+    const homeBody = '<h1>Plumbing in Austin</h1><p>Call 512-555-0199 or <a href="tel:+15125550100">us</a>. '
+      + 'Email <a href="mailto:hi@acme.test">hi@acme.test</a>. 123 Main St, Austin, TX 78701. Mon-Fri 8am-5pm.</p>';
+    const otherPages: Array<[string, string]> = [
+      ['https://acme.test/services/drain-cleaning', '<html><head><title>Drain Cleaning in Austin | Acme Plumbing</title></head><body><h1>Drain Cleaning in Austin</h1></body></html>'],
+      ['https://acme.test/services/', '<html><head><title>Services | Acme Plumbing</title></head><body><h1>Our Services</h1></body></html>'],
+      ['https://acme.test/areas/round-rock', '<html><head><title>Round Rock | Acme Plumbing</title></head><body><h1>Plumbers in Round Rock</h1></body></html>'],
+    ];
+
+    const fromText = crawl([
+      ['https://acme.test/', `<html><head><title>Acme Plumbing | Austin Plumbers</title></head><body>${homeBody}</body></html>`],
+      ...otherPages,
+    ]);
+    assertEqual(fromText.businessInput.business.name, 'Acme Plumbing', 'Name should come from repeated title segments');
+    assertEqual(field(fromText, 'business.name').confidence, 'medium', 'Title-derived name is medium confidence');
+    assert(fromText.needsConfirmation.includes('business.name'), 'Medium-confidence name needs confirmation');
+    assertEqual(fromText.businessInput.location.primaryCity, 'Austin', 'City should come from the address');
+    assertEqual(fromText.businessInput.contact.phone, '+15125550100', 'tel: link should win over page text');
+    assert(field(fromText, 'contact.phone').alternatives!.length === 1, 'Other phone should be kept as an alternative');
+    assert(field(fromText, 'contact.phone').needsConfirmation, 'Conflicting phones need confirmation');
+    assertEqual(fromText.businessInput.services.primary.join(','), 'Drain Cleaning', 'Service hubs should be skipped');
+    assertEqual(field(fromText, 'services.primary[0]').sourceUrl, 'https://acme.test/services/drain-cleaning', 'Services should cite their page');
+    assertEqual(fromText.businessInput.location.serviceAreas.join(','), 'Round Rock', 'Areas should come from location pages');
+    assertEqual(fromText.businessInput.operations.operatingHours, 'Mon-Fri 8am-5pm', 'Hours should come from page text');
+    assertEqual(fromText.missingFields.length, 0, 'No required field should be missing');
+    assert(validateBusinessInput(fromText.businessInput).valid, 'Draft should pass the BusinessInput validator');
+
+    const jsonLd = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Plumber',
+      name: 'Acme Plumbing Co',
+      telephone: '(512) 555-0100',
+      address: { '@type': 'PostalAddress', addressLocality: 'Austin', addressRegion: 'TX', addressCountry: 'US' },
+      openingHoursSpecification: [{ dayOfWeek: ['https://schema.org/Monday', 'Tuesday'], opens: '08:00', closes: '17:00' }],
+    });
+    const fromSchema = crawl([
+      ['https://acme.test/', `<html><head><title>Home</title><script type="application/ld+json">${jsonLd}</script></head><body>${homeBody}</body></html>`],
+      ...otherPages,
+    ]);
+    assertEqual(fromSchema.businessInput.business.name, 'Acme Plumbing Co', 'JSON-LD name should win over titles');
+    assertEqual(field(fromSchema, 'business.name').confidence, 'high', 'JSON-LD name is high confidence');
+    assert(!fromSchema.needsConfirmation.includes('location.primaryCity'), 'Agreeing JSON-LD city needs no confirmation');
+
+    const empty = crawl([['https://acme.test/', '<html><head><title>Welcome</title></head><body><p>Hello</p></body></html>']]);
+    assert(empty.missingFields.includes('services.primary'), 'Missing services should be reported');
+    assert(empty.validationErrors.length > 0, 'An incomplete draft should carry validation errors');
+    assertEqual(empty.businessInput.constraints.noHallucinations, true, 'Drafts keep the no-hallucinations constraint');
+  });
+
+  await test('each LocalBusiness branch in JSON-LD becomes a locations entry', () => {
+    const { buildPageData } = require('../core/ingest/siteCrawler');
+    const { extractBusinessInputDraft } = require('../core/analyze/businessInputExtractor');
+    const { validateBusinessInput } = require('../core/rules/businessInput.validator');
+    const branch = (name: string, street: string, city: string, postalCode: string, telephone: string) => ({
+      '@type': 'Plumber',
+      name,
+      telephone,
+      url: `https://acme.test/locations/${city.toLowerCase().replace(/ /g, '-')}`,
+      address: { '@type': 'PostalAddress', streetAddress: street, addressLocality: city, addressRegion: 'TX', postalCode, addressCountry: 'US' },
+      openingHours: 'Mo-Fr 08:00-17:00',
+    });
+    const graph = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', name: 'Acme Plumbing', address: { addressLocality: 'Dallas', addressCountry: 'US' } },
+        branch('Acme Plumbing Austin', '123 Main St', 'Austin', '78701', '(512) 555-0100'),
+        branch('Acme Plumbing Round Rock', '9 Oak Ave', 'Round Rock', '78664', '(512) 555-0200'),
+      ],
+    });
+    const roundRockOnly = JSON.stringify({ '@context': 'https://schema.org', ...branch('Acme Plumbing Round Rock', '9 Oak Ave', 'Round Rock', '78664', '(512) 555-0299') });
+    const draft = extractBusinessInputDraft({
+      baseUrl: 'https://acme.test',
+      crawledAt: '2024-01-01T00:00:00.000Z',
+      pagesAnalyzed: 2,
+      maxPagesLimit: 10,
+      pages: [
+        buildPageData('https://acme.test/', `<html><head><title>Acme Plumbing</title><script type="application/ld+json">${graph}</script></head><body><h1>Acme Plumbing</h1></body></html>`),
+        buildPageData('https://acme.test/locations/round-rock', `<html><head><title>Round Rock | Acme Plumbing</title><script type="application/ld+json">${roundRockOnly}</script></head><body><h1>Plumbers in Round Rock</h1></body></html>`),
+      ],
+      errors: [],
+      sitemapFound: false,
+    });
+    const field = (path: string) => draft.fields.find((f: { path: string }) => f.path === path);
+
+    const locations = draft.businessInput.locations;
+    assertEqual(locations.length, 2, 'Each distinct branch should be listed once, the Organization not at all');
+    assertEqual(locations.map((l: { id: string }) => l.id).join(','), 'austin,round-rock', 'Ids should come from branch cities');
+    assertEqual(locations[0].name, 'Acme Plumbing Austin', 'Branch name should be kept');
+    assertEqual(locations[0].address.streetAddress, '123 Main St', 'Street address should be kept');
+    assertEqual(locations[0].address.postalCode, '78701', 'Postal code should be kept');
+    assertEqual(locations[1].address.postalCode, '78664', 'Each branch keeps its own postal code');
+    assertEqual(locations[0].phone, '(512) 555-0100', 'Branch phone should be kept');
+    assertEqual(locations[0].operatingHours, 'Mo-Fr 08:00-17:00', 'Branch hours should be kept');
+    assertEqual(locations[1].url, 'https://acme.test/locations/round-rock', 'Branch URL should be kept');
+    assertEqual(field('locations[0].address.streetAddress').confidence, 'high', 'Branch fields carry their own confidence');
+    assertEqual(field('locations[0].address.postalCode').source, 'Plumber JSON-LD', 'Branch fields carry their own source');
+    const roundRockPhone = field('locations[1].phone');
+    assertEqual(roundRockPhone.alternatives.join(','), '(512) 555-0299', 'A branch described on two pages keeps the other phone as an alternative');
+    assert(roundRockPhone.needsConfirmation, 'Conflicting branch phones need confirmation');
+    assert(validateBusinessInput(draft.businessInput).errors.every((e: string) => !e.startsWith('locations')), 'Branches should pass the validator');
+  });
+
   // ========================================
   // Summary
   // ========================================
@@ -0,0 +1,100 @@
+/**
+ * Draft Business Input Script
+ *
+ * Crawls a client's site and drafts a BusinessInput from it, for
+ * onboarding clients who have a website but no structured data.
+ *
+ * Usage:
+ *   npx ts-node scripts/draftBusinessInput.ts --site https://example.com \
+ *     [--out outputs/business-input.draft.json] [--max-pages 20]
+ *
+ * This script:
+ * - Crawls the live site
+ * - Extracts the business name, contact details, address, services,
+ *   service areas, hours and existing LocalBusiness JSON-LD
+ * - Writes the draft with per-field confidence and source URLs
+ * - Lists the fields a human must confirm or fill in before the
+ *   draft's businessInput is used
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DEFAULT_CRAWLER_CONFIG } from '../core/ingest/siteCrawler';
+import { draftBusinessInputFromSite } from '../core/analyze/businessInputExtractor';
+
+const DEFAULT_OUTPUT_FILE = path.resolve(__dirname, '../outputs/business-input.draft.json');
+
+const USAGE = 'Usage: npx ts-node scripts/draftBusinessInput.ts --site <url> [--out <file>] [--max-pages <n>]';
+
+/**
+ * Parses --name value pairs.
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args.set(argv[i].slice(2), argv[i + 1]);
+      i++;
+    }
+  }
+  return args;
+}
+
+function fail(message: string): never {
+  console.error(`ERROR: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  console.log('Draft BusinessInput');
+  console.log('===================\n');
+
+  const args = parseArgs(process.argv.slice(2));
+  const siteUrl = args.get('site');
+  if (!siteUrl) {
+    fail(`--site is required\n${USAGE}`);
+  }
+  try {
+    new URL(siteUrl);
+  } catch {
+    fail(`--site must be a valid URL\n${USAGE}`);
+  }
+
+  const maxPages = Number(args.get('max-pages') ?? DEFAULT_CRAWLER_CONFIG.maxPages);
+  if (!Number.isInteger(maxPages) || maxPages < 1) {
+    fail('--max-pages must be a positive integer');
+  }
+
+  console.log(`Crawling ${siteUrl} (up to ${maxPages} pages)...`);
+  const draft = await draftBusinessInputFromSite(siteUrl, { maxPages });
+  draft.crawlErrors.forEach(err => console.warn(`  WARNING: ${err}`));
+  console.log(`Pages analyzed: ${draft.pagesAnalyzed}\n`);
+
+  for (const field of draft.fields) {
+    const flag = field.needsConfirmation ? ' (confirm)' : '';
+    console.log(`  ${field.path.padEnd(28)} ${String(field.value)} [${field.confidence}, ${field.source}]${flag}`);
+    field.alternatives?.forEach(alternative => console.log(`  ${''.padEnd(28)}   also found: ${alternative}`));
+  }
+
+  if (draft.missingFields.length > 0) {
+    console.warn(`\nNot found, fill in by hand:`);
+    draft.missingFields.forEach(field => console.warn(`  - ${field}`));
+  }
+
+  const outputFile = path.resolve(args.get('out') ?? DEFAULT_OUTPUT_FILE);
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, JSON.stringify(draft, null, 2), 'utf-8');
+
+  console.log(`\nDraft written: ${outputFile}`);
+  console.log(`${draft.needsConfirmation.length} field(s) to confirm, ${draft.missingFields.length} missing.`);
+}
+
+// Execute
+main().catch((err) => {
+  console.error(`ERROR: ${err}`);
+  process.exit(1);
+});
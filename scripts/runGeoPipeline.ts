@@ -9,6 +9,7 @@
  * This script:
  * - Loads BusinessInput from /inputs/example.business.json
  * - Validates input using strict runtime validator
+ * - Selects generators (core + detected industry generators)
  * - Executes the GEO pipeline
  * - Validates output against contract
  * - Runs all output adapters (JSON, Markdown, HTML)
@@ -20,6 +21,7 @@ import * as path from 'path';
 
 import type { BusinessInput } from '../inputs/business.schema';
 import { runGEOPipeline } from '../core/pipeline/geoPipeline';
+import { selectGenerators, getIndustryDisplayName } from '../core/generators/selector';
 import { validateBusinessInput } from '../core/rules/businessInput.validator';
 import { validateGEOOutput } from '../contracts/output.contract';
 
@@ -38,7 +40,7 @@ const OUTPUT_HTML = path.join(OUTPUT_DIR, 'example-output.html');
 /**
  * Main execution function
  */
-function main(): void {
+async function main(): Promise<void> {
   console.log('GEO Pipeline Execution');
   console.log('======================\n');
 
@@ -72,12 +74,19 @@ function main(): void {
   const input = rawInput as BusinessInput;
   console.log('Input validation passed.\n');
 
-  // Step 3: Execute pipeline
+  // Step 3: Select generators (industry generators are auto-detected)
+  const selection = await selectGenerators(input);
+  if (selection.detectedIndustry) {
+    console.log(`Detected industry: ${getIndustryDisplayName(selection.detectedIndustry)}`);
+  }
+  console.log(`Generators: ${selection.enabled.join(', ')}\n`);
+
+  // Step 4: Execute pipeline
   console.log('Executing GEO pipeline...');
 
   let output;
   try {
-    output = runGEOPipeline(input);
+    output = runGEOPipeline(input, { generators: selection.enabled });
   } catch (err) {
     console.error(`ERROR: Pipeline execution failed: ${err}`);
     process.exit(1);
@@ -85,7 +94,16 @@ function main(): void {
 
   console.log('Pipeline execution complete.\n');
 
-  // Step 4: Validate output against contract
+  // Report claims that could not be traced back to input
+  if (!output.claimVerification.valid) {
+    console.warn(`WARNING: ${output.claimVerification.violations.length} untraceable claim(s):`);
+    output.claimVerification.violations.forEach(v =>
+      console.warn(`  - "${v.token}" at ${v.path}${v.rule ? ` (${v.rule})` : ''}`)
+    );
+    console.warn('');
+  }
+
+  // Step 5: Validate output against contract
   console.log('Validating output against contract...');
 
   const outputErrors = validateGEOOutput(output);
@@ -102,7 +120,7 @@ function main(): void {
     fs.mkdirSync(OUTPUT_DIR, { recursive: true });
   }
 
-  // Step 5: Run adapters and write outputs
+  // Step 6: Run adapters and write outputs
   console.log('Running output adapters...\n');
 
   // JSON output (canonical)
@@ -143,4 +161,7 @@ function main(): void {
 }
 
 // Execute
-main();
+main().catch((err) => {
+  console.error(`ERROR: ${err}`);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Local Improve Script
+ *
+ * Runs improve mode against a site and writes the result to a local
+ * checkout of its source, with no repository token.
+ *
+ * Usage:
+ *   npx ts-node scripts/runImproveLocal.ts --site https://example.com \
+ *     --dir ../example-site --project-type astro-pages --route-strategy path-index \
+ *     [--patch outputs/geo.patch] [--max-pages 20] [--audit-profile local-business] \
+ *     [--business-input inputs/example.business.json] [--dry-run]
+ *
+ * This script:
+ * - Crawls the live site and plans improvements (as POST /run improve mode),
+ *   from the business facts in --business-input when given
+ * - Lists the checkout once and maps each page to the file that serves it
+ * - Plans marker-block patches against the files on disk
+ * - Writes the files, or with --patch writes a `git format-patch` bundle
+ *   (apply with `git am`) and leaves the checkout untouched
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { crawlSite, DEFAULT_CRAWLER_CONFIG } from '../core/ingest/siteCrawler';
+import { planSiteImprovements } from '../core/analyze/improvementPlanner';
+import { getAuditProfile, DEFAULT_AUDIT_PROFILE_ID } from '../core/analyze/auditProfiles';
+import { validateBusinessInput } from '../core/rules/businessInput.validator';
+import type { BusinessInput } from '../inputs/business.schema';
+import { validatePathContractConfig, PROJECT_TYPES } from '../core/writeback/pathContract';
+import { buildRouteIndex, resolveRoutes } from '../core/writeback/routeResolver';
+import { planPatches } from '../core/writeback/patchApplier';
+import { buildFormatPatch } from '../core/writeback/formatPatch';
+import {
+  listLocalFiles,
+  readLocalFiles,
+  writeLocalChanges,
+} from '../core/writeback/localTarget';
+import type { LocalTargetRepo } from '../core/writeback/localTarget';
+
+const USAGE = [
+  'Usage: npx ts-node scripts/runImproveLocal.ts --site <url> --dir <checkout>',
+  `  --project-type <${PROJECT_TYPES.join('|')}> --route-strategy <path-index|flat-html>`,
+  '  [--patch <file>] [--max-pages <n>] [--audit-profile <id>] [--business-input <file>] [--dry-run]',
+].join('\n');
+
+/**
+ * Parses --name value pairs and bare --flags.
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args.set(argv[i].slice(2), next);
+      i++;
+    } else {
+      args.set(argv[i].slice(2), 'true');
+    }
+  }
+  return args;
+}
+
+function fail(message: string): never {
+  console.error(`ERROR: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  console.log('GEO Improve (Local Target)');
+  console.log('==========================\n');
+
+  // Step 1: Parse and validate arguments
+  const args = parseArgs(process.argv.slice(2));
+  const siteUrl = args.get('site');
+  const directory = args.get('dir');
+  if (!siteUrl || !directory) {
+    fail(`--site and --dir are required\n${USAGE}`);
+  }
+
+  const pathContract = {
+    projectType: args.get('project-type'),
+    routeStrategy: args.get('route-strategy') ?? 'path-index',
+  };
+  if (!validatePathContractConfig(pathContract)) {
+    fail(`Unsupported --project-type/--route-strategy combination\n${USAGE}`);
+  }
+
+  const target: LocalTargetRepo = {
+    ...pathContract,
+    directory: path.resolve(directory),
+    output: args.has('patch') ? 'format-patch' : 'write',
+    patchFile: args.get('patch'),
+  };
+  if (!fs.existsSync(target.directory) || !fs.statSync(target.directory).isDirectory()) {
+    fail(`Not a directory: ${target.directory}`);
+  }
+
+  const maxPages = Number(args.get('max-pages') ?? DEFAULT_CRAWLER_CONFIG.maxPages);
+  if (!Number.isInteger(maxPages) || maxPages < 1) {
+    fail('--max-pages must be a positive integer');
+  }
+
+  const profileId = args.get('audit-profile') ?? DEFAULT_AUDIT_PROFILE_ID;
+  const auditProfile = getAuditProfile(profileId);
+  if (!auditProfile) {
+    fail(`Unknown audit profile: ${profileId}`);
+  }
+
+  let businessInput: BusinessInput | undefined;
+  const businessInputPath = args.get('business-input');
+  if (businessInputPath) {
+    let rawInput: unknown;
+    try {
+      rawInput = JSON.parse(fs.readFileSync(path.resolve(businessInputPath), 'utf-8'));
+    } catch (err) {
+      fail(`Could not read --business-input: ${err instanceof Error ? err.message : err}`);
+    }
+    const validation = validateBusinessInput(rawInput);
+    if (!validation.valid) {
+      fail(`Invalid --business-input:\n  - ${validation.errors.join('\n  - ')}`);
+    }
+    businessInput = rawInput as BusinessInput;
+  }
+
+  // Step 2: Crawl and plan improvements
+  console.log(`Crawling ${siteUrl} (up to ${maxPages} pages)...`);
+  const crawlResult = await crawlSite(siteUrl, { maxPages });
+  crawlResult.errors.forEach(err => console.warn(`  WARNING: ${err}`));
+  const improvementPlan = planSiteImprovements(crawlResult, auditProfile, businessInput);
+  console.log(`Pages with improvements: ${improvementPlan.pagesWithImprovements}/${crawlResult.pagesAnalyzed}\n`);
+
+  // Step 3: Map pages to the checkout's files
+  console.log(`Reading ${target.directory}...`);
+  const routeIndex = buildRouteIndex(await listLocalFiles(target.directory), pathContract);
+  const { resolved } = resolveRoutes(improvementPlan.pages.map(p => p.url), routeIndex);
+  const existingContents = await readLocalFiles(target.directory, resolved.map(r => r.filePath));
+
+  // Step 4: Plan patches
+  const plan = planPatches(improvementPlan.pages, existingContents, { pathContract, routeIndex });
+
+  for (const change of plan.plannedChanges) {
+    console.log(`  ${change.action.padEnd(6)} ${change.filePath}${change.humanReviewRequired ? ' (review required)' : ''}`);
+  }
+  if (plan.mappingErrors.length > 0) {
+    console.warn(`\nUnmapped pages (${plan.mappingErrors.length}):`);
+    for (const error of plan.mappingErrors) {
+      console.warn(`  - ${error.url}: ${error.error}`);
+      error.candidates?.forEach(candidate => console.warn(`      candidate: ${candidate}`));
+    }
+  }
+  console.log('');
+
+  if (args.has('dry-run')) {
+    plan.diffPreviews
+      .filter(preview => preview.action !== 'no-op')
+      .forEach(preview => console.log(`${preview.diff}\n`));
+    console.log('Dry run: no files were written.');
+    return;
+  }
+
+  // Step 5: Write files or the patch bundle
+  if (target.output === 'format-patch') {
+    const patchFile = path.resolve(target.patchFile ?? 'geo.patch');
+    const changed = plan.plannedChanges.filter(c => c.action !== 'no-op');
+    if (changed.length === 0) {
+      console.log('No changes to write.');
+      return;
+    }
+    fs.mkdirSync(path.dirname(patchFile), { recursive: true });
+    fs.writeFileSync(patchFile, buildFormatPatch(changed, {
+      subject: `GEO improvements: ${changed.length} file${changed.length === 1 ? '' : 's'}`,
+      body: changed.map(c => `- ${c.filePath}: ${c.url}`).join('\n'),
+    }), 'utf-8');
+    console.log(`Patch written: ${patchFile}`);
+    console.log(`Apply with: git -C ${target.directory} am ${patchFile}`);
+    return;
+  }
+
+  const result = await writeLocalChanges(target.directory, plan.plannedChanges);
+  console.log(`Files written: ${result.written.length}, unchanged: ${result.skipped.length}`);
+}
+
+// Execute
+main().catch((err) => {
+  console.error(`ERROR: ${err}`);
+  process.exit(1);
+});
@@ -23,6 +23,14 @@ import { generateTeamBio, TeamBioOutput } from '../../core/generators/teamBio.ge
 import { generateHowWeWork, HowWeWorkOutput } from '../../core/generators/howWeWork.generator';
 import { generateCaseStudy, CaseStudyOutput } from '../../core/generators/caseStudy.generator';
 import { generateTestimonial, TestimonialOutput } from '../../core/generators/testimonial.generator';
+import { GENERATOR_REGISTRY, getGeneratorsByCategory } from '../../core/generators/registry';
+import { runGEOPipeline } from '../../core/pipeline/geoPipeline';
+import { validateGEOOutput } from '../../contracts/output.contract';
+import { explainProvenance, traceText, collectInputFields } from '../../core/rules/provenance';
+import { verifyOutputClaims, enforceVerifiedClaims, assertClaimsVerified } from '../../core/rules/antiHallucination';
+import { generateSchema } from '../../core/generators/schema.generator';
+import { generateServiceAreaPages } from '../../core/generators/serviceArea.generator';
+import { validateBusinessInput } from '../../core/rules/businessInput.validator';
 
 // Track test results
 let passed = 0;
@@ -659,6 +667,340 @@ async function testPipelineIntegration() {
     }
     assert(threw, 'Should throw on noHallucinations=false');
   });
+
+  await test('every registry entry declares generator, output key and validator', () => {
+    for (const config of Object.values(GENERATOR_REGISTRY)) {
+      assert(typeof config.generate === 'function', `${config.id} should have a generate function`);
+      assert(typeof config.outputKey === 'string', `${config.id} should have an outputKey`);
+      assert(typeof config.validate === 'function', `${config.id} should have a validator`);
+    }
+  });
+
+  await test('pipeline omits industry sections by default', () => {
+    const output = runGEOPipeline(fullInput);
+    assert(output.permitsAndCodes === undefined, 'Industry sections should not run unless enabled');
+    assertEqual(validateGEOOutput(output).length, 0, 'Output should satisfy contract');
+  });
+
+  await test('pipeline runs enabled industry generators', () => {
+    const output = runGEOPipeline(fullInput, {
+      generators: [...getGeneratorsByCategory('core'), 'permitsAndCodes'],
+    });
+    assert(output.permitsAndCodes !== undefined, 'Should include permitsAndCodes section');
+    assert(output.seasonalClimate === undefined, 'Should not include generators that were not enabled');
+    assertEqual(validateGEOOutput(output).length, 0, 'Output should satisfy contract');
+  });
+
+  await test('pipeline keeps placeholders for skipped required sections', () => {
+    const output = runGEOPipeline(fullInput, { skip: ['titleMeta'] });
+    const titleMeta = output.titleMeta as unknown as { skipped?: boolean };
+    assert(titleMeta.skipped === true, 'Skipped titleMeta should be a placeholder');
+    assertEqual(validateGEOOutput(output).length, 0, 'Placeholders should not fail contract validation');
+  });
+}
+
+// ============================================================
+// PROVENANCE TESTS
+// ============================================================
+
+async function testProvenance() {
+  console.log('\n7. Provenance');
+
+  await test('traces license claims to their input pointer', () => {
+    const fields = collectInputFields(fullInput);
+    const pointers = traceText('Licensed: TX Master Plumber #12345', fields);
+    assert(pointers.includes('/credentials/licenses/0'), 'Should point at /credentials/licenses/0');
+  });
+
+  await test('does not credit a value that only appears inside a longer one', () => {
+    const fields = [
+      { pointer: '/business/name', value: 'Example Service Company' },
+      { pointer: '/services/primary/0', value: 'Example Service' },
+    ];
+    const pointers = traceText('Contact Example Service Company today', fields);
+    assertEqual(pointers.join(','), '/business/name', 'Only the business name should be credited');
+  });
+
+  await test('numbers match on word boundaries', () => {
+    const fields = [{ pointer: '/credentials/yearsOperating', value: '15' }];
+    assertEqual(traceText('Over 150 jobs completed', fields).length, 0, 'Should not match 15 inside 150');
+    assertEqual(traceText('15 years of operation', fields).length, 1, 'Should match standalone 15');
+  });
+
+  await test('pipeline output carries a provenance ledger', () => {
+    const output = runGEOPipeline(fullInput);
+    assert(output.provenance.entries.length > 0, 'Should have provenance entries');
+
+    const title = output.provenance.entries.find(e => e.path === '/titleMeta/title');
+    assert(title !== undefined, 'Should trace the title');
+    assert(title!.fields.includes('/business/name'), 'Title should be backed by business name');
+    assert(
+      output.provenance.inputValues['/business/name'] === 'Austin Plumbing Pros',
+      'Ledger should record referenced input values'
+    );
+  });
+
+  await test('explainProvenance lists untraced text first', () => {
+    const explanations = explainProvenance(runGEOPipeline(fullInput));
+    const firstTraced = explanations.findIndex(e => e.traced);
+    const lastUntraced = explanations.map(e => e.traced).lastIndexOf(false);
+    assert(firstTraced >= 0, 'Should have traced explanations');
+    assert(lastUntraced < firstTraced, 'Untraced explanations should come first');
+  });
+}
+
+// ============================================================
+// CLAIM VERIFICATION TESTS
+// ============================================================
+
+async function testClaimVerification() {
+  console.log('\n8. Claim Verification');
+
+  await test('generated output passes claim verification', () => {
+    const output = runGEOPipeline(fullInput);
+    assert(output.claimVerification.valid, `Unexpected violations: ${JSON.stringify(output.claimVerification.violations)}`);
+
+    const minimal = runGEOPipeline(minimalInput);
+    assert(minimal.claimVerification.valid, 'Minimal input output should pass');
+  });
+
+  await test('flags fabricated years in business', () => {
+    const result = verifyOutputClaims(
+      { whyChooseUs: { summary: 'Over 25 years of experience in Austin.' } },
+      minimalInput
+    );
+    const violation = result.violations.find(v => v.token === '25');
+    assert(violation !== undefined, 'Should flag 25');
+    assertEqual(violation!.rule, 'yearsOperating', 'Should map to yearsOperating');
+  });
+
+  await test('flags superlatives and unsupported credentials', () => {
+    const result = verifyOutputClaims(
+      { answerCapsule: { capsule: 'The best licensed consultants, fully insured.' } },
+      minimalInput
+    );
+    const kinds = result.violations.map(v => v.kind);
+    assert(kinds.includes('superlative'), 'Should flag "best"');
+    assert(kinds.includes('license'), 'Should flag licensed without license data');
+    assert(kinds.includes('insurance'), 'Should flag insured without insurance data');
+  });
+
+  await test('flags places that are not in input', () => {
+    const result = verifyOutputClaims(
+      { titleMeta: { title: 'Test Business | Serving Austin and Dallas' } },
+      minimalInput
+    );
+    assertEqual(result.violations.length, 1, 'Only Dallas should be flagged');
+    assertEqual(result.violations[0].token, 'Dallas', 'Should flag Dallas');
+    assertEqual(result.violations[0].rule, 'serviceAreas not explicitly listed', 'Should map to serviceAreas rule');
+  });
+
+  await test('accepts numbers traced to input and derived counts', () => {
+    const result = verifyOutputClaims(
+      { faq: { answer: 'Rated 4.8 from 250 reviews. Serving 5 areas.' } },
+      fullInput
+    );
+    assert(result.valid, `Unexpected violations: ${JSON.stringify(result.violations)}`);
+  });
+
+  await test('enforceVerifiedClaims throws on untraceable claims', () => {
+    let threw = false;
+    try {
+      enforceVerifiedClaims({ titleMeta: { title: '#1 rated consultants' } }, minimalInput);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should throw on untraceable superlative');
+  });
+
+  await test('assertClaimsVerified enforces an existing verification result', () => {
+    const result = verifyOutputClaims({ titleMeta: { title: '#1 rated consultants' } }, minimalInput);
+    let threw = false;
+    try {
+      assertClaimsVerified(result);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should throw on an invalid result');
+    assertClaimsVerified({ valid: true, violations: [], stringsChecked: 1 });
+  });
+
+  await test('pipeline in fail mode returns the result it enforced', () => {
+    const output = runGEOPipeline(fullInput, { claimVerification: 'fail' });
+    assert(output.claimVerification.valid, 'Traced output should pass enforcement');
+    assert(output.claimVerification.stringsChecked > 0, 'Result should be reported');
+  });
+}
+
+// ============================================================
+// MULTI-LOCATION TESTS
+// ============================================================
+
+/**
+ * Franchise input with two branches.
+ */
+const multiLocationInput: BusinessInput = {
+  ...fullInput,
+  locations: [
+    {
+      id: 'round-rock',
+      name: 'Austin Plumbing Pros - Round Rock',
+      address: {
+        streetAddress: '100 Main St',
+        city: 'Round Rock',
+        region: 'TX',
+        postalCode: '78664',
+        country: 'USA',
+      },
+      phone: '512-555-0100',
+      operatingHours: 'Mon-Fri 8am-5pm',
+      serviceAreas: ['Round Rock', 'Hutto'],
+    },
+    {
+      id: 'cedar-park',
+      address: { city: 'Cedar Park', region: 'TX', country: 'USA' },
+      services: ['Drain Cleaning'],
+    },
+  ],
+};
+
+async function testMultiLocation() {
+  console.log('\n9. Multi-Location');
+
+  await test('schema emits one LocalBusiness per branch linked to an Organization', () => {
+    const schema = generateSchema(multiLocationInput);
+    assert(schema.organization !== undefined, 'Should have organization');
+    assertEqual(schema.branches?.length, 2, 'Should have one branch per location');
+
+    const orgId = schema.organization!['@id'];
+    for (const branch of schema.branches!) {
+      assertEqual(branch.parentOrganization['@id'], orgId, 'Branch should link to organization');
+    }
+    assertEqual(schema.organization!.subOrganization.length, 2, 'Organization should list branches');
+
+    const graph = JSON.parse(schema.jsonLd)['@graph'];
+    assertEqual(graph.length, 3, 'JSON-LD graph should contain organization and branches');
+  });
+
+  await test('branch schema uses only branch contact details', () => {
+    const schema = generateSchema(multiLocationInput);
+    const cedarPark = schema.branches!.find(b => b['@id'].endsWith('#location-cedar-park'))!;
+    assert(cedarPark.telephone === undefined, 'Should not inherit head office phone');
+    assertEqual(cedarPark.hasOfferCatalog?.itemListElement.length, 1, 'Should use branch services');
+  });
+
+  await test('single-location schema is unchanged', () => {
+    const schema = generateSchema(fullInput);
+    assert(schema.organization === undefined, 'Should not have organization');
+    assertEqual(JSON.parse(schema.jsonLd)['@type'], 'LocalBusiness', 'JSON-LD should be a LocalBusiness');
+  });
+
+  await test('pipeline produces title/meta, capsule and FAQs per location', () => {
+    const output = runGEOPipeline(multiLocationInput);
+    assertEqual(output.locationContent?.locations.length, 2, 'Should have content per location');
+
+    const roundRock = output.locationContent!.locations[0];
+    assertEqual(roundRock.locationId, 'round-rock', 'Should keep location id');
+    assert(roundRock.titleMeta.title.includes('Round Rock'), 'Title should name the branch city');
+    assert(roundRock.answerCapsule.capsule.includes('Hutto'), 'Capsule should list branch service areas');
+    assert(
+      roundRock.faq.schemaReady.some(f => f.answer.includes('512-555-0100')),
+      'FAQ should use branch phone'
+    );
+    assertEqual(validateGEOOutput(output).length, 0, 'Output should satisfy contract');
+    assert(output.claimVerification.valid, 'Location content should pass claim verification');
+  });
+
+  await test('single-location pipeline output has no location content', () => {
+    const output = runGEOPipeline(fullInput);
+    assert(output.locationContent === undefined, 'Should not include locationContent');
+  });
+
+  await test('validator checks locations', () => {
+    const base = {
+      business: { name: 'Test Business' },
+      location: { primaryCity: 'Austin', country: 'USA', serviceAreas: ['Austin'] },
+      services: { primary: ['Consulting'] },
+      constraints: { noHallucinations: true },
+    };
+    const valid = validateBusinessInput({
+      ...base,
+      locations: [{ id: 'a', address: { city: 'Austin', country: 'USA' } }],
+    });
+    assert(valid.valid, `Should accept valid locations: ${valid.errors.join(', ')}`);
+
+    const invalid = validateBusinessInput({
+      ...base,
+      locations: [{ id: 'a', address: { country: 'USA' } }, { id: 'a', address: { city: 'Dallas', country: 'USA' } }],
+    });
+    assert(!invalid.valid, 'Should reject invalid locations');
+    assert(invalid.errors.some(e => e.includes('address.city')), 'Should report missing city');
+    assert(invalid.errors.some(e => e.includes('duplicated')), 'Should report duplicate id');
+  });
+}
+
+// ============================================================
+// SERVICE AREA PAGE TESTS
+// ============================================================
+
+async function testServiceAreaPages() {
+  console.log('\n10. Service Area Pages');
+
+  await test('generates one page per service area × primary service', () => {
+    const result = generateServiceAreaPages(fullInput);
+    assertEqual(result.pages.length, 5 * 3, 'Should have 15 pages');
+    const slugs = new Set(result.pages.map(p => p.slug));
+    assertEqual(slugs.size, result.pages.length, 'Slugs should be unique');
+    assert(slugs.has('drain-cleaning-round-rock'), 'Should slugify service and area');
+  });
+
+  await test('each page carries title/meta, capsule, FAQs and areaServed schema', () => {
+    const result = generateServiceAreaPages(fullInput);
+    const page = result.pages.find(p => p.slug === 'drain-cleaning-georgetown')!;
+    assertEqual(page.title, 'Drain Cleaning in Georgetown | Austin Plumbing Pros', 'Title should lead with query');
+    assert(page.metaDescription.includes('served from Austin'), 'Meta should say where the area is served from');
+    assert(page.answerCapsule.includes('512-555-1234'), 'Capsule should include booking phone');
+    assert(page.faqs.every(f => f.question.includes('Georgetown') || f.answer.includes('Georgetown')), 'FAQs should be area-specific');
+    assertEqual(page.schema.areaServed.name, 'Georgetown', 'Schema areaServed should be the area');
+    const graph = JSON.parse(page.jsonLd)['@graph'];
+    assertEqual(graph[0]['@type'], 'Service', 'JSON-LD should include Service');
+    assertEqual(graph[1]['@type'], 'FAQPage', 'JSON-LD should include FAQPage');
+  });
+
+  await test('area and service facts differentiate pages', () => {
+    const result = generateServiceAreaPages(fullInput);
+    const roundRock = result.pages.find(p => p.slug === 'plumbing-repair-round-rock')!;
+    assert(roundRock.description.includes('Emergency Water Main Repair'), 'Should cite case study in area');
+    assert(roundRock.faqs.some(f => f.question.includes('worked in Round Rock')), 'Should add local project FAQ');
+
+    const waterHeater = result.pages.find(p => p.slug === 'water-heater-installation-austin')!;
+    assert(waterHeater.description.includes('Sarah Johnson'), 'Should quote testimonial for the service');
+    assert(waterHeater.description.includes('Tom Wilson'), 'Should name service specialists');
+    assert(!waterHeater.description.includes('TX Master Plumber'), 'Should not repeat business-wide credentials');
+  });
+
+  await test('thin input is reported as near-duplicate instead of padded', () => {
+    const result = generateServiceAreaPages(minimalInput);
+    assert(result.pages.every(p => p.description.includes('DATA_REQUIRED')), 'Should use placeholder, not filler');
+    if (result.pages.length > 1) {
+      assert(result.nearDuplicates.length > 0, 'Should report near-duplicates');
+    }
+  });
+
+  await test('pages follow the branch covering the area', () => {
+    const result = generateServiceAreaPages(multiLocationInput);
+    const hutto = result.pages.find(p => p.slug === 'drain-cleaning-hutto')!;
+    assertEqual(hutto.servedFrom, 'Round Rock', 'Should be served from branch city');
+    assert(hutto.answerCapsule.includes('512-555-0100'), 'Should use branch phone');
+    assertEqual(hutto.schema.provider.name, 'Austin Plumbing Pros - Round Rock', 'Provider should be the branch');
+  });
+
+  await test('pipeline output passes contract and claim verification', () => {
+    const output = runGEOPipeline(fullInput);
+    assertEqual(output.serviceAreaPages?.pages.length, 15, 'Pipeline should include pages');
+    assertEqual(validateGEOOutput(output).length, 0, 'Output should satisfy contract');
+    assert(output.claimVerification.valid, 'Pages should pass claim verification');
+  });
 }
 
 // ============================================================
@@ -676,6 +1018,10 @@ async function main() {
   await testCaseStudy();
   await testTestimonial();
   await testPipelineIntegration();
+  await testProvenance();
+  await testClaimVerification();
+  await testMultiLocation();
+  await testServiceAreaPages();
 
   // Summary
   console.log('\n========================================');
@@ -31,6 +31,8 @@ export interface ApiKeyRecord {
   plan: Plan;
   createdAt: string; // ISO 8601
   notes?: string;
+  /** Audit profile used when a request does not name one */
+  defaultAuditProfile?: string;
 }
 
 /**
@@ -186,7 +188,8 @@ export function buildKvKey(apiKey: string): string {
 export function createApiKeyRecord(
   keyId: string,
   plan: Plan,
-  notes?: string
+  notes?: string,
+  defaultAuditProfile?: string
 ): ApiKeyRecord {
   return {
     keyId,
@@ -194,5 +197,6 @@ export function createApiKeyRecord(
     plan,
     createdAt: new Date().toISOString(),
     notes,
+    ...(defaultAuditProfile ? { defaultAuditProfile } : {}),
   };
 }
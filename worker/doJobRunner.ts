@@ -0,0 +1,541 @@
+/**
+ * Job Runner Durable Object
+ *
+ * Runs one asynchronous job (see jobs.ts) in resumable steps. Each alarm
+ * performs a single step, stores its output and schedules the next, so a
+ * crawl of thousands of pages never has to fit in one invocation and an
+ * evicted object carries on from the last completed step.
+ *
+ * STEPS:
+ *   discover - sitemap or homepage link discovery; URLs stored in batches
+ *   crawl    - fetches one URL batch per step
+ *   analyze  - audits one page batch per step against the whole site; site rules run last
+ *   plan     - plans improvements for one page batch per step (improve jobs only)
+ *
+ * STORAGE KEYS:
+ *   job          - JobRecord
+ *   cursor       - JobCursor (next batch, failed attempts, running totals)
+ *   prefetched   - pages fetched during discovery
+ *   urls:{n}     - URL batch n
+ *   page:{i}     - crawled page i
+ *   context:{n}  - compact audit pages for batch n, read by cross-page rules
+ *   result:{n}   - page gap analyses for batch n
+ *   plan:{n}     - improvement plans for batch n
+ *
+ * A failing step is retried MAX_STEP_ATTEMPTS times before the job fails.
+ * Finished jobs keep their data for JOB_RETENTION_MS, then delete it.
+ */
+
+import {
+  discoverCrawlUrls,
+  fetchAndParsePage,
+  DEFAULT_CRAWLER_CONFIG,
+  CrawlerConfig,
+  PageData,
+} from '../core/ingest/siteCrawler';
+import { runAuditRules, buildSiteContext, toAuditSite, scoreSite } from '../core/analyze/auditEngine';
+import type { AuditPage } from '../core/analyze/auditSignals';
+import {
+  AuditProfile,
+  AUDIT_PROFILES,
+  DEFAULT_AUDIT_PROFILE_ID,
+  getAuditProfile,
+} from '../core/analyze/auditProfiles';
+import {
+  toGapFlag,
+  toPageGapAnalysis,
+  countGapSeverities,
+  GapSeverityCounts,
+  PageGapAnalysis,
+} from '../core/analyze/geoGapAnalyzer';
+import {
+  planPageImprovements,
+  hasImprovements,
+  generateSiteWideSuggestions,
+  PageImprovementPlan,
+} from '../core/analyze/improvementPlanner';
+import { normalizePath } from '../core/intelligence/gscSnapshot.normalise';
+import { DEFAULT_JOB_MAX_PAGES, JOB_BATCH_SIZE, JOB_RETENTION_MS } from './jobs';
+import type { JobRecord, JobGetResponse, JobResultsPage } from './types';
+
+/**
+ * Durable Object state interface.
+ */
+interface DurableObjectState {
+  storage: DurableObjectStorage;
+}
+
+/**
+ * Durable Object storage interface (the subset jobs use).
+ */
+interface DurableObjectStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  get<T>(keys: string[]): Promise<Map<string, T>>;
+  put<T>(key: string, value: T): Promise<void>;
+  put<T>(entries: Record<string, T>): Promise<void>;
+  deleteAll(): Promise<void>;
+  setAlarm(scheduledTime: number): Promise<void>;
+}
+
+/**
+ * Position and running totals, stored alongside the job.
+ */
+interface JobCursor {
+  /** Next batch to process in the current phase */
+  batch: number;
+  /** Failed attempts at the current step */
+  attempts: number;
+  /** Page scores from the analyze phase, for the site score */
+  scores: number[];
+  pagesWithGaps: number;
+  severityCounts: GapSeverityCounts;
+  pagesWithImprovements: number;
+}
+
+/**
+ * Attempts per step before the job fails.
+ */
+const MAX_STEP_ATTEMPTS = 3;
+
+/**
+ * Delay before retrying a failed step.
+ */
+const STEP_RETRY_DELAY_MS = 5000;
+
+/**
+ * Crawl errors kept on the job record.
+ */
+const MAX_JOB_ERRORS = 100;
+
+/**
+ * Keys Durable Object storage accepts in one get or put call.
+ */
+const MAX_KEYS_PER_STORAGE_CALL = 128;
+
+/**
+ * Job Runner Durable Object class.
+ *
+ * Exported for Cloudflare Workers binding.
+ */
+export class JobRunnerDO {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/start' && request.method === 'POST') {
+      return this.handleStart(request);
+    }
+
+    if (url.pathname === '/status' && request.method === 'GET') {
+      return this.handleStatus(url);
+    }
+
+    if (url.pathname === '/cancel' && request.method === 'POST') {
+      return this.handleCancel(request);
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Runs the job's next step, or deletes a finished job once it expires.
+   */
+  async alarm(): Promise<void> {
+    const storage = this.state.storage;
+    const job = await storage.get<JobRecord>('job');
+    if (!job) return;
+
+    if (isFinished(job)) {
+      if (job.expiresAt && Date.now() >= Date.parse(job.expiresAt)) {
+        await storage.deleteAll();
+      }
+      return;
+    }
+
+    const cursor = (await storage.get<JobCursor>('cursor')) ?? createCursor();
+    job.status = 'running';
+
+    try {
+      // The step advances copies, so a failed step is retried from where it started
+      const next = { job: structuredClone(job), cursor: structuredClone(cursor) };
+      const writes = await this.runStep(next.job, next.cursor);
+      next.cursor.attempts = 0;
+      await this.saveProgress(next.job, next.cursor, writes);
+    } catch (err) {
+      cursor.attempts++;
+      if (cursor.attempts >= MAX_STEP_ATTEMPTS) {
+        job.status = 'failed';
+        job.failureReason = `${job.phase} step failed: ${err instanceof Error ? err.message : 'unknown error'}`;
+      }
+      await this.saveProgress(job, cursor, {}, STEP_RETRY_DELAY_MS);
+    }
+  }
+
+  /**
+   * Stores a step's output and schedules what comes next. A job cancelled
+   * while the step ran stays cancelled and its step output is dropped.
+   * Output too large for one put is written first, so job and cursor only
+   * advance once all of it is stored.
+   */
+  private async saveProgress(
+    job: JobRecord,
+    cursor: JobCursor,
+    writes: Record<string, unknown>,
+    retryDelayMs: number = 0
+  ): Promise<void> {
+    const storage = this.state.storage;
+    const latest = await storage.get<JobRecord>('job');
+    if (!latest || latest.status === 'cancelled') return;
+
+    job.updatedAt = new Date().toISOString();
+    if (isFinished(job)) {
+      job.expiresAt = new Date(Date.now() + JOB_RETENTION_MS).toISOString();
+    }
+
+    await putInGroups(storage, { ...writes, job, cursor });
+    await storage.setAlarm(job.expiresAt ? Date.parse(job.expiresAt) : Date.now() + retryDelayMs);
+  }
+
+  /**
+   * Performs one step, advancing job and cursor in place. Returns the
+   * storage entries the step produced.
+   */
+  private async runStep(job: JobRecord, cursor: JobCursor): Promise<Record<string, unknown>> {
+    switch (job.phase) {
+      case 'discover':
+        return this.discover(job, cursor);
+      case 'crawl':
+        return this.crawlBatch(job, cursor);
+      case 'analyze':
+        return this.analyzeBatch(job, cursor);
+      case 'plan':
+        return this.planBatch(job, cursor);
+      default:
+        job.status = 'completed';
+        return {};
+    }
+  }
+
+  private async discover(job: JobRecord, cursor: JobCursor): Promise<Record<string, unknown>> {
+    const discovery = await discoverCrawlUrls(job.siteUrl, getCrawlerConfig(job));
+
+    const writes: Record<string, unknown> = { prefetched: discovery.pages };
+    for (let n = 0; n * JOB_BATCH_SIZE < discovery.urls.length; n++) {
+      writes[`urls:${n}`] = discovery.urls.slice(n * JOB_BATCH_SIZE, (n + 1) * JOB_BATCH_SIZE);
+    }
+
+    job.progress.totalUrls = discovery.urls.length;
+    job.sitemapFound = discovery.sitemapFound;
+    addErrors(job, discovery.errors);
+    advancePhase(job, cursor, 'crawl');
+    return writes;
+  }
+
+  private async crawlBatch(job: JobRecord, cursor: JobCursor): Promise<Record<string, unknown>> {
+    const storage = this.state.storage;
+    const urls = (await storage.get<string[]>(`urls:${cursor.batch}`)) ?? [];
+    const prefetched = (await storage.get<PageData[]>('prefetched')) ?? [];
+    const config = getCrawlerConfig(job);
+
+    const writes: Record<string, unknown> = {};
+    const pages: PageData[] = [];
+    for (let j = 0; j < urls.length; j++) {
+      const page = prefetched.find(p => p.url === urls[j]) ?? await fetchAndParsePage(urls[j], config);
+      if (page.fetchError) addErrors(job, [`${page.url}: ${page.fetchError}`]);
+      writes[`page:${cursor.batch * JOB_BATCH_SIZE + j}`] = page;
+      pages.push(page);
+    }
+    writes[`context:${cursor.batch}`] = buildSiteContext(pages, job.siteUrl);
+
+    job.progress.pagesCrawled += pages.length;
+    cursor.batch++;
+    if (cursor.batch >= batchCount(job.progress.totalUrls)) {
+      advancePhase(job, cursor, 'analyze');
+    }
+    return writes;
+  }
+
+  private async analyzeBatch(job: JobRecord, cursor: JobCursor): Promise<Record<string, unknown>> {
+    const batches = batchCount(job.progress.pagesCrawled);
+    const profile = getJobProfile(job);
+    const site = toAuditSite(await this.loadSiteContext(batches));
+    const writes: Record<string, unknown> = {};
+
+    if (cursor.batch < batches) {
+      const pages = await this.loadPageBatch(cursor.batch, job.progress.pagesCrawled);
+      const report = runAuditRules(pages, { entryUrl: job.siteUrl, profile, site, siteRules: false });
+      const results = report.pages.map(toPageGapAnalysis);
+      writes[`result:${cursor.batch}`] = results;
+
+      const counts = countGapSeverities(results.flatMap(r => r.gaps));
+      cursor.scores.push(...results.map(r => r.geoScore));
+      cursor.pagesWithGaps += results.filter(r => r.gaps.length > 0).length;
+      cursor.severityCounts.criticalIssues += counts.criticalIssues;
+      cursor.severityCounts.warnings += counts.warnings;
+      cursor.severityCounts.suggestions += counts.suggestions;
+      job.progress.pagesAnalyzed += results.length;
+      cursor.batch++;
+    }
+
+    if (cursor.batch >= batches) {
+      // Site-wide rules run once, over every crawled page
+      const siteFindings = runAuditRules([], { entryUrl: job.siteUrl, profile, site }).siteFindings;
+      const siteWideIssues = siteFindings.map(toGapFlag);
+      const siteCounts = countGapSeverities(siteWideIssues);
+
+      job.summary = {
+        siteUrl: job.siteUrl,
+        totalPages: job.progress.pagesCrawled,
+        pagesWithGaps: cursor.pagesWithGaps,
+        averageGeoScore: cursor.scores.length > 0
+          ? Math.round(cursor.scores.reduce((sum, score) => sum + score, 0) / cursor.scores.length)
+          : 0,
+        siteScore: scoreSite(cursor.scores, siteFindings),
+        auditProfile: profile.id,
+        criticalIssues: cursor.severityCounts.criticalIssues + siteCounts.criticalIssues,
+        warnings: cursor.severityCounts.warnings + siteCounts.warnings,
+        suggestions: cursor.severityCounts.suggestions + siteCounts.suggestions,
+        siteWideIssues,
+      };
+
+      if (job.mode === 'improve') {
+        advancePhase(job, cursor, 'plan');
+      } else {
+        completeJob(job);
+      }
+    }
+    return writes;
+  }
+
+  private async planBatch(job: JobRecord, cursor: JobCursor): Promise<Record<string, unknown>> {
+    const batches = batchCount(job.progress.pagesCrawled);
+    const writes: Record<string, unknown> = {};
+
+    if (cursor.batch < batches) {
+      const pages = await this.loadPageBatch(cursor.batch, job.progress.pagesCrawled);
+      const results = (await this.state.storage.get<PageGapAnalysis[]>(`result:${cursor.batch}`)) ?? [];
+      const targets = job.request.targetPaths?.length
+        ? new Set(job.request.targetPaths.map(p => normalizePath(p)))
+        : null;
+
+      const plans: PageImprovementPlan[] = [];
+      for (const page of pages) {
+        if (targets && !targets.has(normalizePath(page.url))) continue;
+        const pageGaps = results.find(r => r.url === page.url);
+        if (pageGaps) plans.push(planPageImprovements(page, pageGaps, job.request.businessInput));
+      }
+      writes[`plan:${cursor.batch}`] = plans;
+
+      cursor.pagesWithImprovements += plans.filter(hasImprovements).length;
+      job.progress.pagesPlanned += plans.length;
+      cursor.batch++;
+    }
+
+    if (cursor.batch >= batches && job.summary) {
+      job.summary.pagesWithImprovements = cursor.pagesWithImprovements;
+      job.summary.siteWideSuggestions = generateSiteWideSuggestions(job.summary);
+      completeJob(job);
+    }
+    return writes;
+  }
+
+  private async loadSiteContext(batches: number): Promise<AuditPage[]> {
+    const keys = Array.from({ length: batches }, (_, n) => `context:${n}`);
+    if (keys.length === 0) return [];
+    const stored = await getInGroups<AuditPage[]>(this.state.storage, keys);
+    return keys.flatMap(key => stored.get(key) ?? []);
+  }
+
+  private async loadPageBatch(batch: number, totalPages: number): Promise<PageData[]> {
+    const keys: string[] = [];
+    for (let i = batch * JOB_BATCH_SIZE; i < Math.min((batch + 1) * JOB_BATCH_SIZE, totalPages); i++) {
+      keys.push(`page:${i}`);
+    }
+    const stored = await this.state.storage.get<PageData>(keys);
+    return keys.map(key => stored.get(key)).filter((page): page is PageData => page !== undefined);
+  }
+
+  /**
+   * Handles job creation; the first step runs on the next alarm.
+   */
+  private async handleStart(request: Request): Promise<Response> {
+    const { job } = await request.json() as { job: JobRecord };
+    const storage = this.state.storage;
+
+    if (await storage.get<JobRecord>('job')) {
+      return jsonResponse({ error: 'Job already exists' }, 409);
+    }
+
+    await storage.put<unknown>({ job, cursor: createCursor() });
+    await storage.setAlarm(Date.now());
+    return jsonResponse(await this.buildStatus(job, 0, 0), 201);
+  }
+
+  /**
+   * Handles job state and results window queries.
+   */
+  private async handleStatus(url: URL): Promise<Response> {
+    const job = await this.state.storage.get<JobRecord>('job');
+    if (!job || job.keyId !== url.searchParams.get('keyId')) {
+      return jsonResponse({ error: 'Job not found' }, 404);
+    }
+
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+    const limit = parseInt(url.searchParams.get('limit') || '0', 10);
+    return jsonResponse(await this.buildStatus(job, offset, limit), 200);
+  }
+
+  /**
+   * Handles cancellation. Data is kept until the retention period ends
+   * so partial results stay readable.
+   */
+  private async handleCancel(request: Request): Promise<Response> {
+    const { keyId } = await request.json() as { keyId: string };
+    const storage = this.state.storage;
+    const job = await storage.get<JobRecord>('job');
+
+    if (!job || job.keyId !== keyId) {
+      return jsonResponse({ error: 'Job not found' }, 404);
+    }
+    if (isFinished(job)) {
+      return jsonResponse({ error: 'Job has already finished' }, 409);
+    }
+
+    job.status = 'cancelled';
+    job.updatedAt = new Date().toISOString();
+    job.expiresAt = new Date(Date.now() + JOB_RETENTION_MS).toISOString();
+    await storage.put('job', job);
+    // Replaces the pending step alarm with the cleanup alarm
+    await storage.setAlarm(Date.parse(job.expiresAt));
+
+    return jsonResponse(await this.buildStatus(job, 0, 0), 200);
+  }
+
+  private async buildStatus(job: JobRecord, offset: number, limit: number): Promise<JobGetResponse> {
+    const { keyId: _keyId, request: _request, ...view } = job;
+    return {
+      status: 'success',
+      job: view,
+      results: await this.loadResultsWindow(job, offset, limit),
+    };
+  }
+
+  /**
+   * Loads analyzed pages [offset, offset + limit) and, for improve jobs,
+   * the plans for those pages.
+   */
+  private async loadResultsWindow(job: JobRecord, offset: number, limit: number): Promise<JobResultsPage> {
+    const total = job.progress.pagesAnalyzed;
+    const window: JobResultsPage = { offset, limit, total, pages: [] };
+    if (job.mode === 'improve') window.improvements = [];
+
+    const end = Math.min(offset + limit, total);
+    if (limit <= 0 || offset >= end) return window;
+
+    const firstBatch = Math.floor(offset / JOB_BATCH_SIZE);
+    const lastBatch = Math.floor((end - 1) / JOB_BATCH_SIZE);
+    const resultKeys: string[] = [];
+    const planKeys: string[] = [];
+    for (let n = firstBatch; n <= lastBatch; n++) {
+      resultKeys.push(`result:${n}`);
+      planKeys.push(`plan:${n}`);
+    }
+
+    const storage = this.state.storage;
+    const results = await storage.get<PageGapAnalysis[]>(resultKeys);
+    const analyzed = resultKeys.flatMap(key => results.get(key) ?? []);
+    const start = offset - firstBatch * JOB_BATCH_SIZE;
+    window.pages = analyzed.slice(start, start + (end - offset));
+
+    if (window.improvements) {
+      const urls = new Set(window.pages.map(page => page.url));
+      const plans = await storage.get<PageImprovementPlan[]>(planKeys);
+      window.improvements = planKeys.flatMap(key => plans.get(key) ?? []).filter(plan => urls.has(plan.url));
+    }
+
+    return window;
+  }
+}
+
+/**
+ * Puts entries in as many calls as the storage key limit needs. Entries
+ * keep their order, so the last ones are written last.
+ */
+async function putInGroups(storage: DurableObjectStorage, entries: Record<string, unknown>): Promise<void> {
+  const all = Object.entries(entries);
+  for (let i = 0; i < all.length; i += MAX_KEYS_PER_STORAGE_CALL) {
+    await storage.put<unknown>(Object.fromEntries(all.slice(i, i + MAX_KEYS_PER_STORAGE_CALL)));
+  }
+}
+
+/**
+ * Gets keys in as many calls as the storage key limit needs.
+ */
+async function getInGroups<T>(storage: DurableObjectStorage, keys: string[]): Promise<Map<string, T>> {
+  const found = new Map<string, T>();
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_STORAGE_CALL) {
+    const stored = await storage.get<T>(keys.slice(i, i + MAX_KEYS_PER_STORAGE_CALL));
+    stored.forEach((value, key) => found.set(key, value));
+  }
+  return found;
+}
+
+function createCursor(): JobCursor {
+  return {
+    batch: 0,
+    attempts: 0,
+    scores: [],
+    pagesWithGaps: 0,
+    severityCounts: { criticalIssues: 0, warnings: 0, suggestions: 0 },
+    pagesWithImprovements: 0,
+  };
+}
+
+function isFinished(job: JobRecord): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function advancePhase(job: JobRecord, cursor: JobCursor, phase: JobRecord['phase']): void {
+  job.phase = phase;
+  cursor.batch = 0;
+}
+
+function completeJob(job: JobRecord): void {
+  job.phase = 'done';
+  job.status = 'completed';
+}
+
+function batchCount(items: number): number {
+  return Math.ceil(items / JOB_BATCH_SIZE);
+}
+
+function addErrors(job: JobRecord, errors: string[]): void {
+  job.errors = [...job.errors, ...errors].slice(0, MAX_JOB_ERRORS);
+}
+
+function getCrawlerConfig(job: JobRecord): CrawlerConfig {
+  return {
+    ...DEFAULT_CRAWLER_CONFIG,
+    maxPages: job.request.constraints.maxPages ?? DEFAULT_JOB_MAX_PAGES,
+  };
+}
+
+function getJobProfile(job: JobRecord): AuditProfile {
+  return (job.request.auditProfile ? getAuditProfile(job.request.auditProfile) : undefined)
+    ?? AUDIT_PROFILES[DEFAULT_AUDIT_PROFILE_ID];
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -38,6 +38,13 @@ export type ApiErrorCode =
   | 'SESSION_EXPIRED'
   | 'SESSION_NOT_APPROVED'
   | 'SESSION_ALREADY_APPLIED'
+  | 'SESSION_REJECTED'
+  | 'SESSION_CONFLICT'
+  | 'SESSION_NOT_APPLIED'
+  | 'SESSION_REVERTED'
+  // Job errors (various)
+  | 'JOB_NOT_FOUND'
+  | 'JOB_ALREADY_FINISHED'
   // Server errors (500)
   | 'INTERNAL_ERROR';
 
@@ -58,6 +65,12 @@ export const ERROR_STATUS_CODES: Record<ApiErrorCode, number> = {
   SESSION_EXPIRED: 410,
   SESSION_NOT_APPROVED: 400,
   SESSION_ALREADY_APPLIED: 409,
+  SESSION_REJECTED: 409,
+  SESSION_CONFLICT: 409,
+  SESSION_NOT_APPLIED: 400,
+  SESSION_REVERTED: 409,
+  JOB_NOT_FOUND: 404,
+  JOB_ALREADY_FINISHED: 409,
   INTERNAL_ERROR: 500,
 };
 
@@ -133,6 +146,12 @@ export const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   SESSION_EXPIRED: 'Review session has expired',
   SESSION_NOT_APPROVED: 'Review session must be approved before applying',
   SESSION_ALREADY_APPLIED: 'Review session has already been applied',
+  SESSION_REJECTED: 'Review session has been rejected',
+  SESSION_CONFLICT: 'Repository files changed since the review session was created',
+  SESSION_NOT_APPLIED: 'Review session must be applied before it can be reverted',
+  SESSION_REVERTED: 'Review session has been reverted',
+  JOB_NOT_FOUND: 'Job not found',
+  JOB_ALREADY_FINISHED: 'Job has already finished',
   INTERNAL_ERROR: 'An internal error occurred',
 };
 
@@ -0,0 +1,252 @@
+/**
+ * Jobs Module
+ *
+ * Request validation and Durable Object helpers for asynchronous jobs.
+ * A job runs crawl → analyze → plan for sites too large to process inside
+ * a single /run request. The work itself happens in JobRunnerDO
+ * (doJobRunner.ts); this module is what the Worker routes call.
+ *
+ * ADDRESSING:
+ * - One Durable Object instance per job, named by the job ID
+ * - Job IDs are UUIDs (same format as review session IDs)
+ *
+ * OWNERSHIP:
+ * - The creating key's ID is stored with the job
+ * - Reads and cancellation from other keys get JOB_NOT_FOUND
+ */
+
+import { isValidConstraints } from './types';
+import { AUDIT_PROFILES, isValidAuditProfile } from '../core/analyze/auditProfiles';
+import { validateBusinessInput } from '../core/rules/businessInput.validator';
+import type { BusinessInput } from '../inputs/business.schema';
+import { generateSessionId } from './reviewSessions';
+import type { DurableObjectNamespace } from './rateLimit';
+import type {
+  JobCreateRequest,
+  JobRecord,
+  JobMode,
+  JobGetResponse,
+} from './types';
+
+/**
+ * Maximum pages a job may crawl.
+ */
+export const MAX_JOB_PAGES = 5000;
+
+/**
+ * Pages crawled when the request does not set constraints.maxPages.
+ */
+export const DEFAULT_JOB_MAX_PAGES = 500;
+
+/**
+ * Pages fetched, analyzed or planned per step.
+ */
+export const JOB_BATCH_SIZE = 20;
+
+/**
+ * How long a finished job's results are kept (24 hours).
+ */
+export const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default and maximum size of the per-page results window.
+ */
+export const DEFAULT_JOB_RESULTS_LIMIT = 50;
+export const MAX_JOB_RESULTS_LIMIT = 100;
+
+/**
+ * Base URL for requests to the job runner (never leaves the Worker).
+ */
+const JOB_RUNNER_BASE_URL = 'https://job-runner.internal';
+
+/**
+ * Validates the POST /jobs request body.
+ */
+export function validateJobCreateRequest(
+  body: unknown
+): { valid: true; request: JobCreateRequest } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  if (obj.mode !== 'audit' && obj.mode !== 'improve') {
+    return { valid: false, error: 'mode must be "audit" or "improve" for jobs' };
+  }
+  const mode = obj.mode as JobMode;
+
+  if (!obj.siteUrl || typeof obj.siteUrl !== 'string') {
+    return { valid: false, error: 'siteUrl is required' };
+  }
+  try {
+    new URL(obj.siteUrl);
+  } catch {
+    return { valid: false, error: 'siteUrl must be a valid URL' };
+  }
+
+  if (!isValidConstraints(obj.constraints)) {
+    return { valid: false, error: 'constraints.noHallucinations must be true' };
+  }
+
+  const maxPages: unknown = obj.constraints.maxPages;
+  if (
+    maxPages !== undefined &&
+    (typeof maxPages !== 'number' || !Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_JOB_PAGES)
+  ) {
+    return { valid: false, error: `constraints.maxPages must be an integer between 1 and ${MAX_JOB_PAGES}` };
+  }
+
+  if (obj.auditProfile !== undefined) {
+    if (typeof obj.auditProfile !== 'string' || !isValidAuditProfile(obj.auditProfile)) {
+      return { valid: false, error: `auditProfile must be one of: ${Object.keys(AUDIT_PROFILES).join(', ')}` };
+    }
+  }
+
+  if (obj.targetPaths !== undefined) {
+    if (mode !== 'improve') {
+      return { valid: false, error: 'targetPaths is only supported for "improve" jobs' };
+    }
+    if (!Array.isArray(obj.targetPaths)) {
+      return { valid: false, error: 'targetPaths must be an array of path strings' };
+    }
+    for (const p of obj.targetPaths) {
+      if (typeof p !== 'string' || p.length === 0) {
+        return { valid: false, error: 'targetPaths must contain non-empty strings' };
+      }
+    }
+  }
+
+  if (obj.businessInput !== undefined) {
+    if (mode !== 'improve') {
+      return { valid: false, error: 'businessInput is only supported for "improve" jobs' };
+    }
+    const validation = validateBusinessInput(obj.businessInput);
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid businessInput: ${validation.errors.join(', ')}` };
+    }
+  }
+
+  return {
+    valid: true,
+    request: {
+      mode,
+      siteUrl: obj.siteUrl,
+      constraints: obj.constraints as JobCreateRequest['constraints'],
+      auditProfile: obj.auditProfile as string | undefined,
+      targetPaths: obj.targetPaths as string[] | undefined,
+      businessInput: obj.businessInput as BusinessInput | undefined,
+    },
+  };
+}
+
+/**
+ * Creates a queued job record.
+ */
+export function createJobRecord(request: JobCreateRequest, keyId: string): JobRecord {
+  const now = new Date().toISOString();
+  return {
+    jobId: generateSessionId(),
+    keyId,
+    mode: request.mode,
+    siteUrl: request.siteUrl,
+    status: 'queued',
+    phase: 'discover',
+    createdAt: now,
+    updatedAt: now,
+    request,
+    progress: { totalUrls: 0, pagesCrawled: 0, pagesAnalyzed: 0, pagesPlanned: 0 },
+    sitemapFound: false,
+    errors: [],
+  };
+}
+
+/**
+ * Result of a call to the job runner.
+ */
+export type JobRunnerResult =
+  | { ok: true; response: JobGetResponse }
+  | { ok: false; errorCode: 'JOB_NOT_FOUND' | 'JOB_ALREADY_FINISHED'; message: string };
+
+/**
+ * Hands a new job to its Durable Object, which starts running it.
+ */
+export async function startJob(namespace: DurableObjectNamespace, job: JobRecord): Promise<void> {
+  const response = await getJobStub(namespace, job.jobId).fetch(
+    new Request(`${JOB_RUNNER_BASE_URL}/start`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ job }),
+    })
+  );
+  if (!response.ok) {
+    throw new Error(`Job runner rejected job (HTTP ${response.status})`);
+  }
+}
+
+/**
+ * Reads a job's state and a window of its per-page results.
+ */
+export async function getJob(
+  namespace: DurableObjectNamespace,
+  jobId: string,
+  keyId: string,
+  window: { offset: number; limit: number }
+): Promise<JobRunnerResult> {
+  const params = new URLSearchParams({
+    keyId,
+    offset: String(window.offset),
+    limit: String(window.limit),
+  });
+  const response = await getJobStub(namespace, jobId).fetch(
+    new Request(`${JOB_RUNNER_BASE_URL}/status?${params.toString()}`, { method: 'GET' })
+  );
+  return readJobRunnerResponse(response);
+}
+
+/**
+ * Cancels a running job.
+ */
+export async function cancelJob(
+  namespace: DurableObjectNamespace,
+  jobId: string,
+  keyId: string
+): Promise<JobRunnerResult> {
+  const response = await getJobStub(namespace, jobId).fetch(
+    new Request(`${JOB_RUNNER_BASE_URL}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ keyId }),
+    })
+  );
+  return readJobRunnerResponse(response);
+}
+
+/**
+ * Parses offset/limit query parameters for the results window.
+ */
+export function parseResultsWindow(url: URL): { offset: number; limit: number } {
+  const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+  const limit = parseInt(url.searchParams.get('limit') || String(DEFAULT_JOB_RESULTS_LIMIT), 10);
+  return {
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+    limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_JOB_RESULTS_LIMIT) : DEFAULT_JOB_RESULTS_LIMIT,
+  };
+}
+
+function getJobStub(namespace: DurableObjectNamespace, jobId: string) {
+  return namespace.get(namespace.idFromName(jobId));
+}
+
+async function readJobRunnerResponse(response: Response): Promise<JobRunnerResult> {
+  if (response.status === 404) {
+    return { ok: false, errorCode: 'JOB_NOT_FOUND', message: 'Job not found' };
+  }
+  if (response.status === 409) {
+    return { ok: false, errorCode: 'JOB_ALREADY_FINISHED', message: 'Job has already finished' };
+  }
+  if (!response.ok) {
+    throw new Error(`Job runner error (HTTP ${response.status})`);
+  }
+  return { ok: true, response: await response.json() as JobGetResponse };
+}
@@ -9,9 +9,39 @@
  * - Key format: review_session_{sessionId}
  * - Sessions have a configurable TTL (default 24 hours)
  *
+ * HISTORY:
+ * - Each key has an index of its sessions: review_index_{keyId}
+ * - Applied sessions are archived: review_archive_{sessionId}
+ * - Neither has a TTL, so history outlives the sessions themselves
+ * - Unapplied sessions drop out of the index after INDEX_RETENTION_MS
+ *
  * SECURITY:
  * - GitHub tokens are NEVER stored in sessions
  * - Tokens must be provided at apply time
+ *
+ * PARTIAL REVIEW:
+ * - Each planned file, and each marker block in it, carries a decision
+ * - A rejected file is never written, whatever its block decisions say
+ * - Approving the session accepts everything still pending
+ * - Apply rebuilds files from their accepted blocks only
+ *
+ * EDITS:
+ * - Reviewers may rewrite a block's content before apply
+ * - Edits are checked against the generated content and the session's
+ *   business facts, and may not introduce numbers, credentials or place names
+ *
+ * CONCURRENCY:
+ * - Files read at creation record their blob SHA (baseSha)
+ * - Apply re-reads them; a changed SHA (or content, where the provider
+ *   has no SHAs) means the file drifted
+ * - Drifted files are rebased when our marker regions are untouched,
+ *   otherwise apply fails with SESSION_CONFLICT
+ *
+ * REVERT:
+ * - An applied session can be reverted, as a new commit or pull request
+ * - Files untouched since apply get their original content back; others
+ *   (and every file of an archived session) only lose their marker blocks
+ * - The archive record keeps the revert, so it works after the TTL
  */
 
 import type { KVNamespace } from './auth';
@@ -20,9 +50,30 @@ import type {
   ReviewSessionStatus,
   ReviewPlannedFile,
   ReviewDiffPreview,
+  ReviewUnmappedUrl,
   ReviewPatch,
+  ReviewComment,
+  ReviewDecisionInput,
+  ReviewSessionSummary,
+  ReviewArchiveRecord,
+  ReviewListQuery,
+  ReviewConflict,
+  ReviewRevertRecord,
   TargetRepoConfig,
 } from './types';
+import type { BlockType, PlannedFileChange } from '../core/writeback/patchApplier';
+import {
+  buildPatchedContent,
+  buildDiffPreview,
+  rebasePlannedChange,
+  stripMarkerBlocks,
+} from '../core/writeback/patchApplier';
+import type { RepoFile, RepoProvider } from '../core/writeback/repoProvider';
+import type { PullRequestResult } from '../core/writeback/githubClient';
+import type { PullRequestEvidence } from '../core/writeback/pullRequest';
+import { findIntroducedClaims, ClaimViolation } from '../core/rules/antiHallucination';
+import { collectInputFields } from '../core/rules/provenance';
+import type { BusinessInput } from '../inputs/business.schema';
 
 /**
  * Default session TTL in milliseconds (24 hours).
@@ -34,6 +85,53 @@ export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
  */
 const KV_SESSION_PREFIX = 'review_session_';
 
+/**
+ * KV key prefixes for per-key session indexes and applied-session archives.
+ */
+const KV_INDEX_PREFIX = 'review_index_';
+const KV_ARCHIVE_PREFIX = 'review_archive_';
+
+/**
+ * Maximum sessions kept in one key's index.
+ */
+export const MAX_INDEXED_SESSIONS = 500;
+
+/**
+ * How long sessions that were never applied stay in the index (90 days).
+ */
+export const INDEX_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default and maximum page size for GET /review.
+ */
+export const DEFAULT_REVIEW_LIST_LIMIT = 50;
+export const MAX_REVIEW_LIST_LIMIT = 100;
+
+const REVIEW_SESSION_STATUSES: ReviewSessionStatus[] = [
+  'pending', 'approved', 'rejected', 'expired', 'applied', 'reverted',
+];
+
+/**
+ * Maximum length of a comment body.
+ */
+export const MAX_COMMENT_LENGTH = 4000;
+
+/**
+ * Maximum comments stored on one session.
+ */
+export const MAX_SESSION_COMMENTS = 200;
+
+/**
+ * Maximum length of an edited block.
+ */
+export const MAX_BLOCK_EDIT_LENGTH = 20000;
+
+/**
+ * Prefix shared by every block marker and replaced-key comment, whatever
+ * the file format; edits may not contain it.
+ */
+const BLOCK_MARKER_PREFIX = 'nico-geo:';
+
 /**
  * Generates a UUID v4.
  * Uses crypto.randomUUID() if available, otherwise fallback.
@@ -81,9 +179,13 @@ export function createReviewSession(params: {
   siteUrl: string;
   selectedTargets: string[];
   plannedFiles: ReviewPlannedFile[];
+  unmappedUrls?: ReviewUnmappedUrl[];
   diffPreviews: ReviewDiffPreview[];
   patches: ReviewPatch[];
   targetRepo: TargetRepoConfig;
+  keyId?: string;
+  evidence?: PullRequestEvidence[];
+  businessInput?: BusinessInput;
   ttlMs?: number;
 }): ReviewSession {
   const sessionId = generateSessionId();
@@ -97,11 +199,28 @@ export function createReviewSession(params: {
     mode: 'improve',
     siteUrl: params.siteUrl,
     selectedTargets: params.selectedTargets,
-    plannedFiles: params.plannedFiles,
+    plannedFiles: params.plannedFiles.map(file => withPendingDecisions(file, params.patches)),
+    ...(params.unmappedUrls && params.unmappedUrls.length > 0 && { unmappedUrls: params.unmappedUrls }),
     diffPreviews: params.diffPreviews,
     patches: params.patches,
     status: 'pending',
     targetRepo: params.targetRepo,
+    comments: [],
+    keyId: params.keyId,
+    evidence: params.evidence,
+    ...(params.businessInput && { businessInput: params.businessInput }),
+  };
+}
+
+/**
+ * Fills in pending decisions for a file and each block in its patch.
+ */
+function withPendingDecisions(file: ReviewPlannedFile, patches: ReviewPatch[]): ReviewPlannedFile {
+  const patch = patches.find(p => p.filePath === file.filePath);
+  return {
+    ...file,
+    decision: file.decision ?? 'pending',
+    blocks: file.blocks ?? (patch?.blocks ?? []).map(b => ({ blockType: b.blockType, decision: 'pending' as const })),
   };
 }
 
@@ -122,6 +241,7 @@ export async function storeSession(
   const ttlSeconds = Math.max(1, Math.floor((expiresAt.getTime() - now.getTime()) / 1000));
 
   await kv.put(key, value, { expirationTtl: ttlSeconds });
+  await indexSession(kv, session);
 }
 
 /**
@@ -154,7 +274,8 @@ export async function updateSessionStatus(
   kv: KVNamespace,
   sessionId: string,
   newStatus: ReviewSessionStatus,
-  commitShas?: string[]
+  commitShas?: string[],
+  pullRequest?: PullRequestResult
 ): Promise<ReviewSession | null> {
   const session = await getSession(kv, sessionId);
   if (!session) {
@@ -166,6 +287,12 @@ export async function updateSessionStatus(
   if (commitShas) {
     session.commitShas = commitShas;
   }
+  if (pullRequest) {
+    session.pullRequest = pullRequest;
+  }
+  if (newStatus === 'applied') {
+    session.appliedAt = new Date().toISOString();
+  }
 
   // Store with remaining TTL
   const key = buildSessionKey(sessionId);
@@ -175,10 +302,252 @@ export async function updateSessionStatus(
   const ttlSeconds = Math.max(1, Math.floor((expiresAt.getTime() - now.getTime()) / 1000));
 
   await kv.put(key, value, { expirationTtl: ttlSeconds });
+  await indexSession(kv, session);
+  if (newStatus === 'applied') {
+    await archiveSession(kv, session);
+  }
 
   return session;
 }
 
+/**
+ * Builds the KV key for a key's session index.
+ */
+export function buildIndexKey(keyId: string): string {
+  return `${KV_INDEX_PREFIX}${keyId}`;
+}
+
+/**
+ * Builds the KV key for an applied session's archive record.
+ */
+export function buildArchiveKey(sessionId: string): string {
+  return `${KV_ARCHIVE_PREFIX}${sessionId}`;
+}
+
+/**
+ * Builds the index entry for a session.
+ */
+export function summarizeSession(session: ReviewSession, now: Date = new Date()): ReviewSessionSummary {
+  return {
+    sessionId: session.sessionId,
+    siteUrl: session.siteUrl,
+    status: session.status,
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    updatedAt: now.toISOString(),
+    plannedFilesCount: session.plannedFiles.length,
+    targetRepo: {
+      owner: session.targetRepo.owner,
+      repo: session.targetRepo.repo,
+      branch: session.targetRepo.branch,
+    },
+    approvedBy: session.approvedBy,
+    approvedAt: session.approvedAt,
+    appliedAt: session.appliedAt,
+    commitShas: session.commitShas,
+    pullRequestUrl: session.pullRequest?.url,
+    revertedAt: session.revert?.revertedAt,
+  };
+}
+
+/**
+ * Reads a key's session index, newest first.
+ */
+export async function getSessionIndex(kv: KVNamespace, keyId: string): Promise<ReviewSessionSummary[]> {
+  const value = await kv.get(buildIndexKey(keyId), { type: 'text' });
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed as ReviewSessionSummary[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds or refreshes a session in its creator's index. Sessions created
+ * before keys were recorded have no owner and are not indexed.
+ */
+async function indexSession(kv: KVNamespace, session: ReviewSession): Promise<void> {
+  if (!session.keyId) {
+    return;
+  }
+  const now = new Date();
+  const entries = (await getSessionIndex(kv, session.keyId))
+    .filter(e => e.sessionId !== session.sessionId);
+  entries.push(summarizeSession(session, now));
+  await kv.put(buildIndexKey(session.keyId), JSON.stringify(pruneSessionIndex(entries, now)));
+}
+
+/**
+ * Sorts an index newest first and trims it. Applied (and reverted) sessions
+ * are kept for as long as the size cap allows; others go once past
+ * INDEX_RETENTION_MS.
+ */
+export function pruneSessionIndex(
+  entries: ReviewSessionSummary[],
+  now: Date = new Date()
+): ReviewSessionSummary[] {
+  const cutoff = now.getTime() - INDEX_RETENTION_MS;
+  return entries
+    .filter(e => e.status === 'applied' || e.status === 'reverted' || new Date(e.createdAt).getTime() >= cutoff)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_INDEXED_SESSIONS);
+}
+
+/**
+ * Writes the permanent record of an applied session.
+ */
+async function archiveSession(kv: KVNamespace, session: ReviewSession): Promise<void> {
+  if (!session.keyId) {
+    return;
+  }
+  const record: ReviewArchiveRecord = {
+    sessionId: session.sessionId,
+    keyId: session.keyId,
+    siteUrl: session.siteUrl,
+    createdAt: session.createdAt,
+    approvedBy: session.approvedBy,
+    approvedAt: session.approvedAt,
+    appliedAt: session.appliedAt ?? new Date().toISOString(),
+    commitShas: session.commitShas ?? [],
+    targetRepo: {
+      owner: session.targetRepo.owner,
+      repo: session.targetRepo.repo,
+      branch: session.targetRepo.branch,
+      provider: session.targetRepo.provider,
+      baseUrl: session.targetRepo.baseUrl,
+      applyMode: session.targetRepo.applyMode,
+    },
+    appliedFiles: session.plannedFiles.filter(f => f.decision !== 'rejected').map(f => f.filePath),
+    pullRequest: session.pullRequest,
+    revert: session.revert,
+  };
+  await kv.put(buildArchiveKey(session.sessionId), JSON.stringify(record));
+}
+
+/**
+ * Retrieves the archive record of an applied session.
+ * Returns null if the session was never applied.
+ */
+export async function getArchivedSession(
+  kv: KVNamespace,
+  sessionId: string
+): Promise<ReviewArchiveRecord | null> {
+  const value = await kv.get(buildArchiveKey(sessionId), { type: 'text' });
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as ReviewArchiveRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses and validates GET /review query parameters.
+ */
+export function parseReviewListQuery(
+  url: URL
+): { valid: true; query: ReviewListQuery } | { valid: false; error: string } {
+  const params = url.searchParams;
+  const query: ReviewListQuery = { offset: 0, limit: DEFAULT_REVIEW_LIST_LIMIT };
+
+  const status = params.get('status');
+  if (status !== null) {
+    if (!REVIEW_SESSION_STATUSES.includes(status as ReviewSessionStatus)) {
+      return { valid: false, error: `status must be one of: ${REVIEW_SESSION_STATUSES.join(', ')}` };
+    }
+    query.status = status as ReviewSessionStatus;
+  }
+
+  const siteUrl = params.get('siteUrl');
+  if (siteUrl !== null) {
+    if (siteHost(siteUrl) === null) {
+      return { valid: false, error: 'siteUrl must be a valid URL' };
+    }
+    query.siteUrl = siteUrl;
+  }
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (value !== null) {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return { valid: false, error: `${bound} must be an ISO date or timestamp` };
+      }
+      query[bound] = new Date(time).toISOString();
+    }
+  }
+  if (query.from && query.to && query.from >= query.to) {
+    return { valid: false, error: 'from must be earlier than to' };
+  }
+
+  const offset = params.get('offset');
+  if (offset !== null) {
+    const value = Number(offset);
+    if (!Number.isInteger(value) || value < 0) {
+      return { valid: false, error: 'offset must be a non-negative integer' };
+    }
+    query.offset = value;
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_REVIEW_LIST_LIMIT) {
+      return { valid: false, error: `limit must be an integer between 1 and ${MAX_REVIEW_LIST_LIMIT}` };
+    }
+    query.limit = value;
+  }
+
+  return { valid: true, query };
+}
+
+/**
+ * Lists a key's sessions matching the query, newest first. Index entries
+ * are not rewritten when a session times out, so expiry is worked out here.
+ */
+export async function listSessions(
+  kv: KVNamespace,
+  keyId: string,
+  query: ReviewListQuery,
+  now: Date = new Date()
+): Promise<{ sessions: ReviewSessionSummary[]; total: number }> {
+  const host = query.siteUrl ? siteHost(query.siteUrl) : null;
+  const matching = (await getSessionIndex(kv, keyId))
+    .map(entry => {
+      const expired = (entry.status === 'pending' || entry.status === 'approved') &&
+        now >= new Date(entry.expiresAt);
+      return expired ? { ...entry, status: 'expired' as const } : entry;
+    })
+    .filter(entry =>
+      (!query.status || entry.status === query.status) &&
+      (!host || siteHost(entry.siteUrl) === host) &&
+      (!query.from || entry.createdAt >= query.from) &&
+      (!query.to || entry.createdAt < query.to)
+    );
+
+  return {
+    sessions: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  };
+}
+
+/**
+ * Host used to match sessions to a site, ignoring scheme, path and "www.".
+ */
+function siteHost(siteUrl: string): string | null {
+  try {
+    return new URL(siteUrl).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Result type for session retrieval with expiration check.
  */
@@ -210,7 +579,8 @@ export async function getSessionWithExpirationCheck(
   const expired = isSessionExpired(session);
 
   // If expired but status not yet updated, update it
-  if (expired && session.status !== 'expired' && session.status !== 'applied') {
+  const settled: ReviewSessionStatus[] = ['expired', 'applied', 'rejected', 'reverted'];
+  if (expired && !settled.includes(session.status)) {
     await updateSessionStatus(kv, sessionId, 'expired');
     session.status = 'expired';
   }
@@ -241,10 +611,26 @@ export function canApproveSession(session: ReviewSession): {
     return { canApprove: false, reason: 'Session has expired' };
   }
 
+  if (session.status === 'rejected') {
+    return { canApprove: false, reason: 'Session has been rejected' };
+  }
+
+  if (session.status === 'reverted') {
+    return { canApprove: false, reason: 'Session has been reverted' };
+  }
+
   // pending or approved can both be approved (idempotent)
   return { canApprove: true };
 }
 
+/**
+ * Whether an API key may change what a session writes (apply, edit,
+ * revert). Sessions created without a key are open to any key.
+ */
+export function isSessionOwner(source: { keyId?: string }, keyId: string): boolean {
+  return !source.keyId || source.keyId === keyId;
+}
+
 /**
  * Validates that a session can be applied.
  */
@@ -270,6 +656,14 @@ export function canApplySession(session: ReviewSession): {
     return { canApply: false, reason: 'Session has expired' };
   }
 
+  if (session.status === 'rejected') {
+    return { canApply: false, reason: 'Session has been rejected' };
+  }
+
+  if (session.status === 'reverted') {
+    return { canApply: false, reason: 'Session has been reverted' };
+  }
+
   if (session.status !== 'approved') {
     return { canApply: false, reason: 'Session must be approved before applying' };
   }
@@ -277,6 +671,479 @@ export function canApplySession(session: ReviewSession): {
   return { canApply: true };
 }
 
+/**
+ * Validates that decisions can still be recorded, or the session rejected.
+ */
+export function canReviewSession(session: ReviewSession): {
+  canReview: boolean;
+  reason?: string;
+} {
+  if (isSessionExpired(session) || session.status === 'expired') {
+    return { canReview: false, reason: 'Session has expired' };
+  }
+
+  if (session.status === 'applied') {
+    return { canReview: false, reason: 'Session has already been applied' };
+  }
+
+  if (session.status === 'rejected') {
+    return { canReview: false, reason: 'Session has been rejected' };
+  }
+
+  if (session.status === 'reverted') {
+    return { canReview: false, reason: 'Session has been reverted' };
+  }
+
+  return { canReview: true };
+}
+
+/**
+ * Validates that a session can be reverted.
+ */
+export function canRevertSession(session: Pick<ReviewSession, 'status'>): {
+  canRevert: boolean;
+  reason?: string;
+  isIdempotent?: boolean;
+} {
+  if (session.status === 'reverted') {
+    return { canRevert: false, reason: 'Session has already been reverted', isIdempotent: true };
+  }
+
+  if (session.status !== 'applied') {
+    return { canRevert: false, reason: 'Only applied sessions can be reverted' };
+  }
+
+  return { canRevert: true };
+}
+
+/**
+ * Records file and block decisions on a session. Every entry is checked
+ * before any is applied. Changing a decision on an approved session
+ * returns it to pending, so what gets applied is always re-approved.
+ */
+export function applyReviewDecisions(
+  session: ReviewSession,
+  decisions: ReviewDecisionInput[]
+): { valid: true } | { valid: false; error: string } {
+  for (const input of decisions) {
+    const file = session.plannedFiles.find(f => f.filePath === input.filePath);
+    if (!file) {
+      return { valid: false, error: `No planned file at ${input.filePath}` };
+    }
+    if (input.blockType && !file.blocks?.some(b => b.blockType === input.blockType)) {
+      return { valid: false, error: `${input.filePath} has no ${input.blockType} block` };
+    }
+  }
+
+  let changed = false;
+  for (const input of decisions) {
+    const file = session.plannedFiles.find(f => f.filePath === input.filePath)!;
+    const target = input.blockType
+      ? file.blocks!.find(b => b.blockType === input.blockType)!
+      : file;
+    if ((target.decision ?? 'pending') !== input.decision) {
+      target.decision = input.decision;
+      changed = true;
+    }
+  }
+
+  if (changed && session.status === 'approved') {
+    session.status = 'pending';
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Marks every pending file and block as accepted (on session approval).
+ */
+export function acceptPendingDecisions(session: ReviewSession): void {
+  for (const file of session.plannedFiles) {
+    if ((file.decision ?? 'pending') === 'pending') {
+      file.decision = 'accepted';
+    }
+    for (const block of file.blocks ?? []) {
+      if (block.decision === 'pending') {
+        block.decision = 'accepted';
+      }
+    }
+  }
+}
+
+/**
+ * Adds a comment to a session. A reply must point at an existing comment;
+ * an anchored comment must point at a planned file (and block).
+ */
+export function addReviewComment(
+  session: ReviewSession,
+  input: { body: string; parentId?: string; filePath?: string; blockType?: BlockType },
+  keyId: string
+): { valid: true; comment: ReviewComment } | { valid: false; error: string } {
+  const comments = session.comments ?? [];
+
+  if (comments.length >= MAX_SESSION_COMMENTS) {
+    return { valid: false, error: `Session already has the maximum of ${MAX_SESSION_COMMENTS} comments` };
+  }
+  if (input.parentId && !comments.some(c => c.commentId === input.parentId)) {
+    return { valid: false, error: `No comment with ID ${input.parentId}` };
+  }
+  if (input.blockType && !input.filePath) {
+    return { valid: false, error: 'blockType requires filePath' };
+  }
+  if (input.filePath) {
+    const file = session.plannedFiles.find(f => f.filePath === input.filePath);
+    if (!file) {
+      return { valid: false, error: `No planned file at ${input.filePath}` };
+    }
+    if (input.blockType && !file.blocks?.some(b => b.blockType === input.blockType)) {
+      return { valid: false, error: `${input.filePath} has no ${input.blockType} block` };
+    }
+  }
+
+  const comment: ReviewComment = {
+    commentId: generateSessionId(),
+    keyId,
+    body: input.body,
+    createdAt: new Date().toISOString(),
+    ...(input.parentId && { parentId: input.parentId }),
+    ...(input.filePath && { filePath: input.filePath }),
+    ...(input.blockType && { blockType: input.blockType }),
+  };
+  session.comments = [...comments, comment];
+
+  return { valid: true, comment };
+}
+
+/**
+ * Replaces one block's content in a planned file, rebuilds the file and
+ * its diff preview, and returns an approved session to pending. The edit
+ * is rejected if it introduces claims absent from the file's generated
+ * blocks and original content.
+ */
+export function editReviewBlock(
+  session: ReviewSession,
+  filePath: string,
+  blockType: BlockType,
+  content: string
+):
+  | { valid: true; file: ReviewPlannedFile; diffPreview: ReviewDiffPreview }
+  | { valid: false; error: string; violations?: ClaimViolation[] } {
+  const file = session.plannedFiles.find(f => f.filePath === filePath);
+  const patch = session.patches.find(p => p.filePath === filePath);
+  if (!file || !patch) {
+    return { valid: false, error: `No planned file at ${filePath}` };
+  }
+
+  const block = patch.blocks?.find(b => b.blockType === blockType);
+  if (!block) {
+    return { valid: false, error: `${filePath} has no ${blockType} block` };
+  }
+  if (content.length > MAX_BLOCK_EDIT_LENGTH) {
+    return { valid: false, error: `content must be at most ${MAX_BLOCK_EDIT_LENGTH} characters` };
+  }
+  if (content.includes(BLOCK_MARKER_PREFIX)) {
+    return { valid: false, error: 'content must not contain block markers' };
+  }
+
+  // Always check against what was generated, so edits cannot build on each other.
+  // The rest of the page is not a source: its nav, footer and scripts are not facts.
+  const generatedBlocks = patch.generatedBlocks ?? patch.blocks!;
+  const facts = generatedBlocks.map(b => b.content);
+  if (session.businessInput) {
+    facts.push(...collectInputFields(session.businessInput).map(field => field.value));
+  }
+  const violations = findIntroducedClaims(content, facts, filePath);
+  if (violations.length > 0) {
+    const tokens = violations.map(v => `"${v.token}"`).join(', ');
+    return { valid: false, error: `Edit introduces facts not in the generated content: ${tokens}`, violations };
+  }
+
+  patch.generatedBlocks = generatedBlocks.map(b => ({ ...b }));
+  block.content = content;
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1);
+  patch.newContent = buildPatchedContent(patch.originalContent, extension, patch.blocks!);
+
+  const diffPreview = buildDiffPreview(filePath, file.action, patch.originalContent, patch.newContent);
+  const previewIndex = session.diffPreviews.findIndex(d => d.filePath === filePath);
+  if (previewIndex === -1) {
+    session.diffPreviews.push(diffPreview);
+  } else {
+    session.diffPreviews[previewIndex] = diffPreview;
+  }
+
+  if (!file.editedBlocks?.includes(blockType)) {
+    file.editedBlocks = [...(file.editedBlocks ?? []), blockType];
+  }
+  if (session.status === 'approved') {
+    session.status = 'pending';
+  }
+
+  return { valid: true, file, diffPreview };
+}
+
+/**
+ * Builds the file changes to write for an approved session: rejected
+ * files are dropped, and files with rejected blocks are rebuilt from
+ * their accepted blocks (or dropped when none remain).
+ */
+export function buildAcceptedChanges(session: ReviewSession): PlannedFileChange[] {
+  const changes: PlannedFileChange[] = [];
+
+  for (const patch of session.patches) {
+    const file = session.plannedFiles.find(f => f.filePath === patch.filePath);
+    if (file?.decision === 'rejected') continue;
+
+    const rejectedBlocks = new Set(
+      (file?.blocks ?? []).filter(b => b.decision === 'rejected').map(b => b.blockType)
+    );
+    const blocks = (patch.blocks ?? []).filter(b => !rejectedBlocks.has(b.blockType));
+
+    let newContent = patch.newContent;
+    if (rejectedBlocks.size > 0) {
+      if (blocks.length === 0) continue;
+      const extension = patch.filePath.slice(patch.filePath.lastIndexOf('.') + 1);
+      newContent = buildPatchedContent(patch.originalContent, extension, blocks);
+    }
+
+    changes.push({
+      url: patch.url,
+      filePath: patch.filePath,
+      action: file?.action ?? 'create',
+      originalContent: patch.originalContent,
+      newContent,
+      humanReviewRequired: file?.humanReviewRequired ?? false,
+      reviewNotes: file?.reviewNotes ?? [],
+      blocks,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Checks whether a file changed in the repository since it was planned.
+ * Patches planned without repository access are never reported.
+ */
+export function hasDrifted(patch: ReviewPatch, current: RepoFile | null): boolean {
+  if (!patch.baseReadAt) return false;
+  if (patch.originalContent === null || current === null) {
+    return (patch.originalContent === null) !== (current === null);
+  }
+  if (patch.baseSha && current.sha) {
+    return patch.baseSha !== current.sha;
+  }
+  return patch.originalContent !== current.content;
+}
+
+/**
+ * Rebases accepted changes whose files drifted onto the files' current
+ * content. currentFiles holds a fresh read of every file that has a
+ * baseReadAt; rebased patches are updated in the returned copy.
+ */
+export function resolveSessionDrift(
+  session: ReviewSession,
+  changes: PlannedFileChange[],
+  currentFiles: Map<string, RepoFile | null>,
+  now: Date = new Date()
+): {
+  changes: PlannedFileChange[];
+  patches: ReviewPatch[];
+  rebasedFiles: string[];
+  conflicts: ReviewConflict[];
+} {
+  const resolved: PlannedFileChange[] = [];
+  const rebasedFiles: string[] = [];
+  const conflicts: ReviewConflict[] = [];
+  const patches = session.patches.map(p => ({ ...p }));
+
+  for (const change of changes) {
+    const patch = patches.find(p => p.filePath === change.filePath);
+    const current = currentFiles.get(change.filePath) ?? null;
+    if (!patch || !hasDrifted(patch, current)) {
+      resolved.push(change);
+      continue;
+    }
+
+    const currentContent = current?.content ?? null;
+    const result = rebasePlannedChange(change, currentContent);
+    if (!result.rebased) {
+      // Show what applying over the current file would do
+      const extension = change.filePath.slice(change.filePath.lastIndexOf('.') + 1);
+      const attempted = buildPatchedContent(currentContent, extension, change.blocks);
+      conflicts.push({
+        filePath: change.filePath,
+        reason: result.reason,
+        diffPreview: buildDiffPreview(
+          change.filePath,
+          currentContent === null ? 'create' : 'update',
+          currentContent,
+          attempted
+        ),
+      });
+      continue;
+    }
+
+    resolved.push(result.change);
+    rebasedFiles.push(change.filePath);
+
+    const extension = patch.filePath.slice(patch.filePath.lastIndexOf('.') + 1);
+    patch.originalContent = currentContent;
+    patch.newContent = buildPatchedContent(currentContent, extension, patch.blocks ?? []);
+    patch.baseReadAt = now.toISOString();
+    patch.baseSha = current?.sha;
+  }
+
+  return { changes: resolved, patches, rebasedFiles, conflicts };
+}
+
+/**
+ * A file written by apply, as known at revert time. Archived sessions
+ * only know the path.
+ */
+export interface RevertSourceFile {
+  filePath: string;
+  url?: string;
+  /** Content before apply (null if apply created the file) */
+  originalContent?: string | null;
+  /** Content apply wrote */
+  writtenContent?: string;
+}
+
+/**
+ * Lists the files an applied session wrote, with their contents when
+ * the session is still stored.
+ */
+export function buildRevertSources(
+  source: ReviewSession | ReviewArchiveRecord
+): RevertSourceFile[] {
+  if ('appliedFiles' in source) {
+    return source.appliedFiles.map(filePath => ({ filePath }));
+  }
+  return buildAcceptedChanges(source)
+    .filter(c => c.action !== 'no-op')
+    .map(c => ({
+      filePath: c.filePath,
+      url: c.url,
+      originalContent: c.originalContent,
+      writtenContent: c.newContent,
+    }));
+}
+
+/**
+ * Plans the write-back that undoes an apply. A file still exactly as
+ * apply left it gets its original content back, or is deleted if apply
+ * created it; any other file keeps its current content minus our marker
+ * blocks. Files already gone, or with nothing of ours left, are skipped.
+ */
+export function planSessionRevert(
+  files: RevertSourceFile[],
+  currentFiles: Map<string, RepoFile | null>
+): { changes: PlannedFileChange[]; restoredFiles: string[]; strippedFiles: string[]; deletedFiles: string[] } {
+  const changes: PlannedFileChange[] = [];
+  const restoredFiles: string[] = [];
+  const strippedFiles: string[] = [];
+  const deletedFiles: string[] = [];
+
+  for (const file of files) {
+    const current = currentFiles.get(file.filePath);
+    if (!current) continue;
+
+    const untouched = file.writtenContent !== undefined && current.content === file.writtenContent;
+    if (untouched && file.originalContent === null) {
+      deletedFiles.push(file.filePath);
+      continue;
+    }
+
+    let newContent: string;
+    if (untouched && typeof file.originalContent === 'string') {
+      newContent = file.originalContent;
+      restoredFiles.push(file.filePath);
+    } else {
+      newContent = stripMarkerBlocks(current.content, file.filePath.slice(file.filePath.lastIndexOf('.') + 1));
+      if (newContent === current.content) continue;
+      strippedFiles.push(file.filePath);
+    }
+
+    changes.push({
+      url: file.url ?? file.filePath,
+      filePath: file.filePath,
+      action: 'update',
+      originalContent: current.content,
+      newContent,
+      humanReviewRequired: false,
+      reviewNotes: [],
+      blocks: [],
+    });
+  }
+
+  return { changes, restoredFiles, strippedFiles, deletedFiles };
+}
+
+/**
+ * Undoes a pull-request apply whose pull request was never merged, which
+ * left the target branch untouched: an open pull request is closed, a
+ * closed one needs nothing. Returns null for a merged pull request, whose
+ * files have to be reverted instead.
+ */
+export async function revertUnmergedPullRequest(
+  provider: Pick<RepoProvider, 'getMergeRequestState' | 'closeMergeRequest'>,
+  pullRequest: PullRequestResult,
+  now: Date = new Date()
+): Promise<{ revert: ReviewRevertRecord; closed: boolean } | null> {
+  const state = await provider.getMergeRequestState(pullRequest.number);
+  if (state === 'merged') {
+    return null;
+  }
+  if (state === 'open') {
+    await provider.closeMergeRequest(pullRequest.number);
+  }
+
+  return {
+    revert: {
+      revertedAt: now.toISOString(),
+      commitShas: [],
+      restoredFiles: [],
+      strippedFiles: [],
+      deletedFiles: [],
+      unmergedPullRequest: pullRequest,
+    },
+    closed: state === 'open',
+  };
+}
+
+/**
+ * Marks an applied session as reverted, on the session (while it is
+ * still stored), its archive record and its index entry.
+ */
+export async function recordSessionRevert(
+  kv: KVNamespace,
+  sessionId: string,
+  revert: ReviewRevertRecord
+): Promise<void> {
+  const session = await getSession(kv, sessionId);
+  if (session) {
+    session.status = 'reverted';
+    session.revert = revert;
+    await storeSession(kv, session);
+  }
+
+  const archived = await getArchivedSession(kv, sessionId);
+  if (!archived) {
+    return;
+  }
+  await kv.put(buildArchiveKey(sessionId), JSON.stringify({ ...archived, revert }));
+
+  if (!session) {
+    const now = new Date();
+    const entries = (await getSessionIndex(kv, archived.keyId)).map(e =>
+      e.sessionId === sessionId
+        ? { ...e, status: 'reverted' as const, revertedAt: revert.revertedAt, updatedAt: now.toISOString() }
+        : e
+    );
+    await kv.put(buildIndexKey(archived.keyId), JSON.stringify(pruneSessionIndex(entries, now)));
+  }
+}
+
 /**
  * Serializes a session for storage (validation helper for test harness).
  */
@@ -0,0 +1,119 @@
+/**
+ * Run Event Stream
+ *
+ * Server-Sent Events support for POST /run with `stream: true`.
+ * The run executes exactly as it would otherwise; handlers report
+ * progress through a RunProgressEmitter and the final RunResponse
+ * (or error body) is sent as the last event.
+ *
+ * EVENTS:
+ *   sitemap, page_crawled, page_analyzed, action_queue_scored,
+ *   generator_completed - progress (see RunProgressEvent)
+ *   result              - the RunResponse that /run would have returned
+ *   error               - the error body that /run would have returned
+ *
+ * Validation, authentication and rate-limit failures happen before the
+ * stream opens and are returned as ordinary JSON errors.
+ */
+
+import type { CrawlProgressHandlers } from '../core/ingest/siteCrawler';
+import type { PageGapAnalysis } from '../core/analyze/geoGapAnalyzer';
+import type { RunProgressEmitter } from './types';
+
+/**
+ * Content type of streamed /run responses.
+ */
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+/**
+ * An open event stream and the functions that write to it.
+ */
+export interface RunEventStream {
+  /** Response to return to the client straight away */
+  response: Response;
+  /** Queues a progress event */
+  emit: RunProgressEmitter;
+  /** Sends the final event and closes the stream */
+  finish: (event: 'result' | 'error', data: unknown) => Promise<void>;
+}
+
+/**
+ * Formats one SSE message. JSON never contains raw newlines, so the
+ * payload always fits on a single data line.
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Opens an event stream. Writes are chained so events arrive in the order
+ * they were emitted; a client that disconnects does not fail the run.
+ */
+export function createRunEventStream(headers: Record<string, string>): RunEventStream {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  let pending: Promise<void> = Promise.resolve();
+
+  const write = (event: string, data: unknown): Promise<void> => {
+    pending = pending
+      .then(() => writer.write(encoder.encode(formatSseEvent(event, data))))
+      .catch(() => {
+        // Client went away; the run still completes
+      });
+    return pending;
+  };
+
+  const response = new Response(readable, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': `${EVENT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+
+  return {
+    response,
+    emit: (event) => {
+      void write(event.type, event);
+    },
+    finish: async (event, data) => {
+      await write(event, data);
+      await writer.close().catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Crawl callbacks that report sitemap discovery and each crawled page.
+ */
+export function crawlProgressEvents(emit: RunProgressEmitter): CrawlProgressHandlers {
+  return {
+    onDiscovered: (discovery) => emit({
+      type: 'sitemap',
+      sitemapFound: discovery.sitemapFound,
+      urlCount: discovery.urls.length,
+    }),
+    onPageCrawled: (page, crawled, total) => emit({
+      type: 'page_crawled',
+      url: page.url,
+      httpStatus: page.httpStatus,
+      ...(page.fetchError && { fetchError: page.fetchError }),
+      crawled,
+      total,
+    }),
+  };
+}
+
+/**
+ * Gap analysis callback that reports each analyzed page.
+ */
+export function pageAnalyzedEvents(emit: RunProgressEmitter): (page: PageGapAnalysis) => void {
+  return (page) => emit({
+    type: 'page_analyzed',
+    url: page.url,
+    geoScore: page.geoScore,
+    gapCount: page.gaps.length,
+  });
+}
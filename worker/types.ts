@@ -5,12 +5,16 @@
  */
 
 import type { BusinessInput } from '../inputs/business.schema';
-import type { SiteGapAnalysis, GapFlag } from '../core/analyze/geoGapAnalyzer';
+import type { SiteGapAnalysis, GapFlag, PageGapAnalysis } from '../core/analyze/geoGapAnalyzer';
 import type { SiteImprovementPlan, PageImprovementPlan } from '../core/analyze/improvementPlanner';
 import type { CrawlResult } from '../core/ingest/siteCrawler';
-import type { CommitResult } from '../core/writeback/githubClient';
-import type { FilePatch, PlannedFileChange, DiffPreview } from '../core/writeback/patchApplier';
+import type { CommitResult, PullRequestResult } from '../core/writeback/githubClient';
+import type { PullRequestEvidence } from '../core/writeback/pullRequest';
+import type { RepoProviderId } from '../core/writeback/repoProvider';
+import { isValidRepoProvider } from '../core/writeback/providerRegistry';
+import type { FilePatch, PlannedFileChange, PlannedBlock, BlockType, DiffPreview } from '../core/writeback/patchApplier';
 import type { ProjectType, RouteStrategy, PathContractConfig } from '../core/writeback/pathContract';
+import { validatePathContractConfig } from '../core/writeback/pathContract';
 import type { GscSnapshotRow } from '../core/intelligence/gscSnapshot.types';
 import type { ScoreBreakdown } from '../core/intelligence/opportunityScorer';
 import type { RecommendedAction } from '../core/intelligence/actionQueue';
@@ -37,12 +41,25 @@ export interface TargetRepoConfig {
   owner: string;
   repo: string;
   branch: string;
-  /** Project type determines file structure (astro-pages or static-html) */
+  /** Project type determines file structure (see PROJECT_TYPES) */
   projectType: ProjectType;
   /** Route strategy determines file naming (path-index or flat-html) */
   routeStrategy: RouteStrategy;
+  /** Commit straight to branch (default) or open a pull request against it */
+  applyMode?: WriteBackApplyMode;
+  /** Git host; defaults to 'github' */
+  provider?: RepoProviderId;
+  /** Instance URL for self-hosted GitLab/Gitea (required for Gitea) or an API root override */
+  baseUrl?: string;
 }
 
+/**
+ * How write-back reaches the target branch.
+ * - commit: one Contents API commit per file, directly on the branch
+ * - pull-request: one commit on a new branch, opened as a pull request
+ */
+export type WriteBackApplyMode = 'commit' | 'pull-request';
+
 /**
  * Path mapping for write-back operations.
  */
@@ -64,7 +81,8 @@ export interface WriteBackConfig {
  * Request body for the /run endpoint.
  *
  * Mode requirements:
- * - "improve": requires siteUrl
+ * - "improve": requires siteUrl; businessInput is optional and supplies
+ *   the facts for the planned blocks
  * - "generate": requires businessInput
  * - "audit": requires siteUrl
  *
@@ -101,6 +119,10 @@ export interface RunRequest {
   targetPaths?: string[];
   /** Generator selection preferences (generate mode only) */
   generators?: GeneratorPreference;
+  /** Audit profile ID (audit/improve modes); defaults to the API key's profile, then 'default' */
+  auditProfile?: string;
+  /** Respond with a text/event-stream of progress events instead of a single JSON body */
+  stream?: boolean;
 }
 
 /**
@@ -152,6 +174,10 @@ export interface AuditResults {
   totalPages: number;
   pagesWithGaps: number;
   averageGeoScore: number;
+  /** Site score from the shared audit engine; equals the /ui/audit score for a single-page site */
+  siteScore: number;
+  /** Audit profile the findings were produced with */
+  auditProfile: string;
   criticalIssues: number;
   warnings: number;
   suggestions: number;
@@ -214,9 +240,13 @@ export interface WriteBackResult {
   mappingErrors: Array<{
     url: string;
     error: string;
+    /** Repository files that may hold the page, when the repo tree was listed */
+    candidates?: string[];
   }>;
   errors: string[];
   warnings: string[];
+  /** Pull request opened when targetRepo.applyMode is 'pull-request' */
+  pullRequest?: PullRequestResult;
 }
 
 /**
@@ -263,6 +293,8 @@ export interface RunResults {
   testimonials?: unknown;
   faq?: unknown;
   schema?: unknown;
+  locationContent?: unknown;
+  serviceAreaPages?: unknown;
 
   // Generate mode results - Industry-specific generators
   propertyMarketData?: unknown;
@@ -271,6 +303,10 @@ export interface RunResults {
   firstTimeBuyerPrograms?: unknown;
   seasonalClimate?: unknown;
 
+  // Generate mode results - Field-level provenance ledger and claim check
+  provenance?: unknown;
+  claimVerification?: unknown;
+
   // Audit mode results
   audit?: AuditResults;
 
@@ -343,6 +379,54 @@ export interface RunResponseWithUsage extends RunResponse {
   usage?: UsageInfo;
 }
 
+// ============================================
+// RUN PROGRESS EVENTS (stream: true)
+// ============================================
+
+/**
+ * Progress events sent while a streamed /run executes. Each is sent as an
+ * SSE message whose `event` field is the event's `type`.
+ */
+export type RunProgressEvent =
+  | {
+      type: 'sitemap';
+      sitemapFound: boolean;
+      /** URLs queued for crawling */
+      urlCount: number;
+    }
+  | {
+      type: 'page_crawled';
+      url: string;
+      httpStatus: number;
+      fetchError?: string;
+      crawled: number;
+      total: number;
+    }
+  | {
+      type: 'page_analyzed';
+      url: string;
+      geoScore: number;
+      gapCount: number;
+    }
+  | {
+      type: 'action_queue_scored';
+      itemCount: number;
+      pagesWithGscData: number;
+      averageScore: number;
+    }
+  | {
+      type: 'generator_completed';
+      generatorId: string;
+      outputKey: string;
+      /** False when an optional section had no content */
+      included: boolean;
+    };
+
+/**
+ * Callback that handlers use to report progress.
+ */
+export type RunProgressEmitter = (event: RunProgressEvent) => void;
+
 /**
  * Type guard to check if request has valid mode.
  */
@@ -378,11 +462,23 @@ export function isValidTargetRepo(targetRepo: unknown): targetRepo is TargetRepo
     t.repo.length > 0 &&
     typeof t.branch === 'string' &&
     t.branch.length > 0 &&
-    (t.projectType === 'astro-pages' || t.projectType === 'static-html') &&
-    (t.routeStrategy === 'path-index' || t.routeStrategy === 'flat-html')
+    validatePathContractConfig(t) &&
+    (t.applyMode === undefined || t.applyMode === 'commit' || t.applyMode === 'pull-request') &&
+    (t.provider === undefined || (typeof t.provider === 'string' && isValidRepoProvider(t.provider))) &&
+    (t.baseUrl === undefined || (typeof t.baseUrl === 'string' && isHttpUrl(t.baseUrl))) &&
+    (t.provider !== 'gitea' || t.baseUrl !== undefined)
   );
 }
 
+function isHttpUrl(value: string): boolean {
+  try {
+    const protocol = new URL(value).protocol;
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Re-export path contract types for convenience.
  */
@@ -400,7 +496,21 @@ export type { GscSnapshotRow, ScoreBreakdown, RecommendedAction };
 /**
  * Status of a review session.
  */
-export type ReviewSessionStatus = 'pending' | 'approved' | 'expired' | 'applied';
+export type ReviewSessionStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'applied' | 'reverted';
+
+/**
+ * A reviewer's decision on a file or marker block.
+ * Pieces still pending when the session is approved become accepted.
+ */
+export type ReviewDecision = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Decision on one marker block within a planned file.
+ */
+export interface ReviewBlockDecision {
+  blockType: BlockType;
+  decision: ReviewDecision;
+}
 
 /**
  * A planned file in a review session (subset of PlannedFileChange).
@@ -411,6 +521,38 @@ export interface ReviewPlannedFile {
   action: 'create' | 'update' | 'no-op';
   humanReviewRequired: boolean;
   reviewNotes: string[];
+  /** Decision on the whole file (pending if absent) */
+  decision?: ReviewDecision;
+  /** Decisions on the file's marker blocks */
+  blocks?: ReviewBlockDecision[];
+  /** Blocks a reviewer has hand-edited */
+  editedBlocks?: BlockType[];
+}
+
+/**
+ * A selected page that was left out of a review session's plan because
+ * it could not be mapped to a repository file.
+ */
+export interface ReviewUnmappedUrl {
+  url: string;
+  reason: string;
+  /** Repository files that may hold the page */
+  candidates: string[];
+}
+
+/**
+ * A reviewer comment. Replies point at their parent with parentId;
+ * filePath and blockType anchor a comment to part of the session.
+ */
+export interface ReviewComment {
+  commentId: string;
+  /** API key that wrote the comment */
+  keyId: string;
+  body: string;
+  createdAt: string;
+  parentId?: string;
+  filePath?: string;
+  blockType?: BlockType;
 }
 
 /**
@@ -431,6 +573,28 @@ export interface ReviewPatch {
   filePath: string;
   newContent: string;
   originalContent: string | null;
+  /** Block contents, so the file can be rebuilt from accepted blocks only */
+  blocks?: PlannedBlock[];
+  /** Blocks as first generated, kept once a reviewer edits any of them */
+  generatedBlocks?: PlannedBlock[];
+  /**
+   * When originalContent was read from the repository (UTC ISO string).
+   * Absent when the file was planned without repository access, in which
+   * case apply cannot check it for drift.
+   */
+  baseReadAt?: string;
+  /** Blob SHA of originalContent, when the provider exposes one */
+  baseSha?: string;
+}
+
+/**
+ * A file that changed in the repository after it was planned and could
+ * not be rebased. The diff runs from the current file to the rebase attempt.
+ */
+export interface ReviewConflict {
+  filePath: string;
+  reason: string;
+  diffPreview: ReviewDiffPreview;
 }
 
 /**
@@ -452,6 +616,8 @@ export interface ReviewSession {
   selectedTargets: string[];
   /** Planned file changes (without content to save space) */
   plannedFiles: ReviewPlannedFile[];
+  /** Selected pages no repository file could be matched to */
+  unmappedUrls?: ReviewUnmappedUrl[];
   /** Unified diff previews */
   diffPreviews: ReviewDiffPreview[];
   /** Patch data for later application (stored separately) */
@@ -462,6 +628,48 @@ export interface ReviewSession {
   commitShas?: string[];
   /** Target repository configuration */
   targetRepo: TargetRepoConfig;
+  /** Reviewer comments, oldest first */
+  comments?: ReviewComment[];
+  /** Reason given when the session was rejected */
+  rejectionReason?: string;
+  /** API key that created the session */
+  keyId?: string;
+  /** API key that approved the session */
+  approvedBy?: string;
+  /** Approval timestamp (UTC ISO string) */
+  approvedAt?: string;
+  /** Apply timestamp (UTC ISO string) */
+  appliedAt?: string;
+  /** Action-queue evidence for the planned pages, used in pull request bodies */
+  evidence?: PullRequestEvidence[];
+  /** Pull request opened by apply (applyMode 'pull-request') */
+  pullRequest?: PullRequestResult;
+  /** Set once the applied changes have been reverted */
+  revert?: ReviewRevertRecord;
+  /** Business facts the blocks were planned from; block edits may use them */
+  businessInput?: BusinessInput;
+}
+
+/**
+ * The write-back that undid an applied session.
+ */
+export interface ReviewRevertRecord {
+  /** Revert timestamp (UTC ISO string) */
+  revertedAt: string;
+  commitShas: string[];
+  /** Pull request opened by the revert (applyMode 'pull-request') */
+  pullRequest?: PullRequestResult;
+  /** Files given back their content from before apply */
+  restoredFiles: string[];
+  /** Files changed since apply, which only had their marker blocks removed */
+  strippedFiles: string[];
+  /** Files apply created and nobody changed since, deleted again */
+  deletedFiles?: string[];
+  /**
+   * Apply's pull request, closed (or found closed) without being merged;
+   * no files were changed
+   */
+  unmergedPullRequest?: PullRequestResult;
 }
 
 /**
@@ -472,6 +680,8 @@ export interface ReviewCreateRequest {
   mode: 'improve';
   /** Target site URL */
   siteUrl: string;
+  /** Verified business facts for the planned blocks (optional) */
+  businessInput?: BusinessInput;
   /** Constraints */
   constraints: RunConstraints;
   /** Target repository (required) */
@@ -482,6 +692,8 @@ export interface ReviewCreateRequest {
   gscSnapshot?: GscSnapshotRow[];
   /** Target paths (optional) */
   targetPaths?: string[];
+  /** Audit profile ID (optional) */
+  auditProfile?: string;
 }
 
 /**
@@ -496,6 +708,8 @@ export interface ReviewCreateResponse {
     selectedTargets: string[];
     plannedFilesCount: number;
     filesRequiringReview: number;
+    /** Pages left out of the plan because no source file matched them */
+    unmappedUrlsCount: number;
   };
 }
 
@@ -512,6 +726,7 @@ export interface ReviewGetResponse {
     siteUrl: string;
     selectedTargets: string[];
     plannedFiles: ReviewPlannedFile[];
+    unmappedUrls: ReviewUnmappedUrl[];
     diffPreviews: ReviewDiffPreview[];
     patchCount: number;
     targetRepo: {
@@ -520,7 +735,148 @@ export interface ReviewGetResponse {
       branch: string;
     };
     commitShas?: string[];
+    comments: ReviewComment[];
+    rejectionReason?: string;
+  };
+}
+
+/**
+ * One session in a key's review history.
+ */
+export interface ReviewSessionSummary {
+  sessionId: string;
+  siteUrl: string;
+  status: ReviewSessionStatus;
+  createdAt: string;
+  expiresAt: string;
+  /** Last time the session was written */
+  updatedAt: string;
+  plannedFilesCount: number;
+  targetRepo: {
+    owner: string;
+    repo: string;
+    branch: string;
+  };
+  approvedBy?: string;
+  approvedAt?: string;
+  appliedAt?: string;
+  commitShas?: string[];
+  pullRequestUrl?: string;
+  revertedAt?: string;
+}
+
+/**
+ * Permanent record of an applied session, kept after the session's TTL.
+ */
+export interface ReviewArchiveRecord {
+  sessionId: string;
+  keyId: string;
+  siteUrl: string;
+  createdAt: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  appliedAt: string;
+  commitShas: string[];
+  targetRepo: {
+    owner: string;
+    repo: string;
+    branch: string;
+    /** Write-back settings, so the session can be reverted after its TTL */
+    provider?: RepoProviderId;
+    baseUrl?: string;
+    applyMode?: WriteBackApplyMode;
   };
+  /** Files written by the apply */
+  appliedFiles: string[];
+  pullRequest?: PullRequestResult;
+  revert?: ReviewRevertRecord;
+}
+
+/**
+ * Filters and window for GET /review.
+ */
+export interface ReviewListQuery {
+  status?: ReviewSessionStatus;
+  /** Matches sessions for the same host */
+  siteUrl?: string;
+  /** Inclusive lower bound on createdAt */
+  from?: string;
+  /** Exclusive upper bound on createdAt */
+  to?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Response from GET /review.
+ */
+export interface ReviewListResponse {
+  status: 'success';
+  /** Newest first */
+  sessions: ReviewSessionSummary[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Response from GET /review/{sessionId} once the session itself has
+ * expired but an archived record of its apply remains.
+ */
+export interface ReviewArchiveResponse {
+  status: 'success';
+  archived: true;
+  record: Omit<ReviewArchiveRecord, 'keyId'>;
+}
+
+/**
+ * One entry in a POST /review/{sessionId}/decisions request. Without
+ * blockType the decision applies to the whole file.
+ */
+export interface ReviewDecisionInput {
+  filePath: string;
+  blockType?: BlockType;
+  decision: ReviewDecision;
+}
+
+/**
+ * Response from POST /review/{sessionId}/decisions.
+ */
+export interface ReviewDecisionsResponse {
+  status: 'success';
+  sessionId: string;
+  /** 'pending' again if the session had been approved */
+  sessionStatus: ReviewSessionStatus;
+  plannedFiles: ReviewPlannedFile[];
+}
+
+/**
+ * Request body for PATCH /review/{sessionId}/files/{filePath}.
+ */
+export interface ReviewFileEditRequest {
+  blockType: BlockType;
+  /** New block content (without markers) */
+  content: string;
+}
+
+/**
+ * Response from PATCH /review/{sessionId}/files/{filePath}.
+ */
+export interface ReviewFileEditResponse {
+  status: 'success';
+  sessionId: string;
+  sessionStatus: ReviewSessionStatus;
+  plannedFile: ReviewPlannedFile;
+  diffPreview: ReviewDiffPreview;
+}
+
+/**
+ * Response from POST /review/{sessionId}/comments.
+ */
+export interface ReviewCommentResponse {
+  status: 'success';
+  sessionId: string;
+  comment: ReviewComment;
 }
 
 /**
@@ -542,6 +898,22 @@ export interface ReviewApplyResponse {
   applied: boolean;
   commitShas: string[];
   message: string;
+  /** Set when the session was applied as a pull request */
+  pullRequest?: PullRequestResult;
+  /** Files that changed since planning and were rebased onto their current content */
+  rebasedFiles?: string[];
+}
+
+/**
+ * Response for POST /review/{sessionId}/revert.
+ */
+export interface ReviewRevertResponse {
+  status: 'success';
+  sessionId: string;
+  /** False when the session had already been reverted */
+  reverted: boolean;
+  revert: ReviewRevertRecord;
+  message: string;
 }
 
 /**
@@ -552,7 +924,11 @@ export type ReviewApiErrorCode =
   | 'SESSION_NOT_FOUND'
   | 'SESSION_EXPIRED'
   | 'SESSION_NOT_APPROVED'
-  | 'SESSION_ALREADY_APPLIED';
+  | 'SESSION_ALREADY_APPLIED'
+  | 'SESSION_REJECTED'
+  | 'SESSION_CONFLICT'
+  | 'SESSION_NOT_APPLIED'
+  | 'SESSION_REVERTED';
 
 /**
  * Review-specific error response.
@@ -563,3 +939,134 @@ export interface ReviewErrorResponse {
   message: string;
   details?: Record<string, unknown>;
 }
+
+// ============================================
+// JOB TYPES
+// ============================================
+
+/**
+ * Modes that can run as an asynchronous job.
+ */
+export type JobMode = 'audit' | 'improve';
+
+/**
+ * Lifecycle status of a job.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Step a job is on. Steps run in this order; 'plan' is skipped for audit jobs.
+ */
+export type JobPhase = 'discover' | 'crawl' | 'analyze' | 'plan' | 'done';
+
+/**
+ * Request body for POST /jobs.
+ */
+export interface JobCreateRequest {
+  mode: JobMode;
+  siteUrl: string;
+  /** maxPages may go up to MAX_JOB_PAGES */
+  constraints: RunConstraints;
+  /** Audit profile ID (optional) */
+  auditProfile?: string;
+  /** Paths to plan improvements for (improve mode; all pages if omitted) */
+  targetPaths?: string[];
+  /** Verified business facts for the planned blocks (improve mode) */
+  businessInput?: BusinessInput;
+}
+
+/**
+ * Counters reported while a job runs.
+ */
+export interface JobProgress {
+  /** URLs discovered and queued for crawling */
+  totalUrls: number;
+  pagesCrawled: number;
+  pagesAnalyzed: number;
+  pagesPlanned: number;
+}
+
+/**
+ * Site-level results, available once analysis has finished.
+ */
+export interface JobSummary {
+  siteUrl: string;
+  totalPages: number;
+  pagesWithGaps: number;
+  averageGeoScore: number;
+  siteScore: number;
+  auditProfile: string;
+  criticalIssues: number;
+  warnings: number;
+  suggestions: number;
+  siteWideIssues: GapFlag[];
+  /** Improve jobs only, once planning has finished */
+  pagesWithImprovements?: number;
+  siteWideSuggestions?: string[];
+}
+
+/**
+ * Job state as stored by the job runner and returned by GET /jobs/{id}.
+ */
+export interface JobRecord {
+  jobId: string;
+  /** Key that created the job; only it can read or cancel the job */
+  keyId: string;
+  mode: JobMode;
+  siteUrl: string;
+  status: JobStatus;
+  phase: JobPhase;
+  createdAt: string;
+  updatedAt: string;
+  /** Set when the job finishes; stored data is deleted after this time */
+  expiresAt?: string;
+  request: JobCreateRequest;
+  progress: JobProgress;
+  sitemapFound: boolean;
+  /** Crawl errors (capped) */
+  errors: string[];
+  summary?: JobSummary;
+  /** Why the job failed */
+  failureReason?: string;
+}
+
+/**
+ * Per-page results window returned by GET /jobs/{id}. Pages appear as
+ * soon as their batch has been analyzed (or planned).
+ */
+export interface JobResultsPage {
+  offset: number;
+  limit: number;
+  /** Pages with results so far */
+  total: number;
+  pages: PageGapAnalysis[];
+  /** Improve jobs only */
+  improvements?: PageImprovementPlan[];
+}
+
+/**
+ * Response from POST /jobs.
+ */
+export interface JobCreateResponse {
+  status: 'success';
+  jobId: string;
+  jobStatus: JobStatus;
+  createdAt: string;
+}
+
+/**
+ * Response from GET /jobs/{id} and DELETE /jobs/{id}.
+ */
+export interface JobGetResponse {
+  status: 'success';
+  job: Omit<JobRecord, 'keyId' | 'request'>;
+  results: JobResultsPage;
+}
+
+/**
+ * Extended API error codes for job endpoints.
+ */
+export type JobApiErrorCode =
+  | ApiErrorCode
+  | 'JOB_NOT_FOUND'
+  | 'JOB_ALREADY_FINISHED';
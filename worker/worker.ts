@@ -30,21 +30,22 @@ import type { BusinessInput } from '../inputs/business.schema';
 import { validateBusinessInput } from '../core/rules/businessInput.validator';
 import { runGEOPipeline } from '../core/pipeline/geoPipeline';
 import { selectGenerators } from '../core/generators/selector';
-import {
-  generatePropertyMarketData,
-  generatePermitsAndCodes,
-  generateLocalCourtProcess,
-  generateFirstTimeBuyerPrograms,
-  generateSeasonalClimate,
-} from '../core/generators/industry';
+import { getGeneratorConfig } from '../core/generators/registry';
 import { validateGEOOutput } from '../contracts/output.contract';
-import { crawlSite, DEFAULT_CRAWLER_CONFIG } from '../core/ingest/siteCrawler';
+import { crawlSite, buildPageData, DEFAULT_CRAWLER_CONFIG } from '../core/ingest/siteCrawler';
 import { analyzeGeoGaps } from '../core/analyze/geoGapAnalyzer';
+import { runAuditRules, AuditFinding } from '../core/analyze/auditEngine';
+import { AUDIT_RULES } from '../core/analyze/auditRules';
+import {
+  AuditProfile,
+  AUDIT_PROFILES,
+  DEFAULT_AUDIT_PROFILE_ID,
+  getAuditProfile,
+  isValidAuditProfile,
+} from '../core/analyze/auditProfiles';
 import { planSiteImprovements } from '../core/analyze/improvementPlanner';
 import {
   verifyWriteAccess,
-  getFileContents,
-  decodeContent,
   GitHubAPIError,
 } from '../core/writeback/githubClient';
 import {
@@ -52,11 +53,21 @@ import {
   applyPatches,
   planPatches,
   applyPlannedPatches,
+  applyPlannedPatchesAsPullRequest,
 } from '../core/writeback/patchApplier';
-import { mapUrlToFilePath, PathMappingError } from '../core/writeback/pathContract';
+import {
+  buildPullRequestDetails,
+  buildRevertPullRequestDetails,
+  type PullRequestEvidence,
+} from '../core/writeback/pullRequest';
+import { RepoProviderError, type RepoProvider, type RepoFile } from '../core/writeback/repoProvider';
+import { createRepoProvider } from '../core/writeback/providerRegistry';
+import { mapUrlToFilePath, PathMappingError, PROJECT_TYPES } from '../core/writeback/pathContract';
 import type { GitHubClientConfig } from '../core/writeback/githubClient';
 import type { PatchApplierConfig, PatchPlanConfig } from '../core/writeback/patchApplier';
 import type { PathContractConfig } from '../core/writeback/pathContract';
+import { buildRouteIndex, resolveRoutes } from '../core/writeback/routeResolver';
+import type { RouteIndex } from '../core/writeback/routeResolver';
 import type {
   RunRequest,
   RunResponse,
@@ -79,11 +90,26 @@ import type {
   ReviewGetResponse,
   ReviewApproveResponse,
   ReviewApplyResponse,
+  ReviewRevertResponse,
+  ReviewRevertRecord,
   ReviewErrorResponse,
   ReviewApiErrorCode,
   ReviewPlannedFile,
   ReviewDiffPreview,
+  ReviewUnmappedUrl,
   ReviewPatch,
+  ReviewDecision,
+  ReviewDecisionInput,
+  ReviewDecisionsResponse,
+  ReviewCommentResponse,
+  ReviewFileEditRequest,
+  ReviewFileEditResponse,
+  ReviewListResponse,
+  ReviewArchiveResponse,
+  JobCreateRequest,
+  JobCreateResponse,
+  JobApiErrorCode,
+  RunProgressEmitter,
 } from './types';
 import { isValidMode, isValidConstraints, isValidTargetRepo } from './types';
 import { authenticateRequest, type KVNamespace, type ApiKeyRecord } from './auth';
@@ -100,8 +126,34 @@ import {
   updateSessionStatus,
   canApproveSession,
   canApplySession,
+  canReviewSession,
+  applyReviewDecisions,
+  acceptPendingDecisions,
+  addReviewComment,
+  editReviewBlock,
+  buildAcceptedChanges,
+  resolveSessionDrift,
+  canRevertSession,
+  isSessionOwner,
+  buildRevertSources,
+  planSessionRevert,
+  revertUnmergedPullRequest,
+  recordSessionRevert,
   isValidSessionId,
+  getArchivedSession,
+  parseReviewListQuery,
+  listSessions,
+  MAX_COMMENT_LENGTH,
 } from './reviewSessions';
+import {
+  validateJobCreateRequest,
+  createJobRecord,
+  startJob,
+  getJob,
+  cancelJob,
+  parseResultsWindow,
+} from './jobs';
+import { createRunEventStream, crawlProgressEvents, pageAnalyzedEvents } from './runStream';
 import {
   getOrCreateRequestId,
   createLogger,
@@ -127,6 +179,15 @@ export interface Env {
   NICO_GEO_SESSIONS: KVNamespace;
   /** Durable Object namespace for rate limiting */
   RATE_LIMITER: DurableObjectNamespace;
+  /** Durable Object namespace for asynchronous jobs */
+  JOB_RUNNER: DurableObjectNamespace;
+}
+
+/**
+ * Execution context for a request (from Cloudflare Workers).
+ */
+export interface ExecutionContext {
+  waitUntil(promise: Promise<unknown>): void;
 }
 
 /**
@@ -134,6 +195,11 @@ export interface Env {
  */
 const GITHUB_TOKEN_HEADER = 'X-GitHub-Token';
 
+/**
+ * Header name for a token for any repository provider (takes precedence).
+ */
+const REPO_TOKEN_HEADER = 'X-Repo-Token';
+
 /**
  * Header name for Authorization.
  */
@@ -144,8 +210,8 @@ const AUTH_HEADER = 'Authorization';
  */
 const CORS_HEADERS: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-  'Access-Control-Allow-Headers': `Content-Type, ${AUTH_HEADER}, ${GITHUB_TOKEN_HEADER}, ${REQUEST_ID_HEADER}`,
+  'Access-Control-Allow-Methods': 'POST, GET, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, ${AUTH_HEADER}, ${GITHUB_TOKEN_HEADER}, ${REPO_TOKEN_HEADER}, ${REQUEST_ID_HEADER}`,
   'Access-Control-Expose-Headers': REQUEST_ID_HEADER,
 };
 
@@ -154,6 +220,13 @@ const CORS_HEADERS: Record<string, string> = {
  */
 const DEFAULT_AUTO_SELECT_TARGETS = 5;
 
+/**
+ * Validation message for a malformed targetRepo.
+ */
+const TARGET_REPO_ERROR =
+  `targetRepo must include owner, repo, branch, projectType (${PROJECT_TYPES.join('|')}), ` +
+  'and a routeStrategy the project type supports (path-index|flat-html; nextjs-app is path-index only)';
+
 /**
  * Creates a JSON response with proper headers and request ID.
  */
@@ -287,7 +360,7 @@ function validateRequest(body: unknown): { valid: true; request: RunRequest } |
       return { valid: false, error: 'Write-back requires targetRepo configuration' };
     }
     if (!isValidTargetRepo(obj.targetRepo)) {
-      return { valid: false, error: 'targetRepo must include owner, repo, branch, projectType (astro-pages|static-html), and routeStrategy (path-index|flat-html)' };
+      return { valid: false, error: TARGET_REPO_ERROR };
     }
   }
 
@@ -320,6 +393,21 @@ function validateRequest(body: unknown): { valid: true; request: RunRequest } |
     }
   }
 
+  // Validate auditProfile if provided (only for audit/improve modes)
+  if (obj.auditProfile !== undefined) {
+    if (mode === 'generate') {
+      return { valid: false, error: 'auditProfile is not supported for "generate" mode' };
+    }
+    const profileError = validateAuditProfileId(obj.auditProfile);
+    if (profileError) {
+      return { valid: false, error: profileError };
+    }
+  }
+
+  if (obj.stream !== undefined && typeof obj.stream !== 'boolean') {
+    return { valid: false, error: 'stream must be a boolean' };
+  }
+
   return {
     valid: true,
     request: {
@@ -333,43 +421,150 @@ function validateRequest(body: unknown): { valid: true; request: RunRequest } |
       writeBackConfig: obj.writeBackConfig as WriteBackConfig | undefined,
       gscSnapshot: validatedGscRows,
       targetPaths: obj.targetPaths as string[] | undefined,
+      auditProfile: obj.auditProfile as string | undefined,
+      stream: obj.stream as boolean | undefined,
     },
   };
 }
 
 /**
- * Extracts GitHub token from request headers.
+ * Returns an error message if the value is not a registered audit profile ID.
  */
-function extractGitHubToken(request: Request): string | null {
-  return request.headers.get(GITHUB_TOKEN_HEADER);
+function validateAuditProfileId(value: unknown): string | null {
+  if (typeof value !== 'string' || !isValidAuditProfile(value)) {
+    return `auditProfile must be one of: ${Object.keys(AUDIT_PROFILES).join(', ')}`;
+  }
+  return null;
 }
 
 /**
- * Fetches existing file contents from GitHub for planning.
+ * Looks up a request's audit profile. Request IDs are validated, but an
+ * API key's stored default is not, so an unknown ID falls back to the
+ * registry default rather than failing the run.
  */
-async function fetchExistingContents(
-  githubConfig: GitHubClientConfig,
+function resolveAuditProfile(profileId: string | undefined): AuditProfile {
+  return (profileId ? getAuditProfile(profileId) : undefined) ?? AUDIT_PROFILES[DEFAULT_AUDIT_PROFILE_ID];
+}
+
+/**
+ * Extracts the repository token from request headers.
+ */
+function extractRepoToken(request: Request): string | null {
+  return request.headers.get(REPO_TOKEN_HEADER) ?? request.headers.get(GITHUB_TOKEN_HEADER);
+}
+
+/**
+ * Creates the write-back provider for a target repository.
+ */
+function createTargetProvider(
+  targetRepo: Pick<TargetRepoConfig, 'owner' | 'repo' | 'branch' | 'provider' | 'baseUrl'>,
+  token: string
+): RepoProvider {
+  return createRepoProvider(targetRepo.provider, {
+    token,
+    target: {
+      owner: targetRepo.owner,
+      repo: targetRepo.repo,
+      branch: targetRepo.branch,
+    },
+    baseUrl: targetRepo.baseUrl,
+  });
+}
+
+/**
+ * Reads files from the repository. Files that could not be read are
+ * left out of the map; missing files map to null.
+ */
+async function readRepoFiles(
+  provider: RepoProvider,
   filePaths: string[]
-): Promise<Map<string, string | null>> {
-  const contents = new Map<string, string | null>();
+): Promise<Map<string, RepoFile | null>> {
+  const files = new Map<string, RepoFile | null>();
 
   for (const filePath of filePaths) {
     try {
-      const fileContent = await getFileContents(githubConfig, filePath);
-      if (fileContent) {
-        contents.set(filePath, decodeContent(fileContent.content));
-      } else {
-        contents.set(filePath, null);
-      }
+      files.set(filePath, await provider.readFile(filePath));
+    } catch {
+      // Can't be read (permissions, rate limit); callers decide
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Lists the repository tree once and indexes its routes, so pages map to
+ * the files that exist. Null when the tree cannot be listed; planning
+ * then falls back to the path contract.
+ */
+async function loadRouteIndex(
+  provider: RepoProvider,
+  pathContract: PathContractConfig
+): Promise<RouteIndex | null> {
+  try {
+    return buildRouteIndex(await provider.listFiles(), pathContract);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * File paths planning will read for a set of page URLs. Mapping errors
+ * are left for planPatches to report.
+ */
+function mapPlanFilePaths(
+  urls: string[],
+  pathContract: PathContractConfig,
+  routeIndex: RouteIndex | null
+): string[] {
+  if (routeIndex) {
+    return resolveRoutes(urls, routeIndex).resolved.map(r => r.filePath);
+  }
+
+  const filePaths: string[] = [];
+  for (const url of urls) {
+    try {
+      filePaths.push(mapUrlToFilePath(url, pathContract).filePath);
     } catch {
-      // File doesn't exist or can't be read
-      contents.set(filePath, null);
+      // Mapping errors will be captured during planning
     }
   }
+  return filePaths;
+}
+
+/**
+ * Fetches existing file contents from the repository for planning.
+ */
+async function fetchExistingContents(
+  provider: RepoProvider,
+  filePaths: string[]
+): Promise<Map<string, string | null>> {
+  const files = await readRepoFiles(provider, filePaths);
+  const contents = new Map<string, string | null>();
+
+  for (const filePath of filePaths) {
+    // Unreadable files are planned as new
+    contents.set(filePath, files.get(filePath)?.content ?? null);
+  }
 
   return contents;
 }
 
+/**
+ * Action-queue evidence for the given pages, for pull request bodies.
+ */
+function toPullRequestEvidence(items: ActionQueueItem[], urls: string[]): PullRequestEvidence[] {
+  const wanted = new Set(urls);
+  return items
+    .filter(item => wanted.has(item.url))
+    .map(item => ({
+      url: item.url,
+      totalScore: item.totalScore,
+      recommendedNextAction: item.recommendedNextAction,
+      evidence: item.evidence,
+    }));
+}
+
 /**
  * Builds an action queue from gap analysis pages and optional GSC data.
  */
@@ -416,6 +611,74 @@ function buildActionQueue(
   };
 }
 
+/**
+ * Reports action queue scoring on a streamed run.
+ */
+function emitActionQueueScored(
+  emit: RunProgressEmitter | undefined,
+  actionQueue: ReturnType<typeof buildActionQueue>
+): void {
+  emit?.({
+    type: 'action_queue_scored',
+    itemCount: actionQueue.items.length,
+    pagesWithGscData: actionQueue.summary.pagesWithGscData,
+    averageScore: actionQueue.summary.averageScore,
+  });
+}
+
+/**
+ * Runs the handler for the request's mode.
+ */
+function executeRun(
+  runRequest: RunRequest,
+  githubToken: string | null,
+  emit?: RunProgressEmitter
+): Promise<RunResponse> {
+  switch (runRequest.mode) {
+    case 'improve':
+      return handleImproveMode(runRequest, githubToken, emit);
+    case 'generate':
+      return handleGenerateMode(runRequest, emit);
+    case 'audit':
+      return handleAuditMode(runRequest, emit);
+  }
+}
+
+/**
+ * Handles POST /run with stream: true. The response opens immediately;
+ * the run continues under waitUntil, so it is not cut off once the
+ * response is returned, and ends the stream with a 'result' or 'error' event.
+ */
+function handleStreamedRun(
+  runRequest: RunRequest,
+  githubToken: string | null,
+  usage: UsageState,
+  requestId: string,
+  logger: Logger,
+  ctx: ExecutionContext
+): Response {
+  const stream = createRunEventStream({ ...CORS_HEADERS, [REQUEST_ID_HEADER]: requestId });
+
+  ctx.waitUntil(executeRun(runRequest, githubToken, stream.emit)
+    .then(async (response) => {
+      const responseWithUsage: RunResponseWithUsage & { requestId: string } = {
+        ...response,
+        requestId,
+        usage: toUsageInfo(usage),
+      };
+      await stream.finish('result', responseWithUsage);
+      logger.complete(200);
+    })
+    .catch(async (err) => {
+      const message = err instanceof Error ? err.message : 'Unknown error occurred';
+      logger.error(message, 'INTERNAL_ERROR');
+      await stream.finish('error', { status: 'error', requestId, errorCode: 'INTERNAL_ERROR', message });
+      logger.complete(500, 'INTERNAL_ERROR');
+    }));
+
+  return stream.response;
+}
+
 /**
  * Handles "improve" mode execution.
  * Crawls site, generates patch-ready improvement blocks, and optionally writes back to GitHub.
@@ -423,7 +686,8 @@ function buildActionQueue(
  */
 async function handleImproveMode(
   request: RunRequest,
-  githubToken: string | null
+  githubToken: string | null,
+  emit?: RunProgressEmitter
 ): Promise<RunResponse> {
   if (!request.siteUrl) {
     throw new Error('siteUrl is required for improve mode');
@@ -431,13 +695,15 @@ async function handleImproveMode(
 
   // Crawl the site
   const maxPages = request.constraints.maxPages ?? DEFAULT_CRAWLER_CONFIG.maxPages;
-  const crawlResult = await crawlSite(request.siteUrl, { maxPages });
+  const crawlResult = await crawlSite(request.siteUrl, { maxPages }, emit && crawlProgressEvents(emit));
 
   // Run gap analysis first (needed for action queue)
-  const gapAnalysis = analyzeGeoGaps(crawlResult);
+  const auditProfile = resolveAuditProfile(request.auditProfile);
+  const gapAnalysis = analyzeGeoGaps(crawlResult, auditProfile, emit && pageAnalyzedEvents(emit));
 
   // Build action queue from gap analysis
   const actionQueueData = buildActionQueue(gapAnalysis.pages, request.gscSnapshot);
+  emitActionQueueScored(emit, actionQueueData);
 
   // Determine which pages to target
   let selectedTargets: string[] | undefined;
@@ -473,7 +739,7 @@ async function handleImproveMode(
     pages: pagesToImprove,
     pagesAnalyzed: pagesToImprove.length,
   };
-  const improvementPlan = planSiteImprovements(filteredCrawlResult);
+  const improvementPlan = planSiteImprovements(filteredCrawlResult, auditProfile, request.businessInput);
 
   // Prepare base results
   const improvements: ImproveResults = {
@@ -503,35 +769,19 @@ async function handleImproveMode(
       routeStrategy: request.targetRepo.routeStrategy,
     };
 
-    // Build GitHub client config (needed for fetching existing contents and writing)
-    let githubConfig: GitHubClientConfig | null = null;
-    if (githubToken) {
-      githubConfig = {
-        token: githubToken,
-        target: {
-          owner: request.targetRepo.owner,
-          repo: request.targetRepo.repo,
-          branch: request.targetRepo.branch,
-        },
-      };
-    }
+    // Build the repository provider (needed for fetching existing contents and writing)
+    const provider = githubToken ? createTargetProvider(request.targetRepo, githubToken) : null;
 
-    // Map URLs to file paths to determine which files we need to fetch
-    const filePaths: string[] = [];
-    for (const page of improvementPlan.pages) {
-      try {
-        const mapping = mapUrlToFilePath(page.url, pathContract);
-        filePaths.push(mapping.filePath);
-      } catch {
-        // Mapping errors will be captured during planning
-      }
-    }
+    // Map URLs to the repository's files (or the path contract without
+    // repository access) to determine which files we need to fetch
+    const routeIndex = provider ? await loadRouteIndex(provider, pathContract) : null;
+    const filePaths = mapPlanFilePaths(improvementPlan.pages.map(p => p.url), pathContract, routeIndex);
 
     // Fetch existing contents if we have GitHub access
     let existingContents = new Map<string, string | null>();
-    if (githubConfig) {
+    if (provider) {
       try {
-        existingContents = await fetchExistingContents(githubConfig, filePaths);
+        existingContents = await fetchExistingContents(provider, filePaths);
       } catch {
         // If we can't fetch, proceed with empty map (all files treated as new)
       }
@@ -541,6 +791,7 @@ async function handleImproveMode(
     const patchPlanConfig: PatchPlanConfig = {
       pathContract,
       patchOutputDir: request.writeBackConfig?.patchOutputDir ?? 'geo-patches',
+      ...(routeIndex && { routeIndex }),
     };
 
     const patchPlan = planPatches(improvementPlan.pages, existingContents, patchPlanConfig);
@@ -571,26 +822,39 @@ async function handleImproveMode(
       warnings: patchPlan.warnings,
     };
 
-    // If writeBack is true and we have GitHub access, apply the patches
-    if (request.writeBack === true && githubConfig) {
+    // If writeBack is true and we have repository access, apply the patches
+    if (request.writeBack === true && provider) {
       writeBackEnabled = true;
 
       // Verify write access before proceeding
       try {
-        await verifyWriteAccess(githubConfig);
+        await provider.verifyWriteAccess();
       } catch (err) {
-        if (err instanceof GitHubAPIError) {
-          throw new Error(`GitHub access verification failed: ${err.message}`);
+        if (err instanceof RepoProviderError) {
+          throw new Error(`Repository access verification failed: ${err.message}`);
         }
         throw err;
       }
 
-      // Apply planned patches
-      const applyResult = await applyPlannedPatches(
-        githubConfig,
-        patchPlan.plannedChanges,
-        false // not dry run
-      );
+      // Apply planned patches, directly or as a pull request
+      const applyResult = request.targetRepo.applyMode === 'pull-request'
+        ? await applyPlannedPatchesAsPullRequest(
+            provider,
+            patchPlan.plannedChanges,
+            buildPullRequestDetails({
+              siteUrl: request.siteUrl,
+              changes: patchPlan.plannedChanges,
+              evidence: toPullRequestEvidence(
+                actionQueueData.items,
+                patchPlan.plannedChanges.map(c => c.url)
+              ),
+            })
+          )
+        : await applyPlannedPatches(
+            provider,
+            patchPlan.plannedChanges,
+            false // not dry run
+          );
 
       writeBackDryRun = false;
       writeBackResult.success = applyResult.success;
@@ -599,6 +863,7 @@ async function handleImproveMode(
       writeBackResult.commits = applyResult.commits;
       writeBackResult.errors = applyResult.errors;
       writeBackResult.warnings.push(...applyResult.warnings);
+      writeBackResult.pullRequest = applyResult.pullRequest;
     } else if (request.diffPreview === true) {
       // Diff preview mode - just show diffs without GitHub token requirement
       writeBackResult.warnings.push('Diff preview mode - no files were written.');
@@ -743,7 +1008,10 @@ async function handleImproveMode(
  * Invokes the existing GEO pipeline with provided businessInput.
  * Uses generator selector for conditional execution of industry-specific generators.
  */
-async function handleGenerateMode(request: RunRequest): Promise<RunResponse> {
+async function handleGenerateMode(
+  request: RunRequest,
+  emit?: RunProgressEmitter
+): Promise<RunResponse> {
   if (!request.businessInput) {
     throw new Error('businessInput is required for generate mode');
   }
@@ -753,34 +1021,16 @@ async function handleGenerateMode(request: RunRequest): Promise<RunResponse> {
   // Select which generators to run based on preferences and auto-detection
   const selection = await selectGenerators(request.businessInput, request.generators);
 
-  // Build skip array for pipeline based on disabled generators
-  const skipGenerators: Array<
-    | 'titleMeta'
-    | 'answerCapsule'
-    | 'serviceDescription'
-    | 'whyChooseUs'
-    | 'teamBio'
-    | 'howWeWork'
-    | 'caseStudy'
-    | 'testimonial'
-    | 'faq'
-    | 'schema'
-  > = [];
-
-  // Core generators - skip if not in enabled list
-  if (!selection.enabled.includes('titleMeta')) skipGenerators.push('titleMeta');
-  if (!selection.enabled.includes('answerCapsule')) skipGenerators.push('answerCapsule');
-  if (!selection.enabled.includes('serviceDescription')) skipGenerators.push('serviceDescription');
-  if (!selection.enabled.includes('whyChooseUs')) skipGenerators.push('whyChooseUs');
-  if (!selection.enabled.includes('teamBio')) skipGenerators.push('teamBio');
-  if (!selection.enabled.includes('howWeWork')) skipGenerators.push('howWeWork');
-  if (!selection.enabled.includes('caseStudy')) skipGenerators.push('caseStudy');
-  if (!selection.enabled.includes('testimonial')) skipGenerators.push('testimonial');
-  if (!selection.enabled.includes('faq')) skipGenerators.push('faq');
-  if (!selection.enabled.includes('schema')) skipGenerators.push('schema');
-
-  // Execute the GEO pipeline with skip options
-  const pipelineOutput = runGEOPipeline(request.businessInput, { skip: skipGenerators });
+  // Execute the GEO pipeline with the selected generators (core and industry)
+  const pipelineOutput = runGEOPipeline(request.businessInput, {
+    generators: selection.enabled,
+    onGeneratorComplete: emit && ((generatorId, outputKey, included) => emit({
+      type: 'generator_completed',
+      generatorId,
+      outputKey,
+      included,
+    })),
+  });
 
   // Validate output against contract
   const outputErrors = validateGEOOutput(pipelineOutput);
@@ -788,81 +1038,19 @@ async function handleGenerateMode(request: RunRequest): Promise<RunResponse> {
     throw new Error(`Pipeline output validation failed: ${outputErrors.join(', ')}`);
   }
 
-  // Build results object with all generator outputs
+  // Build results object from the sections of generators that were run
   const results: RunResults = {};
+  for (const id of selection.enabled) {
+    const config = getGeneratorConfig(id);
+    if (!config) continue;
 
-  // Add core generator outputs if they were run
-  if (selection.enabled.includes('titleMeta')) {
-    results.titleMeta = pipelineOutput.titleMeta;
-  }
-  if (selection.enabled.includes('answerCapsule')) {
-    results.answerCapsule = pipelineOutput.answerCapsule;
-  }
-  if (selection.enabled.includes('serviceDescription')) {
-    results.serviceDescriptions = pipelineOutput.serviceDescriptions;
-  }
-  if (selection.enabled.includes('whyChooseUs') && pipelineOutput.whyChooseUs) {
-    results.whyChooseUs = pipelineOutput.whyChooseUs;
-  }
-  if (selection.enabled.includes('teamBio') && pipelineOutput.teamBios) {
-    results.teamBios = pipelineOutput.teamBios;
-  }
-  if (selection.enabled.includes('howWeWork') && pipelineOutput.howWeWork) {
-    results.howWeWork = pipelineOutput.howWeWork;
-  }
-  if (selection.enabled.includes('caseStudy') && pipelineOutput.caseStudies) {
-    results.caseStudies = pipelineOutput.caseStudies;
-  }
-  if (selection.enabled.includes('testimonial') && pipelineOutput.testimonials) {
-    results.testimonials = pipelineOutput.testimonials;
-  }
-  if (selection.enabled.includes('faq')) {
-    results.faq = pipelineOutput.faq;
-  }
-  if (selection.enabled.includes('schema')) {
-    results.schema = pipelineOutput.schema;
-  }
-
-  // Execute industry-specific generators if enabled
-  if (selection.enabled.includes('propertyMarketData')) {
-    try {
-      results.propertyMarketData = generatePropertyMarketData(request.businessInput);
-    } catch {
-      // Industry generator failures are non-fatal
-    }
-  }
-
-  if (selection.enabled.includes('permitsAndCodes')) {
-    try {
-      results.permitsAndCodes = generatePermitsAndCodes(request.businessInput);
-    } catch {
-      // Industry generator failures are non-fatal
-    }
-  }
-
-  if (selection.enabled.includes('localCourtProcess')) {
-    try {
-      results.localCourtProcess = generateLocalCourtProcess(request.businessInput);
-    } catch {
-      // Industry generator failures are non-fatal
-    }
-  }
-
-  if (selection.enabled.includes('firstTimeBuyerPrograms')) {
-    try {
-      results.firstTimeBuyerPrograms = generateFirstTimeBuyerPrograms(request.businessInput);
-    } catch {
-      // Industry generator failures are non-fatal
-    }
-  }
-
-  if (selection.enabled.includes('seasonalClimate')) {
-    try {
-      results.seasonalClimate = generateSeasonalClimate(request.businessInput);
-    } catch {
-      // Industry generator failures are non-fatal
+    const section = pipelineOutput[config.outputKey];
+    if (section) {
+      results[config.outputKey] = section;
     }
   }
+  results.provenance = pipelineOutput.provenance;
+  results.claimVerification = pipelineOutput.claimVerification;
 
   const executionTimeMs = Date.now() - startTime;
 
@@ -890,20 +1078,28 @@ async function handleGenerateMode(request: RunRequest): Promise<RunResponse> {
  * Crawls site and performs GEO gap analysis.
  * Optionally generates prioritized action queue using GSC data.
  */
-async function handleAuditMode(request: RunRequest): Promise<RunResponse> {
+async function handleAuditMode(
+  request: RunRequest,
+  emit?: RunProgressEmitter
+): Promise<RunResponse> {
   if (!request.siteUrl) {
     throw new Error('siteUrl is required for audit mode');
   }
 
   // Crawl the site
   const maxPages = request.constraints.maxPages ?? DEFAULT_CRAWLER_CONFIG.maxPages;
-  const crawlResult = await crawlSite(request.siteUrl, { maxPages });
+  const crawlResult = await crawlSite(request.siteUrl, { maxPages }, emit && crawlProgressEvents(emit));
 
   // Run gap analysis
-  const gapAnalysis = analyzeGeoGaps(crawlResult);
+  const gapAnalysis = analyzeGeoGaps(
+    crawlResult,
+    resolveAuditProfile(request.auditProfile),
+    emit && pageAnalyzedEvents(emit)
+  );
 
   // Build action queue (always included, uses GSC data if provided)
   const actionQueueData = buildActionQueue(gapAnalysis.pages, request.gscSnapshot);
+  emitActionQueueScored(emit, actionQueueData);
 
   const summary: RunSummary = {
     mode: 'audit',
@@ -919,6 +1115,8 @@ async function handleAuditMode(request: RunRequest): Promise<RunResponse> {
     totalPages: gapAnalysis.totalPages,
     pagesWithGaps: gapAnalysis.pagesWithGaps,
     averageGeoScore: gapAnalysis.averageGeoScore,
+    siteScore: gapAnalysis.siteScore,
+    auditProfile: gapAnalysis.auditProfile,
     criticalIssues: gapAnalysis.criticalIssues,
     warnings: gapAnalysis.warnings,
     suggestions: gapAnalysis.suggestions,
@@ -1001,7 +1199,7 @@ function validateReviewCreateRequest(
   if (!isValidTargetRepo(obj.targetRepo)) {
     return {
       valid: false,
-      error: 'targetRepo must include owner, repo, branch, projectType (astro-pages|static-html), and routeStrategy (path-index|flat-html)',
+      error: TARGET_REPO_ERROR,
     };
   }
 
@@ -1031,16 +1229,34 @@ function validateReviewCreateRequest(
     }
   }
 
+  // Validate auditProfile if provided
+  if (obj.auditProfile !== undefined) {
+    const profileError = validateAuditProfileId(obj.auditProfile);
+    if (profileError) {
+      return { valid: false, error: profileError };
+    }
+  }
+
+  // Validate businessInput if provided
+  if (obj.businessInput !== undefined) {
+    const validation = validateBusinessInput(obj.businessInput);
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid businessInput: ${validation.errors.join(', ')}` };
+    }
+  }
+
   return {
     valid: true,
     request: {
       mode: 'improve',
       siteUrl: obj.siteUrl as string,
+      businessInput: obj.businessInput as BusinessInput | undefined,
       constraints: obj.constraints as ReviewCreateRequest['constraints'],
       targetRepo: obj.targetRepo as TargetRepoConfig,
       writeBackConfig: obj.writeBackConfig as WriteBackConfig | undefined,
       gscSnapshot: validatedGscRows,
       targetPaths: obj.targetPaths as string[] | undefined,
+      auditProfile: obj.auditProfile as string | undefined,
     },
   };
 }
@@ -1074,7 +1290,11 @@ async function handleReviewCreate(
     return reviewErrorResponse('VALIDATION_ERROR', validation.error, 400, requestId);
   }
 
-  const reviewRequest = validation.request;
+  const reviewRequest: ReviewCreateRequest = {
+    ...validation.request,
+    auditProfile: validation.request.auditProfile ?? keyRecord.defaultAuditProfile,
+  };
+  const auditProfile = resolveAuditProfile(reviewRequest.auditProfile);
 
   // Run improve mode planning (similar to handleImproveMode but without write-back)
   // Crawl the site
@@ -1090,7 +1310,7 @@ async function handleReviewCreate(
   }
 
   // Run gap analysis
-  const gapAnalysis = analyzeGeoGaps(crawlResult);
+  const gapAnalysis = analyzeGeoGaps(crawlResult, auditProfile);
 
   // Build action queue
   const actionQueueData = buildActionQueue(gapAnalysis.pages, reviewRequest.gscSnapshot);
@@ -1133,7 +1353,7 @@ async function handleReviewCreate(
     pages: pagesToImprove,
     pagesAnalyzed: pagesToImprove.length,
   };
-  const improvementPlan = planSiteImprovements(filteredCrawlResult);
+  const improvementPlan = planSiteImprovements(filteredCrawlResult, auditProfile, reviewRequest.businessInput);
 
   // Build path contract config
   const pathContract: PathContractConfig = {
@@ -1141,27 +1361,28 @@ async function handleReviewCreate(
     routeStrategy: reviewRequest.targetRepo.routeStrategy,
   };
 
-  // Map URLs to file paths and fetch existing contents
-  const filePaths: string[] = [];
-  for (const page of improvementPlan.pages) {
-    try {
-      const mapping = mapUrlToFilePath(page.url, pathContract);
-      filePaths.push(mapping.filePath);
-    } catch {
-      // Mapping errors will be captured during planning
-    }
-  }
+  // Plan against the repository's files when a repository token is
+  // supplied (read-only, never stored); otherwise pages map through the
+  // path contract and every file is planned as new
+  const repoToken = extractRepoToken(request);
+  const provider = repoToken ? createTargetProvider(reviewRequest.targetRepo, repoToken) : null;
+  const routeIndex = provider ? await loadRouteIndex(provider, pathContract) : null;
+  const filePaths = mapPlanFilePaths(improvementPlan.pages.map(p => p.url), pathContract, routeIndex);
 
-  // Plan patches (without GitHub access - we can't fetch existing content)
-  // For review sessions, we plan with empty existing contents
   const patchPlanConfig: PatchPlanConfig = {
     pathContract,
     patchOutputDir: reviewRequest.writeBackConfig?.patchOutputDir ?? 'geo-patches',
+    ...(routeIndex && { routeIndex }),
   };
 
+  const baseFiles = provider
+    ? await readRepoFiles(provider, filePaths)
+    : new Map<string, RepoFile | null>();
+  const baseReadAt = new Date().toISOString();
+
   const existingContents = new Map<string, string | null>();
   for (const path of filePaths) {
-    existingContents.set(path, null); // Assume all files are new for planning
+    existingContents.set(path, baseFiles.get(path)?.content ?? null);
   }
 
   const patchPlan = planPatches(improvementPlan.pages, existingContents, patchPlanConfig);
@@ -1177,11 +1398,22 @@ async function handleReviewCreate(
 
   const diffPreviews: ReviewDiffPreview[] = patchPlan.diffPreviews;
 
+  const unmappedUrls: ReviewUnmappedUrl[] = patchPlan.mappingErrors.map(e => ({
+    url: e.url,
+    reason: e.error,
+    candidates: e.candidates ?? [],
+  }));
+
   const patches: ReviewPatch[] = patchPlan.plannedChanges.map(c => ({
     url: c.url,
     filePath: c.filePath,
     newContent: c.newContent,
     originalContent: c.originalContent,
+    blocks: c.blocks,
+    ...(baseFiles.has(c.filePath) && {
+      baseReadAt,
+      baseSha: baseFiles.get(c.filePath)?.sha,
+    }),
   }));
 
   // Create and store the session
@@ -1189,9 +1421,13 @@ async function handleReviewCreate(
     siteUrl: reviewRequest.siteUrl,
     selectedTargets,
     plannedFiles,
+    unmappedUrls,
     diffPreviews,
     patches,
     targetRepo: reviewRequest.targetRepo,
+    keyId: keyRecord.keyId,
+    evidence: toPullRequestEvidence(actionQueueData.items, plannedFiles.map(f => f.url)),
+    businessInput: reviewRequest.businessInput,
   });
 
   await storeSession(env.NICO_GEO_SESSIONS, session);
@@ -1208,6 +1444,7 @@ async function handleReviewCreate(
       selectedTargets: session.selectedTargets,
       plannedFilesCount: plannedFiles.length,
       filesRequiringReview,
+      unmappedUrlsCount: unmappedUrls.length,
     },
   };
 
@@ -1215,6 +1452,40 @@ async function handleReviewCreate(
   return jsonResponse(response as unknown as RunResponse, 201, requestId);
 }
 
+/**
+ * Handles GET /review
+ * Lists the calling key's sessions, including applied sessions whose
+ * TTL has passed.
+ */
+async function handleReviewList(
+  url: URL,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  const parsed = parseReviewListQuery(url);
+  if (!parsed.valid) {
+    logger.error(parsed.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', parsed.error, 400, requestId);
+  }
+
+  const { sessions, total } = await listSessions(env.NICO_GEO_SESSIONS, keyRecord.keyId, parsed.query);
+
+  const response: ReviewListResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessions,
+    total,
+    offset: parsed.query.offset,
+    limit: parsed.query.limit,
+  };
+
+  logger.complete(200);
+  return jsonResponse(response as unknown as RunResponse, 200, requestId);
+}
+
 /**
  * Handles GET /review/{sessionId}
  * Returns session details for review.
@@ -1236,6 +1507,20 @@ async function handleReviewGet(
   const result = await getSessionWithExpirationCheck(env.NICO_GEO_SESSIONS, sessionId);
 
   if (!result.found) {
+    // Applied sessions leave an archive record once their TTL runs out
+    const archived = await getArchivedSession(env.NICO_GEO_SESSIONS, sessionId);
+    if (archived) {
+      const { keyId: _keyId, ...record } = archived;
+      const response: ReviewArchiveResponse & { requestId: string } = {
+        status: 'success',
+        requestId,
+        archived: true,
+        record,
+      };
+      logger.complete(200);
+      return jsonResponse(response as unknown as RunResponse, 200, requestId);
+    }
+
     logger.error('Review session not found', 'SESSION_NOT_FOUND');
     logger.complete(404, 'SESSION_NOT_FOUND');
     return reviewErrorResponse('SESSION_NOT_FOUND', 'Review session not found', 404, requestId);
@@ -1255,6 +1540,7 @@ async function handleReviewGet(
       siteUrl: session.siteUrl,
       selectedTargets: session.selectedTargets,
       plannedFiles: session.plannedFiles,
+      unmappedUrls: session.unmappedUrls ?? [],
       diffPreviews: session.diffPreviews,
       patchCount: session.patches.length,
       targetRepo: {
@@ -1263,6 +1549,8 @@ async function handleReviewGet(
         branch: session.targetRepo.branch,
       },
       commitShas: session.commitShas,
+      comments: session.comments ?? [],
+      rejectionReason: session.rejectionReason,
     },
   };
 
@@ -1325,6 +1613,16 @@ async function handleReviewApprove(
       logger.complete(409, 'SESSION_ALREADY_APPLIED');
       return reviewErrorResponse('SESSION_ALREADY_APPLIED', canApprove.reason!, 409, requestId);
     }
+    if (session.status === 'rejected') {
+      logger.error('Session rejected', 'SESSION_REJECTED');
+      logger.complete(409, 'SESSION_REJECTED');
+      return reviewErrorResponse('SESSION_REJECTED', canApprove.reason!, 409, requestId);
+    }
+    if (session.status === 'reverted') {
+      logger.error('Session reverted', 'SESSION_REVERTED');
+      logger.complete(409, 'SESSION_REVERTED');
+      return reviewErrorResponse('SESSION_REVERTED', canApprove.reason!, 409, requestId);
+    }
     logger.error(canApprove.reason!, 'VALIDATION_ERROR');
     logger.complete(400, 'VALIDATION_ERROR');
     return reviewErrorResponse('VALIDATION_ERROR', canApprove.reason!, 400, requestId);
@@ -1332,8 +1630,12 @@ async function handleReviewApprove(
 
   const previousStatus = session.status;
 
-  // Update status
-  await updateSessionStatus(env.NICO_GEO_SESSIONS, sessionId, 'approved');
+  // Approval accepts every file and block the reviewer has not decided on
+  acceptPendingDecisions(session);
+  session.status = 'approved';
+  session.approvedBy = keyRecord.keyId;
+  session.approvedAt = new Date().toISOString();
+  await storeSession(env.NICO_GEO_SESSIONS, session);
 
   const response: ReviewApproveResponse & { requestId: string } = {
     status: 'success',
@@ -1379,14 +1681,14 @@ async function handleReviewApply(
     );
   }
 
-  // GitHub token required at apply time (never stored)
-  const githubToken = extractGitHubToken(request);
+  // Repository token required at apply time (never stored)
+  const githubToken = extractRepoToken(request);
   if (!githubToken) {
-    logger.error('GitHub token required', 'VALIDATION_ERROR');
+    logger.error('Repository token required', 'VALIDATION_ERROR');
     logger.complete(400, 'VALIDATION_ERROR');
     return reviewErrorResponse(
       'VALIDATION_ERROR',
-      `GitHub token required in ${GITHUB_TOKEN_HEADER} header`,
+      `Repository token required in ${REPO_TOKEN_HEADER} (or ${GITHUB_TOKEN_HEADER}) header`,
       400,
       requestId
     );
@@ -1395,7 +1697,8 @@ async function handleReviewApply(
   // Get session
   const result = await getSessionWithExpirationCheck(env.NICO_GEO_SESSIONS, sessionId);
 
-  if (!result.found) {
+  // Another key's session is reported as missing, so IDs cannot be probed
+  if (!result.found || !isSessionOwner(result.session, keyRecord.keyId)) {
     logger.error('Session not found', 'SESSION_NOT_FOUND');
     logger.complete(404, 'SESSION_NOT_FOUND');
     return reviewErrorResponse('SESSION_NOT_FOUND', 'Review session not found', 404, requestId);
@@ -1415,6 +1718,7 @@ async function handleReviewApply(
         applied: false,
         commitShas: session.commitShas,
         message: 'Session was already applied. Returning existing commit SHAs.',
+        pullRequest: session.pullRequest,
       };
       logger.complete(200);
       return jsonResponse(response as unknown as RunResponse, 200, requestId);
@@ -1425,6 +1729,16 @@ async function handleReviewApply(
       logger.complete(410, 'SESSION_EXPIRED');
       return reviewErrorResponse('SESSION_EXPIRED', canApply.reason!, 410, requestId);
     }
+    if (session.status === 'rejected') {
+      logger.error('Session rejected', 'SESSION_REJECTED');
+      logger.complete(409, 'SESSION_REJECTED');
+      return reviewErrorResponse('SESSION_REJECTED', canApply.reason!, 409, requestId);
+    }
+    if (session.status === 'reverted') {
+      logger.error('Session reverted', 'SESSION_REVERTED');
+      logger.complete(409, 'SESSION_REVERTED');
+      return reviewErrorResponse('SESSION_REVERTED', canApply.reason!, 409, requestId);
+    }
     if (session.status !== 'approved') {
       logger.error('Session not approved', 'SESSION_NOT_APPROVED');
       logger.complete(400, 'SESSION_NOT_APPROVED');
@@ -1435,26 +1749,19 @@ async function handleReviewApply(
     return reviewErrorResponse('VALIDATION_ERROR', canApply.reason!, 400, requestId);
   }
 
-  // Build GitHub config
-  const githubConfig: GitHubClientConfig = {
-    token: githubToken,
-    target: {
-      owner: session.targetRepo.owner,
-      repo: session.targetRepo.repo,
-      branch: session.targetRepo.branch,
-    },
-  };
+  // Build the repository provider
+  const provider = createTargetProvider(session.targetRepo, githubToken);
 
   // Verify write access
   try {
-    await verifyWriteAccess(githubConfig);
+    await provider.verifyWriteAccess();
   } catch (err) {
-    if (err instanceof GitHubAPIError) {
-      logger.error(`GitHub access verification failed: ${err.message}`, 'VALIDATION_ERROR');
+    if (err instanceof RepoProviderError) {
+      logger.error(`Repository access verification failed: ${err.message}`, 'VALIDATION_ERROR');
       logger.complete(403, 'VALIDATION_ERROR');
       return reviewErrorResponse(
         'VALIDATION_ERROR',
-        `GitHub access verification failed: ${err.message}`,
+        `Repository access verification failed: ${err.message}`,
         403,
         requestId
       );
@@ -1462,19 +1769,59 @@ async function handleReviewApply(
     throw err;
   }
 
-  // Convert session patches to planned changes for application
-  const plannedChanges = session.patches.map(p => ({
-    url: p.url,
-    filePath: p.filePath,
-    action: session.plannedFiles.find(f => f.filePath === p.filePath)?.action ?? 'create' as const,
-    originalContent: p.originalContent,
-    newContent: p.newContent,
-    humanReviewRequired: false,
-    reviewNotes: [],
-  }));
+  // Only accepted files and blocks are written
+  const acceptedChanges = buildAcceptedChanges(session);
+  if (acceptedChanges.length === 0) {
+    logger.error('No accepted changes to apply', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Every planned file was rejected; nothing to apply', 400, requestId);
+  }
+
+  // Re-read files planned against repository content to catch drift
+  const trackedPaths = acceptedChanges
+    .filter(c => session.patches.some(p => p.filePath === c.filePath && p.baseReadAt))
+    .map(c => c.filePath);
+  const currentFiles = await readRepoFiles(provider, trackedPaths);
+  const unreadable = trackedPaths.filter(path => !currentFiles.has(path));
+  if (unreadable.length > 0) {
+    logger.error(`Failed to re-read files: ${unreadable.join(', ')}`, 'INTERNAL_ERROR');
+    logger.complete(500, 'INTERNAL_ERROR');
+    return reviewErrorResponse(
+      'INTERNAL_ERROR',
+      `Could not re-read files to check for changes: ${unreadable.join(', ')}`,
+      500,
+      requestId
+    );
+  }
 
-  // Apply patches
-  const applyResult = await applyPlannedPatches(githubConfig, plannedChanges, false);
+  const drift = resolveSessionDrift(session, acceptedChanges, currentFiles);
+  if (drift.conflicts.length > 0) {
+    logger.error(`Conflicting files: ${drift.conflicts.map(c => c.filePath).join(', ')}`, 'SESSION_CONFLICT');
+    logger.complete(409, 'SESSION_CONFLICT');
+    return reviewErrorResponse(
+      'SESSION_CONFLICT',
+      'Repository files changed since the session was created and could not be rebased. ' +
+        'Create a new review session to plan against the current files.',
+      409,
+      requestId,
+      { conflicts: drift.conflicts }
+    );
+  }
+  const plannedChanges = drift.changes;
+
+  // Apply patches, directly or as a pull request
+  const applyResult = session.targetRepo.applyMode === 'pull-request'
+    ? await applyPlannedPatchesAsPullRequest(
+        provider,
+        plannedChanges,
+        buildPullRequestDetails({
+          siteUrl: session.siteUrl,
+          sessionId,
+          changes: plannedChanges,
+          evidence: session.evidence ?? [],
+        })
+      )
+    : await applyPlannedPatches(provider, plannedChanges, false);
 
   if (!applyResult.success) {
     logger.error(`Write-back failed: ${applyResult.errors.join(', ')}`, 'INTERNAL_ERROR');
@@ -1487,11 +1834,16 @@ async function handleReviewApply(
     );
   }
 
-  // Extract commit SHAs
-  const commitShas = applyResult.commits.map(c => c.sha);
+  // Extract commit SHAs (a pull request lists every file against one commit)
+  const commitShas = [...new Set(applyResult.commits.map(c => c.sha))];
+
+  // Keep rebased bases so the session records what was actually changed
+  if (drift.rebasedFiles.length > 0) {
+    await storeSession(env.NICO_GEO_SESSIONS, { ...session, patches: drift.patches });
+  }
 
   // Update session status to applied
-  await updateSessionStatus(env.NICO_GEO_SESSIONS, sessionId, 'applied', commitShas);
+  await updateSessionStatus(env.NICO_GEO_SESSIONS, sessionId, 'applied', commitShas, applyResult.pullRequest);
 
   const response: ReviewApplyResponse & { requestId: string } = {
     status: 'success',
@@ -1499,7 +1851,11 @@ async function handleReviewApply(
     sessionId,
     applied: true,
     commitShas,
-    message: `Successfully applied ${applyResult.patchesApplied} patches`,
+    message: applyResult.pullRequest
+      ? `Opened pull request #${applyResult.pullRequest.number} with ${applyResult.patchesApplied} patches`
+      : `Successfully applied ${applyResult.patchesApplied} patches`,
+    pullRequest: applyResult.pullRequest,
+    ...(drift.rebasedFiles.length > 0 && { rebasedFiles: drift.rebasedFiles }),
   };
 
   logger.complete(200);
@@ -1507,35 +1863,728 @@ async function handleReviewApply(
 }
 
 /**
- * Routes review-related requests to appropriate handlers.
- * Endpoints:
- *   POST /review/create - Create a new review session
- *   GET /review/{sessionId} - Get session details
- *   POST /review/{sessionId}/approve - Approve a session
- *   POST /review/{sessionId}/apply - Apply approved session changes
+ * Handles POST /review/{sessionId}/revert
+ * Undoes an applied session with a new commit or pull request. Works from
+ * the archive record once the session itself has expired.
  */
-async function handleReviewRoutes(
+async function handleReviewRevert(
+  sessionId: string,
   request: Request,
-  url: URL,
   env: Env,
+  keyRecord: ApiKeyRecord,
   requestId: string,
   logger: Logger
 ): Promise<Response> {
-  const path = url.pathname;
-  const method = request.method;
+  if (!isValidSessionId(sessionId)) {
+    logger.error('Invalid session ID format', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid session ID format', 400, requestId);
+  }
 
-  // POST /review/create
-  if (path === '/review/create' && method === 'POST') {
-    // Authenticate
-    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
-    if (!authResult.valid) {
-      logger.error('Authentication failed', authResult.errorCode);
-      logger.complete(401, authResult.errorCode);
-      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
-    }
-    logger.setKeyId(authResult.keyRecord.keyId);
+  // Pro plan required, as for apply
+  if (keyRecord.plan !== 'pro') {
+    logger.error('Pro plan required', 'PLAN_REQUIRED');
+    logger.complete(403, 'PLAN_REQUIRED');
+    return reviewErrorResponse(
+      'PLAN_REQUIRED',
+      'Review session revert requires a pro plan',
+      403,
+      requestId,
+      { currentPlan: keyRecord.plan, requiredPlan: 'pro' }
+    );
+  }
 
-    // Rate limit
+  const repoToken = extractRepoToken(request);
+  if (!repoToken) {
+    logger.error('Repository token required', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse(
+      'VALIDATION_ERROR',
+      `Repository token required in ${REPO_TOKEN_HEADER} (or ${GITHUB_TOKEN_HEADER}) header`,
+      400,
+      requestId
+    );
+  }
+
+  // The live session knows original contents; the archive only file paths
+  const result = await getSessionWithExpirationCheck(env.NICO_GEO_SESSIONS, sessionId);
+  const archived = result.found ? null : await getArchivedSession(env.NICO_GEO_SESSIONS, sessionId);
+  const source = result.found ? result.session : archived;
+  if (!source || !isSessionOwner(source, keyRecord.keyId)) {
+    logger.error('Session not found', 'SESSION_NOT_FOUND');
+    logger.complete(404, 'SESSION_NOT_FOUND');
+    return reviewErrorResponse('SESSION_NOT_FOUND', 'Review session not found', 404, requestId);
+  }
+
+  const canRevert = canRevertSession(
+    result.found ? result.session : { status: source.revert ? 'reverted' : 'applied' }
+  );
+  if (!canRevert.canRevert) {
+    if (canRevert.isIdempotent && source.revert) {
+      const response: ReviewRevertResponse & { requestId: string } = {
+        status: 'success',
+        requestId,
+        sessionId,
+        reverted: false,
+        revert: source.revert,
+        message: 'Session was already reverted. Returning the existing revert.',
+      };
+      logger.complete(200);
+      return jsonResponse(response as unknown as RunResponse, 200, requestId);
+    }
+    logger.error(canRevert.reason!, 'SESSION_NOT_APPLIED');
+    logger.complete(400, 'SESSION_NOT_APPLIED');
+    return reviewErrorResponse('SESSION_NOT_APPLIED', canRevert.reason!, 400, requestId);
+  }
+
+  const targetRepo = source.targetRepo;
+  const provider = createTargetProvider(targetRepo, repoToken);
+
+  try {
+    await provider.verifyWriteAccess();
+  } catch (err) {
+    if (err instanceof RepoProviderError) {
+      logger.error(`Repository access verification failed: ${err.message}`, 'VALIDATION_ERROR');
+      logger.complete(403, 'VALIDATION_ERROR');
+      return reviewErrorResponse(
+        'VALIDATION_ERROR',
+        `Repository access verification failed: ${err.message}`,
+        403,
+        requestId
+      );
+    }
+    throw err;
+  }
+
+  // An apply pull request that was never merged is closed rather than reverted
+  if (targetRepo.applyMode === 'pull-request' && source.pullRequest) {
+    let unmerged: Awaited<ReturnType<typeof revertUnmergedPullRequest>>;
+    try {
+      unmerged = await revertUnmergedPullRequest(provider, source.pullRequest);
+    } catch (err) {
+      if (err instanceof RepoProviderError) {
+        logger.error(`Pull request check failed: ${err.message}`, 'INTERNAL_ERROR');
+        logger.complete(500, 'INTERNAL_ERROR');
+        return reviewErrorResponse('INTERNAL_ERROR', `Revert failed: ${err.message}`, 500, requestId);
+      }
+      throw err;
+    }
+
+    if (unmerged) {
+      await recordSessionRevert(env.NICO_GEO_SESSIONS, sessionId, unmerged.revert);
+      const response: ReviewRevertResponse & { requestId: string } = {
+        status: 'success',
+        requestId,
+        sessionId,
+        reverted: true,
+        revert: unmerged.revert,
+        message: unmerged.closed
+          ? `Closed unmerged pull request #${source.pullRequest.number}; no files were changed`
+          : `Pull request #${source.pullRequest.number} was already closed without merging; no files were changed`,
+      };
+      logger.complete(200);
+      return jsonResponse(response as unknown as RunResponse, 200, requestId);
+    }
+  }
+
+  // Revert against what is in the repository now
+  const files = buildRevertSources(source);
+  const currentFiles = await readRepoFiles(provider, files.map(f => f.filePath));
+  const unreadable = files.map(f => f.filePath).filter(path => !currentFiles.has(path));
+  if (unreadable.length > 0) {
+    logger.error(`Failed to read files: ${unreadable.join(', ')}`, 'INTERNAL_ERROR');
+    logger.complete(500, 'INTERNAL_ERROR');
+    return reviewErrorResponse(
+      'INTERNAL_ERROR',
+      `Could not read files to revert: ${unreadable.join(', ')}`,
+      500,
+      requestId
+    );
+  }
+
+  const plan = planSessionRevert(files, currentFiles);
+  if (plan.changes.length === 0 && plan.deletedFiles.length === 0) {
+    logger.error('Nothing to revert', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse(
+      'VALIDATION_ERROR',
+      'No file still contains changes from this session; nothing to revert',
+      400,
+      requestId
+    );
+  }
+
+  const applyResult = targetRepo.applyMode === 'pull-request'
+    ? await applyPlannedPatchesAsPullRequest(
+        provider,
+        plan.changes,
+        buildRevertPullRequestDetails({
+          siteUrl: source.siteUrl,
+          sessionId,
+          restoredFiles: plan.restoredFiles,
+          strippedFiles: plan.strippedFiles,
+          deletedFiles: plan.deletedFiles,
+          commitShas: source.commitShas ?? [],
+          pullRequest: source.pullRequest,
+        }),
+        plan.deletedFiles
+      )
+    : await applyPlannedPatches(
+        provider,
+        plan.changes,
+        false,
+        change => `Revert GEO improvement: ${change.url}`,
+        plan.deletedFiles.map(path => ({ path, message: `Revert GEO improvement: delete ${path}` }))
+      );
+
+  if (!applyResult.success) {
+    logger.error(`Revert failed: ${applyResult.errors.join(', ')}`, 'INTERNAL_ERROR');
+    logger.complete(500, 'INTERNAL_ERROR');
+    return reviewErrorResponse('INTERNAL_ERROR', `Revert failed: ${applyResult.errors.join(', ')}`, 500, requestId);
+  }
+
+  const revert: ReviewRevertRecord = {
+    revertedAt: new Date().toISOString(),
+    commitShas: [...new Set(applyResult.commits.map(c => c.sha))],
+    pullRequest: applyResult.pullRequest,
+    restoredFiles: plan.restoredFiles,
+    strippedFiles: plan.strippedFiles,
+    deletedFiles: plan.deletedFiles,
+  };
+  await recordSessionRevert(env.NICO_GEO_SESSIONS, sessionId, revert);
+
+  const response: ReviewRevertResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessionId,
+    reverted: true,
+    revert,
+    message: applyResult.pullRequest
+      ? `Opened pull request #${applyResult.pullRequest.number} reverting ${plan.changes.length + plan.deletedFiles.length} files`
+      : `Reverted ${plan.changes.length + plan.deletedFiles.length} files`,
+  };
+
+  logger.complete(200);
+  return jsonResponse(response as unknown as RunResponse, 200, requestId);
+}
+
+/**
+ * Loads a session that can still take decisions, or builds the error
+ * response explaining why it cannot. With ownerKeyId, another key's
+ * session is reported as not found.
+ */
+async function loadReviewableSession(
+  sessionId: string,
+  env: Env,
+  requestId: string,
+  logger: Logger,
+  ownerKeyId?: string
+): Promise<{ session: ReviewSession } | { response: Response }> {
+  if (!isValidSessionId(sessionId)) {
+    logger.error('Invalid session ID format', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return { response: reviewErrorResponse('VALIDATION_ERROR', 'Invalid session ID format', 400, requestId) };
+  }
+
+  const result = await getSessionWithExpirationCheck(env.NICO_GEO_SESSIONS, sessionId);
+  if (!result.found || (ownerKeyId !== undefined && !isSessionOwner(result.session, ownerKeyId))) {
+    logger.error('Session not found', 'SESSION_NOT_FOUND');
+    logger.complete(404, 'SESSION_NOT_FOUND');
+    return { response: reviewErrorResponse('SESSION_NOT_FOUND', 'Review session not found', 404, requestId) };
+  }
+
+  const session = result.session;
+  const canReview = canReviewSession(session);
+  if (!canReview.canReview) {
+    if (session.status === 'expired' || result.expired) {
+      logger.error('Session expired', 'SESSION_EXPIRED');
+      logger.complete(410, 'SESSION_EXPIRED');
+      return { response: reviewErrorResponse('SESSION_EXPIRED', canReview.reason!, 410, requestId) };
+    }
+    const errorCode = session.status === 'applied'
+      ? 'SESSION_ALREADY_APPLIED'
+      : session.status === 'reverted' ? 'SESSION_REVERTED' : 'SESSION_REJECTED';
+    logger.error(canReview.reason!, errorCode);
+    logger.complete(409, errorCode);
+    return { response: reviewErrorResponse(errorCode, canReview.reason!, 409, requestId) };
+  }
+
+  return { session };
+}
+
+/**
+ * Validates the body of POST /review/{sessionId}/decisions.
+ */
+function validateReviewDecisionsRequest(
+  body: unknown
+): { valid: true; decisions: ReviewDecisionInput[] } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object' || !Array.isArray((body as Record<string, unknown>).decisions)) {
+    return { valid: false, error: 'decisions must be an array' };
+  }
+
+  const entries = (body as Record<string, unknown>).decisions as unknown[];
+  if (entries.length === 0) {
+    return { valid: false, error: 'decisions must not be empty' };
+  }
+
+  const decisionValues: ReviewDecision[] = ['pending', 'accepted', 'rejected'];
+  const decisions: ReviewDecisionInput[] = [];
+  for (const entry of entries) {
+    const obj = (entry ?? {}) as Record<string, unknown>;
+    if (typeof obj.filePath !== 'string' || obj.filePath.length === 0) {
+      return { valid: false, error: 'Each decision needs a filePath' };
+    }
+    if (obj.blockType !== undefined && typeof obj.blockType !== 'string') {
+      return { valid: false, error: 'blockType must be a string' };
+    }
+    if (!decisionValues.includes(obj.decision as ReviewDecision)) {
+      return { valid: false, error: `decision must be one of: ${decisionValues.join(', ')}` };
+    }
+    decisions.push({
+      filePath: obj.filePath,
+      blockType: obj.blockType as ReviewDecisionInput['blockType'],
+      decision: obj.decision as ReviewDecision,
+    });
+  }
+
+  return { valid: true, decisions };
+}
+
+/**
+ * Handles POST /review/{sessionId}/decisions
+ * Accepts or rejects individual files and marker blocks.
+ */
+async function handleReviewDecisions(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  // Decisions decide what gets applied, so they need the same plan as approval
+  if (keyRecord.plan !== 'pro') {
+    logger.error('Pro plan required', 'PLAN_REQUIRED');
+    logger.complete(403, 'PLAN_REQUIRED');
+    return reviewErrorResponse(
+      'PLAN_REQUIRED',
+      'Review decisions require a pro plan',
+      403,
+      requestId,
+      { currentPlan: keyRecord.plan, requiredPlan: 'pro' }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    logger.error('Invalid JSON body', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body', 400, requestId);
+  }
+
+  const validation = validateReviewDecisionsRequest(body);
+  if (!validation.valid) {
+    logger.error(validation.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', validation.error, 400, requestId);
+  }
+
+  const loaded = await loadReviewableSession(sessionId, env, requestId, logger);
+  if ('response' in loaded) return loaded.response;
+  const session = loaded.session;
+
+  const applied = applyReviewDecisions(session, validation.decisions);
+  if (!applied.valid) {
+    logger.error(applied.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', applied.error, 400, requestId);
+  }
+
+  await storeSession(env.NICO_GEO_SESSIONS, session);
+
+  const response: ReviewDecisionsResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessionId,
+    sessionStatus: session.status,
+    plannedFiles: session.plannedFiles,
+  };
+
+  logger.complete(200);
+  return jsonResponse(response as unknown as RunResponse, 200, requestId);
+}
+
+/**
+ * Handles POST /review/{sessionId}/reject
+ * Rejects the whole session; it can no longer be approved or applied.
+ */
+async function handleReviewReject(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  if (keyRecord.plan !== 'pro') {
+    logger.error('Pro plan required', 'PLAN_REQUIRED');
+    logger.complete(403, 'PLAN_REQUIRED');
+    return reviewErrorResponse(
+      'PLAN_REQUIRED',
+      'Review session rejection requires a pro plan',
+      403,
+      requestId,
+      { currentPlan: keyRecord.plan, requiredPlan: 'pro' }
+    );
+  }
+
+  // Body is optional: { reason?: string }
+  let reason: string | undefined;
+  try {
+    const text = await request.text();
+    const body = text ? JSON.parse(text) as Record<string, unknown> : {};
+    if (body.reason !== undefined) {
+      if (typeof body.reason !== 'string' || body.reason.length > MAX_COMMENT_LENGTH) {
+        logger.error('Invalid rejection reason', 'VALIDATION_ERROR');
+        logger.complete(400, 'VALIDATION_ERROR');
+        return reviewErrorResponse(
+          'VALIDATION_ERROR',
+          `reason must be a string of at most ${MAX_COMMENT_LENGTH} characters`,
+          400,
+          requestId
+        );
+      }
+      reason = body.reason;
+    }
+  } catch {
+    logger.error('Invalid JSON body', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body', 400, requestId);
+  }
+
+  const loaded = await loadReviewableSession(sessionId, env, requestId, logger);
+  if ('response' in loaded) return loaded.response;
+  const session = loaded.session;
+
+  const previousStatus = session.status;
+  session.status = 'rejected';
+  if (reason) {
+    session.rejectionReason = reason;
+  }
+  await storeSession(env.NICO_GEO_SESSIONS, session);
+
+  const response: ReviewApproveResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessionId,
+    previousStatus,
+    newStatus: 'rejected',
+  };
+
+  logger.complete(200);
+  return jsonResponse(response as unknown as RunResponse, 200, requestId);
+}
+
+/**
+ * Handles PATCH /review/{sessionId}/files/{filePath}
+ * Replaces the content of one generated block in a planned file.
+ */
+async function handleReviewFileEdit(
+  sessionId: string,
+  filePath: string,
+  request: Request,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  // Edits change what gets applied, so they need the same plan as approval
+  if (keyRecord.plan !== 'pro') {
+    logger.error('Pro plan required', 'PLAN_REQUIRED');
+    logger.complete(403, 'PLAN_REQUIRED');
+    return reviewErrorResponse(
+      'PLAN_REQUIRED',
+      'Editing review sessions requires a pro plan',
+      403,
+      requestId,
+      { currentPlan: keyRecord.plan, requiredPlan: 'pro' }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json() ?? {}) as Record<string, unknown>;
+  } catch {
+    logger.error('Invalid JSON body', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body', 400, requestId);
+  }
+
+  if (typeof body.blockType !== 'string' || typeof body.content !== 'string') {
+    logger.error('Invalid edit request', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'blockType and content are required strings', 400, requestId);
+  }
+
+  // Only the owning key may change what apply writes
+  const loaded = await loadReviewableSession(sessionId, env, requestId, logger, keyRecord.keyId);
+  if ('response' in loaded) return loaded.response;
+  const session = loaded.session;
+
+  const edit = editReviewBlock(
+    session,
+    filePath,
+    body.blockType as ReviewFileEditRequest['blockType'],
+    body.content
+  );
+  if (!edit.valid) {
+    logger.error(edit.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse(
+      'VALIDATION_ERROR',
+      edit.error,
+      400,
+      requestId,
+      edit.violations && { violations: edit.violations.map(v => ({ kind: v.kind, token: v.token, rule: v.rule })) }
+    );
+  }
+
+  await storeSession(env.NICO_GEO_SESSIONS, session);
+
+  const response: ReviewFileEditResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessionId,
+    sessionStatus: session.status,
+    plannedFile: edit.file,
+    diffPreview: edit.diffPreview,
+  };
+
+  logger.complete(200);
+  return jsonResponse(response as unknown as RunResponse, 200, requestId);
+}
+
+/**
+ * Handles POST /review/{sessionId}/comments
+ * Adds a comment, optionally replying to another or anchored to a file/block.
+ */
+async function handleReviewComment(
+  sessionId: string,
+  request: Request,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  if (!isValidSessionId(sessionId)) {
+    logger.error('Invalid session ID format', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid session ID format', 400, requestId);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json() ?? {}) as Record<string, unknown>;
+  } catch {
+    logger.error('Invalid JSON body', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body', 400, requestId);
+  }
+
+  const commentBody = typeof body.body === 'string' ? body.body.trim() : '';
+  const optionalFieldsValid = ['parentId', 'filePath', 'blockType'].every(
+    field => body[field] === undefined || typeof body[field] === 'string'
+  );
+  if (!commentBody || commentBody.length > MAX_COMMENT_LENGTH || !optionalFieldsValid) {
+    const message = `body must be a non-empty string of at most ${MAX_COMMENT_LENGTH} characters; parentId, filePath and blockType must be strings`;
+    logger.error('Invalid comment', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', message, 400, requestId);
+  }
+
+  const result = await getSessionWithExpirationCheck(env.NICO_GEO_SESSIONS, sessionId);
+  if (!result.found) {
+    logger.error('Session not found', 'SESSION_NOT_FOUND');
+    logger.complete(404, 'SESSION_NOT_FOUND');
+    return reviewErrorResponse('SESSION_NOT_FOUND', 'Review session not found', 404, requestId);
+  }
+  if (result.expired) {
+    logger.error('Session expired', 'SESSION_EXPIRED');
+    logger.complete(410, 'SESSION_EXPIRED');
+    return reviewErrorResponse('SESSION_EXPIRED', 'Session has expired', 410, requestId);
+  }
+
+  const session = result.session;
+  const added = addReviewComment(
+    session,
+    {
+      body: commentBody,
+      parentId: body.parentId as string | undefined,
+      filePath: body.filePath as string | undefined,
+      blockType: body.blockType as ReviewDecisionInput['blockType'],
+    },
+    keyRecord.keyId
+  );
+  if (!added.valid) {
+    logger.error(added.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', added.error, 400, requestId);
+  }
+
+  await storeSession(env.NICO_GEO_SESSIONS, session);
+
+  const response: ReviewCommentResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    sessionId,
+    comment: added.comment,
+  };
+
+  logger.complete(201);
+  return jsonResponse(response as unknown as RunResponse, 201, requestId);
+}
+
+/**
+ * Routes review-related requests to appropriate handlers.
+ * Endpoints:
+ *   POST /review/create - Create a new review session
+ *   GET /review - List the calling key's sessions
+ *   GET /review/{sessionId} - Get session details
+ *   POST /review/{sessionId}/approve - Approve a session
+ *   POST /review/{sessionId}/apply - Apply approved session changes
+ *   POST /review/{sessionId}/decisions - Accept/reject files and blocks
+ *   POST /review/{sessionId}/reject - Reject a session
+ *   POST /review/{sessionId}/comments - Add a reviewer comment
+ *   POST /review/{sessionId}/revert - Undo an applied session
+ *   PATCH /review/{sessionId}/files/{filePath} - Edit a generated block
+ */
+async function handleReviewRoutes(
+  request: Request,
+  url: URL,
+  env: Env,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  const path = url.pathname;
+  const method = request.method;
+
+  // POST /review/create
+  if (path === '/review/create' && method === 'POST') {
+    // Authenticate
+    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+    if (!authResult.valid) {
+      logger.error('Authentication failed', authResult.errorCode);
+      logger.complete(401, authResult.errorCode);
+      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+    }
+    logger.setKeyId(authResult.keyRecord.keyId);
+
+    // Rate limit
+    const rateLimitResult = await checkRateLimit(
+      authResult.keyRecord.keyId,
+      authResult.keyRecord.plan,
+      env.RATE_LIMITER
+    );
+    if (!rateLimitResult.allowed) {
+      logger.error('Rate limit exceeded', rateLimitResult.errorCode);
+      logger.complete(429, rateLimitResult.errorCode);
+      return reviewErrorResponse(
+        rateLimitResult.errorCode,
+        rateLimitResult.message,
+        429,
+        requestId,
+        { retryAfterSeconds: rateLimitResult.retryAfterSeconds }
+      );
+    }
+
+    return handleReviewCreate(request, env, authResult.keyRecord, requestId, logger);
+  }
+
+  // GET /review
+  if (path === '/review' && method === 'GET') {
+    // Authenticate (read access allowed for any valid key)
+    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+    if (!authResult.valid) {
+      logger.error('Authentication failed', authResult.errorCode);
+      logger.complete(401, authResult.errorCode);
+      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+    }
+    logger.setKeyId(authResult.keyRecord.keyId);
+
+    return handleReviewList(url, env, authResult.keyRecord, requestId, logger);
+  }
+
+  // Match /review/{sessionId} patterns
+  const sessionMatch = path.match(/^\/review\/([a-f0-9-]+)(\/.*)?$/);
+  if (!sessionMatch) {
+    logger.error('Invalid review endpoint', 'VALIDATION_ERROR');
+    logger.complete(404, 'VALIDATION_ERROR');
+    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid review endpoint', 404, requestId);
+  }
+
+  const sessionId = sessionMatch[1];
+  const subPath = sessionMatch[2] || '';
+
+  // GET /review/{sessionId}
+  if (subPath === '' && method === 'GET') {
+    // Authenticate (read access allowed for any valid key)
+    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+    if (!authResult.valid) {
+      logger.error('Authentication failed', authResult.errorCode);
+      logger.complete(401, authResult.errorCode);
+      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+    }
+    logger.setKeyId(authResult.keyRecord.keyId);
+
+    return handleReviewGet(sessionId, env, requestId, logger);
+  }
+
+  // POST /review/{sessionId}/approve
+  if (subPath === '/approve' && method === 'POST') {
+    // Authenticate
+    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+    if (!authResult.valid) {
+      logger.error('Authentication failed', authResult.errorCode);
+      logger.complete(401, authResult.errorCode);
+      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+    }
+    logger.setKeyId(authResult.keyRecord.keyId);
+
+    // Rate limit
+    const rateLimitResult = await checkRateLimit(
+      authResult.keyRecord.keyId,
+      authResult.keyRecord.plan,
+      env.RATE_LIMITER
+    );
+    if (!rateLimitResult.allowed) {
+      logger.error('Rate limit exceeded', rateLimitResult.errorCode);
+      logger.complete(429, rateLimitResult.errorCode);
+      return reviewErrorResponse(
+        rateLimitResult.errorCode,
+        rateLimitResult.message,
+        429,
+        requestId,
+        { retryAfterSeconds: rateLimitResult.retryAfterSeconds }
+      );
+    }
+
+    return handleReviewApprove(sessionId, env, authResult.keyRecord, requestId, logger);
+  }
+
+  // POST /review/{sessionId}/apply
+  if (subPath === '/apply' && method === 'POST') {
+    // Authenticate
+    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+    if (!authResult.valid) {
+      logger.error('Authentication failed', authResult.errorCode);
+      logger.complete(401, authResult.errorCode);
+      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+    }
+    logger.setKeyId(authResult.keyRecord.keyId);
+
+    // Rate limit
     const rateLimitResult = await checkRateLimit(
       authResult.keyRecord.keyId,
       authResult.keyRecord.plan,
@@ -1553,36 +2602,17 @@ async function handleReviewRoutes(
       );
     }
 
-    return handleReviewCreate(request, env, authResult.keyRecord, requestId, logger);
-  }
-
-  // Match /review/{sessionId} patterns
-  const sessionMatch = path.match(/^\/review\/([a-f0-9-]+)(\/.*)?$/);
-  if (!sessionMatch) {
-    logger.error('Invalid review endpoint', 'VALIDATION_ERROR');
-    logger.complete(404, 'VALIDATION_ERROR');
-    return reviewErrorResponse('VALIDATION_ERROR', 'Invalid review endpoint', 404, requestId);
-  }
-
-  const sessionId = sessionMatch[1];
-  const subPath = sessionMatch[2] || '';
-
-  // GET /review/{sessionId}
-  if (subPath === '' && method === 'GET') {
-    // Authenticate (read access allowed for any valid key)
-    const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
-    if (!authResult.valid) {
-      logger.error('Authentication failed', authResult.errorCode);
-      logger.complete(401, authResult.errorCode);
-      return reviewErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
-    }
-    logger.setKeyId(authResult.keyRecord.keyId);
-
-    return handleReviewGet(sessionId, env, requestId, logger);
+    return handleReviewApply(sessionId, request, env, authResult.keyRecord, requestId, logger);
   }
 
-  // POST /review/{sessionId}/approve
-  if (subPath === '/approve' && method === 'POST') {
+  // POST /review/{sessionId}/decisions, /reject and /comments
+  const reviewActions: Record<string, typeof handleReviewDecisions> = {
+    '/decisions': handleReviewDecisions,
+    '/reject': handleReviewReject,
+    '/comments': handleReviewComment,
+    '/revert': handleReviewRevert,
+  };
+  if (Object.prototype.hasOwnProperty.call(reviewActions, subPath) && method === 'POST') {
     // Authenticate
     const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
     if (!authResult.valid) {
@@ -1610,11 +2640,20 @@ async function handleReviewRoutes(
       );
     }
 
-    return handleReviewApprove(sessionId, env, authResult.keyRecord, requestId, logger);
+    return reviewActions[subPath](sessionId, request, env, authResult.keyRecord, requestId, logger);
   }
 
-  // POST /review/{sessionId}/apply
-  if (subPath === '/apply' && method === 'POST') {
+  // PATCH /review/{sessionId}/files/{filePath}
+  if (subPath.startsWith('/files/') && method === 'PATCH') {
+    let filePath: string;
+    try {
+      filePath = decodeURIComponent(subPath.slice('/files/'.length));
+    } catch {
+      logger.error('Invalid file path encoding', 'VALIDATION_ERROR');
+      logger.complete(400, 'VALIDATION_ERROR');
+      return reviewErrorResponse('VALIDATION_ERROR', 'Invalid file path encoding', 400, requestId);
+    }
+
     // Authenticate
     const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
     if (!authResult.valid) {
@@ -1642,7 +2681,7 @@ async function handleReviewRoutes(
       );
     }
 
-    return handleReviewApply(sessionId, request, env, authResult.keyRecord, requestId, logger);
+    return handleReviewFileEdit(sessionId, filePath, request, env, authResult.keyRecord, requestId, logger);
   }
 
   // Unknown review endpoint
@@ -1651,6 +2690,191 @@ async function handleReviewRoutes(
   return reviewErrorResponse('VALIDATION_ERROR', 'Invalid review endpoint or method', 404, requestId);
 }
 
+// ============================================
+// JOB ENDPOINTS
+// ============================================
+
+/**
+ * Creates a job error response with requestId.
+ */
+function jobErrorResponse(
+  errorCode: JobApiErrorCode,
+  message: string,
+  status: number,
+  requestId: string,
+  details?: Record<string, unknown>
+): Response {
+  const body = {
+    status: 'error',
+    requestId,
+    errorCode,
+    message,
+    ...(details && { details }),
+  };
+  return jsonResponse(body as unknown as ApiErrorResponse, status, requestId);
+}
+
+/**
+ * Handles POST /jobs
+ * Validates the request and hands the job to its Durable Object.
+ */
+async function handleJobCreate(
+  request: Request,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    logger.error('Invalid JSON body', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return jobErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body', 400, requestId);
+  }
+
+  const validation = validateJobCreateRequest(body);
+  if (!validation.valid) {
+    logger.error(validation.error, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return jobErrorResponse('VALIDATION_ERROR', validation.error, 400, requestId);
+  }
+
+  const jobRequest: JobCreateRequest = {
+    ...validation.request,
+    auditProfile: validation.request.auditProfile ?? keyRecord.defaultAuditProfile,
+  };
+  const job = createJobRecord(jobRequest, keyRecord.keyId);
+
+  try {
+    await startJob(env.JOB_RUNNER, job);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to start job';
+    logger.error(message, 'INTERNAL_ERROR');
+    logger.complete(500, 'INTERNAL_ERROR');
+    return jobErrorResponse('INTERNAL_ERROR', message, 500, requestId);
+  }
+
+  const response: JobCreateResponse & { requestId: string } = {
+    status: 'success',
+    requestId,
+    jobId: job.jobId,
+    jobStatus: job.status,
+    createdAt: job.createdAt,
+  };
+
+  logger.complete(202);
+  return jsonResponse(response as unknown as RunResponse, 202, requestId);
+}
+
+/**
+ * Handles GET /jobs/{jobId} and DELETE /jobs/{jobId}.
+ */
+async function handleJobLookup(
+  jobId: string,
+  action: 'get' | 'cancel',
+  url: URL,
+  env: Env,
+  keyRecord: ApiKeyRecord,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  if (!isValidSessionId(jobId)) {
+    logger.error('Invalid job ID format', 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return jobErrorResponse('VALIDATION_ERROR', 'Invalid job ID format', 400, requestId);
+  }
+
+  let result;
+  try {
+    result = action === 'get'
+      ? await getJob(env.JOB_RUNNER, jobId, keyRecord.keyId, parseResultsWindow(url))
+      : await cancelJob(env.JOB_RUNNER, jobId, keyRecord.keyId);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Job runner error';
+    logger.error(message, 'INTERNAL_ERROR');
+    logger.complete(500, 'INTERNAL_ERROR');
+    return jobErrorResponse('INTERNAL_ERROR', message, 500, requestId);
+  }
+
+  if (!result.ok) {
+    const status = result.errorCode === 'JOB_NOT_FOUND' ? 404 : 409;
+    logger.error(result.message, result.errorCode);
+    logger.complete(status, result.errorCode);
+    return jobErrorResponse(result.errorCode, result.message, status, requestId);
+  }
+
+  logger.complete(200);
+  return jsonResponse({ ...result.response, requestId } as unknown as RunResponse, 200, requestId);
+}
+
+/**
+ * Routes job requests.
+ */
+async function handleJobRoutes(
+  request: Request,
+  url: URL,
+  env: Env,
+  requestId: string,
+  logger: Logger
+): Promise<Response> {
+  const path = url.pathname;
+  const method = request.method;
+
+  const jobMatch = path.match(/^\/jobs(?:\/([a-f0-9-]+))?$/);
+  const isCreate = path === '/jobs' && method === 'POST';
+  const isLookup = !!jobMatch?.[1] && (method === 'GET' || method === 'DELETE');
+  if (!isCreate && !isLookup) {
+    logger.error('Invalid jobs endpoint or method', 'VALIDATION_ERROR');
+    logger.complete(404, 'VALIDATION_ERROR');
+    return jobErrorResponse('VALIDATION_ERROR', 'Invalid jobs endpoint or method', 404, requestId);
+  }
+
+  // Authenticate
+  const authResult = await authenticateRequest(request, env.NICO_GEO_KEYS);
+  if (!authResult.valid) {
+    logger.error('Authentication failed', authResult.errorCode);
+    logger.complete(401, authResult.errorCode);
+    return jobErrorResponse(authResult.errorCode, authResult.message, 401, requestId);
+  }
+  logger.setKeyId(authResult.keyRecord.keyId);
+
+  // Polling is free; creating and cancelling count against the rate limit
+  if (method !== 'GET') {
+    const rateLimitResult = await checkRateLimit(
+      authResult.keyRecord.keyId,
+      authResult.keyRecord.plan,
+      env.RATE_LIMITER
+    );
+    if (!rateLimitResult.allowed) {
+      logger.error('Rate limit exceeded', rateLimitResult.errorCode);
+      logger.complete(429, rateLimitResult.errorCode);
+      return jobErrorResponse(
+        rateLimitResult.errorCode,
+        rateLimitResult.message,
+        429,
+        requestId,
+        { retryAfterSeconds: rateLimitResult.retryAfterSeconds }
+      );
+    }
+  }
+
+  if (isCreate) {
+    return handleJobCreate(request, env, authResult.keyRecord, requestId, logger);
+  }
+
+  return handleJobLookup(
+    jobMatch![1],
+    method === 'GET' ? 'get' : 'cancel',
+    url,
+    env,
+    authResult.keyRecord,
+    requestId,
+    logger
+  );
+}
+
 /**
  * HTML page for the GEO Audit UI - Visual Report.
  */
@@ -1903,16 +3127,6 @@ const AUDIT_UI_HTML = `<!DOCTYPE html>
 </body>
 </html>`;
 
-/**
- * Issue severity weights for scoring.
- */
-const SEVERITY_WEIGHTS: Record<string, number> = {
-  critical: 20,
-  high: 12,
-  medium: 6,
-  low: 3,
-};
-
 /**
  * Audit issue structure.
  */
@@ -1926,219 +3140,27 @@ interface AuditIssue {
 }
 
 /**
- * Extracted page data from HTMLRewriter.
- */
-interface PageData {
-  title: string;
-  h1: string;
-  metaDescription: string;
-  metaRobots: string;
-  wordCount: number;
-  hasLocalBusinessSchema: boolean;
-  hasServiceSchema: boolean;
-  hasFAQSchema: boolean;
-  hasReviewSchema: boolean;
-  internalLinks: number;
-  hasPhone: boolean;
-  hasAddress: boolean;
-  hasFAQSection: boolean;
-  serviceKeywords: string[];
-  bodyText: string;
-}
-
-/**
- * HTMLRewriter handler to extract page data.
+ * Presents a shared-engine finding in the UI issue format.
  */
-class PageDataExtractor {
-  data: PageData = {
-    title: '',
-    h1: '',
-    metaDescription: '',
-    metaRobots: '',
-    wordCount: 0,
-    hasLocalBusinessSchema: false,
-    hasServiceSchema: false,
-    hasFAQSchema: false,
-    hasReviewSchema: false,
-    internalLinks: 0,
-    hasPhone: false,
-    hasAddress: false,
-    hasFAQSection: false,
-    serviceKeywords: [],
-    bodyText: '',
-  };
-
-  private currentElement: string = '';
-  private collectingText: boolean = false;
-
-  titleHandler = {
-    element: () => { this.currentElement = 'title'; this.collectingText = true; },
-    text: (text: { text: string }) => { if (this.currentElement === 'title') this.data.title += text.text; },
-  };
-
-  h1Handler = {
-    element: () => { this.currentElement = 'h1'; this.collectingText = true; },
-    text: (text: { text: string }) => { if (this.currentElement === 'h1' && !this.data.h1) this.data.h1 += text.text; },
-  };
-
-  metaHandler = {
-    element: (el: { getAttribute: (n: string) => string | null }) => {
-      const name = el.getAttribute('name')?.toLowerCase();
-      const content = el.getAttribute('content') || '';
-      if (name === 'description') this.data.metaDescription = content;
-      if (name === 'robots') this.data.metaRobots = content;
-    },
-  };
-
-  linkHandler = {
-    element: (el: { getAttribute: (n: string) => string | null }) => {
-      const href = el.getAttribute('href') || '';
-      if (href.startsWith('/') || href.startsWith('./')) this.data.internalLinks++;
-    },
-  };
-
-  scriptHandler = {
-    element: (el: { getAttribute: (n: string) => string | null }) => {
-      this.currentElement = 'script';
-      const type = el.getAttribute('type') || '';
-      if (type === 'application/ld+json') this.collectingText = true;
-    },
-    text: (text: { text: string }) => {
-      if (this.currentElement === 'script' && this.collectingText) {
-        const t = text.text.toLowerCase();
-        if (t.includes('localbusiness') || t.includes('plumber') || t.includes('plumbingservice')) this.data.hasLocalBusinessSchema = true;
-        if (t.includes('service') || t.includes('homeandconstructionbusiness')) this.data.hasServiceSchema = true;
-        if (t.includes('faqpage')) this.data.hasFAQSchema = true;
-        if (t.includes('review') || t.includes('aggregaterating')) this.data.hasReviewSchema = true;
-      }
-    },
-  };
-
-  bodyHandler = {
-    text: (text: { text: string }) => {
-      this.data.bodyText += text.text + ' ';
-    },
+function toAuditIssue(finding: AuditFinding): AuditIssue {
+  return {
+    title: finding.title,
+    severity: finding.severity,
+    reason: finding.message,
+    fix: finding.recommendation,
+    weight: finding.weight,
+    category: finding.category,
   };
 }
 
-/**
- * Analyzes extracted page data and generates issues.
- */
-function analyzePageData(data: PageData, siteUrl: string): { issues: AuditIssue[]; score: number } {
-  const issues: AuditIssue[] = [];
-  let score = 100;
-
-  // Clean body text and count words
-  const cleanText = data.bodyText.replace(/\\s+/g, ' ').trim();
-  data.wordCount = cleanText.split(/\\s+/).filter(w => w.length > 2).length;
-
-  // Check for phone numbers
-  const phoneRegex = /(?:\\+?\\d{1,3}[-.\\s]?)?(?:\\(?\\d{2,4}\\)?[-.\\s]?)?\\d{3,4}[-.\\s]?\\d{3,4}/g;
-  data.hasPhone = phoneRegex.test(cleanText);
-
-  // Check for address patterns
-  const addressRegex = /\\d+\\s+[a-zA-Z]+\\s+(street|st|road|rd|avenue|ave|lane|ln|drive|dr|way|court|ct)/i;
-  data.hasAddress = addressRegex.test(cleanText);
-
-  // Check for FAQ patterns
-  data.hasFAQSection = /frequently\\s+asked|faq|common\\s+questions/i.test(cleanText);
-
-  // Check for service keywords
-  const serviceTerms = ['plumb', 'drain', 'pipe', 'leak', 'boiler', 'heating', 'emergency', 'repair', 'install', 'service'];
-  data.serviceKeywords = serviceTerms.filter(term => cleanText.toLowerCase().includes(term));
-
-  // TECHNICAL CHECKS
-  if (!data.title) {
-    issues.push({ title: 'Missing Page Title', severity: 'critical', reason: 'No <title> tag found. Search engines and AI need this to understand your page.', fix: 'Add a descriptive title tag like "Emergency Plumber in [City] | 24/7 Service | [Company]"', weight: SEVERITY_WEIGHTS.critical, category: 'technical' });
-    score -= SEVERITY_WEIGHTS.critical;
-  } else if (data.title.length < 30) {
-    issues.push({ title: 'Title Too Short', severity: 'medium', reason: 'Title is only ' + data.title.length + ' characters. Optimal is 50-60 characters.', fix: 'Expand title to include location, service, and unique value proposition.', weight: SEVERITY_WEIGHTS.medium, category: 'technical' });
-    score -= SEVERITY_WEIGHTS.medium;
-  } else {
-    issues.push({ title: 'Title Tag Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'technical' });
-  }
-
-  if (!data.h1) {
-    issues.push({ title: 'Missing H1 Heading', severity: 'critical', reason: 'No <h1> tag found. This is the most important heading for SEO.', fix: 'Add a clear H1 that describes your main service and location.', weight: SEVERITY_WEIGHTS.critical, category: 'technical' });
-    score -= SEVERITY_WEIGHTS.critical;
-  } else {
-    issues.push({ title: 'H1 Heading Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'technical' });
-  }
-
-  if (data.metaRobots.includes('noindex')) {
-    issues.push({ title: 'Page Blocked from Indexing', severity: 'critical', reason: 'Meta robots contains "noindex". Search engines cannot index this page.', fix: 'Remove noindex from meta robots unless this is intentional.', weight: SEVERITY_WEIGHTS.critical, category: 'technical' });
-    score -= SEVERITY_WEIGHTS.critical;
-  }
-
-  if (!data.hasLocalBusinessSchema && !data.hasServiceSchema) {
-    issues.push({ title: 'Missing Business Schema', severity: 'high', reason: 'No LocalBusiness or Service schema found. This helps AI understand your business.', fix: 'Add JSON-LD schema with LocalBusiness type including name, address, phone, and services.', weight: SEVERITY_WEIGHTS.high, category: 'technical' });
-    score -= SEVERITY_WEIGHTS.high;
-  } else {
-    issues.push({ title: 'Business Schema Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'technical' });
-  }
-
-  // CONTENT CHECKS
-  if (data.wordCount < 300) {
-    issues.push({ title: 'Thin Content', severity: 'critical', reason: 'Only ' + data.wordCount + ' words found. AI engines need substantial content to cite.', fix: 'Add at least 800 words of helpful content about your services, process, and expertise.', weight: SEVERITY_WEIGHTS.critical, category: 'content' });
-    score -= SEVERITY_WEIGHTS.critical;
-  } else if (data.wordCount < 600) {
-    issues.push({ title: 'Limited Content Depth', severity: 'medium', reason: data.wordCount + ' words is below optimal. More comprehensive content ranks better.', fix: 'Expand content to cover common questions, service details, and local information.', weight: SEVERITY_WEIGHTS.medium, category: 'content' });
-    score -= SEVERITY_WEIGHTS.medium;
-  } else {
-    issues.push({ title: 'Good Content Length', severity: 'pass', reason: '', fix: '', weight: 0, category: 'content' });
-  }
-
-  if (data.serviceKeywords.length < 3) {
-    issues.push({ title: 'Missing Service Keywords', severity: 'high', reason: 'Found only ' + data.serviceKeywords.length + ' service-related terms. AI needs clear service signals.', fix: 'Naturally incorporate service terms: plumbing, drain cleaning, leak repair, emergency service, etc.', weight: SEVERITY_WEIGHTS.high, category: 'content' });
-    score -= SEVERITY_WEIGHTS.high;
-  } else {
-    issues.push({ title: 'Service Keywords Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'content' });
-  }
-
-  if (data.internalLinks < 3) {
-    issues.push({ title: 'Weak Internal Linking', severity: 'medium', reason: 'Only ' + data.internalLinks + ' internal links. This limits page authority flow.', fix: 'Add links to your service pages, areas served, and contact page.', weight: SEVERITY_WEIGHTS.medium, category: 'content' });
-    score -= SEVERITY_WEIGHTS.medium;
-  }
-
-  if (!data.hasFAQSection && !data.hasFAQSchema) {
-    issues.push({ title: 'No FAQ Content', severity: 'medium', reason: 'No FAQ section found. FAQs directly answer queries AI engines look for.', fix: 'Add 5-10 common questions and answers about your services.', weight: SEVERITY_WEIGHTS.medium, category: 'content' });
-    score -= SEVERITY_WEIGHTS.medium;
-  } else {
-    issues.push({ title: 'FAQ Content Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'content' });
-  }
-
-  // TRUST CHECKS
-  if (!data.hasPhone) {
-    issues.push({ title: 'No Phone Number Visible', severity: 'high', reason: 'No phone number detected. This is critical for local service businesses.', fix: 'Display your phone number prominently in the header and throughout the page.', weight: SEVERITY_WEIGHTS.high, category: 'trust' });
-    score -= SEVERITY_WEIGHTS.high;
-  } else {
-    issues.push({ title: 'Phone Number Visible', severity: 'pass', reason: '', fix: '', weight: 0, category: 'trust' });
-  }
-
-  if (!data.hasAddress) {
-    issues.push({ title: 'No Address/Location Found', severity: 'medium', reason: 'No physical address detected. Location signals help local SEO.', fix: 'Add your business address or service areas clearly on the page.', weight: SEVERITY_WEIGHTS.medium, category: 'trust' });
-    score -= SEVERITY_WEIGHTS.medium;
-  } else {
-    issues.push({ title: 'Address Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'trust' });
-  }
-
-  if (!data.hasReviewSchema) {
-    issues.push({ title: 'No Review Schema', severity: 'medium', reason: 'No review or rating schema found. Social proof helps AI recommendations.', fix: 'Add AggregateRating schema or link to review platforms.', weight: SEVERITY_WEIGHTS.medium, category: 'trust' });
-    score -= SEVERITY_WEIGHTS.medium;
-  } else {
-    issues.push({ title: 'Review Schema Present', severity: 'pass', reason: '', fix: '', weight: 0, category: 'trust' });
-  }
-
-  return { issues, score: Math.max(0, Math.min(100, score)) };
-}
-
 /**
  * Handles the UI audit endpoint (no auth required).
- * Uses fetch + HTMLRewriter to analyze the target URL.
+ * Fetches the target URL and runs the shared audit rules on it, treating
+ * it as the entry page, so its score matches /run audit mode.
  */
 async function handleUIAudit(request: Request): Promise<Response> {
   try {
-    const body = await request.json() as { siteUrl?: string };
+    const body = await request.json() as { siteUrl?: string; auditProfile?: string };
     let siteUrl = body?.siteUrl;
 
     if (!siteUrl || typeof siteUrl !== 'string') {
@@ -2162,6 +3184,14 @@ async function handleUIAudit(request: Request): Promise<Response> {
       });
     }
 
+    const profileError = body.auditProfile !== undefined ? validateAuditProfileId(body.auditProfile) : null;
+    if (profileError) {
+      return new Response(JSON.stringify({ status: 'error', message: profileError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      });
+    }
+
     // Fetch the target page
     let pageResponse: Response;
     try {
@@ -2184,22 +3214,22 @@ async function handleUIAudit(request: Request): Promise<Response> {
       }), { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } });
     }
 
-    // Extract page data using HTMLRewriter
-    const extractor = new PageDataExtractor();
-    const rewriter = new HTMLRewriter()
-      .on('title', extractor.titleHandler)
-      .on('h1', extractor.h1Handler)
-      .on('meta', extractor.metaHandler)
-      .on('a', extractor.linkHandler)
-      .on('script[type="application/ld+json"]', extractor.scriptHandler)
-      .on('body', extractor.bodyHandler);
-
-    // Process the response through HTMLRewriter
-    const processed = rewriter.transform(pageResponse);
-    await processed.text(); // Consume to trigger handlers
-
-    // Analyze the extracted data
-    const { issues, score } = analyzePageData(extractor.data, siteUrl);
+    // Audit the page with the shared rule registry
+    const page = buildPageData(pageResponse.url || siteUrl, await pageResponse.text(), pageResponse.status);
+    const report = runAuditRules([page], {
+      entryUrl: page.url,
+      profile: resolveAuditProfile(body.auditProfile),
+    });
+    const pageResult = report.pages[0];
+    const score = report.score;
+
+    const passes: AuditIssue[] = pageResult.passedRuleIds.flatMap(ruleId => {
+      const rule = AUDIT_RULES[ruleId];
+      return rule.passTitle
+        ? [{ title: rule.passTitle, severity: 'pass' as const, reason: '', fix: '', weight: 0, category: rule.category }]
+        : [];
+    });
+    const issues: AuditIssue[] = [...pageResult.findings.map(toAuditIssue), ...passes];
 
     // Determine readiness
     let readiness: 'Not Ready' | 'Needs Work' | 'Strong';
@@ -2227,6 +3257,7 @@ async function handleUIAudit(request: Request): Promise<Response> {
       topIssues,
       sections,
       siteUrl,
+      auditProfile: report.profileId,
       auditedAt: new Date().toISOString(),
     };
 
@@ -2246,7 +3277,7 @@ async function handleUIAudit(request: Request): Promise<Response> {
 /**
  * Main request handler for the Worker.
  */
-async function handleRequest(request: Request, env: Env): Promise<Response> {
+async function handleRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
 
   // ============================================
@@ -2308,6 +3339,13 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
     return handleReviewRoutes(request, url, env, requestId, logger);
   }
 
+  // ============================================
+  // ROUTE: /jobs/* (Asynchronous Job Endpoints)
+  // ============================================
+  if (url.pathname === '/jobs' || url.pathname.startsWith('/jobs/')) {
+    return handleJobRoutes(request, url, env, requestId, logger);
+  }
+
   // ============================================
   // ROUTE: POST /run (Main API Endpoint)
   // ============================================
@@ -2395,7 +3433,11 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
     return apiErrorResponse('VALIDATION_ERROR', validation.error, 400, requestId);
   }
 
-  const runRequest = validation.request;
+  // Fall back to the API key's default audit profile
+  const runRequest: RunRequest = {
+    ...validation.request,
+    auditProfile: validation.request.auditProfile ?? keyRecord.defaultAuditProfile,
+  };
   logger.setMode(runRequest.mode);
 
   // Enforce noHallucinations constraint
@@ -2426,32 +3468,27 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
   }
 
   // Extract GitHub token for write-back operations
-  const githubToken = extractGitHubToken(request);
+  const githubToken = extractRepoToken(request);
+
+  if (!isValidMode(runRequest.mode)) {
+    logger.error(`Unsupported mode: ${runRequest.mode}`, 'VALIDATION_ERROR');
+    logger.complete(400, 'VALIDATION_ERROR');
+    return apiErrorResponse(
+      'VALIDATION_ERROR',
+      `Unsupported mode: ${runRequest.mode}`,
+      400,
+      requestId
+    );
+  }
+
+  // Streaming: progress events, then the response as the final event
+  if (runRequest.stream === true) {
+    return handleStreamedRun(runRequest, githubToken, usage, requestId, logger, ctx);
+  }
 
   // Route to appropriate handler
   try {
-    let response: RunResponse;
-
-    switch (runRequest.mode) {
-      case 'improve':
-        response = await handleImproveMode(runRequest, githubToken);
-        break;
-      case 'generate':
-        response = await handleGenerateMode(runRequest);
-        break;
-      case 'audit':
-        response = await handleAuditMode(runRequest);
-        break;
-      default:
-        logger.error(`Unsupported mode: ${runRequest.mode}`, 'VALIDATION_ERROR');
-        logger.complete(400, 'VALIDATION_ERROR');
-        return apiErrorResponse(
-          'VALIDATION_ERROR',
-          `Unsupported mode: ${runRequest.mode}`,
-          400,
-          requestId
-        );
-    }
+    const response = await executeRun(runRequest, githubToken);
 
     // Add usage info and requestId to successful response
     const responseWithUsage: RunResponseWithUsage & { requestId: string } = {
@@ -2481,3 +3518,4 @@ export default {
  * Re-export Durable Object for Cloudflare binding.
  */
 export { RateLimiterDO } from './doRateLimiter';
+export { JobRunnerDO } from './doJobRunner';